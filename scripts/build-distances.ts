@@ -0,0 +1,73 @@
+/**
+ * scripts/build-distances.ts
+ *
+ * Offline generator for the driving-distance matrix (src/utils/distances.json).
+ *
+ * Usage:
+ *   npm run build:distances         # rebuild distances.json and print the coverage report
+ *   npm run build:distances:check   # exit 1 when distances.json is outdated
+ *
+ * Notes:
+ * - Distances come from the road graph in src/utils/roadRouting.ts (regional winding factors,
+ *   sea crossings and border rules); see src/utils/distanceMatrix.ts for the file format.
+ * - Rebuild after changing cityCoords or the road graph rules (and bump ROAD_GRAPH_VERSION).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { buildDistanceMatrix, isCurrentMatrix, DistanceMatrixFile, MAX_MATRIX_KM } from '../src/utils/distanceMatrix';
+
+const OUTPUT = path.join(__dirname, '..', 'src', 'utils', 'distances.json');
+
+/**
+ * @description Serialize the matrix with one row per line (readable diffs, compact file).
+ */
+function serialize(file: DistanceMatrixFile): string {
+  const head = {
+    version: file.version,
+    graphVersion: file.graphVersion,
+    generatedAt: file.generatedAt,
+    cities: file.cities
+  };
+  const rows = file.rows.map((row) => JSON.stringify(row)).join(',\n');
+  return `${JSON.stringify(head).slice(0, -1)},"rows":[\n${rows}\n]}\n`;
+}
+
+/**
+ * @description Read the current distances.json (null when missing or unreadable).
+ */
+function readExisting(): any {
+  try {
+    return JSON.parse(fs.readFileSync(OUTPUT, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function main() {
+  const { file, report } = buildDistanceMatrix();
+
+  if (process.argv.includes('--check')) {
+    const existing = readExisting();
+    const current =
+      isCurrentMatrix(existing) &&
+      JSON.stringify(existing.cities) === JSON.stringify(file.cities) &&
+      JSON.stringify(existing.rows) === JSON.stringify(file.rows);
+    console.log(current ? 'distances.json is up to date' : 'distances.json is outdated: run npm run build:distances');
+    process.exit(current ? 0 : 1);
+  }
+
+  fs.writeFileSync(OUTPUT, serialize(file));
+
+  const pct = (n: number) => `${((n / Math.max(1, report.pairs)) * 100).toFixed(1)}%`;
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)} (format v${file.version}, road graph v${file.graphVersion})`);
+  console.log(`Cities: ${report.cities}, pairs: ${report.pairs}`);
+  console.log(`Covered: ${report.covered} (${pct(report.covered)})`);
+  console.log(`Over ${MAX_MATRIX_KM} km: ${report.overMaxKm} (${pct(report.overMaxKm)})`);
+  console.log(`Unreachable by road: ${report.unreachable} (${pct(report.unreachable)})`);
+  report.isolatedGroups.forEach((group) => {
+    console.log(`Coverage gap: ${group.length} cities cut off from the road network: ${group.join(', ')}`);
+  });
+}
+
+main();
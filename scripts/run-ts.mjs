@@ -0,0 +1,34 @@
+import * as esbuild from 'esbuild'
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Run a TypeScript node script with the repo's esbuild: bundle it next to the entry (so
+ * __dirname stays the same), run it with the remaining arguments and remove the bundle.
+ *
+ * Usage: node scripts/run-ts.mjs <script.ts> [args...]
+ */
+const [entry, ...args] = process.argv.slice(2)
+if (!entry) {
+  console.error('Usage: node scripts/run-ts.mjs <script.ts> [args...]')
+  process.exit(1)
+}
+
+const outfile = path.join(path.dirname(entry), `.${path.basename(entry, path.extname(entry))}.cjs`)
+
+await esbuild.build({
+  entryPoints: [entry],
+  outfile,
+  bundle: true,
+  platform: 'node',
+  format: 'cjs',
+  logLevel: 'error',
+})
+
+try {
+  const result = spawnSync(process.execPath, [outfile, ...args], { stdio: 'inherit' })
+  process.exitCode = result.status ?? 1
+} finally {
+  fs.rmSync(outfile, { force: true })
+}
@@ -0,0 +1,219 @@
+/**
+ * BankingPanel.tsx
+ *
+ * File-level:
+ * Banking section of the Finances page.
+ *
+ * Purpose:
+ * - Show the bank's offer (loan limit, credit line limit, rates per term) and the outstanding
+ *   debt with arrears.
+ * - Take term loans, repay them early, open the credit line and draw or repay it through the
+ *   GameContext banking actions (see companyBanking).
+ *
+ * Notes:
+ * - Offer and debt are recomputed from the company on every change; nothing is stored here.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Landmark, AlertTriangle } from 'lucide-react';
+import { useGame } from '../../contexts/GameContext';
+import { companyBanking, LOAN_TERMS, MIN_LOAN, FREEZE_AFTER } from '../../utils/companyBanking';
+import type { Loan } from '../../types/game';
+
+/**
+ * BankingPanel
+ * @description Loans and credit line of the current company.
+ */
+const BankingPanel: React.FC = () => {
+  const { gameState, takeLoan, repayLoan, openCreditLine, drawCredit, repayCredit } = useGame();
+  const company = gameState.company;
+  const [amount, setAmount] = useState<number>(MIN_LOAN);
+  const [term, setTerm] = useState<number>(LOAN_TERMS[1]);
+  const [creditAmount, setCreditAmount] = useState<number>(MIN_LOAN);
+  const [message, setMessage] = useState<{ success: boolean; message: string } | null>(null);
+
+  const offer = useMemo(() => companyBanking.offer(company), [company]);
+  const debt = useMemo(() => companyBanking.debt(company), [company]);
+  const quote = companyBanking.quote(company, amount, term);
+  const loans: Loan[] = (company?.loans || []).filter((l: Loan) => l.status === 'active');
+  const line = company?.creditLine;
+
+  if (!company) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+      <h2 className="text-lg font-bold text-white mb-4 flex items-center space-x-2">
+        <Landmark className="w-5 h-5 text-blue-400" />
+        <span>Banking</span>
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-6">
+        <div className="bg-slate-700/50 rounded p-3">
+          <div className="text-xs text-slate-400">Outstanding debt</div>
+          <div className="text-white font-semibold">${debt.total.toLocaleString()}</div>
+        </div>
+        <div className="bg-slate-700/50 rounded p-3">
+          <div className="text-xs text-slate-400">Arrears</div>
+          <div className={`font-semibold ${debt.arrears > 0 ? 'text-red-400' : 'text-white'}`}>${debt.arrears.toLocaleString()}</div>
+        </div>
+        <div className="bg-slate-700/50 rounded p-3">
+          <div className="text-xs text-slate-400">Loan available</div>
+          <div className="text-white font-semibold">${offer.loanLimit.toLocaleString()}</div>
+        </div>
+        <div className="bg-slate-700/50 rounded p-3">
+          <div className="text-xs text-slate-400">Payment history</div>
+          <div className={`font-semibold ${offer.historyFactor >= 1 ? 'text-green-400' : 'text-yellow-400'}`}>×{offer.historyFactor.toFixed(2)}</div>
+        </div>
+      </div>
+
+      {debt.arrears > 0 && (
+        <div className="flex items-start gap-2 text-xs text-rose-400 mb-4">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          <span>Missed payments are charged a late fee and a higher rate until the arrears are paid, and lower your borrowing limits.</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Term loan */}
+        <div className="space-y-2 text-sm">
+          <div className="text-xs uppercase tracking-wide text-slate-400">Term loan</div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={MIN_LOAN}
+              max={offer.loanLimit}
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value))}
+              className="flex-1 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white"
+              aria-label="Loan amount"
+            />
+            <select
+              value={term}
+              onChange={(e) => setTerm(Number(e.target.value))}
+              className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white"
+              aria-label="Loan term"
+            >
+              {LOAN_TERMS.map((t) => (
+                <option key={t} value={t}>{t} months · {(offer.loanRates[t] * 100).toFixed(1)}%</option>
+              ))}
+            </select>
+          </div>
+          {quote && (
+            <div className="text-xs text-slate-400">
+              ${quote.instalment.toLocaleString()} per month · ${quote.totalInterest.toLocaleString()} interest over the term
+            </div>
+          )}
+          <button
+            onClick={() => setMessage(takeLoan(amount, term))}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded"
+          >
+            Take Loan
+          </button>
+        </div>
+
+        {/* Credit line */}
+        <div className="space-y-2 text-sm">
+          <div className="text-xs uppercase tracking-wide text-slate-400">Credit line</div>
+          {line ? (
+            <>
+              <div className="flex justify-between text-slate-300">
+                <span>Drawn / limit</span>
+                <span>${line.drawn.toLocaleString()} / ${line.limit.toLocaleString()} · {(line.annualRate * 100).toFixed(1)}%</span>
+              </div>
+              {line.arrears > 0 && (
+                <div className="flex justify-between text-red-400">
+                  <span>Arrears ({line.missedPayments} missed)</span>
+                  <span>${line.arrears.toLocaleString()}</span>
+                </div>
+              )}
+              {line.frozen && (
+                <div className="text-xs text-rose-400">Frozen after {FREEZE_AFTER} missed payments until the arrears are paid.</div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={creditAmount}
+                  onChange={(e) => setCreditAmount(Number(e.target.value))}
+                  className="flex-1 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white"
+                  aria-label="Credit amount"
+                />
+                <button
+                  onClick={() => setMessage(drawCredit(creditAmount))}
+                  disabled={line.frozen}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1.5 rounded"
+                >
+                  Draw
+                </button>
+                <button
+                  onClick={() => setMessage(repayCredit(creditAmount))}
+                  className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded"
+                >
+                  Repay
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="text-slate-300">
+                Up to ${offer.creditLineLimit.toLocaleString()} at {(offer.creditLineRate * 100).toFixed(1)}%, interest charged monthly on the drawn amount.
+              </div>
+              <button
+                onClick={() => setMessage(openCreditLine())}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded"
+              >
+                Open Credit Line
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mt-4 text-xs ${message.success ? 'text-green-400' : 'text-rose-400'}`}>{message.message}</div>
+      )}
+
+      {loans.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="py-2">Taken</th>
+                <th className="py-2 text-right">Principal</th>
+                <th className="py-2 text-right">Rate</th>
+                <th className="py-2 text-right">Instalment</th>
+                <th className="py-2 text-right">Paid</th>
+                <th className="py-2 text-right">Outstanding</th>
+                <th className="py-2 text-right">Arrears</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {loans.map((loan) => (
+                <tr key={loan.id} className="border-t border-slate-700 text-slate-300">
+                  <td className="py-2">{new Date(loan.takenAt).toLocaleDateString()}</td>
+                  <td className="py-2 text-right">${loan.principal.toLocaleString()}</td>
+                  <td className="py-2 text-right">{(loan.annualRate * 100).toFixed(1)}%</td>
+                  <td className="py-2 text-right">${loan.instalment.toLocaleString()}</td>
+                  <td className="py-2 text-right">{loan.billedInstalments}/{loan.termMonths}</td>
+                  <td className="py-2 text-right font-medium text-white">${loan.outstanding.toLocaleString()}</td>
+                  <td className={`py-2 text-right ${loan.arrears > 0 ? 'text-red-400' : ''}`}>${loan.arrears.toLocaleString()}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => setMessage(repayLoan(loan.id))}
+                      className="bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded text-xs"
+                    >
+                      Repay
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankingPanel;
@@ -0,0 +1,107 @@
+/**
+ * LeaseInfo.tsx
+ *
+ * Lease strip for leased trucks and trailers in the fleet sections.
+ *
+ * Responsibilities:
+ * - Mark the vehicle as leased and show the monthly rate, months left and next charge.
+ * - Warn about missed payments (the lessor repossesses after vehicleLeasing.REPOSSESS_AFTER).
+ * - Offer the lease actions: return (with the early-termination fee before the end of the
+ *   term) and, once the term has ended, buy-out at the residual value.
+ *
+ * Note: renders nothing for owned vehicles.
+ */
+
+import React, { useState } from 'react';
+import { FileText, RotateCcw, DollarSign, AlertTriangle } from 'lucide-react';
+import { vehicleLeasing, REPOSSESS_AFTER } from '../../utils/vehicleLeasing';
+
+/**
+ * Props
+ * @description Vehicle and the lease actions (buttons are hidden when omitted).
+ */
+interface Props {
+  vehicle: any;
+  onReturn?: (vehicleId: string) => { success: boolean; message: string };
+  onBuyOut?: (vehicleId: string) => { success: boolean; message: string };
+}
+
+/**
+ * LeaseInfo
+ * @description Leased badge, contract figures and return / buy-out actions.
+ */
+const LeaseInfo: React.FC<Props> = ({ vehicle, onReturn, onBuyOut }) => {
+  const [error, setError] = useState<string | null>(null);
+  const status = vehicleLeasing.status(vehicle);
+  if (!status) return null;
+  const { lease } = status;
+
+  /**
+   * run
+   * @description Run a lease action and keep its error message.
+   */
+  const run = (action?: (vehicleId: string) => { success: boolean; message: string }) => {
+    if (!action) return;
+    const result = action(String(vehicle.id));
+    setError(result.success ? null : result.message);
+  };
+
+  return (
+    <div className="mt-2 text-xs space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded bg-sky-400/10 text-sky-400 font-medium">
+          <FileText className="w-3 h-3" />
+          <span>Leased</span>
+        </span>
+        <span className="text-slate-300">${lease.monthlyRate.toLocaleString()}/month</span>
+        {status.ended ? (
+          <span className="text-yellow-400">
+            Term ended · return or buy out by {status.returnBy ? new Date(status.returnBy).toLocaleString() : '—'}
+          </span>
+        ) : (
+          <span className="text-slate-400">
+            {status.monthsLeft} of {lease.termMonths} months left
+            {lease.nextChargeAt ? ` · next charge ${new Date(lease.nextChargeAt).toLocaleString()}` : ` · ends ${new Date(lease.endsAt).toLocaleString()}`}
+          </span>
+        )}
+      </div>
+
+      {lease.arrears > 0 && (
+        <div className="flex items-center space-x-1 text-rose-400">
+          <AlertTriangle className="w-3 h-3" />
+          <span>
+            ${lease.arrears.toLocaleString()} in arrears · {lease.missedPayments} of {REPOSSESS_AFTER} missed payments before repossession
+          </span>
+        </div>
+      )}
+
+      {(onReturn || onBuyOut) && (
+        <div className="flex items-center gap-2">
+          {onReturn && (
+            <button
+              onClick={() => run(onReturn)}
+              className="inline-flex items-center space-x-1 bg-slate-600 hover:bg-slate-500 text-white px-2 py-1 rounded"
+              title={status.ended ? 'Hand the vehicle back' : 'Early-termination fee for the remaining months'}
+            >
+              <RotateCcw className="w-3 h-3" />
+              <span>Return{status.returnCost > 0 ? ` ($${status.returnCost.toLocaleString()})` : ''}</span>
+            </button>
+          )}
+          {onBuyOut && status.buyoutCost !== null && (
+            <button
+              onClick={() => run(onBuyOut)}
+              className="inline-flex items-center space-x-1 bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded"
+            >
+              <DollarSign className="w-3 h-3" />
+              <span>Buy out (${status.buyoutCost.toLocaleString()})</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <div className="text-rose-400">{error}</div>}
+    </div>
+  );
+};
+
+export default LeaseInfo;
@@ -0,0 +1,163 @@
+/**
+ * MaintenanceDialog.tsx
+ *
+ * File-level:
+ * Modal used by the Truck Fleet to send a truck to the workshop.
+ *
+ * Purpose:
+ * - Let the user assign mechanics and see how they change the service cost and duration.
+ * - Confirm the quote; scheduling and charging happen in the parent through onConfirm.
+ *
+ * Notes:
+ * - The base estimate is taken once per opened truck so the quoted duration does not change
+ *   while mechanics are toggled.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Wrench, X, AlertTriangle } from 'lucide-react';
+import { maintenanceScheduler, MaintenanceQuote } from '../../utils/maintenanceScheduler';
+
+export interface MaintenanceDialogProps {
+  /** Whether modal is visible */
+  open: boolean;
+  /** Company used for mechanics and the quote */
+  company: any;
+  /** Truck to service */
+  truck: any | null;
+  /** Called with the confirmed quote; returns an error message or null on success */
+  onConfirm: (quote: MaintenanceQuote) => string | null;
+  /** Called when user cancels / closes */
+  onCancel: () => void;
+}
+
+/**
+ * MaintenanceDialog
+ * @description Mechanic selection and quote for a truck service.
+ */
+const MaintenanceDialog: React.FC<MaintenanceDialogProps> = ({ open, company, truck, onConfirm, onCancel }) => {
+  const [mechanicIds, setMechanicIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever another truck is opened
+  useEffect(() => {
+    setMechanicIds([]);
+    setError(null);
+  }, [truck?.id, open]);
+
+  const mechanics: any[] = (Array.isArray(company?.staff) ? company.staff : []).filter((s: any) => s?.role === 'mechanic');
+  const base = useMemo(() => (truck ? maintenanceScheduler.quote(company, truck) : null), [truck?.id, open]);
+  const quote: MaintenanceQuote | null = useMemo(() => {
+    if (!base || !truck) return null;
+    const reductions = maintenanceScheduler.mechanicReductions(mechanics.filter((m) => mechanicIds.includes(String(m.id))));
+    return {
+      ...base,
+      ...reductions,
+      cost: Math.round(base.baseCost * (1 - reductions.costReduction)),
+      durationDays: Number((base.baseDurationDays * (1 - reductions.timeReduction)).toFixed(2)),
+      mechanicIds
+    };
+  }, [base, mechanicIds, company]);
+
+  if (!open || !truck || !quote) return null;
+
+  const toggle = (id: string) => {
+    setError(null);
+    setMechanicIds((prev) => (prev.includes(id) ? prev.filter((m) => m !== id) : [...prev, id]));
+  };
+
+  const handleConfirm = () => {
+    setError(onConfirm(quote));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Schedule Maintenance"
+    >
+      <div className="absolute inset-0 bg-black/60" onClick={onCancel} aria-hidden />
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <Wrench className="w-5 h-5 text-orange-400" />
+            <div>
+              <h3 className="text-sm font-medium text-white">Schedule Maintenance</h3>
+              <div className="text-xs text-slate-400">
+                {`${truck.brand ?? ''} ${truck.model ?? ''}`.trim() || truck.id} · {typeof truck.condition === 'number' ? `${truck.condition}%` : '—'} condition
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-slate-700 text-slate-300"
+            aria-label="Close"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Mechanics</div>
+            {mechanics.length === 0 ? (
+              <div className="text-xs text-slate-500">No mechanics employed. The service uses the standard workshop rate.</div>
+            ) : (
+              <ul className="space-y-1">
+                {mechanics.map((m) => (
+                  <li key={m.id}>
+                    <label className="flex items-center gap-2 text-sm text-slate-200">
+                      <input type="checkbox" checked={mechanicIds.includes(String(m.id))} onChange={() => toggle(String(m.id))} />
+                      <span>{m.name}</span>
+                      {Array.isArray(m.skills) && m.skills.length > 0 && (
+                        <span className="text-xs text-slate-500">{m.skills.join(', ')}</span>
+                      )}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="bg-slate-700/50 rounded p-2">
+              <div className="text-xs text-slate-400">Cost</div>
+              <div className="text-white font-medium">${quote.cost.toLocaleString()}</div>
+              {quote.costReduction > 0 && <div className="text-xs text-green-400">-{Math.round(quote.costReduction * 100)}%</div>}
+            </div>
+            <div className="bg-slate-700/50 rounded p-2">
+              <div className="text-xs text-slate-400">Duration</div>
+              <div className="text-white font-medium">{quote.durationDays} days</div>
+              {quote.timeReduction > 0 && <div className="text-xs text-green-400">-{Math.round(quote.timeReduction * 100)}%</div>}
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-rose-400">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 pt-2">
+            <button
+              onClick={handleConfirm}
+              className="flex-1 bg-orange-600 hover:bg-orange-700 text-white py-2 rounded text-sm"
+            >
+              Send to Workshop
+            </button>
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 text-white py-2 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceDialog;
@@ -26,6 +26,7 @@ import TrailerCard from './TrailerCard';
 import VehicleSpecsSelector from '../market/VehicleSpecsSelector';
 import TrailerTechnicalSpecs from '../trailer/TrailerTechnicalSpecs';
 import { isTrailer } from '../../utils/vehicleTypeUtils';
+import { postTransaction, LEDGER_CATEGORIES } from '../../utils/companyLedger';
 
 /**
  * Minimal normalized shape for deliveries used in this component.
@@ -205,8 +206,35 @@ const PurchasedDeliveriesBox: React.FC<Props> = ({ deliveries: deliveriesProp =
         }
       }
 
-      // Company trucks / trailers that are in transit
+      // Company delivery queue (vehiclePurchaseService); the vehicle is in `spec`, the charged price in `price`
       const company = (gameState?.company ?? {}) as any;
+      if (Array.isArray(company?.incomingDeliveries)) {
+        for (const d of company.incomingDeliveries) {
+          const spec = d?.spec ?? {};
+          if (!d?.id) continue;
+          map.set(String(d.id), {
+            id: String(d.id),
+            brand: spec.brand ?? spec.marketEntry?.brand,
+            model: spec.model ?? spec.marketEntry?.model,
+            year: spec.year,
+            condition: spec.condition,
+            capacity: spec.capacity ?? spec.specifications?.capacity,
+            tonnage: spec.tonnage ?? spec.marketEntry?.tonnage,
+            purchasePrice: d.price ?? spec.purchasePrice,
+            location: spec.deliveryHub?.name ?? d.metadata?.hub?.name ?? spec.location,
+            deliveryEta: d.deliveryEta ?? null,
+            deliveryDays: d.metadata?.deliveryDays ?? null,
+            deliveryHub: spec.deliveryHub ?? d.metadata?.hub ?? null,
+            status: 'in-transit',
+            specifications: spec.specifications ?? null,
+            marketEntry: spec.marketEntry ?? spec,
+            vehicleKind: d.type ?? spec.vehicleKind,
+            __source: 'company.incomingDeliveries',
+          });
+        }
+      }
+
+      // Company trucks / trailers that are in transit
       if (Array.isArray(company?.trucks)) {
         for (const t of company.trucks) {
           const hasTransit = (String(t.status || '').toLowerCase() === 'in-transit') || !!t.deliveryEta || !!t.deliveryDays;
@@ -362,7 +390,7 @@ const PurchasedDeliveriesBox: React.FC<Props> = ({ deliveries: deliveriesProp =
       // Determine refund amount
       const refundAmount = Number(item.purchasePrice ?? item.marketEntry?.price ?? 0);
 
-      const updatedCompany: any = { ...company };
+      let updatedCompany: any = { ...company };
 
       // Remove from trucks/trailers arrays and any incoming arrays on company
       updatedCompany.trucks = removeById(updatedCompany.trucks, item.id);
@@ -388,9 +416,14 @@ const PurchasedDeliveriesBox: React.FC<Props> = ({ deliveries: deliveriesProp =
         // ignore
       }
 
-      // Apply refund (100% of purchasePrice)
-      const currentCapital = Number(updatedCompany.capital ?? 0);
-      updatedCompany.capital = currentCapital + refundAmount;
+      // Apply refund (100% of purchasePrice) and record it in the ledger
+      updatedCompany = postTransaction(updatedCompany, {
+        type: 'income',
+        category: LEDGER_CATEGORIES.VEHICLE_REFUND,
+        amount: refundAmount,
+        description: `Cancelled delivery refund: ${[item.brand, item.model].filter(Boolean).join(' ') || item.id}`,
+        reference: String(item.id),
+      });
 
       // Persist using createCompany exposed by GameContext
       try {
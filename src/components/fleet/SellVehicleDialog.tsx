@@ -0,0 +1,149 @@
+/**
+ * SellVehicleDialog.tsx
+ *
+ * File-level:
+ * Modal used by the Truck and Trailer fleets to sell a vehicle.
+ *
+ * Purpose:
+ * - Show the value of the vehicle (see vehicleResale.value) and the dealer's trade-in offer.
+ * - Sell at once to the dealer, or list the vehicle on the used market at an asking price.
+ *   Selling happens in the parent through onTradeIn / onList.
+ *
+ * Notes:
+ * - The asking price starts at the value and must stay within ASKING_PRICE_RANGE of it.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DollarSign, X, AlertTriangle } from 'lucide-react';
+import { vehicleResale, ASKING_PRICE_RANGE, TRADE_IN_SHARE } from '../../utils/vehicleResale';
+
+export interface SellVehicleDialogProps {
+  /** Whether modal is visible */
+  open: boolean;
+  /** Vehicle to sell */
+  vehicle: any | null;
+  /** Sell to the dealer; returns an error message or null on success */
+  onTradeIn: () => string | null;
+  /** List on the used market at the asking price; returns an error message or null on success */
+  onList: (askingPrice: number) => string | null;
+  /** Called when user cancels / closes */
+  onCancel: () => void;
+}
+
+/**
+ * SellVehicleDialog
+ * @description Valuation, trade-in and used-market listing of a fleet vehicle.
+ */
+const SellVehicleDialog: React.FC<SellVehicleDialogProps> = ({ open, vehicle, onTradeIn, onList, onCancel }) => {
+  const value = vehicle ? vehicleResale.value(vehicle) : 0;
+  const [askingPrice, setAskingPrice] = useState<number>(value);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever another vehicle is opened
+  useEffect(() => {
+    setAskingPrice(value);
+    setError(null);
+  }, [vehicle?.id, open]);
+
+  if (!open || !vehicle) return null;
+
+  const tradeIn = vehicleResale.tradeInValue(vehicle);
+  const [low, high] = ASKING_PRICE_RANGE.map((share) => Math.round(value * share));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Sell Vehicle"
+    >
+      <div className="absolute inset-0 bg-black/60" onClick={onCancel} aria-hidden />
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <DollarSign className="w-5 h-5 text-green-400" />
+            <div>
+              <h3 className="text-sm font-medium text-white">Sell Vehicle</h3>
+              <div className="text-xs text-slate-400">
+                {`${vehicle.brand ?? ''} ${vehicle.model ?? ''}`.trim() || vehicle.id} · {vehicle.year ?? '—'}
+                {typeof vehicle.mileage === 'number' ? ` · ${vehicle.mileage.toLocaleString()} km` : ''}
+                {typeof vehicle.condition === 'number' ? ` · ${vehicle.condition}% condition` : ''}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-slate-700 text-slate-300"
+            aria-label="Close"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="bg-slate-700/50 rounded p-2">
+              <div className="text-xs text-slate-400">Market value</div>
+              <div className="text-white font-medium">${value.toLocaleString()}</div>
+              <div className="text-xs text-slate-500">Reliability {vehicleResale.brandGrade(vehicle)}</div>
+            </div>
+            <div className="bg-slate-700/50 rounded p-2">
+              <div className="text-xs text-slate-400">Dealer trade-in</div>
+              <div className="text-white font-medium">${tradeIn.toLocaleString()}</div>
+              <div className="text-xs text-slate-500">{Math.round(TRADE_IN_SHARE * 100)}% of value, paid now</div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">
+              Asking price on the used market (${low.toLocaleString()} – ${high.toLocaleString()})
+            </label>
+            <input
+              type="number"
+              min={low}
+              max={high}
+              value={askingPrice}
+              onChange={(e) => {
+                setError(null);
+                setAskingPrice(Number(e.target.value));
+              }}
+              className="w-full bg-slate-700 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+            />
+            <div className="text-xs text-slate-500 mt-1">Paid when another company buys it; you can withdraw the listing until then.</div>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-rose-400">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 pt-2">
+            <button
+              onClick={() => setError(onTradeIn())}
+              className="flex-1 bg-rose-600 hover:bg-rose-700 text-white py-2 rounded text-sm"
+            >
+              Sell to Dealer
+            </button>
+            <button
+              onClick={() => setError(onList(askingPrice))}
+              className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 rounded text-sm"
+            >
+              List for Sale
+            </button>
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 text-white py-2 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SellVehicleDialog;
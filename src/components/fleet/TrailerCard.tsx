@@ -8,6 +8,7 @@
  * - Render a single trailer with a clear trailer/package emblem.
  * - Display key trailer info (brand/model/class, year, condition, assignment).
  * - Provide a sell action callback.
+ * - Mark leased trailers with their lease actions (see LeaseInfo); leased trailers cannot be sold.
  *
  * Behaviour extension:
  * - When this component is rendered inside a popup/modal (dialog), it will
@@ -17,6 +18,8 @@
 
 import React from 'react';
 import { Package, Trash2, MapPin } from 'lucide-react';
+import { vehicleLeasing } from '../../utils/vehicleLeasing';
+import LeaseInfo from './LeaseInfo';
 
 /**
  * TrailerCardData
@@ -45,6 +48,9 @@ interface Props {
   trailer: TrailerCardData;
   isAssigned?: boolean;
   onSell: (trailerId: string) => void;
+  /** Lease actions for leased trailers (see LeaseInfo) */
+  onReturnLease?: (trailerId: string) => { success: boolean; message: string };
+  onBuyOutLease?: (trailerId: string) => { success: boolean; message: string };
 }
 
 /**
@@ -98,7 +104,7 @@ function isRenderedInsideDialog(el: HTMLElement | null): boolean {
  * @param {Props} props Component props
  * @returns React.ReactElement | null
  */
-const TrailerCard: React.FC<Props> = ({ trailer, isAssigned = false, onSell }) => {
+const TrailerCard: React.FC<Props> = ({ trailer, isAssigned = false, onSell, onReturnLease, onBuyOutLease }) => {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
 
   /**
@@ -160,18 +166,22 @@ const TrailerCard: React.FC<Props> = ({ trailer, isAssigned = false, onSell }) =
             <div>{condition} condition</div>
             {isAssigned && <div className="px-2 py-0.5 rounded bg-amber-400/10 text-amber-400 text-xs">Assigned</div>}
           </div>
+
+          <LeaseInfo vehicle={trailer} onReturn={onReturnLease} onBuyOut={onBuyOutLease} />
         </div>
       </div>
 
       <div className="flex flex-col items-end space-y-2">
         <div className="text-sm text-slate-300">{trailer.year ?? '-'}</div>
-        <button
-          onClick={() => handleSell(trailer.id)}
-          className="inline-flex items-center space-x-2 bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-md text-xs transition-colors"
-        >
-          <Trash2 className="w-3 h-3" />
-          <span>Sell</span>
-        </button>
+        {!vehicleLeasing.isLeased(trailer) && (
+          <button
+            onClick={() => handleSell(trailer.id)}
+            className="inline-flex items-center space-x-2 bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-md text-xs transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Sell</span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -9,6 +9,8 @@
  * - Build a set of incoming IDs (from incoming arrays and transit-marked trucks/trailers).
  * - Render only trailers that are not present in incoming set by default.
  * - Optionally render market-style cards inside the Garage when explicitly allowed.
+ * - Mark leased trailers and offer their return / buy-out (see vehicleLeasing).
+ * - Sell owned trailers to the dealer or list them on the used market through SellVehicleDialog.
  *
  * Note:
  * - To reliably react to the Garage's opt-in, this component listens for a
@@ -19,10 +21,13 @@
 import React from 'react';
 import SectionHeader from './SectionHeader';
 import TrailerCard, { TrailerCardData } from './TrailerCard';
-import { Package as PackageIcon } from 'lucide-react';
+import { Package as PackageIcon, Trash2 } from 'lucide-react';
 import { useGame } from '../../contexts/GameContext';
 import { isTrailer, extractTrailerClass, isIncoming } from '../../utils/vehicleTypeUtils';
 import TruckCardMarket from '../market/TruckCard';
+import LeaseInfo from './LeaseInfo';
+import SellVehicleDialog from './SellVehicleDialog';
+import { vehicleLeasing } from '../../utils/vehicleLeasing';
 import { useLocation } from 'react-router';
 
 /**
@@ -84,11 +89,19 @@ const TrailerSection: React.FC<Props> = ({
 }) => {
   // Safely access GameContext
   let gameState: any = undefined;
+  let returnLeasedVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let buyOutLeasedVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let tradeInVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let listVehicleForSale: ((vehicleId: string, askingPrice?: number) => { success: boolean; message: string }) | undefined;
   try {
     const maybeUseGame: any = useGame;
     if (typeof maybeUseGame === 'function') {
       const ctx = maybeUseGame();
       gameState = ctx?.gameState;
+      returnLeasedVehicle = ctx?.returnLeasedVehicle;
+      buyOutLeasedVehicle = ctx?.buyOutLeasedVehicle;
+      tradeInVehicle = ctx?.tradeInVehicle;
+      listVehicleForSale = ctx?.listVehicleForSale;
     }
   } catch (err) {
     // eslint-disable-next-line no-console
@@ -269,15 +282,32 @@ const TrailerSection: React.FC<Props> = ({
     return out;
   }, [trailers, trailersFromTrucks, incomingIdSet, isGaragePage, renderOwnedAsMarket, allowMarketWhenGarageState]);
 
+  const [sellTrailerId, setSellTrailerId] = React.useState<string | null>(null);
+  const sellTrailer = merged.find((tr) => String(tr.id) === sellTrailerId) ?? null;
+
   const handleSell = (id: string) => {
     if (typeof onSellTrailer === 'function') {
       onSellTrailer(id);
+    } else if (typeof tradeInVehicle === 'function') {
+      setSellTrailerId(id);
     } else {
       // eslint-disable-next-line no-console
       console.warn('TrailerSection: onSellTrailer not provided, ignoring sell request for', id);
     }
   };
 
+  /**
+   * runSale
+   * @description Run a sale action for the trailer being sold; returns the error message or null on success.
+   */
+  const runSale = (action: (() => { success: boolean; message: string }) | null): string | null => {
+    if (!sellTrailerId || !action) return 'Selling is not available';
+    const result = action();
+    if (!result.success) return result.message;
+    setSellTrailerId(null);
+    return null;
+  };
+
   const handlePurchase = () => {
     if (typeof onPurchaseTrailer === 'function') {
       onPurchaseTrailer();
@@ -328,16 +358,45 @@ const TrailerSection: React.FC<Props> = ({
                       gcw={tr.marketEntry?.gcw ?? null}
                       // allow parent to hide specific market cards by passing hidden via existing props if needed
                     />
+                    <LeaseInfo vehicle={tr} onReturn={returnLeasedVehicle} onBuyOut={buyOutLeasedVehicle} />
+                    {!vehicleLeasing.isLeased(tr) && (
+                      <div className="flex justify-end mt-2">
+                        <button
+                          onClick={() => handleSell(tr.id)}
+                          className="inline-flex items-center space-x-2 bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-md text-xs transition-colors"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          <span>Sell</span>
+                        </button>
+                      </div>
+                    )}
                   </div>
                 );
               }
 
               // Default: render small TrailerCard
-              return <TrailerCard key={tr.id} trailer={tr} isAssigned={isAssigned} onSell={handleSell} />;
+              return (
+                <TrailerCard
+                  key={tr.id}
+                  trailer={tr}
+                  isAssigned={isAssigned}
+                  onSell={handleSell}
+                  onReturnLease={returnLeasedVehicle}
+                  onBuyOutLease={buyOutLeasedVehicle}
+                />
+              );
             })}
           </div>
         )}
       </div>
+
+      <SellVehicleDialog
+        open={sellTrailer !== null}
+        vehicle={sellTrailer}
+        onTradeIn={() => runSale(tradeInVehicle && sellTrailerId ? () => tradeInVehicle!(sellTrailerId) : null)}
+        onList={(price) => runSale(listVehicleForSale && sellTrailerId ? () => listVehicleForSale!(sellTrailerId, price) : null)}
+        onCancel={() => setSellTrailerId(null)}
+      />
     </section>
   );
 };
@@ -7,12 +7,19 @@
  * - Render a single truck with icon, key info, assignment and actions.
  * - Display an "Available in:" prefix before the calendar/time availability label.
  * - Provide a sell action callback.
+ * - Show the truck's incident history (see incidentResolutionEngine).
+ * - Show workshop status / service reminders and offer a service action (see maintenanceScheduler).
+ * - Mark leased trucks with their lease actions (see LeaseInfo); leased trucks cannot be sold.
  *
  * Note: This component is intentionally compact and typed to match TruckSection usage.
  */
 
-import React from 'react';
-import { Truck as TruckIcon, Trash2, MapPin, Calendar, Star, Package } from 'lucide-react';
+import React, { useState } from 'react';
+import { Truck as TruckIcon, Trash2, MapPin, Calendar, Star, Package, AlertTriangle, Wrench } from 'lucide-react';
+import { RESOLUTIONS, IncidentRecord } from '../../utils/incidentResolutionEngine';
+import { maintenanceScheduler } from '../../utils/maintenanceScheduler';
+import { vehicleLeasing } from '../../utils/vehicleLeasing';
+import LeaseInfo from './LeaseInfo';
 
 /**
  * TruckCardData
@@ -32,6 +39,7 @@ export interface TruckCardData {
   deliveryEta?: string | null;
   availableInDays?: number | string | null; // prefer this when available
   availableIn?: string | null; // alternate field name
+  incidents?: IncidentRecord[]; // oldest first
   [key: string]: any;
 }
 
@@ -43,6 +51,11 @@ interface Props {
   truck: TruckCardData;
   assignedTrailerLabel?: string | null;
   onSell: (truckId: string) => void;
+  /** Open the maintenance dialog; the service button is hidden when omitted */
+  onService?: (truckId: string) => void;
+  /** Lease actions for leased trucks (see LeaseInfo) */
+  onReturnLease?: (truckId: string) => { success: boolean; message: string };
+  onBuyOutLease?: (truckId: string) => { success: boolean; message: string };
 }
 
 /**
@@ -54,11 +67,15 @@ interface Props {
  * @param {Props} props Component props
  * @returns React.ReactElement
  */
-const TruckCard: React.FC<Props> = ({ truck, assignedTrailerLabel = null, onSell }) => {
+const TruckCard: React.FC<Props> = ({ truck, assignedTrailerLabel = null, onSell, onService, onReturnLease, onBuyOutLease }) => {
   const title = truck.brand ?? truck.model ?? 'Truck';
   const subtitle = truck.model ?? truck.brand ?? '';
   const capacity = truck.capacity ?? truck.tonnage ?? null;
   const condition = typeof truck.condition === 'number' ? `${truck.condition}%` : '—';
+  const incidents: IncidentRecord[] = Array.isArray(truck.incidents) ? [...truck.incidents].reverse() : [];
+  const [showIncidents, setShowIncidents] = useState(false);
+  const inWorkshop = maintenanceScheduler.isInMaintenance(truck);
+  const reminder = maintenanceScheduler.reminder(truck);
 
   const hub =
     typeof truck.deliveryHub === 'string'
@@ -123,19 +140,78 @@ const TruckCard: React.FC<Props> = ({ truck, assignedTrailerLabel = null, onSell
                 {assignedTrailerLabel}
               </div>
             )}
+
+            {inWorkshop && (
+              <div className="inline-flex items-center space-x-1 px-2 py-0.5 rounded bg-orange-400/10 text-orange-400">
+                <Wrench className="w-3 h-3" />
+                <span>
+                  In workshop{truck.maintenance?.until ? ` until ${new Date(truck.maintenance.until).toLocaleString()}` : ''}
+                </span>
+              </div>
+            )}
+
+            {reminder && (
+              <div
+                className={`px-2 py-0.5 rounded ${reminder.urgency === 'overdue' ? 'bg-rose-400/10 text-rose-400' : 'bg-yellow-400/10 text-yellow-400'}`}
+                title={reminder.reason}
+              >
+                Service {reminder.urgency}
+              </div>
+            )}
+
+            {incidents.length > 0 && (
+              <button
+                onClick={() => setShowIncidents(!showIncidents)}
+                className="inline-flex items-center space-x-1 text-rose-400 hover:text-rose-300"
+              >
+                <AlertTriangle className="w-3 h-3" />
+                <span>{incidents.length} incident{incidents.length === 1 ? '' : 's'}</span>
+              </button>
+            )}
           </div>
+
+          <LeaseInfo vehicle={truck} onReturn={onReturnLease} onBuyOut={onBuyOutLease} />
+
+          {showIncidents && (
+            <ul className="mt-2 space-y-1 text-xs">
+              {incidents.map((incident) => (
+                <li key={incident.id} className="text-slate-400">
+                  <span className="text-slate-300">{new Date(incident.date).toLocaleDateString()}</span>
+                  {' · '}
+                  <span className="capitalize">{incident.type}</span> (severity {incident.severity})
+                  {' · '}
+                  {RESOLUTIONS[incident.resolution]?.label ?? incident.resolution}, {incident.delayHours}h delay
+                  {' · '}
+                  <span className="text-rose-400">${(incident.repairCost + incident.claimAmount).toLocaleString()}</span>
+                  {incident.cargoDamage > 0 && <span> · {incident.cargoDamage}% cargo damaged</span>}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
       <div className="flex flex-col items-end space-y-2">
         <div className="text-sm text-slate-300">{truck.year ?? '-'}</div>
-        <button
-          onClick={() => handleSell(truck.id)}
-          className="inline-flex items-center space-x-2 bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-md text-xs transition-colors"
-        >
-          <Trash2 className="w-3 h-3" />
-          <span>Sell</span>
-        </button>
+        {onService && !inWorkshop && (
+          <button
+            onClick={() => onService(truck.id)}
+            disabled={truck.status === 'on-job'}
+            className="inline-flex items-center space-x-2 bg-orange-600 hover:bg-orange-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs transition-colors"
+          >
+            <Wrench className="w-3 h-3" />
+            <span>Service</span>
+          </button>
+        )}
+        {!vehicleLeasing.isLeased(truck) && (
+          <button
+            onClick={() => handleSell(truck.id)}
+            className="inline-flex items-center space-x-2 bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-md text-xs transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Sell</span>
+          </button>
+        )}
       </div>
     </div>
   );
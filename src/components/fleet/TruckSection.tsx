@@ -8,15 +8,21 @@
  * - Be defensive: always use arrays for trucks/trailers so .length/.map never read undefined.
  * - Ensure trailer-like items are excluded from the Truck list using the shared isTrailer heuristic.
  * - Ensure incoming / purchased items are excluded from the truck fleet until delivery completes.
+ * - List service reminders and schedule maintenance through MaintenanceDialog.
+ * - Mark leased trucks and offer their return / buy-out (see vehicleLeasing).
+ * - Sell owned trucks to the dealer or list them on the used market through SellVehicleDialog.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router';
 import SectionHeader from './SectionHeader';
 import TruckCard, { TruckCardData } from './TruckCard';
-import { Truck as TruckIcon } from 'lucide-react';
+import MaintenanceDialog from './MaintenanceDialog';
+import SellVehicleDialog from './SellVehicleDialog';
+import { Truck as TruckIcon, Wrench } from 'lucide-react';
 import { useGame } from '../../contexts/GameContext';
 import { isTrailer, isIncoming } from '../../utils/vehicleTypeUtils';
+import { maintenanceScheduler, MaintenanceQuote } from '../../utils/maintenanceScheduler';
 
 interface TrailerRef {
   id: string;
@@ -51,9 +57,16 @@ const TruckSection: React.FC<Props> = ({
   showPrimaryButton = true
 }) => {
   const navigate = useNavigate();
+  const [serviceTruckId, setServiceTruckId] = useState<string | null>(null);
+  const [sellTruckId, setSellTruckId] = useState<string | null>(null);
 
   // Safely attempt to access GameContext; if it fails we continue with undefined and fallbacks.
   let gameState: any = undefined;
+  let scheduleMaintenance: ((truckId: string, quote: MaintenanceQuote) => { success: boolean; message: string }) | undefined;
+  let returnLeasedVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let buyOutLeasedVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let tradeInVehicle: ((vehicleId: string) => { success: boolean; message: string }) | undefined;
+  let listVehicleForSale: ((vehicleId: string, askingPrice?: number) => { success: boolean; message: string }) | undefined;
   try {
     // useGame may throw during SSR/hydration; guard it.
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -61,6 +74,11 @@ const TruckSection: React.FC<Props> = ({
     if (typeof maybeUseGame === 'function') {
       const ctx = maybeUseGame();
       gameState = ctx?.gameState;
+      scheduleMaintenance = ctx?.scheduleMaintenance;
+      returnLeasedVehicle = ctx?.returnLeasedVehicle;
+      buyOutLeasedVehicle = ctx?.buyOutLeasedVehicle;
+      tradeInVehicle = ctx?.tradeInVehicle;
+      listVehicleForSale = ctx?.listVehicleForSale;
     }
   } catch (err) {
     // eslint-disable-next-line no-console
@@ -121,18 +139,49 @@ const TruckSection: React.FC<Props> = ({
 
   /**
    * handleSell
-   * @description Safely call provided onSellTruck handler, otherwise log and no-op.
+   * @description Safely call provided onSellTruck handler, otherwise open SellVehicleDialog
+   *              (or log and no-op without GameContext).
    * @param id truck id
    */
   const handleSell = (id: string) => {
     if (typeof onSellTruck === 'function') {
       onSellTruck(id);
+    } else if (typeof tradeInVehicle === 'function') {
+      setSellTruckId(id);
     } else {
       // eslint-disable-next-line no-console
       console.warn('TruckSection: onSellTruck not provided, ignoring sell request for', id);
     }
   };
 
+  const reminders = maintenanceScheduler.reminders({ trucks: filteredTrucks });
+  const serviceTruck = filteredTrucks.find((t) => String(t.id) === serviceTruckId) ?? null;
+  const sellTruck = filteredTrucks.find((t) => String(t.id) === sellTruckId) ?? null;
+
+  /**
+   * handleConfirmService
+   * @description Schedule the quoted service; returns the error message or null on success.
+   */
+  const handleConfirmService = (quote: MaintenanceQuote): string | null => {
+    if (!serviceTruckId || typeof scheduleMaintenance !== 'function') return 'Maintenance is not available';
+    const result = scheduleMaintenance(serviceTruckId, quote);
+    if (!result.success) return result.message;
+    setServiceTruckId(null);
+    return null;
+  };
+
+  /**
+   * runSale
+   * @description Run a sale action for the truck being sold; returns the error message or null on success.
+   */
+  const runSale = (action: (() => { success: boolean; message: string }) | null): string | null => {
+    if (!sellTruckId || !action) return 'Selling is not available';
+    const result = action();
+    if (!result.success) return result.message;
+    setSellTruckId(null);
+    return null;
+  };
+
   return (
     <section className="bg-slate-800 rounded-xl p-6 border border-slate-700">
       <SectionHeader
@@ -146,6 +195,19 @@ const TruckSection: React.FC<Props> = ({
       />
 
       <div className="space-y-3">
+        {reminders.length > 0 && (
+          <div className="bg-slate-700/50 rounded-lg border border-slate-600 p-3 text-xs space-y-1">
+            {reminders.map((r) => (
+              <div key={r.truckId} className={`flex items-center space-x-2 ${r.urgency === 'overdue' ? 'text-rose-400' : 'text-yellow-400'}`}>
+                <Wrench className="w-3 h-3" />
+                <span>
+                  {r.label}: service {r.urgency} ({r.reason})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {filteredTrucks.length === 0 ? (
           <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 text-slate-300">
             No trucks in your fleet yet.
@@ -166,12 +228,31 @@ const TruckSection: React.FC<Props> = ({
                   truck={t}
                   assignedTrailerLabel={assignedLabel}
                   onSell={handleSell}
+                  onService={typeof scheduleMaintenance === 'function' ? setServiceTruckId : undefined}
+                  onReturnLease={returnLeasedVehicle}
+                  onBuyOutLease={buyOutLeasedVehicle}
                 />
               );
             })}
           </div>
         )}
       </div>
+
+      <MaintenanceDialog
+        open={serviceTruck !== null}
+        company={gameState?.company}
+        truck={serviceTruck}
+        onConfirm={handleConfirmService}
+        onCancel={() => setServiceTruckId(null)}
+      />
+
+      <SellVehicleDialog
+        open={sellTruck !== null}
+        vehicle={sellTruck}
+        onTradeIn={() => runSale(tradeInVehicle && sellTruckId ? () => tradeInVehicle!(sellTruckId) : null)}
+        onList={(price) => runSale(listVehicleForSale && sellTruckId ? () => listVehicleForSale!(sellTruckId, price) : null)}
+        onCancel={() => setSellTruckId(null)}
+      />
     </section>
   );
 };
@@ -15,6 +15,12 @@
  *    - Prefer calling onStartDelivery prop (if provided)
  *    - Otherwise perform an in-context transition to the next status ('picking-up')
  *      and persist the company via GameContext.createCompany
+ * - Show the fuel bought and burnt on the job (fuelSystem), or the planned fuel before the start.
+ * - Show the planned driving time, crew rests and hours-of-service violations (hoursOfService).
+ * - Show the ferry crossings of the route with their tickets (ferryService).
+ * - Show the borders of the route with customs waits, documents and road tolls (borderService).
+ * - Show the drop of a multi-drop load; later drops start on their own after the previous drop
+ *   (loadConsolidation), so only the first drop can be started.
  *
  * Notes:
  * - The visual layout and styling were intentionally kept consistent with the
@@ -27,6 +33,9 @@ import type { ActiveJob, Company } from '../../types/game';
 import { Truck, MapPin, X, Check, Play } from 'lucide-react';
 import { useGame } from '../../contexts/GameContext';
 import { isCompatibleCargoTrailer } from '../../utils/cargoTrailerCompatibility';
+import { fuelSystem } from '../../utils/fuelSystem';
+import { ferryService } from '../../utils/ferryService';
+import { borderService } from '../../utils/borderService';
 
 /**
  * JobCardProps
@@ -214,7 +223,9 @@ const JobCard: React.FC<JobCardProps> = ({ job, onAssignTruck, onStartDelivery,
   // - job.status should be 'preparing' (accepted default)
   // - compatible must be true
   // - hasDriver must be true
-  const canStart = String(job?.status ?? '').toLowerCase() === 'preparing' && compatible && hasDriver;
+  // - later drops of a multi-drop load are started by the lifecycle engine
+  const laterDrop = Boolean(job?.consolidationId) && Number(job?.dropIndex) > 0;
+  const canStart = String(job?.status ?? '').toLowerCase() === 'preparing' && compatible && hasDriver && !laterDrop;
 
   /**
    * handleAssignTruck
@@ -329,6 +340,34 @@ const JobCard: React.FC<JobCardProps> = ({ job, onAssignTruck, onStartDelivery,
 
   const { display: deadlineDisplay, remaining: deadlineRemaining } = formatDeadline(job.deadline);
 
+  // Fuel bought on the road, or the planned fuel while the job has not moved yet
+  const fuelEstimate = !job.fuel && job.distance ? fuelSystem.estimateTrip(company, job) : null;
+
+  // Ferries booked for the planned route, or the ferries on the route before the start
+  const plannedFerries: any[] = job.lifecycle?.ferries || [];
+  const ferryEstimate = !job.lifecycle && job.origin && job.destination ? ferryService.estimateTrip(company, job) : null;
+  const ferryLine = plannedFerries.length > 0
+    ? {
+      names: plannedFerries.map((f) => f.name).join(', '),
+      fare: plannedFerries.reduce((sum, f) => sum + (Number(f.fare) || 0), 0),
+      hours: `${Number(plannedFerries.reduce((sum, f) => sum + f.waitHours + f.crossingHours, 0).toFixed(1))} h`
+    }
+    : ferryEstimate && ferryEstimate.ferries.length > 0
+    ? { names: ferryEstimate.ferries.map((f) => f.name).join(', '), fare: ferryEstimate.fare, hours: `up to ${ferryEstimate.maxHours} h` }
+    : null;
+
+  // Borders planned for the route, or the borders on the route before the start
+  const borderEstimate = !job.lifecycle && job.origin && job.destination ? borderService.estimateTrip(company, job) : null;
+  const borders: any[] = job.lifecycle?.borders || borderEstimate?.crossings || [];
+  const borderLine = borders.length > 0
+    ? {
+      names: borders.map((b) => `${String(b.fromCountry).toUpperCase()}→${String(b.toCountry).toUpperCase()}`).join(', '),
+      hours: job.lifecycle ? borders.reduce((sum, b) => sum + (Number(b.waitHours) || 0), 0) : borderEstimate!.customsHours,
+      fee: job.lifecycle ? Number(job.lifecycle.customsFee) || 0 : borderEstimate!.documentFee
+    }
+    : null;
+  const tollCost = typeof job.lifecycle?.tollCost === 'number' ? job.lifecycle.tollCost : borderEstimate?.tollCost;
+
   // Build truck options for selector
   const truckOptions = (company?.trucks ?? []).map((t: any) => ({ id: t.id, label: `${t.brand ?? ''} ${t.model ?? ''}`.trim() || String(t.id) }));
 
@@ -377,8 +416,52 @@ const JobCard: React.FC<JobCardProps> = ({ job, onAssignTruck, onStartDelivery,
             <div className="text-xs text-slate-400">Value: {typeof job.value === 'number' ? '$' + job.value.toLocaleString() : '—'}</div>
 
             <div className="mt-3 text-xs text-slate-400">
+              {job.consolidationId && (
+                <div>Drop: <span className="text-white ml-2">{Number(job.dropIndex) + 1} of {job.dropCount} · loaded in {job.loadOrigin}</span></div>
+              )}
               <div>Deadline: <span className="text-white ml-2">{deadlineDisplay}</span></div>
               {deadlineRemaining && <div>Remaining: <span className="text-white ml-2">{deadlineRemaining}</span></div>}
+              {job.lifecycle && (
+                <>
+                  <div>Location: <span className="text-white ml-2">{job.currentLocation || '—'}</span></div>
+                  <div>ETA: <span className="text-white ml-2">{new Date(job.estimatedCompletion).toLocaleString()}</span></div>
+                </>
+              )}
+              {job.fuel ? (
+                <div>
+                  Fuel: <span className="text-white ml-2">${Number(job.fuel.cost || 0).toLocaleString()} · {Math.round(job.fuel.litres || 0)} L · {(job.fuel.stops || []).length} refuel stop{(job.fuel.stops || []).length === 1 ? '' : 's'}</span>
+                </div>
+              ) : fuelEstimate ? (
+                <div>
+                  Est. fuel: <span className="text-white ml-2">~${fuelEstimate.cost.toLocaleString()} · {fuelEstimate.litres} L · {fuelEstimate.refuelStops} refuel stop{fuelEstimate.refuelStops === 1 ? '' : 's'}</span>
+                </div>
+              ) : null}
+              {ferryLine && (
+                <div>
+                  Ferries: <span className="text-white ml-2">{ferryLine.names} · ${ferryLine.fare.toLocaleString()} · {ferryLine.hours}</span>
+                </div>
+              )}
+              {borderLine && (
+                <div>
+                  Borders: <span className="text-white ml-2">{borderLine.names} · customs {Number(borderLine.hours.toFixed(1))} h{borderLine.fee > 0 ? ` · documents $${borderLine.fee.toLocaleString()}` : ''}</span>
+                </div>
+              )}
+              {typeof tollCost === 'number' && tollCost > 0 && (
+                <div>
+                  {job.lifecycle ? 'Tolls' : 'Est. tolls'}: <span className="text-white ml-2">${tollCost.toLocaleString()}</span>
+                </div>
+              )}
+              {job.lifecycle?.hos && (
+                <div>
+                  Driving: <span className="text-white ml-2">
+                    {job.lifecycle.hos.drivingHours} h · {job.lifecycle.hos.rests.length} rest{job.lifecycle.hos.rests.length === 1 ? '' : 's'} ({job.lifecycle.hos.restHours} h)
+                    {job.lifecycle.hos.crew.length > 1 ? ' · team' : ''}
+                  </span>
+                  {job.lifecycle.hos.violations.length > 0 && (
+                    <span className="text-rose-400 ml-2">{job.lifecycle.hos.violations.length} hours violation{job.lifecycle.hos.violations.length === 1 ? '' : 's'}</span>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -424,7 +507,7 @@ const JobCard: React.FC<JobCardProps> = ({ job, onAssignTruck, onStartDelivery,
               onClick={internalStart}
               disabled={!canStart}
               aria-disabled={!canStart}
-              title={!canStart ? (String(job?.status).toLowerCase() !== 'preparing' ? 'Job not in preparing state' : !compatible ? 'Assign a compatible truck/trailer' : 'Assign at least one driver to the truck') : 'Start Job Delivery'}
+              title={!canStart ? (String(job?.status).toLowerCase() !== 'preparing' ? 'Job not in preparing state' : laterDrop ? 'Starts after the previous drop' : !compatible ? 'Assign a compatible truck/trailer' : 'Assign at least one driver to the truck') : 'Start Job Delivery'}
               className={`flex items-center space-x-2 ${canStart ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-slate-700 text-slate-400 cursor-not-allowed'} py-1 px-2 rounded text-sm`}
             >
               <Play className="w-4 h-4" />
@@ -0,0 +1,210 @@
+/**
+ * AcceptJobDialog.tsx
+ *
+ * File-level:
+ * Modal used by the Freight Market to assign a truck, trailer and driver(s) before accepting
+ * an offer.
+ *
+ * Purpose:
+ * - Let the user pick fleet and drivers for the offer.
+ * - Validate the selection live with validateAssignment and list every failed rule.
+ * - Only allow confirming a valid assignment; rules reported back by acceptJob are shown too.
+ * - Multi-drop loads (consignments): validate with loadConsolidation and show the drop order.
+ *
+ * Notes:
+ * - Presentational: the parent performs the acceptance through onConfirm.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardCheck, X, AlertTriangle, CheckCircle } from 'lucide-react';
+import { validateAssignment, AssignmentInput, AssignmentIssue } from '../../utils/assignmentValidator';
+import { loadConsolidation, Consignment, ConsolidationCheck } from '../../utils/loadConsolidation';
+
+export interface AcceptJobDialogProps {
+  /** Whether modal is visible */
+  open: boolean;
+  /** Company used for fleet/staff options and validation */
+  company: any;
+  /** Offer being accepted (weight is the selected load) */
+  offer: any | null;
+  /** Assignment the form starts with (e.g. the truck of a planned return load) */
+  initialAssignment?: AssignmentInput | null;
+  /** Consignments of a multi-drop load (replaces offer) */
+  consignments?: Consignment[] | null;
+  /** Called with the chosen assignment; returns the issues that blocked acceptance (empty on success) */
+  onConfirm: (assignment: AssignmentInput) => AssignmentIssue[];
+  /** Called when user cancels / closes */
+  onCancel: () => void;
+}
+
+/**
+ * AcceptJobDialog
+ * @description Assignment form with live validation for accepting a freight offer.
+ */
+const AcceptJobDialog: React.FC<AcceptJobDialogProps> = ({ open, company, offer, initialAssignment, consignments, onConfirm, onCancel }) => {
+  const [assignment, setAssignment] = useState<AssignmentInput>({});
+  const [rejected, setRejected] = useState<AssignmentIssue[]>([]);
+
+  // Reset the form whenever another offer is opened
+  useEffect(() => {
+    setAssignment(initialAssignment ?? {});
+    setRejected([]);
+  }, [offer?.id, consignments, initialAssignment, open]);
+
+  const trucks: any[] = Array.isArray(company?.trucks) ? company.trucks : [];
+  const trailers: any[] = Array.isArray(company?.trailers) ? company.trailers : [];
+  const drivers: any[] = (Array.isArray(company?.staff) ? company.staff : []).filter((s: any) => s?.role === 'driver');
+
+  const isLoad = Array.isArray(consignments) && consignments.length > 0;
+  const validation = useMemo(
+    () => {
+      if (isLoad) return loadConsolidation.check(company, consignments as Consignment[], assignment);
+      return offer ? validateAssignment(company, offer, assignment) : { valid: false, issues: [] };
+    },
+    [company, offer, consignments, isLoad, assignment]
+  );
+  const drops = isLoad ? (validation as ConsolidationCheck).drops : [];
+
+  if (!open || (!offer && !isLoad)) return null;
+
+  const issues = rejected.length > 0 ? rejected : validation.issues;
+
+  const update = (field: keyof AssignmentInput, value: string) => {
+    setRejected([]);
+    setAssignment((prev) => ({ ...prev, [field]: value || null }));
+  };
+
+  const handleConfirm = () => {
+    setRejected(onConfirm(assignment));
+  };
+
+  const selectClass = 'w-full bg-slate-700 border border-slate-600 text-white text-sm rounded px-2 py-1.5';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Accept Job"
+    >
+      <div className="absolute inset-0 bg-black/60" onClick={onCancel} aria-hidden />
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <ClipboardCheck className="w-5 h-5 text-green-400" />
+            <div>
+              <h3 className="text-sm font-medium text-white">{isLoad ? 'Accept Multi-drop Load' : 'Accept Job'}</h3>
+              <div className="text-xs text-slate-400">
+                {isLoad
+                  ? `${drops.length} drops · ${(validation as ConsolidationCheck).totalWeight}t from ${drops[0]?.offer?.origin ?? '—'}`
+                  : `${offer.title} · ${offer.weight}t ${offer.cargoType}`}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-slate-700 text-slate-300"
+            aria-label="Close"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <label className="text-xs text-slate-400">Truck</label>
+            <select value={assignment.assignedTruck ?? ''} onChange={(e) => update('assignedTruck', e.target.value)} className={selectClass}>
+              <option value="">Select truck</option>
+              {trucks.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {`${t.brand ?? ''} ${t.model ?? ''}`.trim() || t.id}{t.gcw ? ` (GCW ${t.gcw})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400">Trailer</label>
+            <select value={assignment.assignedTrailer ?? ''} onChange={(e) => update('assignedTrailer', e.target.value)} className={selectClass}>
+              <option value="">No trailer</option>
+              {trailers.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.trailerClass ?? t.model ?? t.id}{t.tonnage ? ` · ${t.tonnage}t` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-slate-400">Driver</label>
+              <select value={assignment.assignedDriver ?? ''} onChange={(e) => update('assignedDriver', e.target.value)} className={selectClass}>
+                <option value="">Select driver</option>
+                {drivers.map((d) => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Co-driver (optional)</label>
+              <select value={assignment.assignedCoDriver ?? ''} onChange={(e) => update('assignedCoDriver', e.target.value)} className={selectClass}>
+                <option value="">None</option>
+                {drivers.map((d) => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isLoad && (
+            <ol className="space-y-1 text-xs text-slate-300">
+              {drops.map((drop, idx) => (
+                <li key={drop.offer?.id ?? idx}>
+                  {idx + 1}. {drop.offer?.destination} · {drop.weight}t {drop.offer?.cargoType} · ${Math.round(drop.value).toLocaleString()}
+                </li>
+              ))}
+              {(validation as ConsolidationCheck).distanceKm > 0 && (
+                <li className="text-slate-400">Route: {(validation as ConsolidationCheck).distanceKm} km</li>
+              )}
+            </ol>
+          )}
+
+          {issues.length > 0 ? (
+            <ul className="space-y-1">
+              {issues.map((issue, idx) => (
+                <li key={`${issue.rule}-${idx}`} className="flex items-start gap-2 text-xs text-rose-400">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-green-400">
+              <CheckCircle className="w-3.5 h-3.5" />
+              <span>Assignment is valid.</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 pt-2">
+            <button
+              onClick={handleConfirm}
+              disabled={!validation.valid}
+              className={`flex-1 ${!validation.valid ? 'bg-slate-600 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'} text-white py-2 rounded text-sm`}
+            >
+              {isLoad ? 'Accept Load' : 'Accept Job'}
+            </button>
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 text-white py-2 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptJobDialog;
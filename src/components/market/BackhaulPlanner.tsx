@@ -0,0 +1,180 @@
+/**
+ * BackhaulPlanner.tsx
+ *
+ * File-level:
+ * Freight Market panel that finds return loads for a truck and chains them into an itinerary
+ * back towards the company hub.
+ *
+ * Purpose:
+ * - Pick a truck; show where it stands, its trailer and the driving hours its crew has left.
+ * - List the offers near the end of the itinerary ranked by profit per hour (backhaulPlanner),
+ *   including the empty kilometres to the pickup.
+ * - Add or remove legs, or let the planner suggest an itinerary; show the run home and totals.
+ * - Accept the first leg through the normal accept dialog (onAcceptLeg).
+ *
+ * Notes:
+ * - Legs whose offers left the market (accepted or expired) drop out of the itinerary.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Route, Plus, X, Sparkles, Home } from 'lucide-react';
+import { backhaulPlanner, BackhaulOption, MAX_ITINERARY_LEGS } from '../../utils/backhaulPlanner';
+import { AssignmentInput } from '../../utils/assignmentValidator';
+
+export interface BackhaulPlannerProps {
+  /** Company whose trucks are planned */
+  company: any;
+  /** Open market offers */
+  offers: any[];
+  /** Accept a leg with the planned truck, trailer and crew */
+  onAcceptLeg: (leg: BackhaulOption, assignment: AssignmentInput) => void;
+}
+
+/**
+ * BackhaulPlanner
+ * @description Return-load ranking and itinerary builder for one truck.
+ */
+const BackhaulPlanner: React.FC<BackhaulPlannerProps> = ({ company, offers, onAcceptLeg }) => {
+  const trucks: any[] = Array.isArray(company?.trucks) ? company.trucks : [];
+  const [truckId, setTruckId] = useState<string>(trucks[0]?.id ?? '');
+  const [legIds, setLegIds] = useState<string[]>([]);
+
+  // A new truck starts a new itinerary
+  useEffect(() => {
+    setLegIds([]);
+  }, [truckId]);
+
+  const assignment = useMemo(() => backhaulPlanner.currentAssignment(company, truckId), [company, truckId]);
+  const legs = useMemo(
+    () => legIds.map((id) => offers.find((offer) => String(offer.id) === id)).filter(Boolean),
+    [legIds, offers]
+  );
+  const itinerary = useMemo(() => backhaulPlanner.itinerary(company, legs, assignment), [company, legs, assignment]);
+  const options = useMemo(
+    () => (legs.length < MAX_ITINERARY_LEGS ? backhaulPlanner.rank(company, offers, assignment, legs).slice(0, 8) : []),
+    [company, offers, assignment, legs]
+  );
+
+  if (trucks.length === 0) return null;
+
+  const trailer = (company?.trailers || []).find((t: any) => String(t?.id) === String(assignment.assignedTrailer));
+  const remaining = backhaulPlanner.remainingHours(company, assignment);
+
+  const handleSuggest = () => {
+    setLegIds(backhaulPlanner.suggest(company, offers, assignment).legs.map((leg) => String(leg.offer.id)));
+  };
+
+  const selectClass = 'bg-slate-700 border border-slate-600 text-white text-sm rounded px-2 py-1.5';
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div className="flex items-center space-x-3">
+          <Route className="w-5 h-5 text-blue-400" />
+          <div>
+            <div className="text-white font-medium">Return Loads</div>
+            <div className="text-xs text-slate-400">
+              At {itinerary.start} · {trailer ? `${trailer.trailerClass ?? trailer.id}${trailer.tonnage ? ` ${trailer.tonnage}t` : ''}` : 'no trailer'} · {remaining} h driving left today
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select value={truckId} onChange={(e) => setTruckId(e.target.value)} className={selectClass}>
+            {trucks.map((t) => (
+              <option key={t.id} value={t.id}>
+                {`${t.brand ?? ''} ${t.model ?? ''}`.trim() || t.id}{t.location ? ` · ${t.location}` : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleSuggest}
+            className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded text-sm"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span>Suggest</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Itinerary */}
+      {itinerary.legs.length > 0 && (
+        <div className="space-y-2">
+          {itinerary.legs.map((leg, idx) => (
+            <div key={leg.offer.id} className="flex items-center justify-between p-2 bg-slate-700/30 rounded text-sm">
+              <div className="text-slate-300">
+                {idx + 1}. {leg.deadheadKm > 0 ? `${leg.deadheadKm} km empty → ` : ''}{leg.offer.origin} → {leg.offer.destination} · {leg.weight}t {leg.offer.cargoType}
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-green-400">${leg.profit.toLocaleString()}</span>
+                <span className="text-slate-400">{leg.hours} h</span>
+                {idx === 0 && (
+                  <button
+                    onClick={() => onAcceptLeg(leg, assignment)}
+                    className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs"
+                  >
+                    Accept
+                  </button>
+                )}
+                <button
+                  onClick={() => setLegIds((prev) => prev.filter((id) => id !== String(leg.offer.id)))}
+                  className="p-1 rounded hover:bg-slate-600 text-slate-300"
+                  aria-label="Remove leg"
+                  title="Remove leg"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span className="flex items-center space-x-1">
+              <Home className="w-3.5 h-3.5" />
+              <span>
+                {itinerary.endsNearHub
+                  ? `Ends near ${itinerary.hub}`
+                  : `${itinerary.returnKm} km empty from ${itinerary.end} to ${itinerary.hub} ($${itinerary.returnCost.toLocaleString()})`}
+              </span>
+            </span>
+            <span>
+              Trip: <span className="text-white">${itinerary.profit.toLocaleString()}</span> · {itinerary.hours} h · <span className="text-white">${Math.round(itinerary.profitPerHour).toLocaleString()}/h</span>
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Ranked next legs */}
+      {options.length > 0 ? (
+        <div className="space-y-1">
+          <div className="text-xs text-slate-400">Next loads from {itinerary.end}</div>
+          {options.map((option) => (
+            <div key={option.offer.id} className="flex items-center justify-between text-sm">
+              <div className="text-slate-300">
+                {option.offer.origin} → {option.offer.destination}
+                <span className="text-slate-500 ml-2">
+                  {option.deadheadKm} km empty · {option.loadedKm} km loaded{option.homeKm !== null ? ` · ${option.homeKm} km from hub` : ''}
+                </span>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-green-400">${Math.round(option.profitPerHour).toLocaleString()}/h</span>
+                <button
+                  onClick={() => setLegIds((prev) => [...prev, String(option.offer.id)])}
+                  className="p-1 rounded hover:bg-slate-600 text-slate-300"
+                  aria-label="Add leg"
+                  title="Add leg"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        legs.length < MAX_ITINERARY_LEGS && (
+          <div className="text-xs text-slate-500">No profitable loads within reach of {itinerary.end}.</div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default BackhaulPlanner;
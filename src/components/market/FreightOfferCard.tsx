@@ -1,13 +1,18 @@
 /**
  * Freight offer card component with collapsible load section
  * Updated to display a "City" badge for in-city offers (origin === destination or flagged).
+ * Offers above the company's reputation tier are locked (see companyReputation).
+ * Offers crossing a non-EU border show a "Customs" badge listing the documents (borderService).
+ * Offers priced well above or below the balanced market show a market badge (freightMarket).
+ * Partial-load offers can be added to a multi-drop load (loadConsolidation) when onAddToLoad is given.
  */
 
 import React, { useState } from 'react'
 import { Button } from '../ui/button'
-import { ChevronDown, ChevronUp, Truck, User, Weight, MapPin, DollarSign, Clock } from 'lucide-react'
+import { ChevronDown, ChevronUp, Truck, User, Weight, MapPin, DollarSign, Clock, Lock } from 'lucide-react'
 import { getCountryCode } from '../../utils/countryMapping'
 import { getCountryName } from '../../utils/countryNames'
+import { requiredReputationForOffer, getReputationTier } from '../../utils/companyReputation'
 
 /**
  * FreightOffer shape for component props
@@ -32,6 +37,8 @@ interface FreightOffer {
   allowPartialLoad: boolean
   remainingWeight: number
   cityJob?: boolean
+  customsDocuments?: string[]
+  marketFactor?: number
 }
 
 /**
@@ -40,6 +47,12 @@ interface FreightOffer {
 interface FreightOfferCardProps {
   offer: FreightOffer
   onAcceptJob: (jobData: any, acceptedWeight: number) => void
+  /** Company reputation; offers above its tier cannot be accepted */
+  reputation: number
+  /** Add the selected weight to the multi-drop load being planned (partial-load offers only) */
+  onAddToLoad?: (jobData: any, weight: number) => void
+  /** Offer is already part of the planned load */
+  inLoad?: boolean
 }
 
 /**
@@ -47,7 +60,7 @@ interface FreightOfferCardProps {
  * Display a single freight offer with details and load selection.
  * Adds a small "City" badge next to title when the offer is an in-city offer.
  */
-export default function FreightOfferCard({ offer, onAcceptJob }: FreightOfferCardProps) {
+export default function FreightOfferCard({ offer, onAcceptJob, reputation, onAddToLoad, inLoad }: FreightOfferCardProps) {
   const [selectedWeight, setSelectedWeight] = useState<number>(offer.remainingWeight)
   const [showLoadSection, setShowLoadSection] = useState(false)
 
@@ -77,8 +90,8 @@ export default function FreightOfferCard({ offer, onAcceptJob }: FreightOfferCar
     if ((offer.cargoType || '').includes('Construction')) cargoBonus = 1.15
     if ((offer.cargoType || '').includes('Heavy')) cargoBonus = 1.3
 
-    // Calculate base price
-    const basePrice = (offer.distance * baseRatePerKm) * weightMultiplier * jobMultiplier * cargoBonus
+    // Calculate base price (supply / demand when the offer was posted)
+    const basePrice = (offer.distance * baseRatePerKm) * weightMultiplier * jobMultiplier * cargoBonus * (offer.marketFactor ?? 1)
 
     // Add weight component (per ton)
     const weightComponent = weight * 15
@@ -90,11 +103,15 @@ export default function FreightOfferCard({ offer, onAcceptJob }: FreightOfferCar
     setSelectedWeight(weight)
   }
 
+  const requiredReputation = requiredReputationForOffer(calculatePrice(selectedWeight))
+  const isLocked = reputation < requiredReputation
+
   const handleAcceptJob = () => {
     if (selectedWeight > offer.remainingWeight) {
       alert('Cannot accept more weight than available')
       return
     }
+    if (isLocked) return
 
     const calculatedValue = calculatePrice(selectedWeight)
     onAcceptJob({
@@ -103,6 +120,15 @@ export default function FreightOfferCard({ offer, onAcceptJob }: FreightOfferCar
     }, selectedWeight)
   }
 
+  const handleAddToLoad = () => {
+    if (!onAddToLoad || isLocked || selectedWeight > offer.remainingWeight) return
+
+    onAddToLoad({
+      ...offer,
+      calculatedValue: calculatePrice(selectedWeight)
+    }, selectedWeight)
+  }
+
   const getExperienceColor = (exp: number) => {
     if (exp === 0) return 'text-green-400'
     if (exp <= 40) return 'text-orange-400'
@@ -362,16 +388,56 @@ export default function FreightOfferCard({ offer, onAcceptJob }: FreightOfferCar
               {tag}
             </div>
           ))}
+          {offer.customsDocuments && offer.customsDocuments.length > 0 && (
+            <div
+              title={`Customs documents: ${offer.customsDocuments.join(', ')}`}
+              className="inline-flex items-center rounded-md border px-2.5 py-0.5 text-xs font-semibold bg-amber-500/20 text-amber-400 border-amber-500/30"
+            >
+              Customs
+            </div>
+          )}
+          {offer.marketFactor !== undefined && Math.abs(offer.marketFactor - 1) >= 0.1 && (
+            <div
+              title={offer.marketFactor > 1 ? 'Few trucks for this freight: rates are up' : 'Plenty of trucks on this lane: rates are down'}
+              className={`inline-flex items-center rounded-md border px-2.5 py-0.5 text-xs font-semibold ${offer.marketFactor > 1 ? 'bg-green-500/20 text-green-400 border-green-500/30' : 'bg-red-500/20 text-red-400 border-red-500/30'}`}
+            >
+              Market {offer.marketFactor > 1 ? '+' : ''}{Math.round((offer.marketFactor - 1) * 100)}%
+            </div>
+          )}
         </div>
 
         {/* Action Button */}
-        <Button
-          onClick={handleAcceptJob}
-          className="h-10 px-4 py-2 bg-green-600 hover:bg-green-700 text-white border-green-500/30"
-        >
-          <DollarSign className="w-4 h-4 mr-2" />
-          {selectedWeight === offer.remainingWeight ? 'Accept Full Load' : `Accept ${selectedWeight}t Load`}
-        </Button>
+        {isLocked ? (
+          <Button
+            disabled
+            title={`Offers of this value require reputation ${requiredReputation} (${getReputationTier(requiredReputation).name})`}
+            className="h-10 px-4 py-2 bg-slate-600 text-slate-300 cursor-not-allowed"
+          >
+            <Lock className="w-4 h-4 mr-2" />
+            Requires reputation {requiredReputation}
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            {onAddToLoad && offer.allowPartialLoad && (
+              <Button
+                onClick={handleAddToLoad}
+                disabled={inLoad}
+                title="Carry this freight with other partial loads from the same city"
+                className="h-10 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white border-slate-600 disabled:opacity-50"
+              >
+                <Truck className="w-4 h-4 mr-2" />
+                {inLoad ? 'In load' : `Add ${selectedWeight}t to load`}
+              </Button>
+            )}
+          <Button
+            onClick={handleAcceptJob}
+            className="h-10 px-4 py-2 bg-green-600 hover:bg-green-700 text-white border-green-500/30"
+          >
+            <DollarSign className="w-4 h-4 mr-2" />
+            {selectedWeight === offer.remainingWeight ? 'Accept Full Load' : `Accept ${selectedWeight}t Load`}
+          </Button>
+          </div>
+        )}
       </div>
     </div>
   )
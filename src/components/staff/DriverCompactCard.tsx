@@ -146,7 +146,7 @@ const DriverCompactCard: React.FC<DriverCompactCardProps> = ({
    * archivedLocalKey
    * @description Create a deterministic localStorage key for archived snapshot fallback
    */
-  const archivedLocalKey = (companyUser?: string, staffId?: string) => {
+  const archivedLocalKey = (companyUser?: string | null, staffId?: string) => {
     const user = (companyUser || game.gameState?.currentUser || 'local').toString().toLowerCase();
     const id = String(staffId || staff.id);
     return `tm_archived_staff_${user}_${id}`;
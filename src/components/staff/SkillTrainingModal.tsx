@@ -22,6 +22,7 @@ import { Play, X } from 'lucide-react';
 import { useGame } from '../../contexts/GameContext';
 import { getSkillsByCategory } from '../../utils/skillsDatabase';
 import { readSkillProgress, writeSkillProgress } from '../../utils/skillPersistence';
+import { postTransaction, LEDGER_CATEGORIES } from '../../utils/companyLedger';
 
 /**
  * parseStoredProgress
@@ -369,16 +370,22 @@ const SkillTrainingModal: React.FC<SkillTrainingModalProps> = ({ staffId, onClos
       }
 
       // Fallback local update
-      const comp = gameState?.company ? JSON.parse(JSON.stringify(gameState.company)) : null;
-      if (!comp) {
+      const source = gameState?.company ? JSON.parse(JSON.stringify(gameState.company)) : null;
+      if (!source) {
         throw new Error('No company state to update locally');
       }
 
-      if ((comp.capital || 0) < cost) {
+      if ((source.capital || 0) < cost) {
         throw new Error('Insufficient capital for training');
       }
 
-      comp.capital = Math.max(0, (comp.capital || 0) - cost);
+      const comp = postTransaction(source, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.TRAINING,
+        amount: cost,
+        description: `Training: ${selectedSkill}`,
+        reference: staffId
+      });
       const idx = (comp.staff || []).findIndex((s: any) => s.id === staffId);
       if (idx === -1) throw new Error('Staff not found in local company');
 
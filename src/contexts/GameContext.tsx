@@ -35,6 +35,32 @@ import { getSkillsByCategory } from '../utils/skillsDatabase';
 import { writeSkillProgress, readSkillProgress } from '../utils/skillPersistence';
 import { MANAGER_SKILLS } from '../utils/roleSkills';
 import { normalizeJobsOnLoad } from '../utils/jobNormalization';
+import { postTransaction, LEDGER_CATEGORIES } from '../utils/companyLedger';
+import { computeSettlement, computeCancellationFee, applySettlement } from '../utils/jobSettlement';
+import { payrollEngine } from '../utils/payrollEngine';
+import { jobLifecycleEngine } from '../utils/jobLifecycleEngine';
+import { validateAssignment, AssignmentValidation, AssignmentInput } from '../utils/assignmentValidator';
+import { loadConsolidation, Consignment, ConsolidationCheck } from '../utils/loadConsolidation';
+import { incidentEngine, IncidentDetail } from '../utils/incidentEngine';
+import { incidentResolutionEngine, RoadSegment } from '../utils/incidentResolutionEngine';
+import { maintenanceScheduler, MaintenanceQuote } from '../utils/maintenanceScheduler';
+import { vehicleLeasing } from '../utils/vehicleLeasing';
+import { migratePurchaseDates } from '../utils/assetValuation';
+import { processIncomingDeliveries } from '../utils/incomingDeliveryUtils';
+import { vehicleResale, loadUsedMarket, saveUsedMarket } from '../utils/vehicleResale';
+import { companyBanking } from '../utils/companyBanking';
+import { fuelSystem } from '../utils/fuelSystem';
+import { hoursOfService } from '../utils/hoursOfService';
+import { contractExecutionEngine } from '../utils/contractExecution';
+import { advanceContractBoards } from '../utils/contractBidding';
+import {
+  applyReputationChange,
+  applyReputationChanges,
+  deliveryReputationChanges,
+  cancellationReputationChange,
+  migrateReputation,
+  INITIAL_REPUTATION
+} from '../utils/companyReputation';
 
 /**
  * GameContextType
@@ -46,8 +72,21 @@ export interface GameContextType {
   toggleSidebar: () => void;
   login: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
   register: (email: string, password: string, confirmPassword: string) => Promise<{ success: boolean; message: string }>;
-  createCompany: (company: Company) => void;
-  acceptJob: (jobData: any) => void;
+  /** Normalize and persist the company; false (state unchanged) when it could not be saved */
+  createCompany: (company: Company) => boolean;
+  /**
+   * acceptJob
+   * @description Accept a job with its truck/trailer/driver assignment. Returns the assignment
+   *              validation; the job is only added when it is valid.
+   */
+  acceptJob: (jobData: any) => AssignmentValidation;
+  /**
+   * acceptConsolidatedLoad
+   * @description Accept several partial offers as one multi-drop load on the same truck / trailer
+   *              (see loadConsolidation). Returns the load check; the drop jobs are only added
+   *              when it is valid.
+   */
+  acceptConsolidatedLoad: (consignments: Consignment[], assignment: AssignmentInput) => ConsolidationCheck;
   completeJob: (jobId: string) => void;
   cancelJob: (jobId: string) => void;
   logout: () => void;
@@ -65,6 +104,65 @@ export interface GameContextType {
    *              Returns success + message. Training days default to 7..10.
    */
   startTraining: (staffId: string, skillName: string, days?: number) => { success: boolean; message: string };
+  /**
+   * scheduleMaintenance
+   * @description Send a truck to the workshop with a quote from maintenanceScheduler.quote.
+   *              The cost is charged now and the truck is out of service until the work is done.
+   */
+  scheduleMaintenance: (truckId: string, quote: MaintenanceQuote) => { success: boolean; message: string };
+  /**
+   * returnLeasedVehicle
+   * @description Hand a leased truck or trailer back to the lessor (see vehicleLeasing). Before
+   *              the end of the term the early-termination fee is charged.
+   */
+  returnLeasedVehicle: (vehicleId: string) => { success: boolean; message: string };
+  /**
+   * buyOutLeasedVehicle
+   * @description Buy a leased vehicle at its residual value once its term has ended.
+   */
+  buyOutLeasedVehicle: (vehicleId: string) => { success: boolean; message: string };
+  /**
+   * tradeInVehicle
+   * @description Sell a truck or trailer to the dealer at once at the trade-in price (see vehicleResale).
+   */
+  tradeInVehicle: (vehicleId: string) => { success: boolean; message: string };
+  /**
+   * listVehicleForSale
+   * @description Offer a truck or trailer on the used market of the world at an asking price
+   *              (default: its value). Capital is credited when another player buys it.
+   */
+  listVehicleForSale: (vehicleId: string, askingPrice?: number) => { success: boolean; message: string };
+  /**
+   * withdrawVehicleListing
+   * @description Take an unsold used-market listing down and return the vehicle to the fleet.
+   */
+  withdrawVehicleListing: (listingId: string) => { success: boolean; message: string };
+  /**
+   * takeLoan
+   * @description Borrow a term loan within the bank's offer (see companyBanking). Instalments are
+   *              charged every bank month of the term.
+   */
+  takeLoan: (amount: number, termMonths: number) => { success: boolean; message: string };
+  /**
+   * repayLoan
+   * @description Repay the outstanding principal and arrears of a loan early, without a fee.
+   */
+  repayLoan: (loanId: string) => { success: boolean; message: string };
+  /**
+   * openCreditLine
+   * @description Open the revolving credit line at the limit the bank offers now.
+   */
+  openCreditLine: () => { success: boolean; message: string };
+  /**
+   * drawCredit
+   * @description Draw an amount from the credit line into capital.
+   */
+  drawCredit: (amount: number) => { success: boolean; message: string };
+  /**
+   * repayCredit
+   * @description Repay an amount of the credit line; arrears are settled first.
+   */
+  repayCredit: (amount: number) => { success: boolean; message: string };
 }
 
 /**
@@ -342,6 +440,99 @@ const ensureStaffDefaults = (company: any) => {
   return company;
 };
 
+/**
+ * restoreCompany
+ * @description Bring a company loaded from storage up to date: staff defaults and saves from
+ *              before the reputation model (see migrateReputation) or without vehicle purchase
+ *              dates (see migratePurchaseDates).
+ */
+const restoreCompany = (company: any) => migratePurchaseDates(migrateReputation(ensureStaffDefaults(company)));
+
+/**
+ * completeJobOnCompany
+ * @description Mark a job completed on a company object and settle it once: pay the job value
+ *              (a delivery clone is paid its weight share of the parent job), apply the late
+ *              penalty, charge fuel, tolls, ferries and customs and record the delivery reputation change.
+ *              Used by completeJob and the background tick.
+ * @param company any company object
+ * @param jobId string
+ * @param now completion time (epoch ms)
+ * @returns any updated company (not persisted)
+ */
+const completeJobOnCompany = (company: any, jobId: string, now: number = Date.now()) => {
+  const original: any[] = company?.activeJobs || [];
+  const targetJob: any = original.find(j => j.id === jobId);
+  // If job already completed, do nothing
+  const alreadyCompleted = targetJob ? targetJob.status === 'completed' : false;
+
+  // Mark job completed (idempotent)
+  let updatedJobs: any[] = original.map(j => j.id === jobId ? { ...j, status: 'completed', progress: 100 } : j);
+  let updatedCompany: any = { ...company, activeJobs: updatedJobs };
+
+  // Settle the job (only once per job record)
+  if (targetJob && !alreadyCompleted && !targetJob.settlement) {
+    const parent: any = targetJob.parentJobId ? original.find((j: any) => j.id === targetJob.parentJobId) : null;
+    const source: any = parent ?? targetJob;
+    const totalValue = Math.max(0, Number(source.value ?? 0));
+    const alreadyPaid = Math.max(0, Number(source.paidAmount ?? 0));
+    const remaining = Math.max(0, totalValue - alreadyPaid);
+
+    let payout = remaining;
+    if (parent) {
+      const share = Number(parent.weight) > 0 ? Math.min(1, Number(targetJob.weight ?? 0) / Number(parent.weight)) : 1;
+      payout = Math.min(remaining, Math.round(totalValue * share));
+    }
+
+    // A canonical job whose deliveries were already settled has no driving costs left to charge
+    const drivenByClones = !parent && alreadyPaid > 0;
+    const truck: any = (updatedCompany.trucks || []).find((t: any) => String(t.id) === String(targetJob.assignedTruck));
+    const settlement = computeSettlement(targetJob, {
+      payout,
+      completedAt: now,
+      deadlineBase: source.startTime,
+      fuelConsumption: Number(truck?.specifications?.fuelConsumption ?? truck?.fuelConsumption) || undefined,
+      // Tolls of tracked jobs follow the countries on the route (borderService)
+      ...(typeof targetJob.lifecycle?.tollCost === 'number' ? { tollCost: targetJob.lifecycle.tollCost } : {}),
+      ...(drivenByClones ? { fuelCost: 0, tollCost: 0 } : {}),
+      // Fuel of tracked jobs was already charged at the refuelling stops (fuelSystem)
+      ...(targetJob.fuel ? { fuelCost: 0 } : {}),
+      ferryCost: drivenByClones ? 0 : (targetJob.lifecycle?.ferries || []).reduce((sum: number, f: any) => sum + (Number(f.fare) || 0), 0),
+      customsCost: drivenByClones ? 0 : Number(targetJob.lifecycle?.customsFee) || 0
+    });
+
+    updatedCompany = applySettlement(updatedCompany, settlement);
+    updatedJobs = (updatedCompany.activeJobs || []).map((j: any) => {
+      if (j.id === targetJob.id) return { ...j, settlement, paidAmount: parent ? j.paidAmount : alreadyPaid + payout };
+      if (parent && j.id === parent.id) {
+        return { ...j, paidAmount: alreadyPaid + payout, deliveredTons: (Number(j.deliveredTons) || 0) + (Number(targetJob.weight) || 0) };
+      }
+      return j;
+    });
+    updatedCompany.activeJobs = updatedJobs;
+
+    // Reputation follows the actual delivery (clones), not the closing of their canonical job
+    if (!drivenByClones) {
+      updatedCompany = applyReputationChanges(
+        updatedCompany,
+        deliveryReputationChanges(targetJob, settlement.hoursLate, targetJob.cargoDamage).map((c) => ({ ...c, date: new Date(now).toISOString() }))
+      );
+    }
+  }
+
+  // Update assigned driver statistics
+  if (targetJob && targetJob.assignedDriver) {
+    updatedCompany.staff = (updatedCompany.staff || []).map((s: any) => {
+      if (s.id !== targetJob.assignedDriver) return s;
+      s.tours = (typeof s.tours === 'number' ? s.tours : 0) + 1;
+      s.kilometers = (typeof s.kilometers === 'number' ? s.kilometers : 0) + (targetJob.distance || 0);
+      s.happiness = Math.min(100, (typeof s.happiness === 'number' ? s.happiness : 100) + 0.5);
+      return s;
+    });
+  }
+
+  return updatedCompany;
+};
+
 /**
  * updateStaffStatuses
  * @description Derived runtime statuses computed from training/vacation/activeJobs.
@@ -497,12 +688,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
 
     if (currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
       const adminState = userStorage.getAdminState();
-      let company = adminState?.company ? ensureStaffDefaults(adminState.company) : null;
-
-      // Force displayed & in-memory admin company reputation to 0 immediately
-      if (company) {
-        company.reputation = 0;
-      }
+      const company = adminState?.company ? restoreCompany(adminState.company) : null;
 
       // Ensure derived statuses (training/on-job/vacation) are up-to-date on restore
       const companyWithStatuses = company ? updateStaffStatuses(company) : null;
@@ -519,12 +705,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
 
     const userState = userStorage.getUserGameState(currentUser);
     const user = userStorage.findUser(currentUser);
-    let company = (userState?.company || user?.company) ? ensureStaffDefaults(userState?.company || user.company) : null;
-
-    // Force displayed & in-memory user company reputation to 0 immediately
-    if (company) {
-      company.reputation = 0;
-    }
+    const company = (userState?.company || user?.company) ? restoreCompany(userState?.company || user.company) : null;
 
     // Ensure derived statuses (training/on-job/vacation) are up-to-date on restore
     const companyWithStatuses = company ? updateStaffStatuses(company) : null;
@@ -555,8 +736,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
    * Persist game state when it changes (company)
    *
    * @description Persist the current game state (company and sidebar) into localStorage.
-   * This runs whenever gameState changes. Note: company persistence occurs after any
-   * reputation enforcement effect applied below, so storage always stores reputation = 0.
+   * This runs whenever gameState changes.
    */
   useEffect(() => {
     if (!gameState.isAuthenticated || !gameState.currentUser) return;
@@ -569,18 +749,14 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   }, [gameState]);
 
   /**
-   * enforceCompanyReputationZero & enforceAdminCapital
-   * @description Ensure the active company always has reputation === 0 and, for the
-   * admin account only, enforce a starting capital of 1,000,000.
+   * enforceAdminCapital
+   * @description For the admin account only, enforce a starting capital of 1,000,000.
    *
    * This effect will:
-   *  - If there is an active company and its reputation is not 0, set it to 0.
    *  - If the current user is the admin account, force company.capital to the ADMIN_CAPITAL.
-   *  - Persist the change immediately to the respective storage (admin or user).
-   *  - Update in-memory gameState so all pages/components reflect the enforced values.
+   *  - Persist the change immediately to admin storage.
+   *  - Update in-memory gameState so all pages/components reflect the enforced value.
    *
-   * Note: Reputation enforcement preserves previous behavior. The admin-capital enforcement
-   * ensures the admin company always shows the configured starting capital (only for admin).
    */
   useEffect(() => {
     try {
@@ -590,51 +766,38 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
 
       const ADMIN_CAPITAL = 1_000_000;
 
-      let needsPersist = false;
-      const updatedCompany: any = { ...company };
-
-      // Enforce reputation = 0
-      const currentReputation = typeof company.reputation === 'number' ? company.reputation : Number(company.reputation ?? 0);
-      if (currentReputation !== 0) {
-        updatedCompany.reputation = 0;
-        needsPersist = true;
-      }
+      if (currentUser !== ADMIN_ACCOUNT.email.toLowerCase()) return;
 
-      // If admin user, enforce starting capital
-      if (currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
-        const currentCapital = typeof company.capital === 'number' ? company.capital : Number(company.capital ?? 0);
-        if (currentCapital !== ADMIN_CAPITAL) {
-          updatedCompany.capital = ADMIN_CAPITAL;
-          needsPersist = true;
-        }
-      }
+      const currentCapital = typeof company.capital === 'number' ? company.capital : Number(company.capital ?? 0);
+      if (currentCapital === ADMIN_CAPITAL) return;
 
-      if (!needsPersist) return;
-
-      // Persist to storage for admin or regular user
-      if (currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
-        // Ensure reputation stays 0 when persisting admin state and capital is enforced
-        updatedCompany.reputation = 0;
-        userStorage.saveAdminState({ isAuthenticated: true, company: updatedCompany, sidebarCollapsed: gameState.sidebarCollapsed });
-      } else {
-        // update both user record and per-user state
-        updatedCompany.reputation = 0;
-        userStorage.updateUser(currentUser, { company: updatedCompany });
-        userStorage.saveUserGameState(currentUser, { isAuthenticated: true, company: updatedCompany, sidebarCollapsed: gameState.sidebarCollapsed });
-      }
+      const updatedCompany: any = { ...company, capital: ADMIN_CAPITAL };
+      userStorage.saveAdminState({ isAuthenticated: true, company: updatedCompany, sidebarCollapsed: gameState.sidebarCollapsed });
 
       // Update in-memory state (this will trigger the general persist effect above)
       setGameState(prev => ({ ...prev, company: updatedCompany }));
     } catch (err) {
-      console.error('enforceCompanyReputationZero & enforceAdminCapital error', err);
+      console.error('enforceAdminCapital error', err);
     }
-    // Include company id, reputation and capital in deps to catch changes and loaded persisted values
-  }, [gameState.company?.id, gameState.company?.reputation, gameState.company?.capital, gameState.currentUser, gameState.sidebarCollapsed]);
+    // Include company id and capital in deps to catch changes and loaded persisted values
+  }, [gameState.company?.id, gameState.company?.capital, gameState.currentUser, gameState.sidebarCollapsed]);
 
   /**
    * backgroundTick
    * - Reconciles statuses
    * - Finalizes training when endDate reached
+   * - Runs due payroll cycles (see payrollEngine)
+   * - Finishes due truck services (see maintenanceScheduler)
+   * - Charges lease months and ends, returns or repossesses leased vehicles (see vehicleLeasing)
+   * - Charges loan instalments and credit line interest, with late fees on missed payments (see companyBanking)
+   * - Delivers purchased vehicles whose ETA has passed (see incomingDeliveryUtils)
+   * - Credits vehicles sold on the used market (see vehicleResale)
+   * - Advances started jobs and auto-completes deliveries (see jobLifecycleEngine)
+   * - Burns fuel for the distance driven and refuels low tanks (see fuelSystem)
+   * - Stores driver hours and fines hours-of-service violations of delivered jobs (see hoursOfService)
+   * - Awards ended contract competitions and signs the ones won (see contractBidding)
+   * - Evaluates and creates the operations of signed contracts (see contractExecution)
+   * - Checks the distance driven by moving jobs for incidents (see incidentResolutionEngine)
    *
    * Note: interval is kept small for development; in production increase it or use server events.
    */
@@ -702,20 +865,78 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
           return st;
         });
 
+        // Run payroll cycles that fell due (unpaid staff lose happiness and may resign)
+        const payroll = payrollEngine.processDue(companyClone, now);
+        if (payroll.changed) changed = true;
+
+        // Return trucks whose service is finished
+        const maintenance = maintenanceScheduler.processDue(payroll.company, now);
+        if (maintenance.changed) changed = true;
+
+        // Charge lease months; return or repossess leased vehicles (see vehicleLeasing)
+        const leases = vehicleLeasing.processDue(maintenance.company, now);
+        if (leases.changed) changed = true;
+
+        // Charge loan instalments and credit line interest that fell due (see companyBanking)
+        const banking = companyBanking.processDue(leases.company, now);
+        if (banking.changed) changed = true;
+
+        // Move purchased vehicles whose delivery arrived into the fleet (see vehiclePurchaseService)
+        const arrivals = processIncomingDeliveries(banking.company, now);
+        if (arrivals.moved.length > 0) changed = true;
+
+        // Credit vehicles other players bought on the used market (see vehicleResale); the market
+        // is stored once the company is persisted
+        const usedMarket = loadUsedMarket();
+        const resale = vehicleResale.collect(arrivals.updatedCompany, usedMarket, now);
+        if (resale.sold.length > 0) changed = true;
+
+        // Advance started jobs and complete delivered ones; a canonical job closes once its
+        // deliveries have moved the whole weight and none is still on the road
+        const lifecycle = jobLifecycleEngine.advance(resale.company, now);
+        if (lifecycle.changed) changed = true;
+
+        // Fuel for the distance driven, including the last leg of jobs delivered in this tick
+        const fuel = fuelSystem.consume(lifecycle.company, now);
+        let progressed = fuel.company;
+        if (fuel.changed) changed = true;
+        lifecycle.delivered.forEach((jobId) => {
+          progressed = hoursOfService.applyDelivery(progressed, jobId, now);
+          progressed = completeJobOnCompany(progressed, jobId, now);
+          const delivered = (progressed.activeJobs || []).find((j: any) => j.id === jobId);
+          const parent = delivered?.parentJobId ? (progressed.activeJobs || []).find((j: any) => j.id === delivered.parentJobId) : null;
+          if (!parent || ['completed', 'cancelled'].includes(String(parent.status))) return;
+          const openClones = (progressed.activeJobs || []).some((j: any) => j.parentJobId === parent.id && !['completed', 'cancelled'].includes(String(j.status)));
+          if (!openClones && (Number(parent.deliveredTons) || 0) >= (Number(parent.weight) || 0)) {
+            progressed = completeJobOnCompany(progressed, parent.id, now);
+          }
+        });
+
+        // Contracts won by the company are signed, whether or not the ContractJobs page is open
+        const signed = contractExecutionEngine.signAwarded(progressed, advanceContractBoards(progressed.hub?.country || '', now), now);
+        if (signed !== progressed) changed = true;
+        progressed = signed;
+
+        // Contract operations: SLA of the delivered ones, new ones that fell due, terminations
+        const contracts = contractExecutionEngine.processDue(progressed, now);
+        progressed = contracts.company;
+        if (contracts.changed) changed = true;
+
+        // Distance driven since the last tick is checked for incidents once the tick is persisted
+        const road = incidentResolutionEngine.collectRoadSegments(progressed, now);
+        const roadSegments: RoadSegment[] = road.segments;
+        progressed = road.company;
+
         // Update derived statuses for non-training staff
-        const normalized = updateStaffStatuses(companyClone);
+        const normalized = updateStaffStatuses(progressed);
 
         // Persist if changed
         const prevJson = JSON.stringify(gameState.company);
         const newJson = JSON.stringify(normalized);
         if (prevJson !== newJson || changed) {
           if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
-            // Ensure reputation stays 0 when persisting admin state
-            normalized.reputation = 0;
             userStorage.saveAdminState({ isAuthenticated: true, company: normalized, sidebarCollapsed: gameState.sidebarCollapsed });
           } else {
-            // Ensure reputation stays 0 when persisting user state
-            normalized.reputation = 0;
             userStorage.updateUser(gameState.currentUser, { company: normalized });
             userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: normalized, sidebarCollapsed: gameState.sidebarCollapsed });
           }
@@ -730,6 +951,11 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
             }
           });
         }
+
+        if (resale.market !== usedMarket) saveUsedMarket(resale.market);
+
+        // Incidents are raised as 'truckIncident' events and resolved by the listener below
+        roadSegments.forEach((segment) => incidentEngine.evaluateAndMaybeTrigger(segment.truck, segment.driver, segment.distanceKm));
       } catch (err) {
         console.warn('[GameContext] backgroundTick error', err);
       }
@@ -744,6 +970,27 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameState.currentUser, gameState.company]);
 
+  /**
+   * truckIncident listener
+   * @description Resolve incidents raised by incidentEngine (roadside repair / mechanic / towing,
+   *              job delay, truck and cargo damage, costs). The persist effect stores the result.
+   */
+  useEffect(() => {
+    if (!gameState.currentUser) return;
+    const onIncident = (event: Event) => {
+      const detail = (event as CustomEvent<IncidentDetail>).detail;
+      if (!detail?.truckId) return;
+      setGameState(prev => {
+        if (!prev.company) return prev;
+        const result = incidentResolutionEngine.resolve(prev.company, detail, detail.timestamp || Date.now());
+        if (!result.incident) return prev;
+        return { ...prev, company: updateStaffStatuses(result.company) };
+      });
+    };
+    window.addEventListener('truckIncident', onIncident);
+    return () => window.removeEventListener('truckIncident', onIncident);
+  }, [gameState.currentUser]);
+
   /**
    * setCurrentPage
    * @description update current page
@@ -777,8 +1024,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
               name: 'Admin',
               level: 'enterprise',
               capital: 1000000,
-              // enforce reputation 0 for admin default
-              reputation: 0,
+              reputation: INITIAL_REPUTATION,
               employees: 50,
               founded: new Date(),
               hub: { id: 'frankfurt', name: 'Frankfurt', country: 'Germany', region: 'euro-asia', capacity: 100, level: 5, cost: 50000 },
@@ -794,9 +1040,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
           };
           userStorage.saveAdminState(adminState);
         }
-        const company = adminState.company ? ensureStaffDefaults(adminState.company) : null;
-        // Ensure company reputation is 0 in-memory as well
-        if (company) company.reputation = 0;
+        const company = adminState.company ? restoreCompany(adminState.company) : null;
         sessionStorage.setItem('tm_current_user', ADMIN_ACCOUNT.email.toLowerCase());
         setGameState({ isAuthenticated: true, currentPage: 'dashboard', company, sidebarCollapsed: adminState.sidebarCollapsed ?? false, currentUser: ADMIN_ACCOUNT.email.toLowerCase() });
         return { success: true, message: 'Admin login successful' };
@@ -808,9 +1052,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       if (user.password !== password) return { success: false, message: 'Invalid email or password' };
 
       const userState = userStorage.getUserGameState(normalized);
-      const company = (userState?.company || user.company) ? ensureStaffDefaults(userState?.company || user.company) : null;
-      // Force company reputation 0 on login restore
-      if (company) company.reputation = 0;
+      const company = (userState?.company || user.company) ? restoreCompany(userState?.company || user.company) : null;
       sessionStorage.setItem('tm_current_user', normalized);
       userStorage.saveUserGameState(normalized, { isAuthenticated: true, company, sidebarCollapsed: userState?.sidebarCollapsed ?? false });
       setGameState({ isAuthenticated: true, currentPage: 'dashboard', company, sidebarCollapsed: userState?.sidebarCollapsed ?? false, currentUser: normalized });
@@ -923,15 +1165,16 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   /**
    * createCompany
    *
-   * Ensures new companies have defaults (including reputation = 0) and persists them.
+   * Ensures new companies have defaults (including the initial reputation) and persists them.
+   * Returns false and keeps the current state when the company could not be saved.
    */
-  const createCompany = (company: Company) => {
+  const createCompany = (company: Company): boolean => {
     if (!gameState.currentUser) {
       console.error('createCompany: no current user');
-      return;
+      return false;
     }
     try {
-      // Ensure sensible defaults and specifically set reputation to 0 when not provided
+      // Ensure sensible defaults; reputation starts at INITIAL_REPUTATION when not provided
       const normalizedCompany = {
         ...company,
         email: gameState.currentUser,
@@ -940,22 +1183,23 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         staff: Array.isArray(company.staff) ? company.staff : [],
         contracts: Array.isArray(company.contracts) ? company.contracts : [],
         activeJobs: Array.isArray(company.activeJobs) ? company.activeJobs : [],
-        // reputation default: 0 for newly created/updated companies (keeps admin state untouched if present)
-        reputation: typeof company.reputation === 'number' ? company.reputation : 0
+        reputation: typeof company.reputation === 'number' ? company.reputation : INITIAL_REPUTATION
       };
       const ensured = ensureStaffDefaults(normalizedCompany);
       const updated = updateStaffStatuses(ensured);
-      // Force reputation to 0 before persisting
-      updated.reputation = 0;
+      let saved: boolean;
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
-        userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+        saved = userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       } else {
         userStorage.updateUser(gameState.currentUser, { company: updated });
-        userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+        saved = userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       }
+      if (!saved) return false;
       setGameState(prev => ({ ...prev, company: updated }));
+      return true;
     } catch (err) {
       console.error('createCompany error', err);
+      return false;
     }
   };
 
@@ -1102,14 +1346,18 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       // ignore storage errors
     }
 
-    // Apply capital deduction centrally when requested
-    const capitalBefore = typeof gameState.company.capital === 'number' ? gameState.company.capital : 0;
+    // Apply capital deduction centrally when requested (recorded in the company ledger)
     const deduction = typeof opts?.deductCapital === 'number' ? Math.max(0, Math.round(opts!.deductCapital)) : 0;
-    const updatedCompany: any = {
-      ...gameState.company,
-      capital: Math.max(0, capitalBefore - deduction),
-      staff: [...(gameState.company.staff || []), newStaff]
-    };
+    const updatedCompany: any = postTransaction(
+      { ...gameState.company, staff: [...(gameState.company.staff || []), newStaff] },
+      {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.HIRING,
+        amount: deduction,
+        description: `Hired ${newStaff.name} (${newStaff.role})`,
+        reference: newStaff.id
+      }
+    );
 
     // Use createCompany (GameContext) to persist, preserving existing behavior
     if (typeof createCompany === 'function') {
@@ -1135,15 +1383,21 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
    * Rules:
    * - Newly accepted jobs MUST start with status 'preparing' (not 'loading').
    * - Jobs must remain in 'preparing' until the user explicitly clicks "Start Job Delivery".
+   * - The truck / trailer / driver assignment must pass validateAssignment; otherwise nothing
+   *   is added and the failed rules are returned for the accept dialog.
    * - No automatic background effect should move a job out of 'preparing' (status transition
-   *   is only executed by explicit user action / Start button handlers).
+   *   is only executed by explicit user action / Start button handlers). Once started,
+   *   jobLifecycleEngine advances the job from the background tick.
    */
-  const acceptJob = (jobData: any) => {
+  const acceptJob = (jobData: any): AssignmentValidation => {
     if (!gameState.currentUser || !gameState.company) {
       alert('Please login and create company first');
-      return;
+      return { valid: false, issues: [] };
     }
     try {
+      const validation = validateAssignment(gameState.company, jobData, jobData);
+      if (!validation.valid) return validation;
+
       const ts = Date.now();
       const id = `job-${String(ts).slice(-6)}-${gameState.currentUser}`;
       const newJob: ActiveJob = {
@@ -1153,6 +1407,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         assignedTruck: jobData.assignedTruck ?? '',
         assignedTrailer: jobData.assignedTrailer ?? '',
         assignedDriver: jobData.assignedDriver ?? '',
+        ...(jobData.assignedCoDriver ? { assignedCoDriver: jobData.assignedCoDriver } : {}),
         startTime: new Date(),
         estimatedCompletion: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
         progress: 0,
@@ -1173,48 +1428,53 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: updated }));
       alert(`Job accepted: ${newJob.title}`);
+      return validation;
     } catch (err) {
       console.error('acceptJob error', err);
       alert('Failed to accept job');
+      return { valid: false, issues: [] };
+    }
+  };
+
+  /**
+   * acceptConsolidatedLoad
+   * @description Accept a multi-drop load: one 'preparing' job per consignment in the planned drop
+   *              order. Only the first drop is started by the user; jobLifecycleEngine starts the
+   *              others and every drop is settled on its own.
+   */
+  const acceptConsolidatedLoad = (consignments: Consignment[], assignment: AssignmentInput): ConsolidationCheck => {
+    if (!gameState.currentUser || !gameState.company) {
+      alert('Please login and create company first');
+      return { valid: false, issues: [], drops: consignments, totalWeight: 0, distanceKm: 0 };
+    }
+    try {
+      const check = loadConsolidation.check(gameState.company, consignments, assignment);
+      if (!check.valid) return check;
+
+      const loadId = `load-${String(Date.now()).slice(-6)}-${gameState.currentUser}`;
+      const jobs = loadConsolidation.buildJobs(check.drops, assignment, loadId);
+      const updated = { ...gameState.company, activeJobs: [...(gameState.company.activeJobs || []), ...jobs] };
+      updateStaffStatuses(updated);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      alert(`Load accepted: ${jobs.length} drops, ${check.totalWeight} t`);
+      return check;
+    } catch (err) {
+      console.error('acceptConsolidatedLoad error', err);
+      alert('Failed to accept load');
+      return { valid: false, issues: [], drops: consignments, totalWeight: 0, distanceKm: 0 };
     }
   };
 
   /**
    * completeJob
+   * @description Manually complete a job (see completeJobOnCompany) and persist the company.
    */
   const completeJob = (jobId: string) => {
     if (!gameState.company || !gameState.currentUser) return;
     try {
-      const original = gameState.company.activeJobs || [];
-      const targetJob = original.find(j => j.id === jobId);
-      // If job already completed, do nothing
-      const alreadyCompleted = targetJob ? targetJob.status === 'completed' : false;
-
-      // Mark job completed (idempotent)
-      const updatedJobs = original.map(j => j.id === jobId ? { ...j, status: 'completed', progress: 100 } : j);
-      const updatedCompany: any = { ...gameState.company, activeJobs: updatedJobs };
-
-      // If this job transitioned to completed now (was not completed before), apply reputation gain
-      if (targetJob && !alreadyCompleted) {
-        // Ensure numeric reputation
-        updatedCompany.reputation = typeof updatedCompany.reputation === 'number' ? updatedCompany.reputation : 0;
-        // Increase reputation by 0.10 per completed job
-        updatedCompany.reputation = Number((updatedCompany.reputation + 0.10).toFixed(2));
-      }
-
-      // Update assigned driver statistics
-      if (targetJob && targetJob.assignedDriver) {
-        updatedCompany.staff = (updatedCompany.staff || []).map((s: any) => {
-          if (s.id !== targetJob.assignedDriver) return s;
-          s.tours = (typeof s.tours === 'number' ? s.tours : 0) + 1;
-          s.kilometers = (typeof s.kilometers === 'number' ? s.kilometers : 0) + (targetJob.distance || 0);
-          s.happiness = Math.min(100, (typeof s.happiness === 'number' ? s.happiness : 100) + 0.5);
-          return s;
-        });
-      }
-
-      // Persist but ensure reputation remains 0 in persistence (enforcement)
-      updatedCompany.reputation = 0;
+      const updatedCompany: any = completeJobOnCompany(gameState.company, jobId);
 
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updatedCompany, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: updatedCompany }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updatedCompany, sidebarCollapsed: gameState.sidebarCollapsed }); }
@@ -1226,14 +1486,24 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
 
   /**
    * cancelJob
+   * @description Cancel a job and charge a cancellation fee scaled by the job progress.
    */
   const cancelJob = (jobId: string) => {
     if (!gameState.company || !gameState.currentUser) return;
     try {
-      const updated: any = { ...gameState.company, activeJobs: (gameState.company.activeJobs || []).map(j => j.id === jobId ? { ...j, status: 'cancelled' } : j) };
+      const targetJob: any = (gameState.company.activeJobs || []).find(j => j.id === jobId);
+      const alreadyClosed = targetJob ? ['completed', 'cancelled'].includes(String(targetJob.status)) : true;
+      const charge = targetJob && !alreadyClosed ? computeCancellationFee(targetJob) : null;
+
+      let updated: any = {
+        ...gameState.company,
+        activeJobs: (gameState.company.activeJobs || []).map(j => j.id === jobId
+          ? { ...j, status: 'cancelled', ...(charge ? { cancellationFee: charge.fee } : {}) }
+          : j)
+      };
+      if (charge?.line) updated = postTransaction(updated, charge.line);
+      if (targetJob && !alreadyClosed) updated = applyReputationChange(updated, cancellationReputationChange(targetJob));
       updateStaffStatuses(updated);
-      // Ensure reputation remains 0
-      updated.reputation = 0;
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: updated }));
@@ -1293,8 +1563,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         s.happiness = Math.max(0, Math.min(100, (typeof s.happiness === 'number' ? s.happiness : 100) + delta));
         return s;
       }) };
-      // Ensure reputation remains 0
-      updated.reputation = 0;
+      // Persist
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: updated }));
@@ -1340,8 +1609,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         staff.status = 'available';
       }
 
-      // Persist and ensure reputation remains 0
-      companyClone.reputation = 0;
+      // Persist
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: companyClone, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: companyClone }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: companyClone, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: companyClone }));
@@ -1365,7 +1633,6 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         s.happiness = Math.max(0, Math.min(100, (typeof s.happiness === 'number' ? s.happiness : 100) + 3));
         return s;
       }) };
-      updated.reputation = 0;
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: updated }));
@@ -1427,8 +1694,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         return s;
       }) };
 
-      // Ensure reputation remains 0 when persisting
-      updated.reputation = 0;
+      // Persist
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) {
         userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       } else {
@@ -1452,7 +1718,6 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         if (j.assignedDriver === staffId) j.assignedDriver = '';
         return j;
       });
-      updated.reputation = 0;
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: updated }));
@@ -1500,8 +1765,16 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
 
       if ((companyClone.capital || 0) < cost) return { success: false, message: 'Insufficient capital' };
 
-      // Deduct cost immediately
-      companyClone.capital = Math.max(0, (companyClone.capital || 0) - cost);
+      // Deduct cost immediately (recorded in the company ledger)
+      const charged = postTransaction(companyClone, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.TRAINING,
+        amount: cost,
+        description: `Training: ${skillName} for ${staff.name}`,
+        reference: staff.id
+      });
+      companyClone.capital = charged.capital;
+      companyClone.ledger = charged.ledger;
 
       // Prepare training entry
       const start = new Date();
@@ -1518,8 +1791,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       // Apply to staff
       companyClone.staff[idx] = { ...staff, training: trainingEntry, status: 'training' };
 
-      // Persist and ensure reputation stays 0
-      companyClone.reputation = 0;
+      // Persist
       if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: companyClone, sidebarCollapsed: gameState.sidebarCollapsed });
       else { userStorage.updateUser(gameState.currentUser, { company: companyClone }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: companyClone, sidebarCollapsed: gameState.sidebarCollapsed }); }
       setGameState(prev => ({ ...prev, company: companyClone }));
@@ -1533,6 +1805,229 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * scheduleMaintenance
+   * @description Charge a service quote and take the truck out of service (see maintenanceScheduler).
+   */
+  const scheduleMaintenance = (truckId: string, quote: MaintenanceQuote) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = maintenanceScheduler.schedule(gameState.company, truckId, quote);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: 'Service scheduled (' + quote.durationDays + ' days, cost ' + quote.cost.toLocaleString() + ' USD)' };
+    } catch (err) {
+      console.error('scheduleMaintenance error', err);
+      return { success: false, message: 'Failed to schedule maintenance' };
+    }
+  };
+
+  /**
+   * returnLeasedVehicle
+   * @description Return a leased vehicle, paying the termination fee and arrears (see vehicleLeasing).
+   */
+  const returnLeasedVehicle = (vehicleId: string) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = vehicleLeasing.returnVehicle(gameState.company, vehicleId);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: 'Vehicle returned to the lessor' };
+    } catch (err) {
+      console.error('returnLeasedVehicle error', err);
+      return { success: false, message: 'Failed to return the vehicle' };
+    }
+  };
+
+  /**
+   * buyOutLeasedVehicle
+   * @description Buy out a leased vehicle at the end of its term (see vehicleLeasing).
+   */
+  const buyOutLeasedVehicle = (vehicleId: string) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = vehicleLeasing.buyOut(gameState.company, vehicleId);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: 'Vehicle bought out' };
+    } catch (err) {
+      console.error('buyOutLeasedVehicle error', err);
+      return { success: false, message: 'Failed to buy out the vehicle' };
+    }
+  };
+
+  /**
+   * tradeInVehicle
+   * @description Sell a vehicle to the dealer at the trade-in price (see vehicleResale).
+   */
+  const tradeInVehicle = (vehicleId: string) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = vehicleResale.tradeIn(gameState.company, loadUsedMarket(), vehicleId);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      saveUsedMarket(result.market);
+      return { success: true, message: `Sold to the dealer for ${(result.credited ?? 0).toLocaleString()}` };
+    } catch (err) {
+      console.error('tradeInVehicle error', err);
+      return { success: false, message: 'Failed to sell the vehicle' };
+    }
+  };
+
+  /**
+   * listVehicleForSale
+   * @description List a vehicle on the used market of the world (see vehicleResale).
+   */
+  const listVehicleForSale = (vehicleId: string, askingPrice?: number) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = vehicleResale.list(gameState.company, loadUsedMarket(), vehicleId, askingPrice);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      saveUsedMarket(result.market);
+      return { success: true, message: 'Vehicle listed on the used market' };
+    } catch (err) {
+      console.error('listVehicleForSale error', err);
+      return { success: false, message: 'Failed to list the vehicle' };
+    }
+  };
+
+  /**
+   * withdrawVehicleListing
+   * @description Withdraw an unsold used-market listing (see vehicleResale).
+   */
+  const withdrawVehicleListing = (listingId: string) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = vehicleResale.withdraw(gameState.company, loadUsedMarket(), listingId);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      saveUsedMarket(result.market);
+      return { success: true, message: 'Listing withdrawn; the vehicle is back in the fleet' };
+    } catch (err) {
+      console.error('withdrawVehicleListing error', err);
+      return { success: false, message: 'Failed to withdraw the listing' };
+    }
+  };
+
+  /**
+   * takeLoan
+   * @description Borrow a term loan (see companyBanking).
+   */
+  const takeLoan = (amount: number, termMonths: number) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = companyBanking.takeLoan(gameState.company, amount, termMonths);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: `Loan of ${Math.round(amount).toLocaleString()} credited` };
+    } catch (err) {
+      console.error('takeLoan error', err);
+      return { success: false, message: 'Failed to take the loan' };
+    }
+  };
+
+  /**
+   * repayLoan
+   * @description Repay a loan early (see companyBanking).
+   */
+  const repayLoan = (loanId: string) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = companyBanking.repayLoan(gameState.company, loanId);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: 'Loan repaid' };
+    } catch (err) {
+      console.error('repayLoan error', err);
+      return { success: false, message: 'Failed to repay the loan' };
+    }
+  };
+
+  /**
+   * openCreditLine
+   * @description Open the credit line (see companyBanking).
+   */
+  const openCreditLine = () => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = companyBanking.openCreditLine(gameState.company);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: `Credit line of ${(result.company.creditLine?.limit ?? 0).toLocaleString()} opened` };
+    } catch (err) {
+      console.error('openCreditLine error', err);
+      return { success: false, message: 'Failed to open the credit line' };
+    }
+  };
+
+  /**
+   * drawCredit
+   * @description Draw from the credit line (see companyBanking).
+   */
+  const drawCredit = (amount: number) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = companyBanking.drawCredit(gameState.company, amount);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: `${Math.round(amount).toLocaleString()} drawn from the credit line` };
+    } catch (err) {
+      console.error('drawCredit error', err);
+      return { success: false, message: 'Failed to draw from the credit line' };
+    }
+  };
+
+  /**
+   * repayCredit
+   * @description Repay the credit line (see companyBanking).
+   */
+  const repayCredit = (amount: number) => {
+    if (!gameState.company || !gameState.currentUser) return { success: false, message: 'No company' };
+    try {
+      const result = companyBanking.repayCredit(gameState.company, amount);
+      if (result.error) return { success: false, message: result.error };
+      const updated = updateStaffStatuses(result.company);
+      if (gameState.currentUser === ADMIN_ACCOUNT.email.toLowerCase()) userStorage.saveAdminState({ isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed });
+      else { userStorage.updateUser(gameState.currentUser, { company: updated }); userStorage.saveUserGameState(gameState.currentUser, { isAuthenticated: true, company: updated, sidebarCollapsed: gameState.sidebarCollapsed }); }
+      setGameState(prev => ({ ...prev, company: updated }));
+      return { success: true, message: 'Credit line repayment booked' };
+    } catch (err) {
+      console.error('repayCredit error', err);
+      return { success: false, message: 'Failed to repay the credit line' };
+    }
+  };
+
   /**
    * Provide context value
    */
@@ -1544,6 +2039,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     register,
     createCompany,
     acceptJob,
+    acceptConsolidatedLoad,
     completeJob,
     cancelJob,
     logout,
@@ -1555,7 +2051,18 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     improveSkill,
     promoteStaff,
     fireStaff,
-    startTraining
+    startTraining,
+    scheduleMaintenance,
+    returnLeasedVehicle,
+    buyOutLeasedVehicle,
+    tradeInVehicle,
+    listVehicleForSale,
+    withdrawVehicleListing,
+    takeLoan,
+    repayLoan,
+    openCreditLine,
+    drawCredit,
+    repayCredit
   };
 
   return (
@@ -3,12 +3,18 @@
  * Provides the dynamic freight job market: generation, persistence and actions.
  *
  * Notes:
- * - On mount this provider regenerates the job market to avoid stale cached jobs.
+ * - The market persists: on mount the stored market is advanced to now (expired offers leave,
+ *   new offers arrive, see freightMarket); it is only generated from scratch when missing or
+ *   stored by an older version.
+ * - Offers are priced from freight supply and demand; accepted loads flood their lane.
  * - Jobs are saved to localStorage/sessionStorage for persistence.
+ * - Markets are seeded: the seed and generation time are stored with the market, and
+ *   regenerateMarket(seed, generatedAt) rebuilds the same offers for debugging and balancing.
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { generateJobsForCity, getAvailableCities } from '../utils/jobGenerator';
+import { freightMarket, FreightMarketState } from '../utils/freightMarket';
+import { randomSeed } from '../utils/seededRandom';
 
 /**
  * FreightOffer
@@ -34,6 +40,9 @@ export interface FreightOffer {
   allowPartialLoad: boolean;
   remainingWeight: number;
   cityJob?: boolean; // optional flag to mark explicit in-city offers
+  customsDocuments?: string[]; // documents of non-EU border crossings (borderService)
+  marketFactor?: number; // supply / demand price factor when posted (freightMarket)
+  postedAt?: number; // epoch ms the offer was posted; it expires on its deadline from then
 }
 
 /**
@@ -45,6 +54,11 @@ interface JobMarketState {
   lastUpdate: number;
   selectedCity: string;
   version?: number;
+  market?: FreightMarketState;
+  /** Seed of the offer generator (seededRandom) */
+  seed?: number;
+  /** Epoch ms the market was generated (prices depend on it) */
+  generatedAt?: number;
 }
 
 /**
@@ -59,6 +73,12 @@ interface JobMarketContextType {
   searchJobs: (query: string) => FreightOffer[];
   getHubCityJobs: (hubCity: string) => FreightOffer[];
   clearAcceptedJobs: () => void;
+  /**
+   * regenerateMarket
+   * Generate the market from a seed (a new one when omitted); with the stored seed and
+   * generatedAt the same offers are rebuilt.
+   */
+  regenerateMarket: (seed?: number, generatedAt?: number) => void;
 }
 
 const JobMarketContext = createContext<JobMarketContextType | undefined>(undefined);
@@ -67,7 +87,43 @@ const JobMarketContext = createContext<JobMarketContextType | undefined>(undefin
  * JOB_MARKET_VERSION
  * Bump this to force regeneration when generator logic changes.
  */
-const JOB_MARKET_VERSION = 1;
+const JOB_MARKET_VERSION = 2;
+
+/** Real-time interval between market advances (offers expire and arrive in simulated time) */
+const MARKET_TICK_MS = 5000;
+
+/**
+ * persistJobMarket
+ * Save the market to localStorage (fallback to sessionStorage).
+ */
+const persistJobMarket = (state: JobMarketState) => {
+  try {
+    localStorage.setItem('tm_job_market', JSON.stringify(state));
+  } catch (error) {
+    try {
+      sessionStorage.setItem('tm_job_market', JSON.stringify(state));
+    } catch (sessionError) {
+      console.log('Storage failed for job market persistence', sessionError);
+    }
+  }
+};
+
+/**
+ * loadJobMarket
+ * Stored market of the current version (localStorage, then sessionStorage), or null.
+ */
+const loadJobMarket = (): JobMarketState | null => {
+  for (const storage of [localStorage, sessionStorage]) {
+    try {
+      const raw = storage.getItem('tm_job_market');
+      const stored = raw ? (JSON.parse(raw) as JobMarketState) : null;
+      if (stored && stored.version === JOB_MARKET_VERSION && stored.market && Array.isArray(stored.jobs)) return stored;
+    } catch {
+      // ignore unreadable storage
+    }
+  }
+  return null;
+};
 
 interface JobMarketProviderProps {
   children: ReactNode;
@@ -75,7 +131,7 @@ interface JobMarketProviderProps {
 
 /**
  * JobMarketProvider
- * Generates and stores freight jobs. On mount it regenerates the market to avoid stale data.
+ * Generates, advances and stores the freight market.
  */
 export const JobMarketProvider: React.FC<JobMarketProviderProps> = ({ children }) => {
   const [jobMarket, setJobMarket] = useState<JobMarketState>({
@@ -87,65 +143,75 @@ export const JobMarketProvider: React.FC<JobMarketProviderProps> = ({ children }
 
   /**
    * generateAllJobs
-   * Create jobs for all available cities by calling the job generator.
-   * Persist results to localStorage (fallback to sessionStorage).
+   * Create a fresh market: offers for all available cities priced by the freight market, drawn
+   * from `seed` (a new seed when omitted). Persist results to localStorage (fallback to sessionStorage).
    */
-  const generateAllJobs = () => {
-    const cities = getAvailableCities();
-    const allJobs: FreightOffer[] = [];
-
-    cities.forEach(city => {
-      try {
-        const cityJobs = generateJobsForCity(city) as FreightOffer[];
-        if (Array.isArray(cityJobs)) {
-          allJobs.push(...cityJobs);
-        }
-      } catch (err) {
-        console.warn('generateJobsForCity failed for', city, err);
-      }
-    });
-
+  const generateAllJobs = (seed: number = randomSeed(), generatedAt: number = Date.now()) => {
+    const generated = freightMarket.generate(generatedAt, seed);
     const newState: JobMarketState = {
-      jobs: allJobs,
-      lastUpdate: Date.now(),
+      jobs: generated.jobs as FreightOffer[],
+      lastUpdate: generatedAt,
       selectedCity: jobMarket.selectedCity || 'All Cities',
-      version: JOB_MARKET_VERSION
+      version: JOB_MARKET_VERSION,
+      market: generated.market,
+      seed,
+      generatedAt
     };
 
     setJobMarket(newState);
+    persistJobMarket(newState);
+  };
 
-    try {
-      localStorage.setItem('tm_job_market', JSON.stringify(newState));
-    } catch (error) {
-      try {
-        sessionStorage.setItem('tm_job_market', JSON.stringify(newState));
-      } catch (sessionError) {
-        console.log('Storage failed for job market persistence', sessionError);
-      }
-    }
+  /**
+   * advanceMarket
+   * Expire offers past their deadline and post the offers that arrived since the last advance.
+   */
+  const advanceMarket = () => {
+    setJobMarket(prev => {
+      if (!prev.market) return prev;
+      const now = Date.now();
+      const advanced = freightMarket.advance(prev.jobs, prev.market, now);
+      const newState: JobMarketState = {
+        ...prev,
+        jobs: advanced.jobs as FreightOffer[],
+        lastUpdate: now,
+        version: JOB_MARKET_VERSION,
+        market: advanced.market
+      };
+      // Only store when offers changed; the arrival carry is replayed from lastTick on the next load
+      if (advanced.expired || advanced.posted) persistJobMarket(newState);
+      return newState;
+    });
   };
 
   /**
    * initializeJobMarket
-   * We intentionally regenerate the market on mount to guarantee the UI sees fresh offers.
-   * This avoids stale caches and ensures any generator changes are immediately reflected.
+   * Resume the stored market (advanced to now) or generate one, then keep it moving.
    */
   useEffect(() => {
-    generateAllJobs();
+    const stored = loadJobMarket();
+    if (stored) {
+      setJobMarket({ ...stored, selectedCity: stored.selectedCity || 'All Cities' });
+      advanceMarket();
+    } else {
+      generateAllJobs();
+    }
+    const interval = window.setInterval(advanceMarket, MARKET_TICK_MS);
+    return () => window.clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   /**
    * refreshJobs
-   * Public method to regenerate jobs on demand.
+   * Public method to bring the market up to date on demand.
    */
   const refreshJobs = () => {
-    generateAllJobs();
+    advanceMarket();
   };
 
   /**
    * acceptJob
-   * Update market when a job is accepted (partial or full).
+   * Update market when a job is accepted (partial or full); the load counts against its lane.
    *
    * @param jobId - ID of the job being accepted
    * @param acceptedWeight - accepted weight in tons
@@ -180,21 +246,11 @@ export const JobMarketProvider: React.FC<JobMarketProviderProps> = ({ children }
         ...prev,
         jobs: updatedJobs,
         lastUpdate: Date.now(),
-        version: JOB_MARKET_VERSION
+        version: JOB_MARKET_VERSION,
+        ...(prev.market ? { market: freightMarket.recordAcceptance(prev.market, jobToAccept, acceptedWeight, Date.now()) } : {})
       };
 
-      try {
-        localStorage.setItem('tm_job_market', JSON.stringify(newState));
-        console.log('✅ Job market updated - job removed/updated:', jobId);
-      } catch (error) {
-        try {
-          sessionStorage.setItem('tm_job_market', JSON.stringify(newState));
-          console.log('✅ Job market saved to session storage');
-        } catch (sessionError) {
-          console.log('⚠️ Storage failed for job update');
-        }
-      }
-
+      persistJobMarket(newState);
       return newState;
     });
   };
@@ -235,12 +291,20 @@ export const JobMarketProvider: React.FC<JobMarketProviderProps> = ({ children }
 
   /**
    * clearAcceptedJobs
-   * Regenerate market (useful for testing or resetting).
+   * Regenerate the market from scratch (useful for testing or resetting).
    */
   const clearAcceptedJobs = () => {
     generateAllJobs();
   };
 
+  /**
+   * regenerateMarket
+   * Rebuild the market from a seed (see JobMarketContextType.regenerateMarket).
+   */
+  const regenerateMarket = (seed?: number, generatedAt?: number) => {
+    generateAllJobs(seed ?? randomSeed(), generatedAt ?? Date.now());
+  };
+
   return (
     <JobMarketContext.Provider value={{
       jobMarket,
@@ -249,7 +313,8 @@ export const JobMarketProvider: React.FC<JobMarketProviderProps> = ({ children }
       setSelectedCity,
       searchJobs,
       getHubCityJobs,
-      clearAcceptedJobs
+      clearAcceptedJobs,
+      regenerateMarket
     }}>
       {children}
     </JobMarketContext.Provider>
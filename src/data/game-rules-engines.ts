@@ -76,14 +76,21 @@ export const manifest: {
       id: 'GR-001',
       name: 'Distance Calculation',
       description:
-        'Real-time distance calculation between cities using Haversine formula, precomputed matrix and optional online driving distances.',
+        'Real-time distance calculation between cities using a road graph (shortest paths through intermediate cities), precomputed matrix, Haversine formula and optional online driving distances.',
       category: 'Core',
       status: 'active',
-      version: '2.1.0',
+      version: '2.3.0',
       lastModified: '2024-01-30',
       author: 'System',
-      codePaths: ['src/utils/distanceCalculator.ts', 'src/utils/distance-scaffold.ts', 'src/utils/distances.json'],
-      notes: 'Used by job generator and map features.',
+      codePaths: [
+        'src/utils/distanceCalculator.ts',
+        'src/utils/roadRouting.ts',
+        'src/utils/distanceMatrix.ts',
+        'src/utils/distance-scaffold.ts',
+        'src/utils/distances.json',
+        'scripts/build-distances.ts'
+      ],
+      notes: 'Used by job generator and map features. The road graph links every city to its nearest neighbours (regional winding factors, sea crossings, closed borders); job destinations, truck positions and map routes follow its city paths. distances.json is the versioned matrix of every city pair, rebuilt offline with scripts/build-distances.ts.',
       metadata: {}
     },
     {
@@ -93,11 +100,11 @@ export const manifest: {
         'Dynamic job creation based on market demand and player/company level with hub boosts and deterministic offers.',
       category: 'Economic',
       status: 'active',
-      version: '1.5.2',
-      lastModified: '2024-01-29',
+      version: '1.6.0',
+      lastModified: '2026-10-19',
       author: 'System',
-      codePaths: ['src/utils/jobGenerator.ts'],
-      notes: 'Enforces 50% Dry Goods probability and special hub doubling logic for large cities.',
+      codePaths: ['src/utils/jobGenerator.ts', 'src/utils/seededRandom.ts', 'src/utils/freightMarket.ts'],
+      notes: 'Enforces 50% Dry Goods probability and special hub doubling logic for large cities. Every draw comes from a seedable random source: the market stores its seed, so the same seed and generation time rebuild the same offers (freightMarket.compare diffs two generator versions on one seed).',
       metadata: {}
     },
     {
@@ -110,8 +117,8 @@ export const manifest: {
       version: '1.3.1',
       lastModified: '2024-01-28',
       author: 'System',
-      codePaths: ['src/utils/maintenanceEngine.ts'],
-      notes: 'Estimates costs/duration and applies condition restoration.',
+      codePaths: ['src/utils/maintenanceEngine.ts', 'src/utils/maintenanceScheduler.ts'],
+      notes: 'Estimates costs/duration and applies condition restoration. maintenanceScheduler charges the estimate, keeps the truck in maintenance for the duration, applies mechanic skill bonuses and raises service reminders (every 60,000 km or below 60% condition).',
       metadata: {}
     },
     {
@@ -131,14 +138,14 @@ export const manifest: {
     {
       id: 'GR-005',
       name: 'Market Price Fluctuation',
-      description: 'Dynamic pricing system for vehicles, trailers and market goods.',
+      description: 'Freight offer prices follow supply and demand per city and cargo type; the market persists, offers expire on their deadline and new ones arrive over simulated time.',
       category: 'Economic',
       status: 'active',
-      version: '1.2.1',
-      lastModified: '2024-01-18',
+      version: '2.0.0',
+      lastModified: '2026-10-19',
       author: 'System',
-      codePaths: ['src/contexts/JobMarketContext.tsx'],
-      notes: 'Used by market UIs and provider refresh logic.',
+      codePaths: ['src/utils/freightMarket.ts', 'src/utils/jobGenerator.ts', 'src/contexts/JobMarketContext.tsx', 'src/components/market/FreightOfferCard.tsx'],
+      notes: 'Price factor = sqrt(demand / supply) at the origin, less 8% per load the player took on the lane (max 40%), bounded 0.6..1.6; it scales the distance price of new offers. Demand per city and cargo type follows a 14-day cycle (±15%), truck supply per city a 10-day cycle around 1.15 / 1 / 0.85 for large / medium / small cities, plus 0.1 per truck the player sent there. Player pressure halves every 3 simulated days. Offers expire on their deadline from posting; large / medium / small cities get 0.8 / 0.3 / 0.2 new offers per simulated hour up to 40 / 16 / 12 open offers.',
       metadata: {}
     },
     {
@@ -179,36 +186,36 @@ export const manifest: {
       version: '1.0.0',
       lastModified: '2024-01-30',
       author: 'System',
-      codePaths: ['src/utils/truckDrivingEngine.ts', 'src/utils/incidentEngine.ts'],
-      notes: 'Produces truckLiveUpdate, routeCompleted and truckIncident events.',
+      codePaths: ['src/utils/truckDrivingEngine.ts', 'src/utils/incidentEngine.ts', 'src/utils/fuelSystem.ts', 'src/utils/hoursOfService.ts', 'src/utils/ferryService.ts', 'src/utils/borderService.ts'],
+      notes: 'Produces truckLiveUpdate, routeCompleted and truckIncident events. Fuel: jobs burn fuel from the truck tank; below 15% the truck refuels to full at the diesel price of the current country (origin for the first half of the route, destination after), the purchase is charged as Fuel and the job stops for 0.5 h. Hours of service (defaults, overridable per company via company.hosRules): 4.5 h continuous driving then a 45 min break (split 15 + 30 min), 9 h daily / 56 h weekly driving, 11 h daily and 45 h weekly rest; two-driver crews swap at the wheel. Drivers push on up to 1 h past a limit to finish a run; each overrun is logged, fined ($300 + $250 per hour) and raises the incident fatigue multiplier. Ferries: routes over sea crossings wait at the port for the next timetabled departure and cross (crossing time counts towards transit but not as rest or driven km); tickets are priced per truck size (small up to 10 t, medium up to 20 t, heavy above or with a trailer) and charged as Ferry Tickets on delivery. Job deadlines allow the crossing plus the longest wait. Borders: no customs inside the EU; other crossings wait at customs per border pair (default 2 h to or from the EU, 3 h elsewhere; 15% faster with an International Routes driver) and need customs documents (CMR, export and T1 transit declarations: $120 per job + $60 per border, charged as Customs Fees). Road tolls are charged per country on the km driven there, by weight class (light up to 7.5 t payload 40%, medium up to 16 t 70%, heavy or with a trailer 100%). Offers include the route tolls and document fees in their value and the customs waits in their deadline.',
       metadata: {}
     },
     {
       id: 'GR-009',
-      name: 'Reputation Enforcement',
+      name: 'Company Reputation',
       description:
-        'Enforce company.reputation reset/format during persistence and restore flows. This rule documents code paths that currently set reputation to a canonical value.',
-      category: 'System',
-      status: 'proposed',
-      version: '1.0.0',
-      lastModified: new Date().toISOString().split('T')[0],
-      author: 'Proposed',
-      codePaths: ['src/contexts/GameContext.tsx'],
-      notes: 'Proposed entry; does not change behavior. Add if you want explicit configurable rule record.',
-      metadata: { enforcement: true }
+        'Reputation (0-100) rises with on-time deliveries and falls with late deliveries, cargo damage, cancellations and incidents. Every change is recorded in company.reputationHistory. Reputation tiers gate freight offer values and contract tiers.',
+      category: 'Economic',
+      status: 'active',
+      version: '2.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/companyReputation.ts', 'src/contexts/GameContext.tsx', 'src/utils/assignmentValidator.ts', 'src/pages/ContractJobs.tsx'],
+      notes: 'Tiers: Newcomer 0 (offers up to $6,000, contract tier 1), Established 30 ($12,000, tier 2), Trusted 55 ($25,000, tier 3), Premier 80 (unlimited, tier 4).',
+      metadata: {}
     },
     {
       id: 'GR-010',
       name: 'Purchase Delivery Flow',
       description:
-        'Purchases create IncomingDelivery entries; items do not appear in fleet lists until delivered; a background finalizer moves items when ETA expires.',
+        'Purchases check company capital, charge the price (used listings: middle of usedPriceRange) and create IncomingDelivery entries with an ETA from the listing availability; items do not appear in fleet lists until delivered; the background tick moves items when ETA expires.',
       category: 'System',
-      status: 'proposed',
-      version: '1.0.0',
-      lastModified: new Date().toISOString().split('T')[0],
+      status: 'active',
+      version: '2.0.0',
+      lastModified: '2026-10-19',
       author: 'System',
-      codePaths: ['src/utils/incomingDeliveryUtils.ts', 'src/components/fleet/IncomingDeliveriesPanel.tsx', 'src/components/fleet/IncomingDeliveryFinalizer.tsx', 'src/components/market/PurchaseButton.tsx'],
-      notes: 'Defines IncomingDeliveries lifecycle and finalizer behavior.',
+      codePaths: ['src/utils/vehiclePurchaseService.ts', 'src/utils/incomingDeliveryUtils.ts', 'src/pages/VehicleMarket.tsx', 'src/contexts/GameContext.tsx', 'src/components/fleet/IncomingDeliveriesPanel.tsx', 'src/components/fleet/IncomingDeliveryFinalizer.tsx', 'src/components/market/PurchaseButton.tsx'],
+      notes: 'The purchase is atomic: on any failure nothing is charged and no delivery is queued. Cancelling an incoming delivery refunds the charged price.',
       metadata: {}
     },
     {
@@ -224,6 +231,118 @@ export const manifest: {
       codePaths: ['src/data/game-rules-engines.ts', 'src/pages/GameRulesEngines.tsx'],
       notes: 'Enforces documentation + UI visibility for engine/rule changes.',
       metadata: { enforcement: true }
+    },
+    {
+      id: 'GR-012',
+      name: 'Contract Bidding',
+      description:
+        'Contract jobs are reverse auctions against simulated rival companies (fleet size, cost structure, bidding strategy); the lowest bid at the contract end time wins.',
+      category: 'Economic',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/contractBidding.ts', 'src/pages/ContractJobs.tsx'],
+      notes: 'Up to 4 rivals enter a contract their fleet can serve. Aggressive rivals open at 92% of the value, undercut by 3% every 6 h, answer player bids within 10 min and bid again 15 min before the end; balanced 96% / 2% / 12 h / 45 min; conservative 100% / 1% / 24 h / 3 h. Rivals never bid below their cost plus minimum margin. Player bids must undercut the best bid and stay within the budget. Rival bids are replayed from the bid history whenever the page loads or ticks (30 s), so contracts resolve to awarded or expired even while the page is closed.',
+      metadata: {}
+    },
+    {
+      id: 'GR-013',
+      name: 'Contract Execution & SLA',
+      description:
+        'Awarded contracts run as recurring jobs on their frequency for the whole duration; each delivered operation pays its share of the awarded price and counts for the SLA.',
+      category: 'Economic',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/contractExecution.ts', 'src/contexts/GameContext.tsx', 'src/pages/ContractJobs.tsx'],
+      notes: 'A contract month is 30 simulated days; daily / weekly / monthly operations run every 1 / 7 / 30 days. An operation due without the committed trucks, trailers of the contract type and drivers is missed with a 25% fine; operations never started before their deadline or cancelled are missed with a 50% fine. 3 shortfalls in a row, or SLA compliance below 60% after 5 operations, terminate the contract: 15% of the remaining value and -8 reputation.',
+      metadata: {}
+    },
+    {
+      id: 'GR-014',
+      name: 'Multi-drop Load Consolidation',
+      description:
+        'Several partial-load offers picked up in the same city can share one truck / trailer: the combined load is checked for capacity and cargo compatibility, the drops are planned in order and every consignment is settled on its own.',
+      category: 'Core',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/loadConsolidation.ts', 'src/utils/jobLifecycleEngine.ts', 'src/contexts/GameContext.tsx', 'src/pages/Market.tsx', 'src/components/market/AcceptJobDialog.tsx'],
+      notes: 'Up to 6 drops. The assignment is validated for every cargo type at the combined weight; Agricultural Bulk and Bulk Powder / Cement only share a trailer with the same cargo. The drop order minimises late hours (60 km/h estimate), then kilometres. The first drop loads the whole load; each later drop starts from the previous stop once unloaded and carries the fuel, tolls and deadline of its own leg.',
+      metadata: {}
+    },
+    {
+      id: 'GR-015',
+      name: 'Return Load Planning',
+      description:
+        'Offers near a truck are ranked by profit per hour including the empty kilometres to the pickup, and can be chained into an itinerary that ends near the company hub.',
+      category: 'Economic',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/backhaulPlanner.ts', 'src/components/market/BackhaulPlanner.tsx', 'src/pages/Market.tsx'],
+      notes: 'Pickups up to 300 km away; empty kilometres burn 75% of the loaded fuel. Leg hours are driving at cruising speed, loading and unloading, and an 11 h daily rest for every day of driving beyond the crew hours left. Offers that would arrive after their deadline are skipped. Itineraries ending more than 150 km from the hub pay the empty run home; suggestions add up to 4 legs while the trip profit per hour improves.',
+      metadata: {}
+    },
+    {
+      id: 'GR-016',
+      name: 'Vehicle Leasing',
+      description:
+        'Trucks and trailers with a lease rate can be leased for 12, 24 or 36 months instead of bought. Lease months are charged on the company clock; early returns pay a termination fee and ended leases are returned or bought out.',
+      category: 'Vehicles',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/vehicleLeasing.ts', 'src/pages/VehicleMarket.tsx', 'src/components/fleet/LeaseInfo.tsx', 'src/contexts/GameContext.tsx'],
+      notes: 'The first month is charged when signing, the rest every 30 simulated days. Returning early costs 50% of the months not billed yet. Buy-out at the end of the term at 85% / 70% / 55% of the list price for 12 / 24 / 36 months; undecided vehicles are returned 7 simulated days after the end. Unpaid months become arrears; after 3 missed payments in a row the vehicle is repossessed. Leased vehicles cannot be sold.',
+      metadata: {}
+    },
+    {
+      id: 'GR-017',
+      name: 'Vehicle Resale',
+      description:
+        'Owned trucks and trailers can be sold instantly to the dealer at a trade-in discount or listed on the used market of the world, where other players buy them as used listings.',
+      category: 'Vehicles',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/vehicleResale.ts', 'src/components/fleet/SellVehicleDialog.tsx', 'src/pages/VehicleMarket.tsx', 'src/contexts/GameContext.tsx'],
+      notes: 'Value = purchase price scaled by the change in age, mileage and condition since purchase. Age keeps 90% / 87% / 83% of the value per year for brands with reliability A / B / C; each 100,000 km costs 8% (at most 60%); condition scales between 50% and 100%. Trade-in pays 70% of the value and the dealer resells at the value for 60 simulated days. Asking prices are limited to 50% - 150% of the value; the seller is credited on its next tick after a sale. Leased vehicles and vehicles on a job or in the workshop cannot be sold.',
+      metadata: {}
+    },
+    {
+      id: 'GR-018',
+      name: 'Vehicle Depreciation',
+      description:
+        'Owned trucks and trailers depreciate per vehicle class on the simulated calendar, faster with mileage and poor condition. Book values feed the company balance sheet (cash, fleet value, vehicles in transit, lease and loan liabilities) on the Finances page.',
+      category: 'Economic',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/assetValuation.ts', 'src/pages/Finances.tsx'],
+      notes: 'Declining balance per simulated year (365 simulated days): small trucks 20%, medium 17%, big 15%; trailers 8% (flat / heavy-haul) to 14% (reefer). Trucks lose a further 8% / 6% / 4% per 100,000 km driven since purchase. Condition scales the book value between 70% and 100%. Book values never fall below a residual share of 10% - 20% of the cost. Lease liabilities are the unbilled months plus arrears; leased vehicles are not fleet assets.',
+      metadata: {}
+    },
+    {
+      id: 'GR-019',
+      name: 'Bank Loans and Credit Line',
+      description:
+        'Companies can borrow term loans and draw a revolving credit line. Limits depend on the company level, the book value of the owned fleet and the payment history; instalments and interest are charged on the simulated calendar and missed payments raise penalties.',
+      category: 'Economic',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      codePaths: ['src/utils/companyBanking.ts', 'src/components/finance/BankingPanel.tsx', 'src/contexts/GameContext.tsx'],
+      notes: 'Capacity = (level limit 50,000 startup to 2,500,000 enterprise + 50% of the fleet book value) x history factor (1 + 2% per payment on time - 20% per missed payment, 0.2 - 1.5). The credit line gets 25% of the capacity, at most the capacity left after loans and arrears; loans get the rest minus outstanding debt. Rates: 12% startup to 6% enterprise, +0.5% per year of term beyond the first, +3% for the credit line, +1% per missed payment in the history (max +8%). A bank month is 30 simulated days. A missed payment becomes arrears with a 5% late fee and adds 2% to the rate per consecutive miss; the credit line freezes after 3 consecutive misses until the arrears are paid. Early repayment has no fee.',
+      metadata: {}
     }
   ],
   engines: [
@@ -253,7 +372,7 @@ export const manifest: {
       version: '1.0.0',
       lastModified: '2024-01-30',
       author: 'System',
-      notes: 'Invoked by Truck Driving Engine on updates.',
+      notes: 'Invoked by Truck Driving Engine on updates and by the GameContext background tick for jobs in transit; events are resolved by src/utils/incidentResolutionEngine.ts.',
       metadata: {}
     },
     {
@@ -265,10 +384,10 @@ export const manifest: {
       tags: ['economic', 'generator', 'market'],
       mountStatus: 'not-mounted',
       status: 'active',
-      version: '1.5.2',
-      lastModified: '2024-01-29',
+      version: '1.6.0',
+      lastModified: '2026-10-19',
       author: 'System',
-      notes: 'Stateless generator used by JobMarketProvider and admin tools.',
+      notes: 'Stateless generator used by JobMarketProvider and admin tools; takes a random source (seededRandom) for reproducible markets.',
       metadata: {}
     },
     {
@@ -289,7 +408,7 @@ export const manifest: {
       id: 'E-005',
       name: 'Distance Calculation Service',
       description:
-        'Multi-layer distance service: precomputed matrix, Haversine fallback, heuristics and optional online driving distances with caching.',
+        'Multi-layer distance service: versioned precomputed matrix, road graph routing, Haversine fallback, heuristics and optional online driving distances with caching.',
       path: 'src/utils/distanceCalculator.ts',
       tags: ['core', 'geo', 'utility'],
       mountStatus: 'not-mounted',
@@ -486,6 +605,81 @@ export const manifest: {
       author: 'System',
       notes: 'Mounted in App to process incoming deliveries and emit events for UI animations.',
       metadata: {}
+    },
+    {
+      id: 'E-019',
+      name: 'Company Ledger',
+      description:
+        'Records every movement of company capital as a ledger entry (postTransaction) so income, expenses and category breakdowns on the Finances page come from real records.',
+      path: 'src/utils/companyLedger.ts',
+      tags: ['finance', 'ledger', 'company-state'],
+      mountStatus: 'mounted',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      notes: 'Pure helpers used by GameContext actions and the background tick; entries are stored on company.ledger.',
+      metadata: {}
+    },
+    {
+      id: 'E-020',
+      name: 'Job Settlement',
+      description:
+        'Computes the money side of finishing or cancelling a job: job payment, late-delivery penalty, fuel, tolls, ferry tickets and customs fees on completion, and a progress-based fee on cancellation.',
+      path: 'src/utils/jobSettlement.ts',
+      tags: ['jobs', 'finance', 'ledger'],
+      mountStatus: 'mounted',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      notes: 'Pure; applySettlement posts the settlement to the company ledger. Used by the complete and cancel actions in GameContext.',
+      metadata: {}
+    },
+    {
+      id: 'E-021',
+      name: 'Payroll Engine',
+      description:
+        'Runs recurring payroll on the simulated calendar: pays every employee their salary share per cycle through the ledger and tracks unpaid wages, unhappiness and resignations after missed paydays.',
+      path: 'src/utils/payrollEngine.ts',
+      tags: ['staff', 'finance', 'payroll'],
+      mountStatus: 'mounted',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      notes: 'Driven by the GameContext background tick (C-001); payroll state lives on company.payroll.',
+      metadata: {}
+    },
+    {
+      id: 'E-022',
+      name: 'Job Lifecycle Engine',
+      description:
+        'Advances started jobs on the simulated clock through loading, transit and unloading, with road routes, ferry and border waits, driver rests and stops, and hands delivered jobs back for completion.',
+      path: 'src/utils/jobLifecycleEngine.ts',
+      tags: ['jobs', 'simulation', 'routing'],
+      mountStatus: 'mounted',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      notes: 'Driven by the GameContext background tick (C-001); the plan is stored on job.lifecycle. Never persists or settles money.',
+      metadata: {}
+    },
+    {
+      id: 'E-023',
+      name: 'Assignment Validator',
+      description:
+        'Validates the truck, trailer and driver assignment of a job before acceptance: cargo and trailer compatibility, truck class, capacity, driver licenses, double bookings and the reputation tier.',
+      path: 'src/utils/assignmentValidator.ts',
+      tags: ['jobs', 'fleet', 'validation'],
+      mountStatus: 'mounted',
+      status: 'active',
+      version: '1.0.0',
+      lastModified: '2026-10-19',
+      author: 'System',
+      notes: 'Pure; used by the accept job dialog and the accept actions in GameContext, which report every failed rule.',
+      metadata: {}
     }
   ],
   cronJobs: [
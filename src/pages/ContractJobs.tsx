@@ -1,6 +1,10 @@
 /**
  * Contract Jobs page - Professional bidding system with detailed cost analysis
  * Features: Proper cargo-trailer compatibility, profit calculations, cost breakdowns
+ * Contract tiers (by value) are unlocked by company reputation (see companyReputation).
+ * Rival companies bid against the player and contracts are awarded at their end time
+ * (see contractBidding). Contracts won are signed by the GameContext background tick and run
+ * as recurring operations with SLA tracking (see contractExecution).
  */
 
 import React, { useState, useEffect } from 'react';
@@ -9,6 +13,9 @@ import { Search, RefreshCw, Briefcase, DollarSign, Star, Filter, MapPin, Package
 
 // Import compatibility system
 import { trailerTypes, cargoTypes, isCompatibleCargoTrailer, hasRequiredLicense } from '../utils/cargoTrailerCompatibility';
+import { getReputation, getContractTier, requiredReputationForContractTier } from '../utils/companyReputation';
+import { contractBiddingEngine, contractBoardKey, ContractBid, ContractCompetition } from '../utils/contractBidding';
+import { contractExecutionEngine } from '../utils/contractExecution';
 
 // Contract type definitions with realistic parameters
 export interface ContractJob {
@@ -57,20 +64,10 @@ export interface ContractJob {
     costPerOperation: number;
   };
   description: string;
-  competition: {
-    participants: number;
-    currentBestBid: number | null;
-    endTime: string;
-    status: 'active' | 'awarded' | 'expired';
-  };
+  competition: ContractCompetition;
   createdAt: string;
   awardedTo?: string;
-  bidHistory?: Array<{
-    companyId: string;
-    companyName: string;
-    bidAmount: number;
-    bidTime: string;
-  }>;
+  bidHistory?: ContractBid[];
 }
 
 // Contract providers
@@ -411,15 +408,16 @@ const generateContractJobsForCountry = (country: string): ContractJob[] => {
         financial,
         description,
         competition: {
-          participants: Math.floor(Math.random() * 4) + 1,
-          currentBestBid: Math.floor(Math.random() * 3) === 0 ? null : Math.round(contractValue * (0.85 + Math.random() * 0.1)),
+          participants: 0,
+          currentBestBid: null,
           endTime: new Date(Date.now() + (Math.random() * 5 + 2) * 24 * 60 * 60 * 1000).toISOString(),
           status: 'active'
         },
         createdAt: new Date().toISOString()
       };
       
-      contracts.push(contract);
+      // Rivals enter the competition and place their opening bids over time
+      contracts.push(contractBiddingEngine.advance(contract));
     }
     
     return contracts;
@@ -446,6 +444,31 @@ const ContractJobs: React.FC = () => {
     }
   }, [gameState?.company?.hub?.country]);
 
+  // Rival bids and awards are shown live while the page is open (the background tick replays
+  // them otherwise)
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setContractJobs((current) => {
+        const advanced = current.map((contract) => contractBiddingEngine.advance(contract));
+        if (advanced.every((contract, i) => contract === current[i])) return current;
+        saveContracts(advanced);
+        return advanced;
+      });
+    }, 30 * 1000);
+    return () => clearInterval(timer);
+  }, [gameState?.company?.hub?.country]);
+
+  // Weekly storage key of the contracts of the hub country
+  const contractsStorageKey = () => contractBoardKey(gameState?.company?.hub?.country || '');
+
+  const saveContracts = (contracts: ContractJob[]) => {
+    try {
+      localStorage.setItem(contractsStorageKey(), JSON.stringify({ contracts, generatedAt: new Date().toISOString() }));
+    } catch (error) {
+      console.error('Error saving contract jobs:', error);
+    }
+  };
+
   const loadContractJobs = () => {
     setLoading(true);
     try {
@@ -459,13 +482,15 @@ const ContractJobs: React.FC = () => {
       // Check if contracts for this country were generated this week
       const now = new Date();
       const weekStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
-      const storageKey = `tm_contracts_${country}_${weekStart.toISOString().split('T')[0]}`;
+      const storageKey = contractBoardKey(country, now);
       
       const stored = localStorage.getItem(storageKey);
       if (stored) {
         const data = JSON.parse(stored);
         if (new Date(data.generatedAt).getTime() > weekStart.getTime()) {
-          setContractJobs(data.contracts || []);
+          const contracts: ContractJob[] = (data.contracts || []).map((contract: ContractJob) => contractBiddingEngine.advance(contract));
+          setContractJobs(contracts);
+          localStorage.setItem(storageKey, JSON.stringify({ ...data, contracts }));
           return;
         }
       }
@@ -539,12 +564,19 @@ const ContractJobs: React.FC = () => {
     return hasLicensedDrivers && hasTrailers;
   };
 
+  // Reputation needed for the contract tier (0 when unlocked)
+  const missingReputation = (job: ContractJob): number => {
+    const required = requiredReputationForContractTier(getContractTier(job.value || 0));
+    return getReputation(gameState?.company) < required ? required : 0;
+  };
+
   // Place bid on contract
   const placeBid = (job: ContractJob, bidAmount: number) => {
     if (!gameState?.company) return;
     
-    if (job.budget && bidAmount > job.budget) {
-      alert('Your bid exceeds the contract budget!');
+    const requiredReputation = missingReputation(job);
+    if (requiredReputation > 0) {
+      alert(`Tier ${getContractTier(job.value || 0)} contracts require reputation ${requiredReputation}!`);
       return;
     }
     
@@ -554,50 +586,20 @@ const ContractJobs: React.FC = () => {
     }
     
     try {
-      // Update contract with user's bid
-      const updatedJobs = contractJobs.map(contract => {
-        if (contract.id === job.id) {
-          const updatedContract = { ...contract };
-          
-          // Add to bid history
-          const newBid = {
-            companyId: gameState.company?.id || '',
-            companyName: gameState.company?.name || '',
-            bidAmount,
-            bidTime: new Date().toISOString()
-          };
-          
-          updatedContract.bidHistory = [
-            ...(contract.bidHistory || []),
-            newBid
-          ];
-          
-          // Update competition
-          updatedContract.competition = {
-            ...contract.competition,
-            currentBestBid: bidAmount,
-            participants: (contract.competition?.participants || 0) + 1
-          };
-          
-          return updatedContract;
-        }
-        return contract;
+      // Rival bids due before this one are replayed first; the bid must undercut the best bid
+      const result = contractBiddingEngine.placeBid(job, {
+        companyId: gameState.company?.id || '',
+        companyName: gameState.company?.name || '',
+        amount: bidAmount
       });
-      
+      const updatedJobs = contractJobs.map(contract => (contract.id === job.id ? result.contract : contract));
       setContractJobs(updatedJobs);
+      saveContracts(updatedJobs);
       
-      // Save to localStorage
-      const country = gameState.company?.hub?.country || '';
-      const now = new Date();
-      const weekStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
-      const storageKey = `tm_contracts_${country}_${weekStart.toISOString().split('T')[0]}`;
-      
-      const storageData = {
-        contracts: updatedJobs,
-        generatedAt: now.toISOString()
-      };
-      
-      localStorage.setItem(storageKey, JSON.stringify(storageData));
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
       
       alert(`Your bid of $${bidAmount.toLocaleString()} has been submitted successfully!`);
     } catch (error) {
@@ -676,6 +678,39 @@ const ContractJobs: React.FC = () => {
         </div>
       </div>
 
+      {/* Signed contracts */}
+      {(gameState.company.serviceContracts || []).length > 0 && (
+        <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-semibold text-white flex items-center space-x-2 mb-4">
+            <Trophy className="w-5 h-5" />
+            <span>Your Contracts</span>
+          </h3>
+          <div className="space-y-3">
+            {(gameState.company.serviceContracts || []).map((contract) => (
+              <div key={contract.id} className="bg-slate-700/50 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">{contract.title}</span>
+                  <span className={contract.status === 'active' ? 'text-green-400' : contract.status === 'completed' ? 'text-blue-400' : 'text-red-400'}>
+                    {contract.status}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-x-4 text-slate-400 mt-1">
+                  <span>{contract.provider}</span>
+                  <span>{contract.spawned}/{contract.operations} operations ({contract.frequency})</span>
+                  <span>${contract.perOperation.toLocaleString()} per operation</span>
+                  <span>SLA {Math.round(contractExecutionEngine.compliance(contract.sla) * 100)}% ({contract.sla.onTime} on time, {contract.sla.late} late, {contract.sla.missed} missed)</span>
+                  {contract.sla.penalties > 0 && <span className="text-red-400">Penalties ${contract.sla.penalties.toLocaleString()}</span>}
+                </div>
+                <div className="text-slate-500 mt-1">
+                  Committed: {contract.committed.trucks} trucks, {contract.committed.trailers} {trailerTypes[contract.trailerType]?.name || contract.trailerType}s, {contract.committed.drivers} drivers
+                  {contract.terminationReason && <span className="text-red-400"> · Terminated: {contract.terminationReason}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
         <div className="flex items-center justify-between mb-4">
@@ -764,8 +799,16 @@ const ContractJobs: React.FC = () => {
             filteredContracts.map((job) => {
               const userCanParticipate = canParticipate(job);
               const hasCompatible = hasCompatibleEquipment(job);
+              const contractTier = getContractTier(job.value || 0);
+              const lockedReputation = missingReputation(job);
               const currentBid = userBid[job.id] || job.competition?.currentBestBid;
               const timeRemaining = getTimeRemaining(job.competition?.endTime || '');
+              const biddingOpen = (job.competition?.status || 'active') === 'active';
+              const wonByUs = job.competition?.status === 'awarded' && job.awardedTo === gameState.company?.id;
+              const winner = job.competition?.status === 'awarded'
+                ? (job.bidHistory || []).find((bid) => bid.companyId === job.awardedTo)?.companyName || job.awardedTo
+                : null;
+              const recentBids = (job.bidHistory || []).slice(-4).reverse();
               
               return (
                 <div key={job.id} className={`bg-slate-800 rounded-xl border ${userCanParticipate ? 'border-slate-700 hover:border-blue-500/50' : 'border-gray-700 opacity-60'} transition-all duration-200`}>
@@ -788,6 +831,9 @@ const ContractJobs: React.FC = () => {
                         {job.contractType?.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                       </div>
                       <div className="flex items-center space-x-2">
+                        <div className={`px-2 py-1 rounded text-xs font-medium ${lockedReputation > 0 ? 'text-red-400 bg-red-400/10' : 'text-yellow-400 bg-yellow-400/10'}`}>
+                          Tier {contractTier}
+                        </div>
                         {!hasCompatible && (
                           <div className="flex items-center space-x-1 text-yellow-400">
                             <AlertTriangle className="w-4 h-4" />
@@ -898,10 +944,34 @@ const ContractJobs: React.FC = () => {
                           <strong>Current Best:</strong> {job.competition?.currentBestBid ? `${job.competition.currentBestBid.toLocaleString()}` : 'No bids yet'}
                         </div>
                       </div>
+                      {recentBids.length > 0 && (
+                        <div className="mt-2 space-y-1 text-xs">
+                          {recentBids.map((bid) => (
+                            <div key={`${bid.companyId}-${bid.bidTime}`} className="flex items-center justify-between text-slate-400">
+                              <span className={bid.companyId === gameState.company?.id ? 'text-blue-400' : ''}>{bid.companyName}</span>
+                              <span>${bid.bidAmount.toLocaleString()} · {new Date(bid.bidTime).toLocaleString()}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
 
                     {/* Bidding Section */}
-                    {hasCompatible ? (
+                    {!biddingOpen ? (
+                      <div className="flex items-center justify-center pt-3 border-t border-slate-700">
+                        {wonByUs ? (
+                          <span className="text-green-400 text-sm">🏆 Contract awarded to your company at ${(job.competition.currentBestBid || 0).toLocaleString()}</span>
+                        ) : winner ? (
+                          <span className="text-slate-400 text-sm">Contract awarded to {winner} at ${(job.competition.currentBestBid || 0).toLocaleString()}</span>
+                        ) : (
+                          <span className="text-slate-400 text-sm">Contract expired without bids</span>
+                        )}
+                      </div>
+                    ) : lockedReputation > 0 ? (
+                      <div className="flex items-center justify-center pt-3 border-t border-slate-700">
+                        <span className="text-red-400 text-sm">🔒 Tier {contractTier} contracts require reputation {lockedReputation}</span>
+                      </div>
+                    ) : hasCompatible ? (
                       <div className="flex items-center justify-between pt-3 border-t border-slate-700">
                         <div className="flex items-center space-x-2">
                           <input
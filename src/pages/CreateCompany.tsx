@@ -6,6 +6,7 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router';
 import { useGame } from '../contexts/GameContext';
 import { Company, HubLocation } from '../types/game';
+import { INITIAL_REPUTATION } from '../utils/companyReputation';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
@@ -127,7 +128,7 @@ const CreateCompany: React.FC = () => {
       name: formData.companyName,
       level: 'startup',
       capital: remainingCapital,
-      reputation: 50,
+      reputation: INITIAL_REPUTATION,
       employees: 1,
       founded: new Date(),
       hub: {
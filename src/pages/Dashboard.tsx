@@ -8,6 +8,10 @@
 
 import React from 'react';
 import { useGame } from '../contexts/GameContext';
+import { getLedger, summarizeLedger } from '../utils/companyLedger';
+import { payrollEngine } from '../utils/payrollEngine';
+import { gameDateFor, addSimDays } from '../utils/simulationClock';
+import { getReputation, getReputationHistory, getReputationTier } from '../utils/companyReputation';
 import {
   Truck,
   Package,
@@ -21,6 +25,8 @@ import {
   Users,
   Briefcase,
   User,
+  Award,
+  Clock,
 } from 'lucide-react';
 
 const Dashboard: React.FC = () => {
@@ -39,8 +45,11 @@ const Dashboard: React.FC = () => {
   }
 
   const { company } = gameState;
-  /** Force displayed reputation to 0 for UI widgets to avoid flicker or non-zero display */
-  const displayedReputation = 0;
+  const reputation = getReputation(company);
+  const reputationTier = getReputationTier(reputation);
+  /** Most recent reputation changes, newest first */
+  const reputationChanges = getReputationHistory(company).slice(-8).reverse();
+  const hosViolations = (Array.isArray(company.hosViolations) ? company.hosViolations : []).slice(-5).reverse();
 
   // Safe array access with fallbacks
   const trucks = Array.isArray((company as any).trucks) ? (company as any).trucks : [];
@@ -61,10 +70,15 @@ const Dashboard: React.FC = () => {
   const foundedDate =
     foundedRaw instanceof Date ? foundedRaw : foundedRaw ? new Date(foundedRaw) : new Date();
 
-  // Mock financial data for demo
-  const monthlyRevenue = 45200;
-  const monthlyExpenses = 21500;
-  const netProfit = monthlyRevenue - monthlyExpenses;
+  // Last 30 simulated days from the company ledger
+  const monthlySummary = summarizeLedger(getLedger(company), { from: addSimDays(Date.now(), -30) });
+  const monthlyRevenue = monthlySummary.income;
+  const monthlyExpenses = monthlySummary.expenses;
+  const netProfit = monthlySummary.net;
+
+  // Next scheduled payroll (date shown on the in-game calendar)
+  const payroll = payrollEngine.preview(company);
+  const nextPayrollDate = gameDateFor(company, new Date(payroll.nextRunAt).getTime());
 
   return (
     <div className="space-y-6">
@@ -163,17 +177,17 @@ const Dashboard: React.FC = () => {
                 </span>
               </div>
             </div>
-            {/* Reputation - display forced to 0 to match global enforcement */}
             <div className="flex items-center justify-between">
               <span className="text-slate-400">Reputation</span>
               <div className="flex items-center space-x-2">
                 <div className="w-16 bg-slate-700 rounded-full h-2">
                   <div
                     className="bg-yellow-500 h-2 rounded-full"
-                    style={{ width: `${displayedReputation}%` }}
+                    style={{ width: `${reputation}%` }}
                   />
                 </div>
-                <span className="text-white font-medium">{displayedReputation}</span>
+                <span className="text-white font-medium">{reputation.toFixed(1)}</span>
+                <span className="text-xs text-yellow-400">{reputationTier.name}</span>
               </div>
             </div>
             <div className="flex items-center justify-between">
@@ -207,6 +221,24 @@ const Dashboard: React.FC = () => {
                 ${netProfit.toLocaleString()}
               </span>
             </div>
+            <div className="flex items-center justify-between border-t border-slate-700 pt-3">
+              <span className="text-slate-400">Next Payroll</span>
+              <span className="text-white font-medium">
+                {nextPayrollDate.toLocaleDateString()} · {payroll.employees} employee(s)
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-slate-400">Payroll Amount</span>
+              <span className={`font-medium ${payroll.amount + payroll.arrears > company.capital ? 'text-red-400' : 'text-yellow-400'}`}>
+                ${payroll.amount.toLocaleString()}
+              </span>
+            </div>
+            {payroll.arrears > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-slate-400">Unpaid Wages</span>
+                <span className="text-red-400 font-medium">${payroll.arrears.toLocaleString()}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-slate-400">Available Contracts</span>
               <span className="text-blue-400 font-medium">{availableContracts}</span>
@@ -215,6 +247,59 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Reputation History */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h2 className="text-lg font-bold text-white mb-4 flex items-center space-x-2">
+          <Award className="w-5 h-5 text-yellow-400" />
+          <span>Reputation History</span>
+        </h2>
+        {reputationChanges.length === 0 ? (
+          <p className="text-slate-400 text-sm">No reputation changes yet. Deliver jobs on time to build your reputation.</p>
+        ) : (
+          <div className="space-y-2">
+            {reputationChanges.map((change) => (
+              <div key={change.id} className="flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <span className="text-slate-300">{change.type}</span>
+                  <span className="text-slate-500"> · {change.reason}</span>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className="text-slate-500 text-xs">{gameDateFor(company, new Date(change.date).getTime()).toLocaleDateString()}</span>
+                  <span className={`font-medium ${change.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {change.delta >= 0 ? '+' : ''}{change.delta.toFixed(2)}
+                  </span>
+                  <span className="text-white w-10 text-right">{change.scoreAfter.toFixed(1)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Hours-of-service violations */}
+      {hosViolations.length > 0 && (
+        <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+          <h2 className="text-lg font-bold text-white mb-4 flex items-center space-x-2">
+            <Clock className="w-5 h-5 text-rose-400" />
+            <span>Driving Hours Violations</span>
+          </h2>
+          <div className="space-y-2">
+            {hosViolations.map((v) => (
+              <div key={v.id} className="flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <span className="text-slate-300">{v.driverName ?? v.driverId}</span>
+                  <span className="text-slate-500"> · {v.limit} limit exceeded by {v.excessHours}h</span>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className="text-slate-500 text-xs">{gameDateFor(company, new Date(v.date).getTime()).toLocaleDateString()}</span>
+                  <span className="font-medium text-red-400">-${v.fine.toLocaleString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
         <h2 className="text-lg font-bold text-white mb-4">Quick Actions</h2>
@@ -1,36 +1,61 @@
 /**
  * Finances page showing company financial information
+ *
+ * Notes:
+ * - All figures are derived from the company ledger (company.ledger, see utils/companyLedger).
+ * - Period totals compare the selected period (simulated days) with the period of equal length before it.
+ * - The balance sheet and fleet book values come from assetValuation (depreciation per vehicle class).
+ * - Loans and the credit line are managed in BankingPanel (see companyBanking).
  */
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { useGame } from '../contexts/GameContext';
-import { DollarSign, TrendingUp, TrendingDown, Calendar, PieChart, BarChart } from 'lucide-react';
+import { DollarSign, TrendingUp, TrendingDown, Calendar, PieChart, BarChart, Scale } from 'lucide-react';
+import { getLedger, comparePeriods } from '../utils/companyLedger';
+import { assetValuation } from '../utils/assetValuation';
+import BankingPanel from '../components/finance/BankingPanel';
+
+/** Selectable comparison periods (simulated days) */
+const PERIOD_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: 'Week' },
+  { days: 30, label: 'Month' },
+  { days: 90, label: 'Quarter' },
+];
+
+/** Colors cycled over expense categories */
+const CATEGORY_COLORS = ['bg-blue-500', 'bg-orange-500', 'bg-yellow-500', 'bg-purple-500', 'bg-pink-500', 'bg-teal-500', 'bg-slate-500'];
+
+/**
+ * formatChange
+ * @description Render a relative change label, or a dash when there is nothing to compare with.
+ */
+const formatChange = (pct: number | null) => (pct === null ? '—' : `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`);
 
 const Finances: React.FC = () => {
   const { gameState } = useGame();
+  const [periodDays, setPeriodDays] = useState<number>(30);
+
+  const records = useMemo(() => getLedger(gameState.company), [gameState.company]);
+  const comparison = useMemo(() => comparePeriods(records, periodDays), [records, periodDays]);
+  const balance = useMemo(() => assetValuation.balanceSheet(gameState.company), [gameState.company]);
 
   if (!gameState.company) return null;
 
-  // Mock financial data
-  const financialRecords = [
-    { id: 1, date: new Date('2024-10-25'), type: 'income' as const, category: 'Contract Payment', amount: 18500, description: 'Contract #C-2847 completed' },
-    { id: 2, date: new Date('2024-10-24'), type: 'expense' as const, category: 'Maintenance', amount: 1200, description: 'Truck #T-001 service' },
-    { id: 3, date: new Date('2024-10-23'), type: 'expense' as const, category: 'Salaries', amount: 9800, description: 'Monthly staff payments' },
-    { id: 4, date: new Date('2024-10-22'), type: 'income' as const, category: 'Contract Payment', amount: 12700, description: 'Contract #C-2845 completed' },
-    { id: 5, date: new Date('2024-10-21'), type: 'expense' as const, category: 'Fuel', amount: 3200, description: 'Fuel purchase for fleet' },
-  ];
-
-  const monthlyIncome = 45200;
-  const monthlyExpenses = 21500;
-  const netProfit = monthlyIncome - monthlyExpenses;
-
-  const expenseCategories = [
-    { category: 'Salaries', amount: 9800, color: 'bg-blue-500' },
-    { category: 'Fuel', amount: 5200, color: 'bg-orange-500' },
-    { category: 'Maintenance', amount: 3200, color: 'bg-yellow-500' },
-    { category: 'Insurance', amount: 1800, color: 'bg-purple-500' },
-    { category: 'Other', amount: 1500, color: 'bg-slate-500' },
-  ];
+  const periodLabel = PERIOD_OPTIONS.find((p) => p.days === periodDays)?.label ?? `${periodDays} days`;
+  const periodIncome = comparison.current.income;
+  const periodExpenses = comparison.current.expenses;
+  const netProfit = comparison.current.net;
+
+  const expenseCategories = comparison.current.byCategory
+    .filter((c) => c.expense > 0)
+    .sort((a, b) => b.expense - a.expense)
+    .map((c, index) => ({ category: c.category, amount: c.expense, color: CATEGORY_COLORS[index % CATEGORY_COLORS.length] }));
+
+  const financialRecords = records.slice(0, 10);
+
+  const profitMargin = periodIncome > 0 ? (netProfit / periodIncome) * 100 : null;
+  const averageDailyNet = netProfit / periodDays;
+  const largestExpense = expenseCategories[0] ?? null;
 
   return (
     <div className="space-y-6">
@@ -39,9 +64,25 @@ const Finances: React.FC = () => {
           <h1 className="text-2xl font-bold text-white">Financial Overview</h1>
           <p className="text-slate-400">Monitor your company's financial performance</p>
         </div>
-        <div className="text-right">
-          <div className="text-2xl font-bold text-white">${gameState.company.capital.toLocaleString()}</div>
-          <div className="text-sm text-slate-400">Current Balance</div>
+        <div className="flex items-center space-x-6">
+          <div className="flex items-center space-x-1 bg-slate-800 border border-slate-700 rounded-lg p-1">
+            <Calendar className="w-4 h-4 text-slate-400 mx-1" />
+            {PERIOD_OPTIONS.map((option) => (
+              <button
+                key={option.days}
+                onClick={() => setPeriodDays(option.days)}
+                className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                  periodDays === option.days ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="text-right">
+            <div className="text-2xl font-bold text-white">${gameState.company.capital.toLocaleString()}</div>
+            <div className="text-sm text-slate-400">Current Balance</div>
+          </div>
         </div>
       </div>
 
@@ -53,11 +94,11 @@ const Finances: React.FC = () => {
               <TrendingUp className="w-6 h-6 text-green-400" />
             </div>
             <span className="text-sm font-medium text-green-400 bg-green-400/10 px-2 py-1 rounded">
-              +12.5%
+              {formatChange(comparison.incomeChangePct)}
             </span>
           </div>
-          <h3 className="text-2xl font-bold text-white mb-1">${monthlyIncome.toLocaleString()}</h3>
-          <p className="text-sm text-slate-300">Monthly Income</p>
+          <h3 className="text-2xl font-bold text-white mb-1">${periodIncome.toLocaleString()}</h3>
+          <p className="text-sm text-slate-300">{periodLabel} Income</p>
         </div>
 
         <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
@@ -66,11 +107,11 @@ const Finances: React.FC = () => {
               <TrendingDown className="w-6 h-6 text-red-400" />
             </div>
             <span className="text-sm font-medium text-red-400 bg-red-400/10 px-2 py-1 rounded">
-              -8.2%
+              {formatChange(comparison.expenseChangePct)}
             </span>
           </div>
-          <h3 className="text-2xl font-bold text-white mb-1">${monthlyExpenses.toLocaleString()}</h3>
-          <p className="text-sm text-slate-300">Monthly Expenses</p>
+          <h3 className="text-2xl font-bold text-white mb-1">${periodExpenses.toLocaleString()}</h3>
+          <p className="text-sm text-slate-300">{periodLabel} Expenses</p>
         </div>
 
         <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
@@ -83,7 +124,7 @@ const Finances: React.FC = () => {
                 ? 'text-green-400 bg-green-400/10' 
                 : 'text-red-400 bg-red-400/10'
             }`}>
-              {netProfit >= 0 ? '+' : ''}{((netProfit / monthlyIncome) * 100).toFixed(1)}%
+              {formatChange(comparison.netChangePct)}
             </span>
           </div>
           <h3 className={`text-2xl font-bold mb-1 ${
@@ -103,8 +144,11 @@ const Finances: React.FC = () => {
             <span>Expense Breakdown</span>
           </h2>
           <div className="space-y-4">
+            {expenseCategories.length === 0 && (
+              <p className="text-sm text-slate-400">No expenses recorded in this period.</p>
+            )}
             {expenseCategories.map((item, index) => {
-              const percentage = (item.amount / monthlyExpenses) * 100;
+              const percentage = periodExpenses > 0 ? (item.amount / periodExpenses) * 100 : 0;
               return (
                 <div key={index} className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
@@ -135,6 +179,9 @@ const Finances: React.FC = () => {
             <span>Recent Transactions</span>
           </h2>
           <div className="space-y-3">
+            {financialRecords.length === 0 && (
+              <p className="text-sm text-slate-400">No transactions recorded yet.</p>
+            )}
             {financialRecords.map((record) => (
               <div key={record.id} className="flex items-center justify-between py-2">
                 <div className="flex items-center space-x-3">
@@ -159,7 +206,7 @@ const Finances: React.FC = () => {
                     {record.type === 'income' ? '+' : '-'}${record.amount.toLocaleString()}
                   </div>
                   <div className="text-xs text-slate-400">
-                    {record.date.toLocaleDateString()}
+                    {new Date(record.date).toLocaleDateString()}
                   </div>
                 </div>
               </div>
@@ -168,25 +215,89 @@ const Finances: React.FC = () => {
         </div>
       </div>
 
+      {/* Balance Sheet */}
+      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+        <h2 className="text-lg font-bold text-white mb-4 flex items-center space-x-2">
+          <Scale className="w-5 h-5 text-purple-400" />
+          <span>Balance Sheet</span>
+        </h2>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2 text-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400">Assets</div>
+            <div className="flex justify-between text-slate-300"><span>Cash</span><span>${balance.cash.toLocaleString()}</span></div>
+            <div className="flex justify-between text-slate-300"><span>Fleet (book value)</span><span>${balance.fleetValue.toLocaleString()}</span></div>
+            {balance.inTransit > 0 && (
+              <div className="flex justify-between text-slate-300"><span>Vehicles in transit</span><span>${balance.inTransit.toLocaleString()}</span></div>
+            )}
+            <div className="flex justify-between text-white font-semibold border-t border-slate-700 pt-2"><span>Total assets</span><span>${balance.totalAssets.toLocaleString()}</span></div>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400">Liabilities</div>
+            <div className="flex justify-between text-slate-300"><span>Leases</span><span>${balance.leaseLiabilities.toLocaleString()}</span></div>
+            <div className="flex justify-between text-slate-300"><span>Loans</span><span>${balance.loanLiabilities.toLocaleString()}</span></div>
+            <div className="flex justify-between text-white font-semibold border-t border-slate-700 pt-2"><span>Total liabilities</span><span>${balance.totalLiabilities.toLocaleString()}</span></div>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400">Equity</div>
+            <div className={`text-2xl font-bold ${balance.equity >= 0 ? 'text-green-400' : 'text-red-400'}`}>${balance.equity.toLocaleString()}</div>
+            <div className="text-xs text-slate-400">Total assets minus total liabilities</div>
+          </div>
+        </div>
+
+        {balance.assets.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-2">Vehicle</th>
+                  <th className="py-2">Class</th>
+                  <th className="py-2 text-right">Age (years)</th>
+                  <th className="py-2 text-right">Cost</th>
+                  <th className="py-2 text-right">Depreciation</th>
+                  <th className="py-2 text-right">Book value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {balance.assets.map((asset) => (
+                  <tr key={`${asset.kind}-${asset.id}`} className="border-t border-slate-700 text-slate-300">
+                    <td className="py-2 text-white">{asset.label}</td>
+                    <td className="py-2">{asset.depreciationClass}</td>
+                    <td className="py-2 text-right">{asset.ageYears.toFixed(1)}</td>
+                    <td className="py-2 text-right">${asset.cost.toLocaleString()}</td>
+                    <td className="py-2 text-right text-red-400">-${asset.accumulated.toLocaleString()}</td>
+                    <td className="py-2 text-right font-medium text-white">${asset.bookValue.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Banking */}
+      <BankingPanel />
+
       {/* Financial Metrics */}
       <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
         <h2 className="text-lg font-bold text-white mb-4">Financial Metrics</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
           <div className="text-center">
-            <div className="text-xl font-bold text-green-400 mb-1">47.6%</div>
+            <div className="text-xl font-bold text-green-400 mb-1">{profitMargin === null ? '—' : `${profitMargin.toFixed(1)}%`}</div>
             <div className="text-sm text-slate-400">Profit Margin</div>
           </div>
           <div className="text-center">
-            <div className="text-xl font-bold text-blue-400 mb-1">18.2</div>
-            <div className="text-sm text-slate-400">ROI (%)</div>
+            <div className={`text-xl font-bold mb-1 ${averageDailyNet >= 0 ? 'text-blue-400' : 'text-red-400'}`}>
+              ${Math.round(averageDailyNet).toLocaleString()}
+            </div>
+            <div className="text-sm text-slate-400">Avg. Daily Net</div>
           </div>
           <div className="text-center">
-            <div className="text-xl font-bold text-orange-400 mb-1">$2.18/km</div>
-            <div className="text-sm text-slate-400">Revenue per km</div>
+            <div className="text-xl font-bold text-orange-400 mb-1">{largestExpense ? largestExpense.category : '—'}</div>
+            <div className="text-sm text-slate-400">Largest Expense</div>
           </div>
           <div className="text-center">
-            <div className="text-xl font-bold text-purple-400 mb-1">94.7%</div>
-            <div className="text-sm text-slate-400">On-time Delivery</div>
+            <div className="text-xl font-bold text-purple-400 mb-1">{comparison.current.count}</div>
+            <div className="text-sm text-slate-400">Transactions ({periodLabel})</div>
           </div>
         </div>
       </div>
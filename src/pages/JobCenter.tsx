@@ -8,6 +8,8 @@ import { useNavigate } from 'react-router';
 import { useGame } from '../contexts/GameContext';
 import { UserPlus, Briefcase, AlertCircle, Info, Euro } from 'lucide-react';
 import StaffSkillsOverview from '../components/staff/StaffSkillsOverview';
+import { postTransaction, LEDGER_CATEGORIES } from '../utils/companyLedger';
+import { payrollEngine } from '../utils/payrollEngine';
 
 /**
  * Candidate interface
@@ -1120,9 +1122,8 @@ const JobCenter: React.FC = () => {
         `${candidate.name} requires ${delayDays} days notice. They will be available on ${availableDate.toLocaleDateString()}.\n\n€${totalCost.toLocaleString()} will be reserved from your capital now.`
       );
 
-      const updatedCompany = {
+      const updatedCompany = postTransaction({
         ...company,
-        capital: company.capital - totalCost,
         staff: [
           ...(company.staff || []),
           {
@@ -1136,19 +1137,25 @@ const JobCenter: React.FC = () => {
             status: 'resting' as const,
             nationality: candidate.nationality,
             availabilityDate: availableDate.toISOString(),
+            paidUntil: payrollEngine.prepaidUntil(availableDate),
             noticePeriod: delayDays
           }
         ]
-      };
+      }, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.HIRING,
+        amount: totalCost,
+        description: `Hired ${candidate.name} (${candidate.role}): first month + ${feePercent}% hiring fee`,
+        reference: candidate.id
+      });
 
       createCompany(updatedCompany);
       setHiredCandidateIds(prev => new Set([...prev, candidate.id]));
       navigate('/staff');
     } else {
       // Immediate hire
-      const updatedCompany = {
+      const updatedCompany = postTransaction({
         ...company,
-        capital: company.capital - totalCost,
         staff: [
           ...(company.staff || []),
           {
@@ -1162,10 +1169,17 @@ const JobCenter: React.FC = () => {
             status: 'available' as const,
             nationality: candidate.nationality,
             availabilityDate: undefined,
+            paidUntil: payrollEngine.prepaidUntil(),
             noticePeriod: 0
           }
         ]
-      };
+      }, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.HIRING,
+        amount: totalCost,
+        description: `Hired ${candidate.name} (${candidate.role}): first month + ${feePercent}% hiring fee`,
+        reference: candidate.id
+      });
 
       createCompany(updatedCompany);
       setHiredCandidateIds(prev => new Set([...prev, candidate.id]));
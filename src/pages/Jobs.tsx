@@ -93,7 +93,10 @@ const JobsPage: React.FC = () => {
         deadline: parent.deadline,
         cargoType: parent.cargoType,
         weight: remaining,
-        deliveredTons: 0
+        deliveredTons: 0,
+        ...(parent.consolidationId
+          ? { consolidationId: parent.consolidationId, dropIndex: parent.dropIndex, dropCount: parent.dropCount, loadOrigin: parent.loadOrigin, loadedWeight: parent.loadedWeight }
+          : {})
       };
 
       const updatedCompany: any = JSON.parse(JSON.stringify(company));
@@ -8,8 +8,11 @@ import { useGame } from '../contexts/GameContext'
 import { Truck, MapPin, Navigation, Filter, Car, Zap } from 'lucide-react'
 import { GoogleMapsLoader } from '../components/GoogleMapsLoader'
 import { cityCoords } from '../utils/distance-scaffold'
+import { getDistance } from '../utils/distanceCalculator'
 import { Company } from '../types/game'
 import { truckDrivingEngine } from '../utils/truckDrivingEngine'
+import { roadRouter, RoutePlan } from '../utils/roadRouting'
+import { jobLifecycleEngine } from '../utils/jobLifecycleEngine'
 
 interface TruckData {
   id: string
@@ -27,44 +30,15 @@ interface TruckData {
   currentSpeed?: number
 }
 
-// City-to-city road network for realistic routing
-const roadNetwork: Record<string, Record<string, { distance: number; path: string[] }>> = {
-  // Key European cities with connected road paths
-  'Frankfurt': {
-    'Hamburg': { distance: 492, path: ['Frankfurt', 'Kassel', 'Hannover', 'Hamburg'] },
-    'Munich': { distance: 392, path: ['Frankfurt', 'Nuremberg', 'Munich'] },
-    'Berlin': { distance: 555, path: ['Frankfurt', 'Kassel', 'Hannover', 'Berlin'] },
-    'Stuttgart': { distance: 204, path: ['Frankfurt', 'Wurzburg', 'Stuttgart'] }
-  },
-  'Hamburg': {
-    'Berlin': { distance: 289, path: ['Hamburg', 'Hannover', 'Berlin'] },
-    'Munich': { distance: 774, path: ['Hamburg', 'Hannover', 'Kassel', 'Frankfurt', 'Nuremberg', 'Munich'] },
-    'Stuttgart': { distance: 658, path: ['Hamburg', 'Hannover', 'Kassel', 'Frankfurt', 'Wurzburg', 'Stuttgart'] }
-  },
-  'Berlin': {
-    'Munich': { distance: 585, path: ['Berlin', 'Leipzig', 'Nuremberg', 'Munich'] },
-    'Stuttgart': { distance: 634, path: ['Berlin', 'Leipzig', 'Nuremberg', 'Wurzburg', 'Stuttgart'] }
-  },
-  'Munich': {
-    'Stuttgart': { distance: 223, path: ['Munich', 'Augsburg', 'Ulm', 'Stuttgart'] }
-  },
-  'Stuttgart': {
-    'Frankfurt': { distance: 204, path: ['Stuttgart', 'Wurzburg', 'Frankfurt'] }
-  }
-};
-
-// Get road path and waypoints between cities
-const getRoadPath = (from: string, to: string): { path: string[]; distance: number } => {
-  if (from === to) return { path: [from], distance: 0 };
-  if (roadNetwork[from] && roadNetwork[from][to]) {
-    return roadNetwork[from][to];
-  }
-  if (roadNetwork[to] && roadNetwork[to][from]) {
-    const path = roadNetwork[to][from].path;
-    return { path: [...path].reverse(), distance: roadNetwork[to][from].distance };
-  }
-  // Fallback direct route
-  return { path: [from, to], distance: 100 };
+// Road path between cities from the shared road graph (straight line when not routable, a
+// segment without legs when no distance is known)
+const getRoadPath = (from: string, to: string): RoutePlan => {
+  const route = roadRouter.route(from, to);
+  if (route) return route;
+  if (from === to || !cityCoords[from] || !cityCoords[to]) return { path: [from], legs: [], distanceKm: 0 };
+  const distanceKm = getDistance(from, to);
+  if (distanceKm === null) return { path: [from, to], legs: [], distanceKm: 0 };
+  return { path: [from, to], legs: [{ from, to, distanceKm }], distanceKm };
 };
 
 const Map: React.FC = () => {
@@ -129,22 +103,10 @@ const Map: React.FC = () => {
       const roadPath = getRoadPath(drivingState.route.from, drivingState.route.to);
       
       if (roadPath.path.length > 1 && routeProgress < 100) {
-        // Interpolate position along the road path
-        const segmentProgress = (routeProgress / 100) * (roadPath.path.length - 1);
-        const segmentIndex = Math.floor(segmentProgress);
-        const segmentOffset = segmentProgress - segmentIndex;
-        
-        const fromCity = roadPath.path[segmentIndex];
-        const toCity = roadPath.path[Math.min(segmentIndex + 1, roadPath.path.length - 1)];
-        
-        const fromCoords = cityCoords[fromCity];
-        const toCoords = cityCoords[toCity];
-        
-        if (fromCoords && toCoords) {
-          // Smooth interpolation along the road segment
-          const currentLat = fromCoords.lat + (toCoords.lat - fromCoords.lat) * segmentOffset;
-          const currentLon = fromCoords.lon + (toCoords.lon - fromCoords.lon) * segmentOffset;
-          position = { lat: currentLat, lon: currentLon };
+        // Position along the road path by the distance driven
+        const roadPosition = roadRouter.positionAt(roadPath, roadPath.distanceKm * (routeProgress / 100));
+        if (roadPosition) {
+          position = { lat: roadPosition.lat, lon: roadPosition.lon };
         }
         
         origin = drivingState.route.from;
@@ -157,6 +119,19 @@ const Map: React.FC = () => {
       status = 'On Job';
       destination = currentJob.destination || truckLocation;
       origin = currentJob.origin || truckLocation;
+
+      // Planned jobs on the road follow their road route
+      if (currentJob.status === 'in-transit' && currentJob.lifecycle) {
+        const roadPath = getRoadPath(origin, destination);
+        const plannedKm = jobLifecycleEngine.roadKm(currentJob.lifecycle);
+        const share = plannedKm > 0 ? Math.min(1, jobLifecycleEngine.distanceDrivenAt(currentJob, Date.now()) / plannedKm) : 0;
+        const roadPosition = roadPath.legs.length > 0 ? roadRouter.positionAt(roadPath, roadPath.distanceKm * share) : null;
+        if (roadPosition) {
+          position = { lat: roadPosition.lat, lon: roadPosition.lon };
+          routeProgress = Math.round(share * 100);
+          isMoving = true;
+        }
+      }
     }
 
     return {
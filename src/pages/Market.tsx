@@ -1,23 +1,36 @@
 /**
  * Freight Market page showing available jobs with dynamic filtering
  * Features hub city view and all cities view with proper distance calculations
+ * Partial offers from one city can be combined into a multi-drop load (loadConsolidation)
+ * Return loads for a truck are ranked and chained into an itinerary home (backhaulPlanner)
  */
 
 import React, { useState, useEffect } from 'react';
 import { useGame } from '../contexts/GameContext';
 import { useJobMarket } from '../contexts/JobMarketContext';
-import { Search, RefreshCw, MapPin, Building } from 'lucide-react';
+import { Search, RefreshCw, MapPin, Building, Truck, X, Route } from 'lucide-react';
 import FreightOfferCard from '../components/market/FreightOfferCard';
 import MarketFilters from '../components/market/MarketFilters';
+import AcceptJobDialog from '../components/market/AcceptJobDialog';
+import BackhaulPlanner from '../components/market/BackhaulPlanner';
+import { BackhaulOption } from '../utils/backhaulPlanner';
+import { AssignmentInput } from '../utils/assignmentValidator';
+import { Consignment, MAX_DROPS } from '../utils/loadConsolidation';
 import { getDistance } from '../utils/distanceCalculator';
 import { getCountryCode } from '../utils/countryMapping';
+import { getReputation } from '../utils/companyReputation';
 
 const Market: React.FC = () => {
-  const { gameState, acceptJob: gameAcceptJob } = useGame();
+  const { gameState, acceptJob: gameAcceptJob, acceptConsolidatedLoad } = useGame();
   const { jobMarket, refreshJobs, acceptJob: marketAcceptJob, setSelectedCity } = useJobMarket();
   const [searchQuery, setSearchQuery] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [viewMode, setViewMode] = useState<'hub' | 'all'>('hub');
+  const [pendingOffer, setPendingOffer] = useState<any | null>(null);
+  const [load, setLoad] = useState<Consignment[]>([]);
+  const [planningLoad, setPlanningLoad] = useState(false);
+  const [pendingAssignment, setPendingAssignment] = useState<AssignmentInput | null>(null);
+  const [showBackhaul, setShowBackhaul] = useState(false);
     const hubCity = gameState.company?.hub?.name || 'Belgrade';
  const hubCountry = gameState.company?.hub?.country || 'Serbia';
 
@@ -34,11 +47,49 @@ const Market: React.FC = () => {
     maxValue: 100000
   });
 
-  // Handle job acceptance
+  // Handle job acceptance: open the assignment dialog for the selected load
   const handleAcceptJob = (jobData: any, acceptedWeight: number) => {
-    marketAcceptJob(jobData.id, acceptedWeight);
-    gameAcceptJob(jobData, acceptedWeight);
-    alert(`Job accepted successfully! You can track it in "My Jobs".`);
+    setPendingAssignment(null);
+    setPendingOffer({ ...jobData, weight: acceptedWeight, value: jobData.calculatedValue ?? jobData.value, acceptedWeight });
+  };
+
+  // Accept a planned return load with the truck, trailer and crew it was planned for
+  const handleAcceptLeg = (leg: BackhaulOption, assignment: AssignmentInput) => {
+    setPendingAssignment(assignment);
+    setPendingOffer({ ...leg.offer, weight: leg.weight, value: leg.revenue, acceptedWeight: leg.weight });
+  };
+
+  // Accept with the chosen assignment; the offer is only taken from the market when valid
+  const handleConfirmAssignment = (assignment: AssignmentInput) => {
+    if (!pendingOffer) return [];
+    const result = gameAcceptJob({ ...pendingOffer, ...assignment });
+    if (!result.valid) return result.issues;
+    marketAcceptJob(pendingOffer.id, pendingOffer.acceptedWeight);
+    setPendingOffer(null);
+    return [];
+  };
+
+  // Add a partial offer to the multi-drop load (one pickup city per load)
+  const handleAddToLoad = (jobData: any, weight: number) => {
+    if (load.length > 0 && load[0].offer.origin !== jobData.origin) {
+      alert(`This load is picked up in ${load[0].offer.origin}. Clear it to plan a load from ${jobData.origin}.`);
+      return;
+    }
+    if (load.length >= MAX_DROPS) {
+      alert(`A load can have at most ${MAX_DROPS} drops.`);
+      return;
+    }
+    setLoad((prev) => [...prev.filter((c) => c.offer.id !== jobData.id), { offer: jobData, weight, value: jobData.calculatedValue ?? jobData.value }]);
+  };
+
+  // Accept the planned load; its offers are only taken from the market when valid
+  const handleConfirmLoad = (assignment: AssignmentInput) => {
+    const result = acceptConsolidatedLoad(load, assignment);
+    if (!result.valid) return result.issues;
+    load.forEach((c) => marketAcceptJob(c.offer.id, c.weight));
+    setLoad([]);
+    setPlanningLoad(false);
+    return [];
   };
 
   // Handle refresh jobs
@@ -131,6 +182,13 @@ const Market: React.FC = () => {
               {new Date(jobMarket.lastUpdate).toLocaleTimeString()}
             </div>
           </div>
+          <button
+            onClick={() => setShowBackhaul(!showBackhaul)}
+            className={`flex items-center space-x-2 ${showBackhaul ? 'bg-blue-600 hover:bg-blue-700 border-blue-500' : 'bg-slate-800 hover:bg-slate-700 border-slate-700'} text-white px-4 py-2 rounded-lg border transition-colors`}
+          >
+            <Route className="w-4 h-4" />
+            <span>Return Loads</span>
+          </button>
           <button
             onClick={handleRefreshJobs}
             disabled={isRefreshing}
@@ -217,6 +275,43 @@ const Market: React.FC = () => {
         )}
       </div>
 
+      {/* Return loads for a truck */}
+      {showBackhaul && (
+        <BackhaulPlanner company={gameState.company} offers={jobMarket.jobs} onAcceptLeg={handleAcceptLeg} />
+      )}
+
+      {/* Multi-drop load being planned */}
+      {load.length > 0 && (
+        <div className="bg-slate-800 rounded-xl p-4 border border-blue-500/40 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+          <div className="flex items-center space-x-3">
+            <Truck className="w-5 h-5 text-blue-400" />
+            <div>
+              <div className="text-white font-medium">
+                Load from {load[0].offer.origin}: {load.length} drop{load.length !== 1 ? 's' : ''} · {load.reduce((sum, c) => sum + c.weight, 0)}t · ${Math.round(load.reduce((sum, c) => sum + c.value, 0)).toLocaleString()}
+              </div>
+              <div className="text-xs text-slate-400">{load.map((c) => `${c.offer.destination} (${c.weight}t ${c.offer.cargoType})`).join(' · ')}</div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPlanningLoad(true)}
+              disabled={load.length < 2}
+              title={load.length < 2 ? 'Add at least two partial offers' : 'Assign a truck and plan the drop order'}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+            >
+              Plan multi-drop
+            </button>
+            <button
+              onClick={() => setLoad([])}
+              className="flex items-center space-x-1 bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-sm"
+            >
+              <X className="w-4 h-4" />
+              <span>Clear</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Jobs Grid */}
       {filteredJobs.length === 0 ? (
         <div className="bg-slate-800 rounded-xl p-12 border border-slate-700 text-center">
@@ -254,10 +349,31 @@ const Market: React.FC = () => {
                 destinationCountry: typeof job.destinationCountry === 'string' ? job.destinationCountry : '',
               }}
               onAcceptJob={handleAcceptJob}
+              onAddToLoad={handleAddToLoad}
+              inLoad={load.some((c) => c.offer.id === job.id)}
+              reputation={getReputation(gameState.company)}
             />
           ))}
         </div>
       )}
+
+      <AcceptJobDialog
+        open={pendingOffer !== null}
+        company={gameState.company}
+        offer={pendingOffer}
+        initialAssignment={pendingAssignment}
+        onConfirm={handleConfirmAssignment}
+        onCancel={() => setPendingOffer(null)}
+      />
+
+      <AcceptJobDialog
+        open={planningLoad}
+        company={gameState.company}
+        offer={null}
+        consignments={load}
+        onConfirm={handleConfirmLoad}
+        onCancel={() => setPlanningLoad(false)}
+      />
     </div>
   );
 };
@@ -34,6 +34,7 @@ import {
 } from 'lucide-react';
 import DriverCompactCard, { CompactStaff } from '../components/staff/DriverCompactCard';
 import CompanyBenefitsModal from '../components/staff/CompanyBenefitsModal';
+import { postTransaction, LEDGER_CATEGORIES } from '../utils/companyLedger';
 
 /**
  * StaffMember
@@ -509,12 +510,16 @@ const StaffManagement: React.FC = () => {
           return { ...s, happiness: Math.min(100, Math.round(prev + details.happinessGain)) };
         });
 
-        const updatedCompany = {
+        const updatedCompany = postTransaction({
           ...company,
-          capital: (company.capital || 0) - totalCost,
           staff: updatedStaff,
           benefits: { ...currentBenefits, staffBonusLast: now.toISOString() },
-        };
+        }, {
+          type: 'expense',
+          category: LEDGER_CATEGORIES.STAFF_BENEFITS,
+          amount: totalCost,
+          description: `Staff Bonus for ${employees} employee(s)`,
+        });
 
         createCompany(updatedCompany);
         setNotification({ type: 'success', message: 'Staff Bonus applied. All staff happiness increased.' });
@@ -524,12 +529,16 @@ const StaffManagement: React.FC = () => {
           return { ...s, happiness: Math.min(100, Math.round(prev + details.happinessGain)) };
         });
 
-        const updatedCompany = {
+        const updatedCompany = postTransaction({
           ...company,
-          capital: (company.capital || 0) - totalCost,
           staff: updatedStaff,
           benefits: { ...currentBenefits, familyDayLast: now.toISOString() },
-        };
+        }, {
+          type: 'expense',
+          category: LEDGER_CATEGORIES.STAFF_BENEFITS,
+          amount: totalCost,
+          description: `Staff Family Day for ${employees} employee(s)`,
+        });
 
         createCompany(updatedCompany);
         setNotification({ type: 'success', message: 'Staff Family Day organized. All staff happiness increased.' });
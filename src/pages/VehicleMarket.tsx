@@ -4,7 +4,10 @@
  * Vehicle Market page with defensive specs resolution.
  *
  * Purpose:
- * - Provide vehicle marketplace UI (trucks & trailers) with filters, tabs and purchase modal.
+ * - Provide vehicle marketplace UI (trucks & trailers) with filters, tabs and a purchase / lease modal.
+ * - Leasing signs a contract for the chosen term through vehicleLeasing instead of charging the price.
+ * - Used tabs also list vehicles other players sold or listed in this world (see vehicleResale);
+ *   the company's own listings can be withdrawn here.
  * - Ensure classification is canonical by using the shared isTrailer heuristic rather than fragile `type` fields.
  *
  * Notes:
@@ -31,6 +34,9 @@ import BigTruckSpecsBox from '../components/market/BigTruckSpecsBox';
 import VehicleSpecsSelector from '../components/market/VehicleSpecsSelector';
 import TrailerTechnicalSpecs from '../components/trailer/TrailerTechnicalSpecs';
 import { isTrailer } from '../utils/vehicleTypeUtils';
+import { vehicleLeasing, LEASE_TERMS, EARLY_TERMINATION_SHARE } from '../utils/vehicleLeasing';
+import { vehiclePurchaseService } from '../utils/vehiclePurchaseService';
+import { vehicleResale, loadUsedMarket, saveUsedMarket, UsedMarketState } from '../utils/vehicleResale';
 
 /**
  * randInt
@@ -193,17 +199,20 @@ function isBigFromTopLevel(item: any | null): boolean {
  */
 const VehicleMarket: React.FC = () => {
   const navigate = useNavigate();
-  const { gameState, createCompany } = useGame();
+  const { gameState, createCompany, withdrawVehicleListing } = useGame();
 
   const [activeTab, setActiveTab] = useState<'new-trucks' | 'used-trucks' | 'new-trailers' | 'used-trailers'>('new-trailers');
 
   const [vehicles, setVehicles] = useState<any[]>([]);
+  const [usedMarket, setUsedMarket] = useState<UsedMarketState>(() => loadUsedMarket());
   const [searchTerm, setSearchTerm] = useState('');
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 150000]);
   const [sortBy, setSortBy] = useState<'price-low' | 'price-high' | 'availability'>('price-low');
   const [selectedClass, setSelectedClass] = useState<string>('all');
   const [selectedVehicle, setSelectedVehicle] = useState<any | null>(null);
   const [confirmStage, setConfirmStage] = useState(false);
+  const [confirmMode, setConfirmMode] = useState<'purchase' | 'lease'>('purchase');
+  const [leaseTermMonths, setLeaseTermMonths] = useState<number>(24);
   const [isProcessingPurchase, setIsProcessingPurchase] = useState(false);
   const [purchaseError, setPurchaseError] = useState<string | null>(null);
   const [selectedDeliveryHubId, setSelectedDeliveryHubId] = useState<string | null>(null);
@@ -217,12 +226,19 @@ const VehicleMarket: React.FC = () => {
 
   const company = gameState?.company ?? null;
   const [searchParams] = useSearchParams();
+  const resaleEntries = useMemo(() => vehicleResale.available(usedMarket, String(company?.id ?? '')), [usedMarket, company?.id]);
+  const ownListings = useMemo(() => vehicleResale.own(usedMarket, String(company?.id ?? '')), [usedMarket, company?.id]);
 
   useEffect(() => {
     // Load trailers dataset into local vehicles list (we still rely on isTrailer() to classify)
     setVehicles((TRAILERS || []).map((v: any) => ({ ...v })));
   }, []);
 
+  useEffect(() => {
+    // Other players may have listed or bought used vehicles since the page was opened
+    setUsedMarket(loadUsedMarket());
+  }, [activeTab]);
+
   const unifyTrucksList = (): any[] => unifyTrucksListLocal();
 
   /**
@@ -230,7 +246,7 @@ const VehicleMarket: React.FC = () => {
    * @description Return filtered trailers using canonical isTrailer() heuristic.
    */
   const getFilteredTrailers = (): any[] => {
-    let filtered = vehicles.filter((v) => isTrailer(v) && v.category === (activeTab === 'new-trailers' ? 'new' : 'used'));
+    let filtered = [...vehicles, ...resaleEntries].filter((v) => isTrailer(v) && v.category === (activeTab === 'new-trailers' ? 'new' : 'used'));
 
     if (searchTerm) {
       const s = searchTerm.toLowerCase();
@@ -270,7 +286,7 @@ const VehicleMarket: React.FC = () => {
    * @description Return filtered trucks from the unified trucks list while ensuring canonical classification.
    */
   const getFilteredTrucks = (): any[] => {
-    let list = unifyTrucksList().filter((t) => !isTrailer(t) && t.category === (activeTab === 'new-trucks' ? 'new' : 'used'));
+    let list = [...unifyTrucksList(), ...resaleEntries].filter((t) => !isTrailer(t) && t.category === (activeTab === 'new-trucks' ? 'new' : 'used'));
 
     if (activeTruckCategoryTab) {
       list = list.filter((t) => {
@@ -315,8 +331,9 @@ const VehicleMarket: React.FC = () => {
     return list;
   };
 
-  const filteredTrailers = useMemo(getFilteredTrailers, [vehicles, searchTerm, priceRange, sortBy, selectedClass, activeTab]);
+  const filteredTrailers = useMemo(getFilteredTrailers, [vehicles, resaleEntries, searchTerm, priceRange, sortBy, selectedClass, activeTab]);
   const filteredTrucks = useMemo(getFilteredTrucks, [
+    resaleEntries,
     truckSearchTerm,
     truckPriceRange,
     truckSortBy,
@@ -373,7 +390,8 @@ const VehicleMarket: React.FC = () => {
     // Attempt authoritative lookup only for items that are not trailers
     let authoritative: any | null = null;
     try {
-      const looksLikeTruck = !isTrailer(vehicle) && (
+      // Used-market listings keep their own figures (mileage, condition, asking price)
+      const looksLikeTruck = !vehicle.resale && !isTrailer(vehicle) && (
         ((vehicle.type || '').toString().toLowerCase() === 'truck') ||
         Boolean(vehicle.truckCategory) ||
         Boolean(vehicle.tonnage) ||
@@ -540,6 +558,7 @@ const VehicleMarket: React.FC = () => {
   const closeModal = () => {
     setSelectedVehicle(null);
     setConfirmStage(false);
+    setConfirmMode('purchase');
     setIsProcessingPurchase(false);
     setPurchaseError(null);
     setSelectedDeliveryHubId(null);
@@ -547,18 +566,33 @@ const VehicleMarket: React.FC = () => {
 
   /**
    * canPurchase
-   * @description Basic affordability check.
+   * @description Basic affordability check (used listings at their used price).
    */
   const canPurchase = (vehicle: any | null) => {
     if (!vehicle) return false;
-    const price = Number(vehicle.price ?? 0);
-    return Number.isFinite(price) && price > 0 && (company.capital || 0) >= price;
+    const price = vehiclePurchaseService.price(vehicle);
+    return price > 0 && (company.capital || 0) >= price;
+  };
+
+  /**
+   * resolveHub
+   * @description Delivery hub chosen for the selected vehicle; sets the error and returns
+   *              undefined when the user has hubs but none is selected.
+   */
+  const resolveHub = (): { id: string; name: string } | null | undefined => {
+    const hubs = getUserHubs();
+    const chosenHub = hubs.find((h) => String(h.id) === String(selectedDeliveryHubId)) ?? hubs[0] ?? null;
+    if (hubs.length > 0 && !chosenHub) {
+      setPurchaseError('Please select a delivery hub.');
+      return undefined;
+    }
+    return chosenHub;
   };
 
   /**
    * performPurchase
-   * @description Perform the in-memory purchase: deduct capital and add item to company.trucks or company.trailers
-   *              based on canonical isTrailer() heuristic.
+   * @description Buy the selected vehicle through vehiclePurchaseService: capital is checked, the
+   *              price charged and the delivery queued; nothing changes when any step fails.
    */
   const performPurchase = async () => {
     setPurchaseError(null);
@@ -566,93 +600,82 @@ const VehicleMarket: React.FC = () => {
       setPurchaseError('No vehicle selected.');
       return;
     }
-    const price = Number(selectedVehicle.price ?? 0);
-    if (!Number.isFinite(price) || price <= 0) {
-      setPurchaseError('Invalid vehicle price.');
-      return;
-    }
-    if ((company.capital || 0) < price) {
-      setPurchaseError(`Insufficient funds: €${price.toLocaleString()} required.`);
-      return;
-    }
+    const chosenHub = resolveHub();
+    if (chosenHub === undefined) return;
 
-    let deliveryDays = Number(
-      selectedVehicle.deliveryDays ?? parseAvailabilityDays(selectedVehicle.availability ?? selectedVehicle.specifications?.availability ?? '')
-    );
-    if (!Number.isFinite(deliveryDays) || deliveryDays === null || deliveryDays === undefined) deliveryDays = 0;
+    setIsProcessingPurchase(true);
 
-    const hubs = getUserHubs();
-    const chosenHub = hubs.find((h) => String(h.id) === String(selectedDeliveryHubId)) ?? hubs[0] ?? null;
-    if (hubs.length > 0 && !chosenHub) {
-      setPurchaseError('Please select a delivery hub.');
+    try {
+      const result = vehiclePurchaseService.purchase(company, selectedVehicle, chosenHub);
+      if (result.error) {
+        setPurchaseError(result.error);
+        return;
+      }
+
+      // A used-market listing is reserved for this company before anything is persisted
+      const resale = selectedVehicle.resale
+        ? vehicleResale.markSold(loadUsedMarket(), selectedVehicle.resale.listingId, String(company.id))
+        : null;
+      if (resale?.error) {
+        setPurchaseError(resale.error);
+        setUsedMarket(loadUsedMarket());
+        return;
+      }
+
+      // Nothing is kept (charge, delivery or reserved listing) when the company cannot be saved
+      if (!createCompany(result.company)) {
+        setPurchaseError('Failed to save the purchase. Please try again.');
+        return;
+      }
+      if (resale) {
+        saveUsedMarket(resale.market);
+        setUsedMarket(resale.market);
+      }
+
+      closeModal();
+      navigate('/garage');
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('VehicleMarket.performPurchase error', err);
+      setPurchaseError('Failed to complete purchase. Please try again.');
+    } finally {
+      setIsProcessingPurchase(false);
+    }
+  };
+
+  /**
+   * performLease
+   * @description Lease the selected vehicle for the chosen term (see vehicleLeasing): the first
+   *              month is charged now and the lessor hands the vehicle over at the chosen hub.
+   */
+  const performLease = async () => {
+    setPurchaseError(null);
+    if (!selectedVehicle) {
+      setPurchaseError('No vehicle selected.');
       return;
     }
+    const chosenHub = resolveHub();
+    if (chosenHub === undefined) return;
 
     setIsProcessingPurchase(true);
 
     try {
-      const newCompany: any = {
-        ...company,
-        capital: Math.max(0, (company.capital || 0) - price),
-      };
-
-      const etaIso = deliveryDays > 0 ? new Date(Date.now() + deliveryDays * 24 * 60 * 60 * 1000).toISOString() : null;
-
-      // Use canonical heuristic to decide where to place the purchased item
-      const purchasedIsTrailer = isTrailer(selectedVehicle);
-
-      if (!purchasedIsTrailer) {
-        newCompany.trucks = Array.isArray(newCompany.trucks) ? [...newCompany.trucks] : [];
-        const truckEntry = {
-          id: selectedVehicle.id ?? `truck-${Date.now()}`,
-          brand: selectedVehicle.brand ?? 'Unknown',
-          model: selectedVehicle.model ?? '',
-          year: selectedVehicle.year ?? new Date().getFullYear(),
-          condition: typeof selectedVehicle.condition === 'number' ? selectedVehicle.condition : 100,
-          capacity: selectedVehicle.specifications?.capacity ?? selectedVehicle.capacity ?? 0,
-          tonnage: selectedVehicle.tonnage ?? null,
-          purchasePrice: price,
-          mileage: 0,
-          status: deliveryDays > 0 ? 'in-transit' : 'available',
-          location: deliveryDays > 0 ? (chosenHub?.name ?? newCompany.hub?.city ?? 'Hub') : (newCompany.hub?.city || newCompany.hub?.name || 'Hub'),
-          deliveryDays,
-          deliveryEta: etaIso,
-          deliveryHub: chosenHub ? { id: chosenHub.id, name: chosenHub.name } : null,
-          specifications: selectedVehicle.specifications ?? undefined,
-          marketEntry: JSON.parse(JSON.stringify(selectedVehicle)),
-        };
-        newCompany.trucks.push(truckEntry);
-      } else {
-        newCompany.trailers = Array.isArray(newCompany.trailers) ? [...newCompany.trailers] : [];
-        const trailerEntry = {
-          id: selectedVehicle.id ?? `trailer-${Date.now()}`,
-          brand: selectedVehicle.brand ?? 'Unknown',
-          model: selectedVehicle.model ?? '',
-          year: selectedVehicle.year ?? new Date().getFullYear(),
-          condition: typeof selectedVehicle.condition === 'number' ? selectedVehicle.condition : 100,
-          capacity: selectedVehicle.specifications?.capacity ?? selectedVehicle.capacity ?? 0,
-          purchasePrice: price,
-          status: deliveryDays > 0 ? 'in-transit' : 'available',
-          location: deliveryDays > 0 ? (chosenHub?.name ?? newCompany.hub?.city ?? 'Hub') : (newCompany.hub?.city || newCompany.hub?.name || 'Hub'),
-          deliveryDays,
-          deliveryEta: etaIso,
-          deliveryHub: chosenHub ? { id: chosenHub.id, name: chosenHub.name } : null,
-          specifications: selectedVehicle.specifications ? JSON.parse(JSON.stringify(selectedVehicle.specifications)) : {},
-          marketEntry: JSON.parse(JSON.stringify(selectedVehicle)),
-        };
-        newCompany.trailers.push(trailerEntry);
+      const result = vehicleLeasing.sign(company, vehiclePurchaseService.buildVehicle(selectedVehicle, company, chosenHub), leaseTermMonths);
+      if (result.error) {
+        setPurchaseError(result.error);
+        return;
       }
 
       if (typeof createCompany === 'function') {
-        createCompany(newCompany);
+        createCompany(result.company);
       }
 
       closeModal();
       navigate('/garage');
     } catch (err) {
       // eslint-disable-next-line no-console
-      console.error('VehicleMarket.performPurchase error', err);
-      setPurchaseError('Failed to complete purchase. Please try again.');
+      console.error('VehicleMarket.performLease error', err);
+      setPurchaseError('Failed to sign the lease. Please try again.');
     } finally {
       setIsProcessingPurchase(false);
     }
@@ -687,7 +710,18 @@ const VehicleMarket: React.FC = () => {
     { value: 'big', label: 'Big (> 12 t)' },
   ];
 
+  /**
+   * handleWithdraw
+   * @description Take one of the company's used-market listings down (the vehicle returns to the fleet).
+   */
+  const handleWithdraw = (listingId: string) => {
+    const result = withdrawVehicleListing(listingId);
+    if (!result.success) window.alert(result.message);
+    setUsedMarket(loadUsedMarket());
+  };
+
   const hubsForSelect = getUserHubs();
+  const leaseQuote = selectedVehicle ? vehicleLeasing.quote(selectedVehicle, leaseTermMonths) : null;
 
   return (
     <div className="space-y-6">
@@ -909,6 +943,30 @@ const VehicleMarket: React.FC = () => {
         </div>
       </div>
 
+      {/* Own used-market listings */}
+      {activeTab.startsWith('used') && ownListings.length > 0 && (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-2">
+          <div className="text-sm font-medium text-white">Your listings</div>
+          {ownListings.map((listing) => (
+            <div key={listing.id} className="flex items-center justify-between bg-slate-700 rounded-lg p-3 text-sm">
+              <div className="text-slate-300">
+                {listing.vehicle?.brand} {listing.vehicle?.model} · {listing.vehicle?.year ?? '—'}
+                <span className="text-slate-400"> · listed {new Date(listing.listedAt).toLocaleString()}</span>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="text-green-400 font-medium">€{listing.price.toLocaleString()}</span>
+                <button
+                  onClick={() => handleWithdraw(listing.id)}
+                  className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded-md text-xs transition-colors"
+                >
+                  Withdraw
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Content area */}
       <div className="bg-slate-800 rounded-xl border border-slate-700 p-4">
         <div className="space-y-2">
@@ -1046,6 +1104,12 @@ const VehicleMarket: React.FC = () => {
                     {selectedVehicle.brand || 'Unknown'} {selectedVehicle.model || ''}
                   </h2>
                   <div className="mt-2 text-slate-400">{selectedVehicle.trailerClass || selectedVehicle.truckCategory || 'Vehicle'}</div>
+                  {selectedVehicle.resale && (
+                    <div className="mt-1 text-xs text-slate-400">
+                      Sold by {selectedVehicle.resale.sellerName} · {selectedVehicle.year ?? '—'}
+                      {typeof selectedVehicle.mileage === 'number' ? ` · ${selectedVehicle.mileage.toLocaleString()} km` : ''}
+                    </div>
+                  )}
                 </div>
 
                 <button onClick={closeModal} className="text-slate-400 hover:text-white transition-colors" aria-label="Close">
@@ -1056,7 +1120,7 @@ const VehicleMarket: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                 <div>
                   <div className="text-sm text-slate-400">Price</div>
-                  <div className="text-lg font-bold text-white">€{Number(selectedVehicle.price || 0).toLocaleString()}</div>
+                  <div className="text-lg font-bold text-white">€{vehiclePurchaseService.price(selectedVehicle).toLocaleString()}</div>
                 </div>
 
                 {selectedVehicle.leaseRate && (
@@ -1113,6 +1177,7 @@ const VehicleMarket: React.FC = () => {
                 <button
                   onClick={() => {
                     setPurchaseError(null);
+                    setConfirmMode('purchase');
                     setConfirmStage(true);
                     const hubs = getUserHubs();
                     if (hubs.length > 0 && !selectedDeliveryHubId) setSelectedDeliveryHubId(hubs[0].id);
@@ -1126,7 +1191,11 @@ const VehicleMarket: React.FC = () => {
                 {selectedVehicle.leaseRate && (
                   <button
                     onClick={() => {
-                      setPurchaseError('Lease flow is not implemented in this dialog. Use Purchase for immediate ownership.');
+                      setPurchaseError(null);
+                      setConfirmMode('lease');
+                      setConfirmStage(true);
+                      const hubs = getUserHubs();
+                      if (hubs.length > 0 && !selectedDeliveryHubId) setSelectedDeliveryHubId(hubs[0].id);
                     }}
                     className="flex-1 bg-green-600 hover:bg-green-700 text-white py-3 px-6 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2"
                   >
@@ -1149,7 +1218,7 @@ const VehicleMarket: React.FC = () => {
               {/* Final confirm stage */}
               {confirmStage && (
                 <div className="mt-4 bg-slate-800 border border-slate-700 rounded-lg p-4">
-                  <div className="text-sm text-slate-400 mb-2">Confirm Purchase</div>
+                  <div className="text-sm text-slate-400 mb-2">{confirmMode === 'lease' ? 'Confirm Lease' : 'Confirm Purchase'}</div>
                   <div className="flex items-center justify-between mb-3">
                     <div>
                       <div className="text-xs text-slate-400">Item</div>
@@ -1158,11 +1227,36 @@ const VehicleMarket: React.FC = () => {
                       </div>
                     </div>
                     <div className="text-right">
-                      <div className="text-xs text-slate-400">Total</div>
-                      <div className="text-white font-bold">€{Number(selectedVehicle.price || 0).toLocaleString()}</div>
+                      <div className="text-xs text-slate-400">{confirmMode === 'lease' ? 'Due now' : 'Total'}</div>
+                      <div className="text-white font-bold">
+                        €{Number(confirmMode === 'lease' ? leaseQuote?.monthlyRate ?? 0 : vehiclePurchaseService.price(selectedVehicle)).toLocaleString()}
+                      </div>
                     </div>
                   </div>
 
+                  {confirmMode === 'lease' && (
+                    <div className="mb-3">
+                      <label className="block text-sm text-slate-300 mb-2">Term</label>
+                      <select value={leaseTermMonths} onChange={(e) => setLeaseTermMonths(Number(e.target.value))} className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white">
+                        {Object.keys(LEASE_TERMS).map((months) => (
+                          <option key={months} value={months}>
+                            {months} months
+                          </option>
+                        ))}
+                      </select>
+                      {leaseQuote && (
+                        <div className="text-xs text-slate-400 mt-2 space-y-1">
+                          <div>
+                            €{leaseQuote.monthlyRate.toLocaleString()}/month for {leaseQuote.termMonths} months (€{leaseQuote.total.toLocaleString()} in total), charged every 30 game days.
+                          </div>
+                          <div>
+                            Buy-out at the end of the term: <span className="text-white">€{leaseQuote.residualValue.toLocaleString()}</span>. Returning early costs {Math.round(EARLY_TERMINATION_SHARE * 100)}% of the remaining months.
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {purchaseError && <div className="mb-3 text-sm text-red-300">{purchaseError}</div>}
 
                   <div className="mb-3">
@@ -1176,7 +1270,11 @@ const VehicleMarket: React.FC = () => {
                       ))}
                     </select>
                     <div className="text-xs text-slate-400 mt-2">
-                      Delivery in <span className="text-white font-semibold">{selectedVehicle.deliveryDays ?? parseAvailabilityDays(selectedVehicle.availability ?? selectedVehicle.specifications?.availability ?? '') ?? 0}</span> day(s).
+                      {confirmMode === 'lease' ? (
+                        'Handed over by the lessor at once.'
+                      ) : (
+                        <>Delivery in <span className="text-white font-semibold">{vehiclePurchaseService.deliveryDays(selectedVehicle)}</span> day(s).</>
+                      )}
                     </div>
                   </div>
 
@@ -1187,12 +1285,13 @@ const VehicleMarket: React.FC = () => {
                           setPurchaseError('Please select a delivery hub.');
                           return;
                         }
-                        performPurchase();
+                        if (confirmMode === 'lease') performLease();
+                        else performPurchase();
                       }}
-                      disabled={isProcessingPurchase || !(company && (company.capital || 0) >= Number(selectedVehicle.price || 0))}
+                      disabled={isProcessingPurchase || !(company && (company.capital || 0) >= (confirmMode === 'lease' ? leaseQuote?.monthlyRate ?? Infinity : vehiclePurchaseService.price(selectedVehicle)))}
                       className={`flex-1 ${isProcessingPurchase ? 'bg-blue-700/60' : 'bg-blue-600 hover:bg-blue-700'} text-white py-2 px-4 rounded-lg font-medium transition-colors disabled:opacity-60`}
                     >
-                      {isProcessingPurchase ? 'Processing...' : 'Confirm Purchase'}
+                      {isProcessingPurchase ? 'Processing...' : confirmMode === 'lease' ? 'Confirm Lease' : 'Confirm Purchase'}
                     </button>
 
                     <button
@@ -2,6 +2,8 @@
  * Game type definitions for Truck Manager Simulator
  */
 
+import type { JobLifecyclePlan } from '../utils/jobLifecycleEngine';
+
 export type GamePage = 
   | 'dashboard' 
   | 'trucks' 
@@ -27,6 +29,22 @@ export interface Company {
   contracts: Contract[];
   activeJobs: ActiveJob[];
   logo: string | null;
+  /** Financial ledger (see utils/companyLedger). Optional for legacy persisted companies. */
+  ledger?: FinancialRecord[];
+  /** Reputation changes, oldest first (see utils/companyReputation). Optional for legacy persisted companies. */
+  reputationHistory?: ReputationRecord[];
+  /** Overrides of the default hours-of-service rules (see utils/hoursOfService) */
+  hosRules?: Partial<HoursOfServiceRules>;
+  /** Logged hours-of-service violations, oldest first */
+  hosViolations?: HosViolationRecord[];
+  /** Awarded long-term contracts and their recurring operations (see utils/contractExecution) */
+  serviceContracts?: ServiceContract[];
+  /** Bank term loans, oldest first (see utils/companyBanking) */
+  loans?: Loan[];
+  /** Revolving credit line with the bank (see utils/companyBanking) */
+  creditLine?: CreditLine;
+  /** Bank payment history used for credit limits and rates */
+  creditRecord?: CreditRecord;
 }
 
 export interface HubLocation {
@@ -51,6 +69,8 @@ export interface Truck {
   purchasePrice: number;
   maintenanceCost: number;
   status: 'available' | 'on-job' | 'maintenance';
+  /** Lease contract of a leased truck (see utils/vehicleLeasing) */
+  lease?: VehicleLease;
 }
 
 export interface Trailer {
@@ -61,6 +81,54 @@ export interface Trailer {
   location: string;
   assignedTruck: string | null;
   purchasePrice: number;
+  /** Lease contract of a leased trailer (see utils/vehicleLeasing) */
+  lease?: VehicleLease;
+}
+
+export interface VehicleLease {
+  id: string;
+  monthlyRate: number; // USD charged every lease month
+  termMonths: number;
+  listPrice: number; // market price when signed
+  residualValue: number; // buy-out price at the end of the term
+  signedAt: string; // ISO timestamp
+  endsAt: string; // ISO timestamp
+  nextChargeAt: string | null; // ISO timestamp, null once every month is billed
+  billedMonths: number; // months charged so far (paid or missed), including the first
+  missedPayments: number; // consecutive months that could not be paid
+  arrears: number; // USD billed but not paid
+  status: 'active' | 'ended'; // ended: term over, waiting for return or buy-out
+}
+
+export interface Loan {
+  id: string;
+  principal: number; // USD borrowed
+  annualRate: number; // interest rate per year, e.g. 0.08
+  termMonths: number;
+  instalment: number; // USD due every bank month (interest and principal)
+  outstanding: number; // USD principal not repaid yet
+  takenAt: string; // ISO timestamp
+  nextDueAt: string | null; // ISO timestamp, null once repaid
+  billedInstalments: number; // instalments charged so far (paid or missed)
+  missedPayments: number; // consecutive instalments that could not be paid
+  arrears: number; // USD due but not paid, including late fees
+  status: 'active' | 'repaid';
+}
+
+export interface CreditLine {
+  limit: number; // USD that can be drawn, set when the line is opened or reviewed
+  drawn: number; // USD currently drawn
+  annualRate: number;
+  openedAt: string; // ISO timestamp
+  nextInterestAt: string; // ISO timestamp of the next monthly interest charge
+  missedPayments: number; // consecutive interest charges that could not be paid
+  arrears: number; // USD due but not paid, including late fees
+  frozen: boolean; // no drawing after repeated missed payments until the arrears are paid
+}
+
+export interface CreditRecord {
+  onTimePayments: number;
+  missedPayments: number; // all missed payments, never reset
 }
 
 export interface StaffMember {
@@ -98,6 +166,7 @@ export interface ActiveJob {
   assignedTruck: string;
   assignedTrailer: string;
   assignedDriver: string;
+  assignedCoDriver?: string;
   startTime: Date;
   estimatedCompletion: Date;
   progress: number; // 0-100
@@ -110,15 +179,93 @@ export interface ActiveJob {
   deadline: string;
   cargoType: string;
   weight: number;
+  /** Time plan of a started job (see jobLifecycleEngine) */
+  lifecycle?: JobLifecyclePlan;
+  /** Consolidated load this job is a drop of (see loadConsolidation) */
+  consolidationId?: string;
+  /** Position of the drop in the load route (0 = first drop) */
+  dropIndex?: number;
+  dropCount?: number;
+  /** City where the consolidated load was picked up */
+  loadOrigin?: string;
+  /** Weight aboard when leaving for this drop (tons) */
+  loadedWeight?: number;
 }
 
 export interface FinancialRecord {
   id: string;
-  date: Date;
+  date: string; // ISO timestamp (persisted as string)
   type: 'income' | 'expense';
   category: string;
-  amount: number;
+  amount: number; // always positive, direction given by type
   description: string;
+  reference?: string; // related job/staff/vehicle id
+  balanceAfter?: number; // company capital after this record was applied
+}
+
+export interface ReputationRecord {
+  id: string;
+  date: string; // ISO timestamp
+  type: string; // event label (see REPUTATION_EVENTS)
+  delta: number; // signed score change
+  reason: string;
+  reference?: string; // related job/truck id
+  scoreAfter: number; // company reputation after this change was applied
+}
+
+export interface HoursOfServiceRules {
+  maxContinuousHours: number; // driving before a break is due
+  breakHours: number; // break after continuous driving
+  splitBreaks: boolean; // take the break as a short first part halfway and the rest at the limit
+  splitFirstHours: number; // first part of a split break
+  maxDailyHours: number; // driving between daily rests
+  dailyRestHours: number;
+  maxWeeklyHours: number; // driving between weekly rests
+  weeklyRestHours: number;
+  maxOverrunHours: number; // drivers push on past a limit to finish a run within this many hours
+  finePerViolation: number;
+  finePerExcessHour: number;
+}
+
+export interface HosViolationRecord {
+  id: string;
+  date: string; // ISO timestamp
+  driverId: string;
+  driverName?: string;
+  limit: 'continuous' | 'daily' | 'weekly';
+  excessHours: number; // simulated hours driven past the limit
+  fine: number;
+  reference?: string; // related job id
+}
+
+export interface ServiceContractSla {
+  due: number; // operations that fell due
+  onTime: number;
+  late: number;
+  missed: number; // not delivered: equipment shortfall, never started or cancelled
+  consecutiveShortfalls: number; // operations in a row without the committed equipment
+  penalties: number; // USD charged for shortfalls, missed operations and termination
+}
+
+export interface ServiceContract {
+  id: string; // id of the awarded ContractJob
+  title: string;
+  provider: string;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  durationMonths: number;
+  cargoType: string; // display name used by jobs
+  trailerType: string; // trailer type id
+  committed: { trucks: number; trailers: number; drivers: number };
+  price: number; // awarded bid for the whole contract
+  operations: number; // total operations over the duration
+  perOperation: number; // payment per delivered operation
+  signedAt: string; // ISO timestamp
+  endsAt: string; // ISO timestamp
+  nextOperationAt: string; // ISO timestamp
+  spawned: number; // operations started so far
+  status: 'active' | 'completed' | 'terminated';
+  terminationReason?: string;
+  sla: ServiceContractSla;
 }
 
 export interface GameState {
@@ -126,4 +273,6 @@ export interface GameState {
   currentPage: GamePage;
   company: Company | null;
   sidebarCollapsed: boolean;
+  /** Lower-case email of the signed-in user (null when signed out) */
+  currentUser?: string | null;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * assetValuation.test.ts
+ *
+ * Runner-agnostic checks for depreciation per vehicle class and the company balance sheet.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/assetValuation.test.ts
+ */
+
+import assert from 'assert';
+import { assetValuation, migratePurchaseDates, DEPRECIATION_YEAR_DAYS, TRUCK_CLASSES } from '../assetValuation';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runAssetValuationTests
+ * @description Run asset valuation assertions and log a summary.
+ */
+export function runAssetValuationTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const bought = new Date(now).toISOString();
+  const big = { id: 'truck-1', truckCategory: 'Big', purchasePrice: 100000, purchasedAt: bought, mileage: 0, condition: 100 };
+  const small = { ...big, id: 'truck-2', truckCategory: 'Small' };
+  const reefer = { id: 'trailer-1', trailerClass: 'Reefer Trailer', purchasePrice: 50000, purchasedAt: bought };
+  const flatbed = { ...reefer, id: 'trailer-2', trailerClass: 'Flatbed Trailer' };
+  const aYearLater = addSimDays(now, DEPRECIATION_YEAR_DAYS);
+
+  // Classes depreciate at their own rate on the simulated calendar
+  assert.strictEqual(assetValuation.bookValue(big, 'truck', now).bookValue, 100000);
+  assert.strictEqual(assetValuation.bookValue(big, 'truck', aYearLater).bookValue, 85000);
+  assert.strictEqual(assetValuation.bookValue(small, 'truck', aYearLater).bookValue, 80000);
+  assert.strictEqual(assetValuation.truckClass({ tonnage: 10 }), 'medium');
+  assert.strictEqual(assetValuation.bookValue(reefer, 'trailer', aYearLater).bookValue, 43000);
+  assert.strictEqual(assetValuation.bookValue(flatbed, 'trailer', aYearLater).bookValue, 46000);
+
+  // Mileage driven and poor condition lower the book value, never below the residual share
+  const driven = { ...big, mileage: 100000, condition: 50 };
+  assert.strictEqual(assetValuation.bookValue(driven, 'truck', now).bookValue, Math.round(100000 * 0.96 * 0.85));
+  const old = assetValuation.bookValue(big, 'truck', addSimDays(now, 50 * DEPRECIATION_YEAR_DAYS));
+  assert.strictEqual(old.bookValue, 100000 * TRUCK_CLASSES.big.residualShare);
+  assert.strictEqual(old.accumulated, 85000);
+
+  // Vehicles stored without a purchase date depreciate from the company founding date
+  const starter = { founded: bought, trucks: [{ ...big, purchasedAt: undefined }], trailers: [reefer] };
+  const migrated = migratePurchaseDates(starter, aYearLater);
+  assert.strictEqual(migrated.trucks[0].purchasedAt, bought);
+  assert.strictEqual(migrated.trailers, starter.trailers);
+  assert.strictEqual(assetValuation.bookValue(migrated.trucks[0], 'truck', aYearLater).bookValue, 85000);
+  assert.strictEqual(migratePurchaseDates(migrated, aYearLater), migrated);
+
+  // Balance sheet: leased vehicles are liabilities, not assets
+  const lease = { status: 'active', termMonths: 12, billedMonths: 2, monthlyRate: 800, arrears: 800 };
+  const company = {
+    capital: 20000,
+    trucks: [big, { id: 'truck-3', lease }],
+    trailers: [reefer],
+    incomingDeliveries: [{ id: 'incoming-1', price: 30000 }],
+    loans: [{ id: 'loan-1', outstanding: 40000 }]
+  };
+  const sheet = assetValuation.balanceSheet(company, aYearLater);
+  assert.strictEqual(sheet.assets.length, 2);
+  assert.deepStrictEqual([sheet.cash, sheet.fleetValue, sheet.inTransit], [20000, 128000, 30000]);
+  assert.deepStrictEqual([sheet.leaseLiabilities, sheet.loanLiabilities], [8800, 40000]);
+  assert.strictEqual(sheet.equity, 178000 - 48800);
+
+  // eslint-disable-next-line no-console
+  console.log('assetValuation tests passed', { equity: sheet.equity });
+}
+
+if (require.main === module) {
+  runAssetValuationTests();
+}
@@ -0,0 +1,69 @@
+/**
+ * assignmentValidator.test.ts
+ *
+ * Runner-agnostic checks for job assignment validation.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/assignmentValidator.test.ts
+ */
+
+import assert from 'assert';
+import { validateAssignment, resolveCargoTypeId, resolveTrailerTypeId } from '../assignmentValidator';
+
+/**
+ * runAssignmentTests
+ * @description Run assignment validation assertions and log a summary.
+ */
+export function runAssignmentTests() {
+  assert.strictEqual(resolveCargoTypeId('Dry Goods'), 'dry-goods');
+  assert.strictEqual(resolveTrailerTypeId({ trailerClass: 'Curtainside Trailer' }), 'curtainside-trailer');
+
+  const company: any = {
+    trucks: [
+      { id: 'big-c', truckCategory: 'Big', gcw: 'C' },
+      { id: 'big-a', truckCategory: 'Big', gcw: 'A' },
+      { id: 'small', truckCategory: 'Small', specifications: { capacity: '2 t', cargoTypes: ['Dry Goods'] } }
+    ],
+    trailers: [
+      { id: 'curtain', trailerClass: 'Curtainside Trailer', tonnage: 24 },
+      { id: 'tanker', trailerClass: 'Industrial Tanker', tonnage: 30 }
+    ],
+    staff: [
+      { id: 'd-1', name: 'Ana', role: 'driver', skills: [] },
+      { id: 'd-2', name: 'Ben', role: 'driver', skills: ['ADR Certified', 'Tanker Transport'] }
+    ],
+    activeJobs: [{ id: 'busy', title: 'Busy job', status: 'in-transit', assignedTruck: 'big-c', assignedTrailer: '', assignedDriver: 'd-2' }]
+  };
+  const dryGoods = { cargoType: 'Dry Goods', weight: 20 };
+
+  const free = { ...company, activeJobs: [] };
+  const ok = validateAssignment(free, dryGoods, { assignedTruck: 'big-c', assignedTrailer: 'curtain', assignedDriver: 'd-1' });
+  assert.ok(ok.valid, `valid assignment expected, got ${JSON.stringify(ok.issues)}`);
+
+  const rules = (v: any) => v.issues.map((i: any) => i.rule);
+
+  const wrongTrailer = validateAssignment(free, dryGoods, { assignedTruck: 'big-c', assignedTrailer: 'tanker', assignedDriver: 'd-1' });
+  assert.ok(rules(wrongTrailer).includes('cargo'), 'tanker does not fit dry goods');
+
+  const gcw = validateAssignment(free, dryGoods, { assignedTruck: 'big-a', assignedTrailer: 'curtain', assignedDriver: 'd-1' });
+  assert.ok(rules(gcw).includes('gcw'), 'GCW A cannot pull a 24t trailer');
+
+  const hazardous = validateAssignment(free, { cargoType: 'Liquid - Industrial / Chemical', weight: 20 }, { assignedTruck: 'big-c', assignedTrailer: 'tanker', assignedDriver: 'd-1' });
+  assert.ok(rules(hazardous).includes('license'), 'tanker cargo needs a tanker endorsement');
+
+  const rigid = validateAssignment(free, dryGoods, { assignedTruck: 'small', assignedDriver: 'd-1' });
+  assert.ok(rules(rigid).includes('capacity'), '20t does not fit a 2t rigid truck');
+
+  const booked = validateAssignment(company, dryGoods, { assignedTruck: 'big-c', assignedTrailer: 'curtain', assignedDriver: 'd-2' });
+  assert.strictEqual(rules(booked).filter((r: string) => r === 'double-booking').length, 2, 'truck and driver double-booked');
+
+  const empty = validateAssignment(free, dryGoods, {});
+  assert.deepStrictEqual(rules(empty), ['truck', 'driver'], 'each missing assignment reported');
+
+  // eslint-disable-next-line no-console
+  console.log('assignmentValidator tests passed', { booked: booked.issues.length });
+}
+
+if (require.main === module) {
+  runAssignmentTests();
+}
@@ -0,0 +1,79 @@
+/**
+ * backhaulPlanner.test.ts
+ *
+ * Runner-agnostic checks for return-load ranking and itineraries home.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/backhaulPlanner.test.ts
+ */
+
+import assert from 'assert';
+import { backhaulPlanner, MAX_DEADHEAD_KM, MAX_ITINERARY_LEGS } from '../backhaulPlanner';
+
+/**
+ * runBackhaulPlannerTests
+ * @description Run backhaul planner assertions and log a summary.
+ */
+export function runBackhaulPlannerTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const company: any = {
+    id: 'company-1',
+    hub: { name: 'Berlin', country: 'Germany' },
+    trucks: [{ id: 'truck-1', truckCategory: 'Big', gcw: 'C', location: 'Munich' }],
+    trailers: [{ id: 'trailer-1', trailerClass: 'Box Trailer', tonnage: 24, assignedTruck: 'truck-1' }],
+    staff: [{ id: 'd-1', name: 'Ana', role: 'driver', skills: [], hos: { dailyHours: 5, weeklyHours: 20, continuousHours: 0, lastDrivingEnd: now } }],
+    activeJobs: [{ id: 'done', status: 'completed', assignedTruck: 'truck-1', assignedTrailer: 'trailer-1', assignedDriver: 'd-1' }]
+  };
+  const offer = (id: string, origin: string, destination: string, value: number, extra: any = {}) => ({
+    id, title: `${origin} to ${destination}`, origin, destination, value, cargoType: 'Dry Goods', weight: 20, remainingWeight: 20, deadline: '72h', postedAt: now, ...extra
+  });
+  const offers = [
+    offer('local', 'Munich', 'Nuremberg', 1800),
+    offer('empty-run', 'Salzburg', 'Nuremberg', 1800),
+    offer('home', 'Nuremberg', 'Berlin', 3000),
+    offer('too-far', 'Hamburg', 'Berlin', 9000),
+    offer('reefer', 'Munich', 'Leipzig', 9000, { cargoType: 'Frozen / Refrigerated' }),
+    offer('late', 'Munich', 'Hamburg', 9000, { deadline: '2h' })
+  ];
+
+  // The truck works with its coupled trailer and its last crew, from where it stands
+  const assignment = backhaulPlanner.currentAssignment(company, 'truck-1');
+  assert.deepStrictEqual(assignment, { assignedTruck: 'truck-1', assignedTrailer: 'trailer-1', assignedDriver: 'd-1', assignedCoDriver: null });
+  assert.strictEqual(backhaulPlanner.location(company, 'truck-1'), 'Munich');
+  assert.strictEqual(backhaulPlanner.remainingHours(company, assignment, now), 4, '9 h daily limit less 5 h driven');
+
+  // Ranking: empty kilometres cost money and time; far, incompatible and late offers are skipped
+  const ranked = backhaulPlanner.rank(company, offers, assignment, [], now);
+  const ids = ranked.map((o) => o.offer.id);
+  assert.ok(!ids.includes('too-far') && !ids.includes('reefer') && !ids.includes('late'));
+  const local = ranked.find((o) => o.offer.id === 'local')!;
+  const emptyRun = ranked.find((o) => o.offer.id === 'empty-run')!;
+  assert.strictEqual(local.deadheadKm, 0);
+  assert.ok(emptyRun.deadheadKm > 0 && emptyRun.deadheadKm <= MAX_DEADHEAD_KM && emptyRun.emptyCost > 0);
+  assert.ok(local.profitPerHour > emptyRun.profitPerHour, 'same pay without the empty run');
+  ranked.forEach((o, i) => i > 0 && assert.ok(o.profitPerHour <= ranked[i - 1].profitPerHour));
+
+  // Itineraries chain legs from the last destination and pay the empty run home
+  const partway = backhaulPlanner.itinerary(company, [offers[0]], assignment, now);
+  assert.strictEqual(partway.end, 'Nuremberg');
+  assert.ok(!partway.endsNearHub && partway.returnKm > 0 && partway.returnCost > 0);
+  const home = backhaulPlanner.itinerary(company, [offers[0], offers[2]], assignment, now);
+  assert.strictEqual(home.legs[1].deadheadKm, 0);
+  assert.ok(home.endsNearHub && home.returnCost === 0);
+  assert.ok(home.profitPerHour > partway.profitPerHour);
+  assert.ok(home.legs[1].restHours > 0, 'the crew rests once its 4 h are used');
+  assert.deepStrictEqual(backhaulPlanner.itinerary(company, [offers[3]], assignment, now).invalid, ['too-far']);
+
+  // Suggestions chain legs while the trip gets better and end at the hub here
+  const suggested = backhaulPlanner.suggest(company, offers, assignment, now);
+  assert.ok(suggested.legs.length > 0 && suggested.legs.length <= MAX_ITINERARY_LEGS);
+  assert.ok(suggested.endsNearHub);
+  assert.ok(suggested.profitPerHour >= home.profitPerHour);
+
+  // eslint-disable-next-line no-console
+  console.log('backhaulPlanner tests passed', { ranked: ids, suggested: suggested.legs.map((l) => l.offer.id), perHour: suggested.profitPerHour });
+}
+
+if (require.main === module) {
+  runBackhaulPlannerTests();
+}
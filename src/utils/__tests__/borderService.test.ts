@@ -0,0 +1,89 @@
+/**
+ * borderService.test.ts
+ *
+ * Runner-agnostic checks for border crossings, customs documents and per-country road tolls.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/borderService.test.ts
+ */
+
+import assert from 'assert';
+import { borderService, CUSTOMS_DOCUMENTS, DOCUMENT_FEE_PER_JOB, DOCUMENT_FEE_PER_BORDER, SKILLED_CUSTOMS_FACTOR } from '../borderService';
+import { roadRouter } from '../roadRouting';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+import { computeSettlement } from '../jobSettlement';
+import { LEDGER_CATEGORIES } from '../companyLedger';
+import { SIM_DAY_MS, SIM_HOUR_MS } from '../simulationClock';
+
+/**
+ * runBorderServiceTests
+ * @description Run border service assertions and log a summary.
+ */
+export function runBorderServiceTests() {
+  // Customs waits: none inside the EU, listed border pairs, defaults elsewhere
+  assert.strictEqual(borderService.customsHours('de', 'at'), 0);
+  assert.strictEqual(borderService.customsHours('pl', 'by'), borderService.customsHours('by', 'pl'));
+  assert.strictEqual(borderService.customsHours('by', 'pl'), 10);
+  assert.strictEqual(borderService.customsHours('de', 'rs'), 2);
+  assert.strictEqual(borderService.customsHours('uz', 'af'), 3);
+  assert.deepStrictEqual(borderService.documentsFor('fr', 'es'), []);
+  assert.deepStrictEqual(borderService.documentsFor('ch', 'it'), CUSTOMS_DOCUMENTS);
+
+  // Crossings of a route: country changes along the legs, in order
+  const route = roadRouter.route('Warsaw', 'Minsk')!;
+  const crossings = borderService.crossingsOn(route);
+  assert.strictEqual(crossings.length, 1);
+  assert.deepStrictEqual([crossings[0].fromCountry, crossings[0].toCountry], ['pl', 'by']);
+  assert.strictEqual(crossings[0].customsHours, 10);
+  assert.strictEqual(borderService.documentFee(crossings), DOCUMENT_FEE_PER_JOB + DOCUMENT_FEE_PER_BORDER);
+  assert.strictEqual(borderService.crossingsOn(roadRouter.route('Berlin', 'Hamburg')).length, 0);
+
+  // Road kilometres per country add up to the road distance; tolls follow the weight class
+  const alpine = roadRouter.route('Basel', 'Milan')!;
+  const km = borderService.roadKmByCountry(alpine);
+  const roadKm = Object.values(km).reduce((sum, value) => sum + value, 0);
+  assert.ok(Math.abs(roadKm - alpine.distanceKm) < 0.1);
+  assert.ok(km.ch > 0, 'the route crosses Switzerland');
+  const heavy = borderService.tolls(alpine, 'heavy');
+  const light = borderService.tolls(alpine, 'light');
+  assert.ok(heavy.ch > heavy.it, 'Swiss tolls are the highest');
+  assert.ok(light.ch < heavy.ch);
+  assert.strictEqual(borderService.weightClass({ tonnage: 6 }), 'light');
+  assert.strictEqual(borderService.weightClass({ tonnage: 12 }), 'medium');
+  assert.strictEqual(borderService.weightClass({ tonnage: 6 }, { assignedTrailer: 'tr-1' }), 'heavy');
+
+  // Job plans stop at customs and fix the tolls and customs fees
+  const start = 20000 * SIM_DAY_MS;
+  const job = { id: 'job-1', origin: 'Warsaw', destination: 'Minsk', status: 'picking-up', cargoType: 'Dry Goods', weight: 10, assignedTruck: 't-1', assignedDriver: 'd-1' };
+  const company: any = {
+    trucks: [{ id: 't-1', tonnage: 24, specifications: { speedKmH: 80 } }],
+    staff: [{ id: 'd-1', name: 'Driver', role: 'driver', skills: [] }],
+    activeJobs: [job]
+  };
+  const plan = jobLifecycleEngine.planJob(job, company, start);
+  const [border] = plan.borders!;
+  assert.strictEqual(border.waitHours, 10);
+  assert.strictEqual(plan.customsFee, DOCUMENT_FEE_PER_JOB + DOCUMENT_FEE_PER_BORDER);
+  assert.strictEqual(plan.tollCost, borderService.estimateTrip(company, job).tollCost);
+  assert.strictEqual(plan.transitHours, Number((plan.drivingHours! + plan.hos!.restHours + 10).toFixed(2)));
+  const atCustoms = plan.loadedAt + (border.atDrivingHours + 1) * SIM_HOUR_MS;
+  const state = jobLifecycleEngine.stateAt({ ...job, lifecycle: plan }, plan, atCustoms);
+  assert.ok(state.currentLocation.startsWith('Stopped (Customs PL–BY)'), state.currentLocation);
+
+  // Crews with the International Routes skill clear customs faster
+  const skilled = { ...company, staff: [{ id: 'd-1', name: 'Driver', role: 'driver', skills: ['International Routes'] }] };
+  assert.strictEqual(jobLifecycleEngine.planJob(job, skilled, start).borders![0].waitHours, Number((10 * SKILLED_CUSTOMS_FACTOR).toFixed(2)));
+
+  // Tolls and customs fees are settled with the job
+  const settlement = computeSettlement({ ...job, value: 4000, distance: plan.distanceKm }, { fuelCost: 0, tollCost: plan.tollCost, customsCost: plan.customsFee });
+  assert.strictEqual(settlement.customsCost, plan.customsFee);
+  assert.strictEqual(settlement.net, 4000 - plan.tollCost! - plan.customsFee!);
+  assert.ok(settlement.lines.some((l) => l.category === LEDGER_CATEGORIES.CUSTOMS && l.amount === plan.customsFee));
+
+  // eslint-disable-next-line no-console
+  console.log('borderService tests passed', { tolls: heavy, transitHours: plan.transitHours });
+}
+
+if (require.main === module) {
+  runBorderServiceTests();
+}
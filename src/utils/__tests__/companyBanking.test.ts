@@ -0,0 +1,99 @@
+/**
+ * companyBanking.test.ts
+ *
+ * Runner-agnostic checks for bank offers, term loans, the credit line and late-payment penalties.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/companyBanking.test.ts
+ */
+
+import assert from 'assert';
+import { companyBanking, BANK_MONTH_DAYS, LATE_FEE_SHARE, FREEZE_AFTER } from '../companyBanking';
+import { assetValuation } from '../assetValuation';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runCompanyBankingTests
+ * @description Run company banking assertions and log a summary.
+ */
+export function runCompanyBankingTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const month = (n: number) => addSimDays(now, n * BANK_MONTH_DAYS);
+  const company: any = { id: 'company-1', level: 'small', capital: 0, trucks: [], trailers: [], ledger: [] };
+
+  // Limits follow the level, the fleet collateral and the payment history
+  const offer = companyBanking.offer(company, now);
+  assert.deepStrictEqual([offer.loanLimit, offer.creditLineLimit], [150000, 37500]);
+  const truck = { id: 'truck-1', truckCategory: 'Big', purchasePrice: 100000, purchasedAt: new Date(now).toISOString() };
+  assert.strictEqual(companyBanking.offer({ ...company, trucks: [truck] }, now).loanLimit, 200000);
+  assert.strictEqual(companyBanking.offer({ ...company, level: 'enterprise' }, now).loanLimit, 2500000);
+  assert.strictEqual(companyBanking.offer({ ...company, creditRecord: { onTimePayments: 0, missedPayments: 2 } }, now).loanLimit, 90000);
+  assert.ok(companyBanking.rate(company, 60) > companyBanking.rate(company, 12), 'longer terms cost more');
+
+  // Invalid loans are refused
+  assert.ok(companyBanking.takeLoan(company, 200000, 12, now).error, 'above the limit');
+  assert.ok(companyBanking.takeLoan(company, 1000, 12, now).error, 'below the minimum');
+  assert.ok(companyBanking.takeLoan(company, 12000, 18, now).error, 'term not offered');
+
+  // A loan credits capital and is repaid in monthly instalments
+  const quote = companyBanking.quote(company, 12000, 12)!;
+  const taken = companyBanking.takeLoan(company, 12000, 12, now);
+  assert.strictEqual(taken.company.capital, 12000);
+  assert.strictEqual(companyBanking.debt(taken.company).loans, 12000);
+  assert.strictEqual(assetValuation.balanceSheet(taken.company, now).loanLiabilities, 12000);
+  assert.strictEqual(companyBanking.processDue(taken.company, now).changed, false, 'nothing due yet');
+  const paid = companyBanking.processDue(taken.company, month(1));
+  assert.strictEqual(paid.company.capital, 12000 - quote.instalment);
+  assert.strictEqual(paid.company.loans[0].billedInstalments, 1);
+  assert.strictEqual(paid.company.creditRecord.onTimePayments, 1);
+
+  // A missed instalment becomes arrears with a late fee and counts against the history
+  const missed = companyBanking.processDue({ ...paid.company, capital: 0 }, month(2));
+  const loan = missed.company.loans[0];
+  assert.strictEqual(missed.company.capital, 0);
+  assert.strictEqual(loan.arrears, quote.instalment + Math.round(quote.instalment * LATE_FEE_SHARE));
+  assert.strictEqual(loan.missedPayments, 1);
+  assert.strictEqual(missed.company.creditRecord.missedPayments, 1);
+  assert.ok(companyBanking.historyFactor(missed.company) < 1);
+
+  // Arrears are collected with the next instalment; the loan is repaid at the end of the term
+  const settled = companyBanking.processDue({ ...missed.company, capital: 50000 }, month(12));
+  assert.strictEqual(settled.company.loans[0].status, 'repaid');
+  assert.deepStrictEqual([settled.company.loans[0].outstanding, settled.company.loans[0].arrears], [0, 0]);
+  assert.ok(settled.company.capital < 50000 - loan.arrears - 9 * quote.instalment, 'late fee and penalty interest paid');
+
+  // Early repayment clears the loan without a fee
+  const early = companyBanking.repayLoan({ ...taken.company, capital: 20000 }, taken.loan!.id, now);
+  assert.strictEqual(early.company.capital, 8000);
+  assert.strictEqual(early.loan?.status, 'repaid');
+
+  // Credit line: draw within the limit, monthly interest, freeze after repeated misses
+  const opened = companyBanking.openCreditLine(company, now);
+  assert.ok(companyBanking.openCreditLine(opened.company, now).error, 'opened once');
+  assert.ok(companyBanking.drawCredit(opened.company, 40000, now).error, 'above the limit');
+  const drawn = companyBanking.drawCredit(opened.company, 10000, now);
+  assert.strictEqual(drawn.company.capital, 10000);
+  const interest = Math.round((10000 * drawn.company.creditLine.annualRate) / 12);
+  assert.strictEqual(companyBanking.processDue(drawn.company, month(1)).company.capital, 10000 - interest);
+  const unpaid = companyBanking.processDue({ ...drawn.company, capital: 0 }, month(FREEZE_AFTER));
+  assert.strictEqual(unpaid.company.creditLine.frozen, true);
+  assert.ok(companyBanking.drawCredit(unpaid.company, 5000, now).error, 'frozen');
+  const arrears = unpaid.company.creditLine.arrears;
+  const unfrozen = companyBanking.repayCredit({ ...unpaid.company, capital: arrears }, arrears, now);
+  assert.deepStrictEqual([unfrozen.company.creditLine.frozen, unfrozen.company.creditLine.drawn], [false, 10000]);
+  assert.strictEqual(assetValuation.balanceSheet(unpaid.company, now).loanLiabilities, 10000 + arrears);
+
+  // Loans taken first leave no room for a credit line beyond the capacity
+  const startup: any = { ...company, level: 'startup' };
+  const borrowed = companyBanking.takeLoan(startup, 50000, 12, now);
+  assert.strictEqual(borrowed.error, undefined);
+  assert.strictEqual(companyBanking.offer(borrowed.company, now).creditLineLimit, 0);
+  assert.ok(companyBanking.openCreditLine(borrowed.company, now).error, 'capacity used by the loan');
+
+  // eslint-disable-next-line no-console
+  console.log('companyBanking tests passed', { instalment: quote.instalment });
+}
+
+if (require.main === module) {
+  runCompanyBankingTests();
+}
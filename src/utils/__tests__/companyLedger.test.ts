@@ -0,0 +1,57 @@
+/**
+ * companyLedger.test.ts
+ *
+ * Runner-agnostic checks for the company ledger helpers (postTransaction, summarizeLedger, comparePeriods).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/companyLedger.test.ts
+ */
+
+import assert from 'assert';
+import { postTransaction, summarizeLedger, comparePeriods, getLedger, LEDGER_CATEGORIES } from '../companyLedger';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runLedgerTests
+ * @description Run ledger assertions and log a summary.
+ */
+export function runLedgerTests() {
+  const now = Date.now();
+
+  let company: any = { id: 'c-1', capital: 10000 };
+  company = postTransaction(company, { type: 'expense', category: LEDGER_CATEGORIES.HIRING, amount: 2500, description: 'Hire' });
+  company = postTransaction(company, { type: 'income', category: LEDGER_CATEGORIES.JOB_PAYMENT, amount: 4000, description: 'Job' });
+  company = postTransaction(company, {
+    type: 'expense',
+    category: LEDGER_CATEGORIES.TRAINING,
+    amount: 1000,
+    description: 'Old training',
+    date: new Date(addSimDays(now, -40)).toISOString()
+  });
+
+  assert.strictEqual(company.capital, 10000 - 2500 + 4000 - 1000, 'capital should reflect all transactions');
+  assert.strictEqual(company.ledger.length, 3, 'three records expected');
+  assert.strictEqual(company.ledger[1].balanceAfter, 11500, 'balanceAfter should track running capital');
+
+  const unchanged = postTransaction(company, { type: 'expense', category: LEDGER_CATEGORIES.OTHER, amount: 0, description: 'noop' });
+  assert.strictEqual(unchanged, company, 'zero-amount transactions should not change the company');
+
+  const all = summarizeLedger(getLedger(company));
+  assert.strictEqual(all.income, 4000);
+  assert.strictEqual(all.expenses, 3500);
+  assert.strictEqual(all.net, 500);
+
+  const monthly = comparePeriods(getLedger(company), 30, now);
+  assert.strictEqual(monthly.current.expenses, 2500, 'old training falls outside the current month');
+  assert.strictEqual(monthly.previous.expenses, 1000, 'old training falls into the previous month');
+  assert.strictEqual(monthly.current.income, 4000, 'job payment falls into the current month');
+  assert.strictEqual(monthly.incomeChangePct, null, 'no previous income -> no comparison');
+  assert.strictEqual(comparePeriods(getLedger(company), 90, now).current.expenses, 3500, 'periods are simulated days');
+
+  // eslint-disable-next-line no-console
+  console.log('companyLedger tests passed', { capital: company.capital, monthly: monthly.current });
+}
+
+if (require.main === module) {
+  runLedgerTests();
+}
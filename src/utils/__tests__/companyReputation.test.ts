@@ -0,0 +1,94 @@
+/**
+ * companyReputation.test.ts
+ *
+ * Runner-agnostic checks for the reputation model (events, clamping, history, tiers).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/companyReputation.test.ts
+ */
+
+import assert from 'assert';
+import {
+  applyReputationChange,
+  applyReputationChanges,
+  deliveryReputationChanges,
+  cancellationReputationChange,
+  incidentReputationChange,
+  getReputation,
+  getReputationHistory,
+  getReputationTier,
+  migrateReputation,
+  requiredReputationForOffer,
+  getContractTier,
+  requiredReputationForContractTier,
+  INITIAL_REPUTATION,
+  REPUTATION_EVENTS
+} from '../companyReputation';
+
+/**
+ * runCompanyReputationTests
+ * @description Run reputation assertions and log a summary.
+ */
+export function runCompanyReputationTests() {
+  const job = { id: 'j-1', title: 'Berlin → Paris', progress: 50 };
+  let company: any = { id: 'c-1' };
+  assert.strictEqual(getReputation(company), INITIAL_REPUTATION, 'missing score uses the initial reputation');
+
+  // Saves from before the reputation model stored a forced 0 without history
+  const legacy = { id: 'c-0', reputation: 0 };
+  assert.strictEqual(getReputation(legacy), INITIAL_REPUTATION, 'legacy score reads as the initial reputation');
+  assert.strictEqual(migrateReputation(legacy).reputation, INITIAL_REPUTATION);
+  const earned = { id: 'c-0', reputation: 0, reputationHistory: [{ id: 'r-1', delta: -20 }] };
+  assert.strictEqual(getReputation(earned), 0, 'a score lowered by recorded changes is kept');
+  assert.strictEqual(migrateReputation(earned), earned);
+
+  // On-time delivery raises, late delivery and damage lower
+  const onTime = deliveryReputationChanges(job, 0);
+  assert.strictEqual(onTime.length, 1);
+  assert.strictEqual(onTime[0].type, REPUTATION_EVENTS.ON_TIME_DELIVERY);
+  assert.ok(onTime[0].delta > 0);
+
+  const lateDamaged = deliveryReputationChanges(job, 4, 30);
+  assert.deepStrictEqual(lateDamaged.map((c) => c.type), [REPUTATION_EVENTS.LATE_DELIVERY, REPUTATION_EVENTS.CARGO_DAMAGE]);
+  assert.strictEqual(lateDamaged[0].delta, -1.5, 'late loss grows with hours late');
+  assert.strictEqual(lateDamaged[1].delta, -3, 'damage loss scales with damaged share');
+
+  company = applyReputationChanges(company, onTime);
+  assert.strictEqual(company.reputation, INITIAL_REPUTATION + 1);
+  company = applyReputationChanges(company, lateDamaged);
+  assert.strictEqual(company.reputation, INITIAL_REPUTATION + 1 - 4.5);
+
+  // Cancellation and incidents
+  const cancel = cancellationReputationChange(job);
+  assert.strictEqual(cancel.delta, -3.5, 'cancellation loss grows with progress');
+  assert.ok(incidentReputationChange('critical', 'Crash').delta < incidentReputationChange('minor', 'Flat tyre').delta);
+
+  // History records every change with the resulting score
+  const history = getReputationHistory(company);
+  assert.strictEqual(history.length, 3);
+  assert.strictEqual(history[history.length - 1].scoreAfter, company.reputation);
+  assert.strictEqual(history[0].reference, 'j-1');
+
+  // Clamped to 0..100; zero deltas are ignored
+  assert.strictEqual(applyReputationChange({ reputation: 1 }, cancel).reputation, 0);
+  assert.strictEqual(applyReputationChange({ reputation: 99.5 }, onTime[0]).reputation, 100);
+  const unchanged = { reputation: 40 };
+  assert.strictEqual(applyReputationChange(unchanged, { ...cancel, delta: 0 }), unchanged);
+
+  // Tiers gate offers and contracts
+  assert.strictEqual(getReputationTier(0).id, 'newcomer');
+  assert.strictEqual(getReputationTier(60).id, 'trusted');
+  assert.strictEqual(requiredReputationForOffer(5000), 0);
+  assert.strictEqual(requiredReputationForOffer(20000), getReputationTier(55).minReputation);
+  assert.strictEqual(getContractTier(50000), 1);
+  assert.strictEqual(getContractTier(600000), 4);
+  assert.strictEqual(requiredReputationForContractTier(1), 0);
+  assert.strictEqual(requiredReputationForContractTier(4), 80);
+
+  // eslint-disable-next-line no-console
+  console.log('companyReputation tests passed', { reputation: company.reputation, history: history.length });
+}
+
+if (require.main === module) {
+  runCompanyReputationTests();
+}
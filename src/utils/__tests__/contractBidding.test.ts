@@ -0,0 +1,90 @@
+/**
+ * contractBidding.test.ts
+ *
+ * Runner-agnostic checks for rival bidding on contract jobs and contract awards.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/contractBidding.test.ts
+ */
+
+import assert from 'assert';
+import { contractBiddingEngine, STRATEGY_PROFILES, BiddableContract } from '../contractBidding';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * runContractBiddingTests
+ * @description Run contract bidding assertions and log a summary.
+ */
+export function runContractBiddingTests() {
+  const createdAt = Date.UTC(2026, 0, 5);
+  const endTime = createdAt + 72 * HOUR_MS;
+  const contract: BiddableContract = {
+    id: 'contract-de-1',
+    value: 100000,
+    budget: 110000,
+    createdAt: new Date(createdAt).toISOString(),
+    requirements: { trucks: 2 },
+    competition: { participants: 0, currentBestBid: null, endTime: new Date(endTime).toISOString(), status: 'active' }
+  };
+
+  // Rivals are picked by the contract id among those with a large enough fleet
+  const rivals = contractBiddingEngine.pickRivals(contract);
+  assert.ok(rivals.length >= 1);
+  assert.deepStrictEqual(contractBiddingEngine.pickRivals(contract), rivals, 'the same rivals every time');
+  assert.ok(contractBiddingEngine.pickRivals({ ...contract, requirements: { trucks: 30 } }).length === 0);
+
+  // Nothing is bid at creation; rivals open and undercut over time but never below their floor
+  const opened = contractBiddingEngine.advance(contract, createdAt);
+  assert.strictEqual(opened.competition.currentBestBid, null);
+  assert.strictEqual(opened.competition.participants, rivals.length);
+  const midway = contractBiddingEngine.advance(opened, createdAt + 48 * HOUR_MS);
+  assert.ok((midway.bidHistory || []).length > 0, 'rivals have bid');
+  midway.bidHistory!.forEach((bid) => {
+    const rival = contractBiddingEngine.rival(bid.companyId)!;
+    assert.ok(bid.bidAmount >= contractBiddingEngine.floorPrice(rival, contract));
+    assert.ok(bid.bidAmount <= contract.budget);
+  });
+  assert.strictEqual(midway.competition.currentBestBid, Math.min(...midway.bidHistory!.map((b) => b.bidAmount)));
+
+  // Replaying in steps gives the same result as a single replay
+  let stepped = opened;
+  for (let at = createdAt; at <= createdAt + 48 * HOUR_MS; at += HOUR_MS) stepped = contractBiddingEngine.advance(stepped, at);
+  assert.deepStrictEqual(stepped.bidHistory, midway.bidHistory);
+
+  // Player bids must undercut the best bid and rivals react to them
+  const player = { companyId: 'company-1', companyName: 'Player Haulage' };
+  const bidAt = createdAt + 48 * HOUR_MS;
+  const tooHigh = contractBiddingEngine.placeBid(midway, { ...player, amount: midway.competition.currentBestBid! }, bidAt);
+  assert.ok(tooHigh.error);
+  const low = Math.round(midway.competition.currentBestBid! * 0.99);
+  const placed = contractBiddingEngine.placeBid(midway, { ...player, amount: low }, bidAt);
+  assert.strictEqual(placed.error, undefined);
+  assert.strictEqual(placed.contract.competition.currentBestBid, low);
+  const reacted = contractBiddingEngine.advance(placed.contract, bidAt + STRATEGY_PROFILES.conservative.reactionMs + HOUR_MS);
+  const answers = reacted.bidHistory!.filter((b) => new Date(b.bidTime).getTime() > bidAt);
+  answers.forEach((bid) => assert.ok(bid.bidAmount < low));
+
+  // At the end the lowest bid wins; a very low player bid cannot be beaten
+  const floor = Math.min(...rivals.map((r) => contractBiddingEngine.floorPrice(r, contract)));
+  const winning = contractBiddingEngine.placeBid(reacted, { ...player, amount: floor - 1000 }, bidAt + 2 * HOUR_MS + STRATEGY_PROFILES.conservative.reactionMs);
+  const awarded = contractBiddingEngine.advance(winning.contract, endTime + 1);
+  assert.strictEqual(awarded.competition.status, 'awarded');
+  assert.strictEqual(awarded.awardedTo, player.companyId);
+  assert.strictEqual(contractBiddingEngine.placeBid(awarded, { ...player, amount: 1000 }, endTime + 2).error, 'Bidding on this contract has closed.');
+
+  // Without rival floor room the rivals win; with no bids at all the contract expires
+  const rivalWin = contractBiddingEngine.advance(opened, endTime);
+  assert.strictEqual(rivalWin.competition.status, 'awarded');
+  assert.ok(contractBiddingEngine.isRival(rivalWin.awardedTo!));
+  const empty = contractBiddingEngine.advance({ ...contract, requirements: { trucks: 30 } }, endTime);
+  assert.strictEqual(empty.competition.status, 'expired');
+  assert.strictEqual(empty.awardedTo, undefined);
+
+  // eslint-disable-next-line no-console
+  console.log('contractBidding tests passed', { rivals: rivals.map((r) => r.name), bids: awarded.bidHistory!.length });
+}
+
+if (require.main === module) {
+  runContractBiddingTests();
+}
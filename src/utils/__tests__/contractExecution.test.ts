@@ -0,0 +1,107 @@
+/**
+ * contractExecution.test.ts
+ *
+ * Runner-agnostic checks for recurring contract operations, SLA tracking and terminations.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/contractExecution.test.ts
+ */
+
+import assert from 'assert';
+import { contractExecutionEngine, MAX_CONSECUTIVE_SHORTFALLS, SHORTFALL_PENALTY_PCT } from '../contractExecution';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runContractExecutionTests
+ * @description Run contract execution assertions and log a summary.
+ */
+export function runContractExecutionTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const company: any = {
+    id: 'company-1',
+    capital: 100000,
+    hub: { name: 'Berlin', country: 'Germany' },
+    trucks: [{ id: 'truck-1', truckCategory: 'Big', gcw: 'C' }],
+    trailers: [{ id: 'trailer-1', trailerClass: 'Box Trailer', tonnage: 24 }],
+    staff: [{ id: 'd-1', name: 'Ana', role: 'driver', skills: [] }],
+    activeJobs: []
+  };
+  const awarded = {
+    id: 'contract-de-1',
+    title: 'Supermarket Chain Supply',
+    provider: 'Food Logistics International',
+    value: 120000,
+    requirements: {
+      duration: 3,
+      frequency: 'weekly',
+      trailerType: 'box-trailer',
+      cargoDescription: 'Dry Goods',
+      equipmentRequired: { trucks: 1, trailers: 1, drivers: 1 }
+    },
+    competition: { participants: 3, currentBestBid: 90000, endTime: new Date(now).toISOString(), status: 'awarded' },
+    awardedTo: 'company-1'
+  };
+
+  // Signing: awarded price spread over the operations of the duration; signing twice is a no-op
+  const signed = contractExecutionEngine.sign(company, awarded, now);
+  const contract = signed.serviceContracts[0];
+  assert.strictEqual(contract.operations, 12, '3 months of weekly operations');
+  assert.strictEqual(contract.perOperation, 7500);
+  assert.strictEqual(contractExecutionEngine.sign(signed, awarded, now), signed);
+
+  // Only contracts awarded to the company are signed from the contract boards
+  const rivalWon = { ...awarded, id: 'contract-de-2', awardedTo: 'rival-baltic' };
+  assert.deepStrictEqual(contractExecutionEngine.signAwarded(company, [awarded, rivalWon], now).serviceContracts.map((c: any) => c.id), ['contract-de-1']);
+  assert.strictEqual(contractExecutionEngine.signAwarded(signed, [awarded, rivalWon], now), signed);
+
+  // The first operation is created at once and dispatched with the free crew
+  const first = contractExecutionEngine.processDue(signed, now);
+  assert.deepStrictEqual(first.spawned, ['job-contract-de-1-1']);
+  const job = first.company.activeJobs[0];
+  assert.strictEqual(job.status, 'picking-up');
+  assert.strictEqual(job.assignedTruck, 'truck-1');
+  assert.strictEqual(job.assignedTrailer, 'trailer-1');
+  assert.strictEqual(job.origin, 'Berlin');
+  assert.ok(job.destination !== 'Berlin' && job.distance > 0);
+  assert.strictEqual(job.value, 7500);
+  assert.strictEqual(contractExecutionEngine.processDue(first.company, now).changed, false, 'nothing else is due');
+
+  // Delivered operations count for the SLA once: on time or late
+  const delivered = {
+    ...first.company,
+    activeJobs: [{ ...job, status: 'completed', settlement: { hoursLate: 0 } }]
+  };
+  const week2 = contractExecutionEngine.processDue(delivered, addSimDays(now, 7));
+  const sla = week2.company.serviceContracts[0].sla;
+  assert.strictEqual(sla.onTime, 1);
+  assert.strictEqual(sla.due, 2);
+  assert.strictEqual(week2.spawned.length, 1);
+
+  // An operation never started before its deadline is missed
+  const waiting = contractExecutionEngine.processDue({ ...signed, staff: [...signed.staff, { id: 'd-2', role: 'driver' }], activeJobs: [{ id: 'other', status: 'in-transit', assignedTruck: 'truck-1', assignedTrailer: 'trailer-1', assignedDriver: 'd-1' }] }, now);
+  const queued = waiting.company.activeJobs.find((j: any) => j.contractId === 'contract-de-1');
+  assert.strictEqual(queued.status, 'preparing', 'no free truck: the operation waits for the player');
+  const expired = contractExecutionEngine.processDue(waiting.company, addSimDays(now, 3));
+  assert.strictEqual(expired.company.serviceContracts[0].sla.missed, 1);
+  assert.strictEqual(expired.company.activeJobs.find((j: any) => j.id === queued.id).status, 'cancelled');
+
+  // Without the committed equipment operations are fined and the contract ends after repeated shortfalls
+  const noTrailer = { ...signed, trailers: [] };
+  let state = noTrailer;
+  for (let week = 0; week < MAX_CONSECUTIVE_SHORTFALLS; week++) state = contractExecutionEngine.processDue(state, addSimDays(now, week * 7)).company;
+  const terminated = state.serviceContracts[0];
+  assert.strictEqual(terminated.status, 'terminated');
+  assert.strictEqual(terminated.sla.missed, MAX_CONSECUTIVE_SHORTFALLS);
+  const shortfallFines = MAX_CONSECUTIVE_SHORTFALLS * Math.round((7500 * SHORTFALL_PENALTY_PCT) / 100);
+  assert.ok(terminated.sla.penalties > shortfallFines, 'termination penalty on top of the shortfall fines');
+  assert.strictEqual(state.capital, 100000 - terminated.sla.penalties);
+  assert.ok(state.reputationHistory.some((r: any) => r.type === 'Contract terminated'));
+  assert.strictEqual(contractExecutionEngine.processDue(state, addSimDays(now, 30)).changed, false);
+
+  // eslint-disable-next-line no-console
+  console.log('contractExecution tests passed', { operations: contract.operations, destination: job.destination, penalties: terminated.sla.penalties });
+}
+
+if (require.main === module) {
+  runContractExecutionTests();
+}
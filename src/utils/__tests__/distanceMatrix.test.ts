@@ -0,0 +1,60 @@
+/**
+ * distanceMatrix.test.ts
+ *
+ * Runner-agnostic checks for the offline distance matrix (build, lookup, versioning).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/distanceMatrix.test.ts
+ */
+
+import assert from 'assert';
+import { buildDistanceMatrix, createMatrixLookup, isCurrentMatrix, DISTANCE_MATRIX_VERSION } from '../distanceMatrix';
+import { roadRouter, ROAD_GRAPH_VERSION } from '../roadRouting';
+import { getDistance } from '../distanceCalculator';
+import distancesData from '../distances.json';
+
+/**
+ * runDistanceMatrixTests
+ * @description Run distance matrix assertions and log a summary.
+ */
+export function runDistanceMatrixTests() {
+  const cities = ['Berlin', 'Dublin', 'Frankfurt', 'Lisbon', 'Manila', 'Tokyo'];
+  const { file, report } = buildDistanceMatrix(cities, '2025-01-01');
+
+  // Upper triangle only, stamped with the format and road graph versions
+  assert.strictEqual(file.version, DISTANCE_MATRIX_VERSION);
+  assert.strictEqual(file.graphVersion, ROAD_GRAPH_VERSION);
+  assert.deepStrictEqual(file.rows.map((row) => row.length), [5, 4, 3, 2, 1, 0]);
+  assert.strictEqual(report.pairs, 15);
+  assert.strictEqual(report.covered + report.unreachable + report.overMaxKm, report.pairs);
+
+  // Lookups are symmetric and match the road routes
+  const lookup = createMatrixLookup(file)!;
+  const berlinFrankfurt = roadRouter.route('Berlin', 'Frankfurt')!.distanceKm;
+  assert.strictEqual(lookup('Berlin', 'Frankfurt'), berlinFrankfurt);
+  assert.strictEqual(lookup('Frankfurt', 'Berlin'), berlinFrankfurt);
+  assert.strictEqual(lookup('Berlin', 'Berlin'), 0);
+  assert.strictEqual(lookup('Berlin', 'Atlantis'), undefined);
+
+  // No road to the Philippines, Tokyo is too far: stored without a distance, reported as gaps
+  assert.strictEqual(lookup('Berlin', 'Manila'), null);
+  assert.strictEqual(lookup('Lisbon', 'Tokyo'), null);
+  assert.ok(report.isolatedGroups.some((group) => group.includes('Manila')));
+
+  // Outdated matrices are ignored
+  assert.strictEqual(createMatrixLookup({ ...file, graphVersion: ROAD_GRAPH_VERSION - 1 }), null);
+  assert.strictEqual(createMatrixLookup(null), null);
+
+  // The shipped distances.json is current and used by getDistance
+  assert.ok(isCurrentMatrix(distancesData), 'distances.json is built from the current road graph');
+  assert.strictEqual(getDistance('Berlin', 'Frankfurt'), berlinFrankfurt);
+  assert.strictEqual(getDistance('Dublin', 'Lisbon'), lookup('Dublin', 'Lisbon'));
+  assert.strictEqual(getDistance('Berlin', 'Manila'), null);
+
+  // eslint-disable-next-line no-console
+  console.log('distanceMatrix tests passed', { covered: report.covered, unreachable: report.unreachable });
+}
+
+if (require.main === module) {
+  runDistanceMatrixTests();
+}
@@ -0,0 +1,93 @@
+/**
+ * ferryService.test.ts
+ *
+ * Runner-agnostic checks for ferry legs: timetables, tickets and job schedules.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/ferryService.test.ts
+ */
+
+import assert from 'assert';
+import { ferryService } from '../ferryService';
+import { roadRouter } from '../roadRouting';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+import { computeSettlement } from '../jobSettlement';
+import { LEDGER_CATEGORIES } from '../companyLedger';
+import { SIM_DAY_MS, SIM_HOUR_MS } from '../simulationClock';
+
+/**
+ * runFerryServiceTests
+ * @description Run ferry service assertions and log a summary.
+ */
+export function runFerryServiceTests() {
+  const channel = ferryService.crossing('Le Havre', 'Portsmouth')!;
+  assert.ok(channel, 'lines sail both ways');
+  assert.strictEqual(ferryService.crossing('Berlin', 'Paris'), null);
+
+  // Tickets by truck size; a trailer makes the rig heavy
+  assert.strictEqual(ferryService.truckSize({ tonnage: 8 }), 'small');
+  assert.strictEqual(ferryService.truckSize({ specifications: { capacity: 18 } }), 'medium');
+  assert.strictEqual(ferryService.truckSize({ tonnage: 8 }, { assignedTrailer: 'tr-1' }), 'heavy');
+  assert.strictEqual(ferryService.fare(channel, 'small'), channel.fares.small);
+
+  // Timetable: departures at 08:00, 14:00 and 23:00 of every simulated day
+  const day = 20000 * SIM_DAY_MS;
+  assert.strictEqual(ferryService.nextDeparture(channel, day + 9 * SIM_HOUR_MS), day + 14 * SIM_HOUR_MS);
+  assert.strictEqual(ferryService.nextDeparture(channel, day + 23.5 * SIM_HOUR_MS), day + SIM_DAY_MS + 8 * SIM_HOUR_MS);
+  assert.strictEqual(ferryService.maxWaitHours(channel), 9);
+  const weekly = ferryService.crossing('Lisbon', 'Funchal')!;
+  assert.strictEqual((ferryService.nextDeparture(weekly, day + 19 * SIM_HOUR_MS) / SIM_DAY_MS) % 7, 18 / 24);
+
+  // Ferry legs of a route with the road driven before boarding
+  const route = roadRouter.route('London', 'Paris')!;
+  const legs = ferryService.ferriesOn(route);
+  assert.strictEqual(legs.length, 1);
+  assert.strictEqual(legs[0].name, channel.name);
+  const toPort = route.legs.slice(0, route.path.indexOf('Portsmouth')).reduce((sum, leg) => sum + leg.distanceKm, 0);
+  assert.strictEqual(legs[0].roadKmBefore, Number(toPort.toFixed(2)));
+  assert.strictEqual(ferryService.ferriesOn(roadRouter.route('Berlin', 'Munich')).length, 0);
+
+  // Job plans wait for the departure, cross and do not drive the sea kilometres
+  const start = day + 2 * SIM_HOUR_MS;
+  const job = { id: 'job-1', origin: 'London', destination: 'Paris', status: 'picking-up', cargoType: 'Dry Goods', weight: 10, assignedTruck: 't-1', assignedDriver: 'd-1' };
+  const company: any = {
+    trucks: [{ id: 't-1', tonnage: 24, specifications: { speedKmH: 80 } }],
+    staff: [{ id: 'd-1', name: 'Driver', role: 'driver' }],
+    activeJobs: [job]
+  };
+  const plan = jobLifecycleEngine.planJob(job, company, start);
+  const [ferry] = plan.ferries!;
+  assert.strictEqual(plan.seaKm, 190);
+  assert.strictEqual(ferry.fare, channel.fares.heavy);
+  const atPort = plan.loadedAt + ferry.atDrivingHours * SIM_HOUR_MS;
+  assert.strictEqual(ferry.departsAt, ferryService.nextDeparture(channel, atPort));
+  assert.strictEqual(ferry.waitHours, Number(((ferry.departsAt - atPort) / SIM_HOUR_MS).toFixed(2)));
+  const customsHours = (plan.borders || []).reduce((sum, b) => sum + b.waitHours, 0);
+  assert.strictEqual(plan.transitHours, Number((plan.drivingHours! + plan.hos!.restHours + ferry.waitHours + ferry.crossingHours + customsHours).toFixed(2)));
+
+  // At sea the truck does not move; the whole road is driven on arrival
+  const onBoard = ferry.departsAt + SIM_HOUR_MS;
+  const planned = { ...job, lifecycle: plan };
+  const state = jobLifecycleEngine.stateAt(planned, plan, onBoard);
+  assert.ok(state.currentLocation.startsWith(`Stopped (Ferry ${channel.name})`), state.currentLocation);
+  assert.ok(Math.abs(jobLifecycleEngine.distanceDrivenAt(planned, onBoard) - ferry.roadKmBefore) < 1, 'stopped at the port');
+  assert.strictEqual(jobLifecycleEngine.distanceDrivenAt(planned, plan.arrivedAt), plan.distanceKm - 190);
+
+  // Tickets are part of the job costs
+  const settlement = computeSettlement({ ...job, value: 5000, distance: plan.distanceKm }, { ferryCost: ferry.fare, fuelCost: 0, tollCost: 0 });
+  assert.strictEqual(settlement.ferryCost, ferry.fare);
+  assert.strictEqual(settlement.net, 5000 - ferry.fare);
+  assert.ok(settlement.lines.some((l) => l.category === LEDGER_CATEGORIES.FERRY && l.amount === ferry.fare));
+
+  // Estimates before the start: tickets and the worst-case ferry time
+  const estimate = ferryService.estimateTrip(company, job);
+  assert.strictEqual(estimate.fare, channel.fares.heavy);
+  assert.strictEqual(estimate.maxHours, channel.crossingHours + 9);
+
+  // eslint-disable-next-line no-console
+  console.log('ferryService tests passed', { waitHours: ferry.waitHours, transitHours: plan.transitHours });
+}
+
+if (require.main === module) {
+  runFerryServiceTests();
+}
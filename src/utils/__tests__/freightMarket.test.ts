@@ -0,0 +1,81 @@
+/**
+ * freightMarket.test.ts
+ *
+ * Runner-agnostic checks for freight market pricing, offer expiry and offer arrivals.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/freightMarket.test.ts
+ */
+
+import assert from 'assert';
+import { freightMarket, MAX_OPEN_OFFERS, MIN_PRICE_FACTOR, MAX_PRICE_FACTOR, PRESSURE_HALF_LIFE_DAYS } from '../freightMarket';
+import { calculateJobValue, getCitySize, offerId } from '../jobGenerator';
+import { addSimDays, addSimHours } from '../simulationClock';
+
+/**
+ * runFreightMarketTests
+ * @description Run freight market assertions and log a summary.
+ */
+export function runFreightMarketTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const market = freightMarket.create(now);
+  const offer = { origin: 'Berlin', destination: 'Hamburg', cargoType: 'Dry Goods', weight: 20 };
+
+  // Prices follow demand / supply within bounds and scale the distance price only
+  const base = freightMarket.priceFactor(market, 'Berlin', 'Hamburg', 'Dry Goods', now);
+  assert.ok(base >= MIN_PRICE_FACTOR && base <= MAX_PRICE_FACTOR);
+  assert.strictEqual(calculateJobValue(300, 20, 'Dry Goods', 'state', 100, 1), calculateJobValue(300, 20, 'Dry Goods', 'state', 100));
+  assert.ok(calculateJobValue(300, 20, 'Dry Goods', 'state', 100, 1.2) > calculateJobValue(300, 20, 'Dry Goods', 'state', 100));
+
+  // Flooding a lane lowers its price; the trucks sent add supply at the destination
+  let flooded = market;
+  for (let i = 0; i < 3; i++) flooded = freightMarket.recordAcceptance(flooded, offer, 20, now);
+  assert.strictEqual(freightMarket.laneLoads(flooded, 'Berlin', 'Hamburg', now), 3);
+  assert.ok(freightMarket.priceFactor(flooded, 'Berlin', 'Hamburg', 'Dry Goods', now) < base);
+  assert.strictEqual(freightMarket.priceFactor(flooded, 'Berlin', 'Munich', 'Dry Goods', now), freightMarket.priceFactor(market, 'Berlin', 'Munich', 'Dry Goods', now));
+  assert.ok(freightMarket.supplyIndex(flooded, 'Hamburg', now) > freightMarket.supplyIndex(market, 'Hamburg', now));
+  assert.ok(freightMarket.priceFactor(flooded, 'Hamburg', 'Berlin', 'Dry Goods', now) < freightMarket.priceFactor(market, 'Hamburg', 'Berlin', 'Dry Goods', now));
+
+  // Partial loads count in proportion and the pressure decays with its half-life
+  const partial = freightMarket.recordAcceptance(market, offer, 10, now);
+  assert.strictEqual(freightMarket.laneLoads(partial, 'Berlin', 'Hamburg', now), 0.5);
+  const later = addSimDays(now, PRESSURE_HALF_LIFE_DAYS);
+  assert.ok(Math.abs(freightMarket.laneLoads(flooded, 'Berlin', 'Hamburg', later) - 1.5) < 1e-9);
+
+  // Offers expire on their deadline counted from posting; new offers arrive over time
+  const jobs = [
+    { ...offer, id: 'short', deadline: '8h', postedAt: now },
+    { ...offer, id: 'long', deadline: '48h', postedAt: now },
+    { ...offer, id: 'legacy', deadline: '8h' }
+  ];
+  const advanced = freightMarket.advance(jobs, market, addSimHours(now, 10));
+  assert.strictEqual(advanced.expired, 1);
+  assert.deepStrictEqual(advanced.jobs.slice(0, 2).map((j) => j.id), ['long', 'legacy']);
+  assert.ok(advanced.posted > 0);
+  const posted = advanced.jobs.slice(2);
+  posted.forEach((job) => {
+    assert.strictEqual(job.postedAt, addSimHours(now, 10));
+    assert.ok(job.marketFactor >= MIN_PRICE_FACTOR && job.marketFactor <= MAX_PRICE_FACTOR);
+  });
+  assert.strictEqual(advanced.market.lastTick, addSimHours(now, 10));
+
+  // Posted offers are numbered from the market seed, skipping ids still open
+  const takenId = offerId(market.seed ?? 0, market.offerCount ?? 0);
+  const numbered = freightMarket.advance([{ ...offer, id: takenId, deadline: '999h', postedAt: now }], market, addSimHours(now, 10));
+  const numberedIds = numbered.jobs.map((j) => j.id);
+  assert.strictEqual(new Set(numberedIds).size, numberedIds.length);
+  assert.strictEqual(numbered.market.offerCount, (market.offerCount ?? 0) + numbered.posted + 1);
+
+  // Nothing arrives without time passing; cities never exceed their open offer cap
+  assert.strictEqual(freightMarket.advance(advanced.jobs, advanced.market, advanced.market.lastTick).posted, 0);
+  const full = Array.from({ length: MAX_OPEN_OFFERS[getCitySize('Berlin')] }, (_, i) => ({ ...offer, id: `full-${i}`, deadline: '999h', postedAt: now }));
+  const capped = freightMarket.advance(full, market, addSimHours(now, 24));
+  assert.strictEqual(capped.jobs.filter((j) => j.origin === 'Berlin').length, full.length);
+
+  // eslint-disable-next-line no-console
+  console.log('freightMarket tests passed', { base, flooded: freightMarket.priceFactor(flooded, 'Berlin', 'Hamburg', 'Dry Goods', now), posted: advanced.posted });
+}
+
+if (require.main === module) {
+  runFreightMarketTests();
+}
@@ -0,0 +1,88 @@
+/**
+ * fuelSystem.test.ts
+ *
+ * Runner-agnostic checks for fuel tanks, refuelling stops and country diesel prices.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/fuelSystem.test.ts
+ */
+
+import assert from 'assert';
+import { fuelSystem, DIESEL_PRICES } from '../fuelSystem';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+import { getLedger, LEDGER_CATEGORIES } from '../companyLedger';
+import { FUEL_PRICE_PER_LITRE } from '../jobSettlement';
+
+/**
+ * runFuelSystemTests
+ * @description Run fuel system assertions and log a summary.
+ */
+export function runFuelSystemTests() {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  const job = {
+    id: 'job-1',
+    title: 'Berlin → Madrid',
+    status: 'picking-up',
+    progress: 0,
+    origin: 'Berlin',
+    destination: 'Madrid',
+    distance: 2300,
+    value: 20000,
+    cargoType: 'Dry Goods',
+    weight: 20,
+    assignedTruck: 't-1',
+    assignedDriver: 'd-1'
+  };
+  let company: any = {
+    capital: 50000,
+    trucks: [{ id: 't-1', brand: 'Volvo', model: 'FH', fuel: 50, specifications: { speedKmH: 70, fuelTankCapacity: 500, fuelConsumptionL100km: 30 } }],
+    staff: [{ id: 'd-1', name: 'Driver', role: 'driver' }],
+    activeJobs: [job]
+  };
+
+  // Prices per country code, unknown countries use the flat price
+  assert.strictEqual(fuelSystem.priceFor('de'), DIESEL_PRICES.de);
+  assert.strictEqual(fuelSystem.priceFor('zz'), FUEL_PRICE_PER_LITRE);
+  assert.strictEqual(fuelSystem.countryAt(job, 100), 'de');
+  assert.strictEqual(fuelSystem.countryAt(job, 2000), 'es');
+
+  // Planned fuel: 690 L from a half tank (175 L usable above the reserve) needs two refuels
+  const estimate = fuelSystem.estimateTrip(company, job);
+  assert.strictEqual(estimate.litres, 690);
+  assert.strictEqual(estimate.refuelStops, 2);
+
+  // Drive the whole route
+  company = jobLifecycleEngine.advance(company, start).company;
+  const plan = company.activeJobs[0].lifecycle;
+  const consumed = fuelSystem.consume(company, plan.arrivedAt);
+  assert.ok(consumed.changed);
+  const fuelled = consumed.company.activeJobs[0];
+  const routeKm = plan.distanceKm;
+  const stops = fuelled.fuel.stops;
+  assert.strictEqual(fuelled.fuelCheckedKm, routeKm);
+  assert.strictEqual(fuelled.fuel.litres, Number((routeKm * 0.3).toFixed(1)));
+  assert.ok(stops.length >= 1);
+  assert.strictEqual(stops[0].atKm, 583, 'refuels once the reserve is reached (175 L usable at 30 L/100 km)');
+  stops.forEach((stop: any) => assert.strictEqual(stop.country, stop.atKm < routeKm / 2 ? 'de' : 'es'));
+
+  // Purchases are charged to the ledger and the tank level is kept on the truck
+  const fuelLines = getLedger(consumed.company).filter((r) => r.category === LEDGER_CATEGORIES.FUEL);
+  assert.strictEqual(fuelLines.length, stops.length);
+  assert.strictEqual(consumed.company.capital, 50000 - fuelled.fuel.cost);
+  const tank = fuelSystem.tankLitres(consumed.company.trucks[0]);
+  assert.ok(tank > 75 && tank < 500, 'tank partly used after the last refuel');
+
+  // Refuelling stops delay the job while it is still on the road
+  assert.strictEqual((fuelled.lifecycle.stops || []).length, stops.length);
+  assert.ok(jobLifecycleEngine.deliveryTime(fuelled.lifecycle) > plan.deliveredAt);
+
+  // Nothing more to burn for the same distance
+  assert.strictEqual(fuelSystem.consume(consumed.company, plan.arrivedAt).changed, false);
+
+  // eslint-disable-next-line no-console
+  console.log('fuelSystem tests passed', { cost: fuelled.fuel.cost, stops: fuelled.fuel.stops.length });
+}
+
+if (require.main === module) {
+  runFuelSystemTests();
+}
@@ -0,0 +1,102 @@
+/**
+ * hoursOfService.test.ts
+ *
+ * Runner-agnostic checks for driver hours-of-service planning (breaks, rests, crews, violations).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/hoursOfService.test.ts
+ */
+
+import assert from 'assert';
+import { hoursOfService, DEFAULT_HOS_RULES } from '../hoursOfService';
+import { getLedger, LEDGER_CATEGORIES } from '../companyLedger';
+import { SIM_HOUR_MS } from '../simulationClock';
+
+/**
+ * runHoursOfServiceTests
+ * @description Run hours-of-service assertions and log a summary.
+ */
+export function runHoursOfServiceTests() {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  const company: any = {
+    capital: 10000,
+    staff: [
+      { id: 'd-1', name: 'Anna', role: 'driver' },
+      { id: 'd-2', name: 'Ben', role: 'driver' }
+    ],
+    activeJobs: []
+  };
+  const solo = { id: 'job-1', assignedDriver: 'd-1' };
+
+  // Short run: no rest needed
+  const short = hoursOfService.plan(company, solo, 3, start);
+  assert.strictEqual(short.rests.length, 0);
+  assert.strictEqual(short.crewAfter['d-1'].dailyHours, 3);
+
+  // Split break: 15 min halfway, 30 min at the continuous limit; no first part when the rest of
+  // the route fits in the limits
+  const day = hoursOfService.plan(company, solo, 8, start);
+  assert.deepStrictEqual(day.rests.map((r) => [r.atDrivingHours, r.reason]), [
+    [2.25, 'Break (split, part 1)'],
+    [4.5, 'Break (split, part 2)']
+  ]);
+  assert.strictEqual(day.restHours, 0.75);
+
+  // Long run: the daily limit forces an 11 h daily rest
+  const long = hoursOfService.plan(company, solo, 15, start);
+  const daily = long.rests.find((r) => r.reason === 'Daily rest');
+  assert.ok(daily, 'daily rest planned');
+  assert.strictEqual(daily!.atDrivingHours, DEFAULT_HOS_RULES.maxDailyHours);
+  assert.strictEqual(long.violations.length, 0);
+
+  // Team crew swaps at the wheel and covers the same distance without breaks
+  const team = hoursOfService.plan(company, { ...solo, assignedCoDriver: 'd-2' }, 15, start);
+  assert.strictEqual(team.rests.length, 0, 'co-driver breaks are taken in the cab');
+  assert.ok(new Set(team.legs.map((l) => l.driverId)).size === 2, 'both drivers drive');
+  assert.ok(team.crewAfter['d-1'].dailyHours <= DEFAULT_HOS_RULES.maxDailyHours);
+
+  // Pushing on within the overrun window to finish is a violation
+  const overrun = hoursOfService.plan(company, solo, 9.5, start);
+  assert.strictEqual(overrun.rests.some((r) => r.reason === 'Daily rest'), false);
+  assert.strictEqual(overrun.violations.length, 1);
+  assert.strictEqual(overrun.violations[0].limit, 'daily');
+  assert.strictEqual(overrun.violations[0].excessHours, 0.5);
+  assert.strictEqual(hoursOfService.driverAt(overrun, 9.2)!.overrun, true);
+  assert.strictEqual(hoursOfService.driverAt(overrun, 9.2)!.hoursDrivenToday, 9.2);
+
+  // Timeline: nothing is driven during a rest
+  const atRest = hoursOfService.drivingAt(day, 2.3);
+  assert.strictEqual(atRest.drivingHours, 2.25);
+  assert.ok(atRest.rest);
+  assert.strictEqual(hoursOfService.drivingAt(day, 9).drivingHours, 8);
+
+  // Delivery stores the counters, logs and fines the violation
+  const job = { id: 'job-2', assignedDriver: 'd-1', lifecycle: { hos: overrun } };
+  const delivered = hoursOfService.applyDelivery({ ...company, activeJobs: [job] }, 'job-2', start);
+  assert.strictEqual(delivered.staff[0].hos.dailyHours, 9.5);
+  assert.strictEqual(delivered.hosViolations.length, 1);
+  const fine = DEFAULT_HOS_RULES.finePerViolation + DEFAULT_HOS_RULES.finePerExcessHour * 0.5;
+  assert.strictEqual(delivered.hosViolations[0].fine, fine);
+  assert.strictEqual(getLedger(delivered)[0].category, LEDGER_CATEGORIES.PENALTIES);
+  assert.strictEqual(delivered.capital, 10000 - fine);
+  assert.strictEqual(hoursOfService.applyDelivery(delivered, 'job-2', start), delivered, 'settled once');
+
+  // The daily rest between jobs resets the daily counters, the weekly ones remain
+  const rules = hoursOfService.rules(delivered);
+  const rested = hoursOfService.driverState(delivered.staff[0], start + 12 * SIM_HOUR_MS, rules);
+  assert.strictEqual(rested.dailyHours, 0);
+  assert.strictEqual(rested.weeklyHours, 9.5);
+  assert.strictEqual(hoursOfService.driverState(delivered.staff[0], start + SIM_HOUR_MS, rules).dailyHours, 9.5);
+
+  // Company overrides: no overruns allowed
+  const strict = hoursOfService.plan({ ...company, hosRules: { maxOverrunHours: 0 } }, solo, 9.5, start);
+  assert.strictEqual(strict.violations.length, 0);
+  assert.ok(strict.rests.some((r) => r.reason === 'Daily rest'));
+
+  // eslint-disable-next-line no-console
+  console.log('hoursOfService tests passed', { longRestHours: long.restHours, teamLegs: team.legs.length });
+}
+
+if (require.main === module) {
+  runHoursOfServiceTests();
+}
@@ -0,0 +1,96 @@
+/**
+ * incidentResolutionEngine.test.ts
+ *
+ * Runner-agnostic checks for incident consequences (resolution, delay, damage, costs).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/incidentResolutionEngine.test.ts
+ */
+
+import assert from 'assert';
+import { incidentResolutionEngine, RESOLUTIONS } from '../incidentResolutionEngine';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+import { getLedger, LEDGER_CATEGORIES } from '../companyLedger';
+import { SIM_HOUR_MS } from '../simulationClock';
+
+/**
+ * runIncidentResolutionTests
+ * @description Run incident resolution assertions and log a summary.
+ */
+export function runIncidentResolutionTests() {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  const job = {
+    id: 'job-1',
+    title: 'A → B',
+    status: 'picking-up',
+    progress: 0,
+    origin: 'Unknown A',
+    destination: 'Unknown B',
+    distance: 700,
+    value: 10000,
+    cargoType: 'Dry Goods',
+    weight: 20,
+    assignedTruck: 't-1',
+    assignedDriver: 'd-1'
+  };
+  let company: any = {
+    capital: 50000,
+    reputation: 40,
+    trucks: [{ id: 't-1', brand: 'Volvo', model: 'FH', condition: 90, specifications: { speedKmH: 70 } }],
+    staff: [{ id: 'd-1', name: 'Driver', role: 'driver', fit: 80 }],
+    activeJobs: [job]
+  };
+
+  // Resolution choice by type and severity
+  assert.strictEqual(incidentResolutionEngine.chooseResolution({ type: 'tire', severity: 15 }), 'roadside-repair');
+  assert.strictEqual(incidentResolutionEngine.chooseResolution({ type: 'breakdown', severity: 20 }), 'mechanic-dispatch');
+  assert.strictEqual(incidentResolutionEngine.chooseResolution({ type: 'minor', severity: 85 }), 'towing');
+
+  // Put the job on the road
+  company = jobLifecycleEngine.advance(company, start).company;
+  const plan = company.activeJobs[0].lifecycle;
+  const midway = (plan.loadedAt + plan.arrivedAt) / 2;
+  company = jobLifecycleEngine.advance(company, midway).company;
+
+  // Road segments are reported once per driven distance
+  const road = incidentResolutionEngine.collectRoadSegments(company, midway);
+  assert.strictEqual(road.segments.length, 1);
+  assert.ok(road.segments[0].distanceKm > 0);
+  assert.strictEqual(incidentResolutionEngine.collectRoadSegments(road.company, midway).segments.length, 0, 'no distance driven since the last check');
+  company = road.company;
+
+  // Severe incident: towing, truck and cargo damage, costs, delay
+  const { company: after, incident } = incidentResolutionEngine.resolve(company, {
+    truckId: 't-1', type: 'engine', severity: 80, distanceCovered: 1, timestamp: midway, reason: 'test'
+  }, midway);
+  assert.ok(incident);
+  assert.strictEqual(incident!.resolution, 'towing');
+  assert.strictEqual(after.trucks[0].condition, 90 - incident!.conditionLoss);
+  assert.strictEqual(after.trucks[0].incidents.length, 1, 'incident stored on the truck');
+  assert.strictEqual(after.activeJobs[0].cargoDamage, incident!.cargoDamage);
+  assert.ok(incident!.cargoDamage > 0);
+  assert.strictEqual(incident!.claimAmount, Math.round(10000 * incident!.cargoDamage / 100));
+  assert.ok(after.reputation < 40, 'incident lowers reputation');
+
+  const categories = getLedger(after).map((r) => r.category);
+  assert.ok(categories.includes(LEDGER_CATEGORIES.REPAIRS) && categories.includes(LEDGER_CATEGORIES.CLAIMS));
+  assert.strictEqual(after.capital, 50000 - incident!.repairCost - incident!.claimAmount);
+
+  // The job stands still during the repair and is delivered later
+  const stopped = jobLifecycleEngine.advance(after, midway + SIM_HOUR_MS);
+  assert.strictEqual(stopped.company.activeJobs[0].progress, company.activeJobs[0].progress, 'no progress while stopped');
+  assert.ok(stopped.company.activeJobs[0].currentLocation.startsWith('Stopped'));
+  const delay = RESOLUTIONS.towing.delayHours * SIM_HOUR_MS;
+  assert.strictEqual(jobLifecycleEngine.advance(after, plan.deliveredAt + 1).delivered.length, 0, 'original delivery time is missed');
+  assert.deepStrictEqual(jobLifecycleEngine.advance(after, plan.deliveredAt + delay + 1).delivered, ['job-1']);
+
+  // Unknown truck: nothing happens
+  assert.strictEqual(incidentResolutionEngine.resolve(company, { truckId: 'x', type: 'minor', severity: 10, distanceCovered: 1, timestamp: midway, reason: '' }).incident, null);
+
+  // eslint-disable-next-line no-console
+  console.log('incidentResolutionEngine tests passed', { resolution: incident!.resolution, cargoDamage: incident!.cargoDamage });
+}
+
+if (require.main === module) {
+  runIncidentResolutionTests();
+}
@@ -0,0 +1,59 @@
+/**
+ * jobLifecycleEngine.test.ts
+ *
+ * Runner-agnostic checks for time-based job progression.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/jobLifecycleEngine.test.ts
+ */
+
+import assert from 'assert';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+
+/**
+ * runLifecycleTests
+ * @description Run lifecycle assertions and log a summary.
+ */
+export function runLifecycleTests() {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  const job = {
+    id: 'job-1',
+    status: 'picking-up',
+    progress: 0,
+    origin: 'Unknown A',
+    destination: 'Unknown B',
+    distance: 700,
+    cargoType: 'Dry Goods',
+    weight: 20,
+    assignedTruck: 't-1'
+  };
+  let company: any = {
+    trucks: [{ id: 't-1', tonnage: 40, specifications: { speedKmH: 70 }, mileage: 1000 }],
+    activeJobs: [job, { id: 'job-2', status: 'preparing', progress: 0 }]
+  };
+
+  const first = jobLifecycleEngine.advance(company, start);
+  const planned = first.company.activeJobs[0];
+  assert.strictEqual(planned.status, 'loading', 'started job begins loading');
+  assert.ok(planned.lifecycle.loadHours > 0, 'load time from cargo type');
+  assert.strictEqual(first.company.activeJobs[1].status, 'preparing', 'preparing jobs are not started automatically');
+  company = first.company;
+
+  const plan = planned.lifecycle;
+  const midway = jobLifecycleEngine.advance(company, (plan.loadedAt + plan.arrivedAt) / 2);
+  assert.strictEqual(midway.company.activeJobs[0].status, 'in-transit');
+  assert.ok(midway.company.activeJobs[0].progress > 10 && midway.company.activeJobs[0].progress < 90, 'progress moves with transit');
+
+  const done = jobLifecycleEngine.advance(midway.company, plan.deliveredAt + 1);
+  assert.deepStrictEqual(done.delivered, ['job-1'], 'delivered job reported for completion');
+  assert.strictEqual(done.company.activeJobs[0].currentLocation, 'Unknown B');
+  assert.strictEqual(done.company.trucks[0].location, 'Unknown B', 'truck moved to destination');
+  assert.strictEqual(done.company.trucks[0].mileage, 1000 + Math.round(plan.distanceKm), 'truck mileage increased');
+
+  // eslint-disable-next-line no-console
+  console.log('jobLifecycleEngine tests passed', { transitHours: plan.transitHours, distanceKm: plan.distanceKm });
+}
+
+if (require.main === module) {
+  runLifecycleTests();
+}
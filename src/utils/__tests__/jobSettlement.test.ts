@@ -0,0 +1,52 @@
+/**
+ * jobSettlement.test.ts
+ *
+ * Runner-agnostic checks for job settlement and cancellation fees.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/jobSettlement.test.ts
+ */
+
+import assert from 'assert';
+import { resolveDeadline, computeSettlement, computeCancellationFee, applySettlement } from '../jobSettlement';
+import { SIM_HOUR_MS } from '../simulationClock';
+
+/**
+ * runSettlementTests
+ * @description Run settlement assertions and log a summary.
+ */
+export function runSettlementTests() {
+  const hour = SIM_HOUR_MS;
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+
+  assert.strictEqual(resolveDeadline('36h', start), start + 36 * hour, 'relative hours deadline');
+  assert.strictEqual(resolveDeadline('2d', start), start + 48 * hour, 'relative days deadline');
+  assert.strictEqual(resolveDeadline('No deadline', start), null, 'unparseable deadline means none');
+  assert.strictEqual(resolveDeadline('2025-01-02T00:00:00.000Z'), start + 24 * 60 * 60 * 1000, 'absolute ISO deadline');
+
+  const job = { id: 'job-1', title: 'Test', value: 10000, distance: 500, deadline: '10h', startTime: new Date(start).toISOString() };
+
+  const onTime = computeSettlement(job, { completedAt: start + 9 * hour });
+  assert.strictEqual(onTime.latePenalty, 0, 'no penalty when on time');
+  assert.strictEqual(onTime.revenue, 10000);
+  assert.ok(onTime.fuelCost > 0 && onTime.tollCost > 0, 'fuel and tolls charged for distance');
+  assert.strictEqual(onTime.lines.length, 3, 'revenue, fuel and toll lines');
+
+  const late = computeSettlement(job, { completedAt: start + 13 * hour, fuelCost: 0, tollCost: 0 });
+  assert.strictEqual(late.hoursLate, 3);
+  assert.strictEqual(late.latePenalty, 600, '3h late at 2% per hour');
+  assert.strictEqual(late.net, 9400);
+
+  const company = applySettlement({ capital: 1000 }, late);
+  assert.strictEqual(company.capital, 1000 + 9400, 'capital reflects settlement net');
+
+  assert.strictEqual(computeCancellationFee({ id: 'a', value: 1000, progress: 0 }).fee, 100, '10% fee before any progress');
+  assert.strictEqual(computeCancellationFee({ id: 'b', value: 1000, progress: 50 }).fee, 300, 'fee scales with progress');
+
+  // eslint-disable-next-line no-console
+  console.log('jobSettlement tests passed', { onTime: onTime.net, late: late.net });
+}
+
+if (require.main === module) {
+  runSettlementTests();
+}
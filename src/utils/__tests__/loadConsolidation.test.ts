@@ -0,0 +1,79 @@
+/**
+ * loadConsolidation.test.ts
+ *
+ * Runner-agnostic checks for multi-drop load checks, drop planning and chained drop jobs.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/loadConsolidation.test.ts
+ */
+
+import assert from 'assert';
+import { loadConsolidation, MAX_DROPS } from '../loadConsolidation';
+import { jobLifecycleEngine } from '../jobLifecycleEngine';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runLoadConsolidationTests
+ * @description Run load consolidation assertions and log a summary.
+ */
+export function runLoadConsolidationTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const company: any = {
+    id: 'company-1',
+    capital: 100000,
+    trucks: [{ id: 'truck-1', truckCategory: 'Big', gcw: 'C' }],
+    trailers: [{ id: 'trailer-1', trailerClass: 'Box Trailer', tonnage: 24 }],
+    staff: [{ id: 'd-1', name: 'Ana', role: 'driver', skills: [] }],
+    activeJobs: []
+  };
+  const assignment = { assignedTruck: 'truck-1', assignedTrailer: 'trailer-1', assignedDriver: 'd-1' };
+  const offer = (id: string, destination: string, deadline: string, cargoType = 'Dry Goods') => ({
+    id, title: `Freight to ${destination}`, origin: 'Berlin', destination, deadline, cargoType, allowPartialLoad: true, weight: 20
+  });
+  const far = { offer: offer('far', 'Munich', '96h'), weight: 8, value: 3000 };
+  const near = { offer: offer('near', 'Leipzig', '96h'), weight: 6, value: 1500 };
+
+  // Drops are ordered to avoid late hours first, then by kilometres
+  const check = loadConsolidation.check(company, [far, near], assignment);
+  assert.ok(check.valid, JSON.stringify(check.issues));
+  assert.deepStrictEqual(check.drops.map((c) => c.offer.id), ['near', 'far'], 'Leipzig lies on the way to Munich');
+  assert.strictEqual(check.totalWeight, 14);
+  const urgent = { ...far, offer: offer('far', 'Munich', '11h') };
+  const detour = { ...near, offer: offer('detour', 'Hamburg', '96h') };
+  assert.deepStrictEqual(loadConsolidation.check(company, [detour, urgent], assignment).drops.map((c) => c.offer.id), ['far', 'detour']);
+  assert.deepStrictEqual(loadConsolidation.check(company, [detour, far], assignment).drops.map((c) => c.offer.id), ['detour', 'far']);
+
+  // The combined weight must fit the trailer and cargo must be able to share it
+  assert.ok(loadConsolidation.check(company, [{ ...far, weight: 16 }, { ...near, weight: 12 }], assignment).issues.some((i) => i.rule === 'capacity'));
+  assert.ok(!loadConsolidation.check(company, [far, { ...near, offer: { ...near.offer, cargoType: 'Agricultural Bulk' } }], assignment).valid);
+  assert.ok(!loadConsolidation.check(company, [far, { ...near, offer: { ...near.offer, allowPartialLoad: false } }], assignment).valid);
+  assert.ok(!loadConsolidation.check(company, [far, { ...near, offer: { ...near.offer, origin: 'Hamburg' } }], assignment).valid);
+  assert.ok(!loadConsolidation.check(company, [far], assignment).valid);
+  assert.ok(!loadConsolidation.check(company, Array.from({ length: MAX_DROPS + 1 }, () => near), assignment).valid);
+
+  // One job per consignment, chained from the pickup city with its own value and deadline
+  const jobs = loadConsolidation.buildJobs(check.drops, assignment, 'load-1', now);
+  assert.deepStrictEqual(jobs.map((j) => [j.origin, j.destination, j.weight, j.value]), [['Berlin', 'Leipzig', 6, 1500], ['Leipzig', 'Munich', 8, 3000]]);
+  assert.deepStrictEqual(jobs.map((j) => j.loadedWeight), [14, 8]);
+  assert.ok(jobs.every((j) => j.status === 'preparing' && j.consolidationId === 'load-1'));
+  assert.strictEqual(new Date(jobs[1].deadline).getTime(), now + 96 * 2500);
+
+  // Starting the first drop runs the whole load: each drop starts once the previous one is unloaded
+  const started = { ...company, activeJobs: [{ ...jobs[0], status: 'picking-up' }, jobs[1]] };
+  const loading = jobLifecycleEngine.advance(started, now);
+  assert.strictEqual(loading.company.activeJobs[1].status, 'preparing', 'the second drop waits for the first');
+  const result = jobLifecycleEngine.advance(loading.company, addSimDays(now, 5));
+  assert.deepStrictEqual(result.delivered, ['load-1-drop-1', 'load-1-drop-2']);
+  const [first, second] = result.company.activeJobs;
+  assert.ok(first.lifecycle.loadHours > second.lifecycle.loadHours, 'the first drop loads the whole load');
+  assert.strictEqual(second.lifecycle.loadHours, 0);
+  assert.strictEqual(second.lifecycle.startedAt, jobLifecycleEngine.deliveryTime(first.lifecycle));
+  assert.strictEqual(result.company.trucks[0].location, 'Munich');
+
+  // eslint-disable-next-line no-console
+  console.log('loadConsolidation tests passed', { drops: check.drops.map((c) => c.offer.destination), distanceKm: check.distanceKm });
+}
+
+if (require.main === module) {
+  runLoadConsolidationTests();
+}
@@ -0,0 +1,80 @@
+/**
+ * maintenanceScheduler.test.ts
+ *
+ * Runner-agnostic checks for scheduled maintenance (quote, out of service, completion, reminders).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/maintenanceScheduler.test.ts
+ */
+
+import assert from 'assert';
+import { maintenanceScheduler } from '../maintenanceScheduler';
+import { getLedger, LEDGER_CATEGORIES } from '../companyLedger';
+import { SIM_DAY_MS } from '../simulationClock';
+
+/**
+ * runMaintenanceSchedulerTests
+ * @description Run maintenance scheduler assertions and log a summary.
+ */
+export function runMaintenanceSchedulerTests() {
+  const now = Date.parse('2025-01-01T00:00:00.000Z');
+  const truck = { id: 't-1', brand: 'MAN', model: 'TGX', purchasePrice: 100000, maintenanceGroup: 1, condition: 50, mileage: 70000, status: 'available' };
+  let company: any = {
+    capital: 10000,
+    trucks: [truck],
+    staff: [
+      { id: 'm-1', name: 'Mechanic', role: 'mechanic', skills: ['Engine Repair', 'Body Work'] },
+      { id: 'd-1', name: 'Driver', role: 'driver', skills: ['Engine Repair'] }
+    ],
+    activeJobs: []
+  };
+
+  // Reminders by mileage and condition
+  const reminder = maintenanceScheduler.reminder(truck);
+  assert.ok(reminder && reminder.urgency === 'due', 'due after the service interval');
+  assert.strictEqual(maintenanceScheduler.reminder({ ...truck, condition: 20 })!.urgency, 'overdue');
+  assert.strictEqual(maintenanceScheduler.reminder({ ...truck, mileage: 1000, condition: 90 }), null);
+
+  // Mechanics and their skills lower cost and duration; drivers are ignored
+  const plain = maintenanceScheduler.quote(company, truck);
+  const withMechanic = maintenanceScheduler.quote(company, truck, ['m-1', 'd-1']);
+  assert.strictEqual(plain.cost, 2000, 'group 1: 2% of the price');
+  assert.deepStrictEqual(withMechanic.mechanicIds, ['m-1']);
+  assert.ok(withMechanic.cost < plain.cost, 'cost savings skill lowers cost');
+  assert.ok(withMechanic.durationDays < plain.durationDays, 'mechanic shortens the service');
+  const specialist = maintenanceScheduler.mechanicReductions([{ role: 'mechanic', skills: ['Electrical Systems', 'Suspension'] }]);
+  assert.strictEqual(specialist.timeReduction, 0.44, 'repair effects count, fuel efficiency does not');
+
+  // Schedule: charged and out of service
+  const scheduled = maintenanceScheduler.schedule(company, 't-1', withMechanic, now);
+  assert.strictEqual(scheduled.error, undefined);
+  company = scheduled.company;
+  assert.strictEqual(company.trucks[0].status, 'maintenance');
+  assert.strictEqual(company.capital, 10000 - withMechanic.cost);
+  assert.strictEqual(getLedger(company)[0].category, LEDGER_CATEGORIES.MAINTENANCE);
+  assert.strictEqual(maintenanceScheduler.reminder(company.trucks[0]), null, 'no reminder while in the workshop');
+  assert.ok(maintenanceScheduler.schedule(company, 't-1', withMechanic, now).error, 'cannot be scheduled twice');
+
+  // Not finished before the duration, finished after it
+  assert.strictEqual(maintenanceScheduler.processDue(company, now + 1).changed, false);
+  const done = maintenanceScheduler.processDue(company, now + withMechanic.durationDays * SIM_DAY_MS);
+  assert.deepStrictEqual(done.completed, ['t-1']);
+  const serviced = done.company.trucks[0];
+  assert.strictEqual(serviced.status, 'available');
+  assert.ok(serviced.condition > 50, 'condition restored');
+  assert.strictEqual(serviced.lastServiceMileage, 70000);
+  assert.strictEqual(serviced.maintenance, undefined);
+  assert.strictEqual(serviced.maintenanceHistory.length, 1);
+
+  // Trucks on an open job and companies without capital are refused
+  const busy = { ...done.company, activeJobs: [{ id: 'j', assignedTruck: 't-1', status: 'in-transit' }] };
+  assert.ok(maintenanceScheduler.schedule(busy, 't-1', plain, now).error);
+  assert.ok(maintenanceScheduler.schedule({ ...done.company, capital: 10 }, 't-1', plain, now).error);
+
+  // eslint-disable-next-line no-console
+  console.log('maintenanceScheduler tests passed', { cost: withMechanic.cost, durationDays: withMechanic.durationDays });
+}
+
+if (require.main === module) {
+  runMaintenanceSchedulerTests();
+}
@@ -0,0 +1,65 @@
+/**
+ * payrollEngine.test.ts
+ *
+ * Runner-agnostic checks for recurring payroll (payments, arrears, resignations).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/payrollEngine.test.ts
+ */
+
+import assert from 'assert';
+import { payrollEngine } from '../payrollEngine';
+import { SIM_DAY_MS } from '../simulationClock';
+
+/**
+ * runPayrollTests
+ * @description Run payroll assertions and log a summary.
+ */
+export function runPayrollTests() {
+  const start = Date.parse('2025-01-01T00:00:00.000Z');
+  const interval = payrollEngine.DEFAULT_INTERVAL_DAYS;
+
+  let company: any = {
+    id: 'c-1',
+    capital: 10000,
+    staff: [{ id: 'd-1', salary: 3000, happiness: 80 }, { id: 'd-2', salary: 6000, happiness: 80 }],
+    activeJobs: [{ id: 'j-1', assignedDriver: 'd-2' }]
+  };
+
+  // First call only schedules the next run
+  const scheduled = payrollEngine.processDue(company, start);
+  assert.strictEqual(scheduled.runs.length, 0, 'nothing due on first call');
+  assert.strictEqual(new Date(scheduled.company.payroll.nextRunAt).getTime(), start + interval * SIM_DAY_MS);
+  company = scheduled.company;
+
+  // First payday: both paid
+  const perCycle = Math.round(3000 * interval / 30) + Math.round(6000 * interval / 30);
+  const first = payrollEngine.processDue(company, start + interval * SIM_DAY_MS);
+  assert.strictEqual(first.runs.length, 1);
+  assert.strictEqual(first.runs[0].paid, perCycle);
+  assert.strictEqual(first.company.capital, 10000 - perCycle, 'capital reduced by payroll');
+  assert.strictEqual(first.company.ledger.length, 1, 'one salaries ledger entry');
+
+  // Drain capital: d-2 can no longer be paid and eventually resigns
+  company = { ...first.company, capital: 800 };
+  const late = payrollEngine.processDue(company, start + 4 * interval * SIM_DAY_MS);
+  assert.strictEqual(late.runs.length, 3, 'catch-up of three missed cycles');
+  const remaining = late.company.staff.map((s: any) => s.id);
+  assert.ok(!remaining.includes('d-2'), 'unpaid employee resigns after repeated missed paydays');
+  assert.strictEqual(late.company.activeJobs[0].assignedDriver, '', 'resigned driver unassigned from jobs');
+
+  // A new hire's first month is paid at hiring: cycles inside it are not charged again
+  const hire = { id: 'd-3', salary: 3000, paidUntil: payrollEngine.prepaidUntil(start) };
+  const hired = payrollEngine.processDue({ id: 'c-2', capital: 10000, staff: [hire], payroll: { nextRunAt: new Date(start + interval * SIM_DAY_MS).toISOString() } }, start + 28 * SIM_DAY_MS);
+  assert.deepStrictEqual(hired.runs.map((r) => r.paid), [0, 0, 0, 0], 'first four weekly cycles are prepaid');
+  assert.strictEqual(hired.company.capital, 10000);
+  const fifth = payrollEngine.processDue(hired.company, start + 35 * SIM_DAY_MS);
+  assert.strictEqual(fifth.runs[0].paid, Math.round(3000 * (interval - 2) / 30), 'only the days after the prepaid month');
+
+  // eslint-disable-next-line no-console
+  console.log('payrollEngine tests passed', { capital: late.company.capital, staff: remaining });
+}
+
+if (require.main === module) {
+  runPayrollTests();
+}
@@ -0,0 +1,79 @@
+/**
+ * roadRouting.test.ts
+ *
+ * Runner-agnostic checks for road graph routing (paths, legs, waypoints, positions).
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/roadRouting.test.ts
+ */
+
+import assert from 'assert';
+import { roadRouter } from '../roadRouting';
+import { getDistance } from '../distanceCalculator';
+import { cityCoords } from '../distance-scaffold';
+
+/**
+ * runRoadRoutingTests
+ * @description Run road routing assertions and log a summary.
+ */
+export function runRoadRoutingTests() {
+  // Routes run through intermediate cities and the legs add up to the total
+  const route = roadRouter.route('Frankfurt', 'Hamburg');
+  assert.ok(route, 'Frankfurt and Hamburg are connected by road');
+  assert.strictEqual(route!.path[0], 'Frankfurt');
+  assert.strictEqual(route!.path[route!.path.length - 1], 'Hamburg');
+  assert.ok(route!.path.length > 2, 'the route passes intermediate cities');
+  assert.strictEqual(route!.legs.length, route!.path.length - 1);
+  const legSum = route!.legs.reduce((sum, leg) => sum + leg.distanceKm, 0);
+  assert.strictEqual(route!.distanceKm, Math.round(legSum * 10) / 10);
+  route!.legs.forEach((leg) => {
+    assert.ok(roadRouter.neighbours(leg.from).some((n) => n.to === leg.to), `${leg.from} → ${leg.to} is a road`);
+  });
+
+  // Same distance both ways, and distanceCalculator uses the road distance
+  assert.strictEqual(roadRouter.route('Hamburg', 'Frankfurt')!.distanceKm, route!.distanceKm);
+  assert.strictEqual(getDistance('Frankfurt', 'Hamburg'), route!.distanceKm);
+  assert.strictEqual(roadRouter.distancesFrom('Frankfurt').get('Hamburg'), route!.distanceKm);
+
+  // Waypoints are visited in order
+  const via = roadRouter.route('Frankfurt', 'Hamburg', ['Munich']);
+  assert.ok(via);
+  const munich = via!.path.indexOf('Munich');
+  assert.ok(munich > 0 && munich < via!.path.length - 1);
+  assert.ok(via!.distanceKm > route!.distanceKm);
+
+  // Islands are reached over sea crossings only
+  const channel = roadRouter.route('London', 'Paris')!;
+  assert.ok(channel.legs.some((leg) => leg.seaKm === 190 && leg.from === 'Portsmouth' && leg.to === 'Le Havre'));
+  assert.strictEqual(roadRouter.roadAllowed('London', 'Lille'), false, 'no road across the Channel');
+  assert.strictEqual(roadRouter.landmass('Palermo'), 'sicily');
+
+  // Closed borders are never crossed directly
+  assert.strictEqual(roadRouter.roadAllowed('Yerevan', 'Ganja'), false);
+  const caucasus = roadRouter.route('Yerevan', 'Baku')!;
+  caucasus.legs.forEach((leg) => assert.ok(roadRouter.roadAllowed(leg.from, leg.to) || leg.seaKm, `${leg.from} → ${leg.to}`));
+
+  // Unknown cities are not routable
+  assert.strictEqual(roadRouter.route('Frankfurt', 'Atlantis'), null);
+  assert.strictEqual(roadRouter.hasCity('Atlantis'), false);
+  assert.strictEqual(roadRouter.distancesFrom('Atlantis').size, 0);
+
+  // Positions along the route: ends are the cities, the middle is on a leg
+  const start = roadRouter.positionAt(route!, 0)!;
+  assert.deepStrictEqual([start.lat, start.lon], [cityCoords.Frankfurt.lat, cityCoords.Frankfurt.lon]);
+  const end = roadRouter.positionAt(route!, route!.distanceKm + 50)!;
+  assert.deepStrictEqual([end.lat, end.lon], [cityCoords.Hamburg.lat, cityCoords.Hamburg.lon]);
+  assert.strictEqual(end.nearest, 'Hamburg');
+  const firstLeg = route!.legs[0];
+  const middle = roadRouter.positionAt(route!, firstLeg.distanceKm / 4)!;
+  assert.strictEqual(middle.from, firstLeg.from);
+  assert.strictEqual(middle.to, firstLeg.to);
+  assert.strictEqual(middle.nearest, 'Frankfurt');
+
+  // eslint-disable-next-line no-console
+  console.log('roadRouting tests passed', { path: route!.path, distanceKm: route!.distanceKm });
+}
+
+if (require.main === module) {
+  runRoadRoutingTests();
+}
@@ -0,0 +1,65 @@
+/**
+ * seededRandom.test.ts
+ *
+ * Runner-agnostic checks for the seeded random source and reproducible job markets.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/seededRandom.test.ts
+ */
+
+import assert from 'assert';
+import { createRandom } from '../seededRandom';
+import { generateJobsForCity } from '../jobGenerator';
+import { freightMarket } from '../freightMarket';
+import { addSimHours } from '../simulationClock';
+
+/**
+ * runSeededRandomTests
+ * @description Run seeded random / reproducible market assertions and log a summary.
+ */
+export function runSeededRandomTests() {
+  // Same seed, same sequence in [0, 1); the stored state resumes it
+  const a = createRandom(42);
+  const b = createRandom(42);
+  const first = Array.from({ length: 5 }, () => a());
+  assert.deepStrictEqual(first, Array.from({ length: 5 }, () => b()));
+  assert.ok(first.every((x) => x >= 0 && x < 1));
+  assert.notDeepStrictEqual(first, Array.from({ length: 5 }, createRandom(43)));
+  const resumed = createRandom(a.state());
+  assert.strictEqual(resumed(), a());
+
+  // The generator draws only from the given source
+  assert.deepStrictEqual(generateJobsForCity('Berlin', undefined, createRandom(7)), generateJobsForCity('Berlin', undefined, createRandom(7)));
+  assert.notDeepStrictEqual(generateJobsForCity('Berlin', undefined, createRandom(7)), generateJobsForCity('Berlin', undefined, createRandom(8)));
+
+  // A market regenerates identically from its seed and generation time, and advances alike
+  const now = Date.UTC(2026, 0, 5);
+  const one = freightMarket.generate(now, 1234);
+  const two = freightMarket.generate(now, 1234);
+  assert.strictEqual(one.market.seed, 1234);
+  assert.deepStrictEqual(one.jobs, two.jobs);
+  assert.deepStrictEqual(one.market, two.market);
+  const later = addSimHours(now, 6);
+  const nextOne = freightMarket.advance(one.jobs, one.market, later);
+  const nextTwo = freightMarket.advance(two.jobs, two.market, later);
+  assert.ok(nextOne.posted > 0);
+  assert.deepStrictEqual(nextOne.jobs, nextTwo.jobs);
+  const ids = nextOne.jobs.map((job) => job.id);
+  assert.strictEqual(new Set(ids).size, ids.length, 'offer ids are unique');
+  assert.ok(ids.every((id) => /^\d{6}$/.test(id)), 'offer ids keep 6 digits');
+
+  // Comparing markets: identical on the same seed, differences otherwise
+  assert.strictEqual(freightMarket.compare(one.jobs, two.jobs).identical, true);
+  const other = freightMarket.compare(one.jobs, freightMarket.generate(now, 4321).jobs);
+  assert.strictEqual(other.identical, false);
+  const summary = freightMarket.summarize(one.jobs);
+  assert.strictEqual(summary.offers, one.jobs.length);
+  assert.strictEqual(Object.values(summary.byJobType).reduce((x, y) => x + y, 0), one.jobs.length);
+
+  // eslint-disable-next-line no-console
+  console.log('seededRandom tests passed', { offers: summary.offers, fingerprint: summary.fingerprint, otherOffers: other.offers });
+}
+
+if (require.main === module) {
+  runSeededRandomTests();
+}
@@ -0,0 +1,78 @@
+/**
+ * vehicleLeasing.test.ts
+ *
+ * Runner-agnostic checks for lease signing, monthly charges, early returns, buy-outs and
+ * repossession.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/vehicleLeasing.test.ts
+ */
+
+import assert from 'assert';
+import { vehicleLeasing, LEASE_MONTH_DAYS, REPOSSESS_AFTER, RETURN_GRACE_DAYS } from '../vehicleLeasing';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runVehicleLeasingTests
+ * @description Run vehicle leasing assertions and log a summary.
+ */
+export function runVehicleLeasingTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const listing = { id: 'truck-9', brand: 'Volvo', model: 'FL', price: 60000, leaseRate: 800 };
+  const company: any = { id: 'company-1', capital: 10000, trucks: [], trailers: [], activeJobs: [], ledger: [] };
+
+  // Signing charges the first month and adds the truck with its contract
+  assert.strictEqual(vehicleLeasing.quote(listing, 18), null, 'only the offered terms');
+  assert.strictEqual(vehicleLeasing.quote({ ...listing, leaseRate: undefined }, 12), null);
+  const quote = vehicleLeasing.quote(listing, 12);
+  assert.deepStrictEqual([quote?.total, quote?.residualValue], [9600, 51000]);
+  assert.ok(vehicleLeasing.sign({ ...company, capital: 500 }, listing, 12, now).error);
+  const signed = vehicleLeasing.sign(company, { ...listing, purchasePrice: 60000 }, 12, now).company;
+  const truck = signed.trucks[0];
+  assert.strictEqual(signed.capital, 9200);
+  assert.ok(vehicleLeasing.isLeased(truck) && truck.purchasePrice === undefined);
+  assert.strictEqual(truck.lease.nextChargeAt, new Date(addSimDays(now, LEASE_MONTH_DAYS)).toISOString());
+
+  // Months are charged on the company clock; returning early pays half of the unbilled months
+  const twoMonths = vehicleLeasing.processDue(signed, addSimDays(now, 2 * LEASE_MONTH_DAYS)).company;
+  assert.strictEqual(twoMonths.capital, 7600);
+  assert.strictEqual(twoMonths.trucks[0].lease.billedMonths, 3);
+  assert.strictEqual(vehicleLeasing.status(twoMonths.trucks[0])?.returnCost, 9 * 800 * 0.5);
+  assert.ok(vehicleLeasing.buyOut(twoMonths, 'truck-9').error, 'buy-out only at the end of the term');
+  const busy = { ...twoMonths, activeJobs: [{ id: 'job-1', status: 'in-progress', assignedTruck: 'truck-9' }] };
+  assert.ok(vehicleLeasing.returnVehicle(busy, 'truck-9').error, 'not while on a job');
+  const returned = vehicleLeasing.returnVehicle(twoMonths, 'truck-9', now).company;
+  assert.strictEqual(returned.trucks.length, 0);
+  assert.strictEqual(returned.capital, 7600 - 3600);
+
+  // At the end of the term the lease ends without a fee and can be bought out
+  const rich = { ...signed, capital: 100000 };
+  const ended = vehicleLeasing.processDue(rich, addSimDays(now, 12 * LEASE_MONTH_DAYS)).company;
+  const endedStatus = vehicleLeasing.status(ended.trucks[0]);
+  assert.ok(endedStatus?.ended);
+  assert.strictEqual(ended.capital, 100000 - 11 * 800);
+  assert.deepStrictEqual([endedStatus?.returnCost, endedStatus?.buyoutCost], [0, 51000]);
+  const bought = vehicleLeasing.buyOut(ended, 'truck-9', addSimDays(now, 12 * LEASE_MONTH_DAYS)).company;
+  assert.ok(!vehicleLeasing.isLeased(bought.trucks[0]));
+  assert.strictEqual(bought.trucks[0].purchasePrice, 51000);
+  assert.strictEqual(bought.trucks[0].purchasedAt, new Date(addSimDays(now, 12 * LEASE_MONTH_DAYS)).toISOString(), 'depreciates from the buy-out');
+
+  // Undecided vehicles go back to the lessor after the grace period
+  const late = vehicleLeasing.processDue(ended, addSimDays(now, 12 * LEASE_MONTH_DAYS + RETURN_GRACE_DAYS));
+  assert.deepStrictEqual(late.returned, ['truck-9']);
+
+  // Unpaid months become arrears and the lessor repossesses after repeated misses
+  const broke = { ...signed, capital: 0 };
+  const missed = vehicleLeasing.processDue(broke, addSimDays(now, (REPOSSESS_AFTER - 1) * LEASE_MONTH_DAYS));
+  assert.strictEqual(missed.company.trucks[0].lease.arrears, (REPOSSESS_AFTER - 1) * 800);
+  const repossessed = vehicleLeasing.processDue(missed.company, addSimDays(now, REPOSSESS_AFTER * LEASE_MONTH_DAYS));
+  assert.deepStrictEqual(repossessed.repossessed, ['truck-9']);
+  assert.strictEqual(repossessed.company.trucks.length, 0);
+
+  // eslint-disable-next-line no-console
+  console.log('vehicleLeasing tests passed', { quote });
+}
+
+if (require.main === module) {
+  runVehicleLeasingTests();
+}
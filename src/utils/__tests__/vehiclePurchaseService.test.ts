@@ -0,0 +1,64 @@
+/**
+ * vehiclePurchaseService.test.ts
+ *
+ * Runner-agnostic checks for vehicle pricing, delivery ETAs, the capital guard and the
+ * hand-over of purchased vehicles on arrival.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/vehiclePurchaseService.test.ts
+ */
+
+import assert from 'assert';
+import { vehiclePurchaseService, MADE_TO_ORDER_DAYS } from '../vehiclePurchaseService';
+import { processIncomingDeliveries } from '../incomingDeliveryUtils';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runVehiclePurchaseServiceTests
+ * @description Run vehicle purchase assertions and log a summary.
+ */
+export function runVehiclePurchaseServiceTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const hub = { id: 'hub-1', name: 'Rotterdam' };
+  const listing = { id: 'truck-3', brand: 'DAF', model: 'XF', price: 90000, category: 'new', availability: '2-4 weeks' };
+  const used = { ...listing, id: 'truck-4', category: 'used', usedPriceRange: '$18,000 - $23,000' };
+  const company: any = { id: 'company-1', capital: 50000, trucks: [], trailers: [], ledger: [] };
+
+  // Used listings cost the middle of their range; delivery days come from the availability text
+  assert.strictEqual(vehiclePurchaseService.price(used), 20500);
+  assert.strictEqual(vehiclePurchaseService.price(listing), 90000);
+  assert.strictEqual(vehiclePurchaseService.deliveryDays(listing), 28);
+  assert.strictEqual(vehiclePurchaseService.deliveryDays({ availability: '3 days' }), 3);
+  assert.strictEqual(vehiclePurchaseService.deliveryDays({ availability: 'Made to order' }), MADE_TO_ORDER_DAYS);
+  assert.strictEqual(vehiclePurchaseService.deliveryDays({ availability: 'In stock', deliveryDays: 0 }), 0);
+
+  // Insufficient capital leaves the company untouched
+  const refused = vehiclePurchaseService.purchase(company, listing, hub, now);
+  assert.ok(refused.error);
+  assert.strictEqual(refused.company, company);
+
+  // A purchase charges the price and queues the delivery; the fleet is unchanged until arrival
+  const bought = vehiclePurchaseService.purchase(company, used, hub, now);
+  assert.ok(!bought.error && bought.delivery);
+  assert.strictEqual(bought.company.capital, 50000 - 20500);
+  assert.strictEqual(bought.company.ledger.length, 1);
+  assert.strictEqual(bought.company.trucks.length, 0);
+  assert.strictEqual(bought.company.incomingDeliveries.length, 1);
+  assert.strictEqual(bought.delivery?.deliveryEta, new Date(addSimDays(now, 28)).toISOString());
+  assert.strictEqual(company.capital, 50000, 'the input company is not mutated');
+
+  // The vehicle joins the fleet when the ETA passes
+  const early = processIncomingDeliveries(bought.company, addSimDays(now, 27));
+  assert.strictEqual(early.moved.length, 0);
+  const arrived = processIncomingDeliveries(bought.company, addSimDays(now, 28)).updatedCompany;
+  assert.strictEqual(arrived.incomingDeliveries.length, 0);
+  assert.strictEqual(arrived.trucks.length, 1);
+  assert.deepStrictEqual([arrived.trucks[0].purchasePrice, arrived.trucks[0].deliveryHub?.name], [20500, 'Rotterdam']);
+
+  // eslint-disable-next-line no-console
+  console.log('vehiclePurchaseService tests passed', { delivery: bought.delivery?.id });
+}
+
+if (require.main === module) {
+  runVehiclePurchaseServiceTests();
+}
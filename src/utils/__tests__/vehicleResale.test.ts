@@ -0,0 +1,105 @@
+/**
+ * vehicleResale.test.ts
+ *
+ * Runner-agnostic checks for vehicle valuation, dealer trade-ins, used-market listings and the
+ * seller's proceeds.
+ *
+ * Usage:
+ *  - npx ts-node src/utils/__tests__/vehicleResale.test.ts
+ */
+
+import assert from 'assert';
+import { vehicleResale, DEALER_ID, TRADE_IN_SHARE, SIM_YEAR_DAYS } from '../vehicleResale';
+import { vehiclePurchaseService } from '../vehiclePurchaseService';
+import { addSimDays } from '../simulationClock';
+
+/**
+ * runVehicleResaleTests
+ * @description Run vehicle resale assertions and log a summary.
+ */
+export function runVehicleResaleTests() {
+  const now = Date.UTC(2026, 0, 5);
+  const truck = {
+    id: 'truck-1',
+    vehicleKind: 'truck',
+    brand: 'Nobrand',
+    model: 'T1',
+    year: 2026,
+    condition: 100,
+    mileage: 0,
+    purchasePrice: 100000,
+    purchasedAt: new Date(now).toISOString(),
+    assignedTrailer: 'trailer-1',
+    marketEntry: { price: 100000, condition: 100, mileage: 0 }
+  };
+  const trailer = { id: 'trailer-1', vehicleKind: 'trailer', brand: 'Krone', purchasePrice: 30000, assignedTruck: 'truck-1' };
+  const seller: any = { id: 'company-1', name: 'Seller', capital: 0, trucks: [truck], trailers: [trailer], activeJobs: [], ledger: [] };
+  const buyer: any = { id: 'company-2', name: 'Buyer', capital: 200000, trucks: [], trailers: [], activeJobs: [], ledger: [] };
+
+  // Value follows the state since purchase: unchanged when new, lower with age, mileage and wear
+  assert.strictEqual(vehicleResale.value(truck, now), 100000);
+  const aYearLater = addSimDays(now, SIM_YEAR_DAYS);
+  assert.strictEqual(vehicleResale.value(truck, aYearLater), 87000, 'grade B keeps 87% per year');
+  const worn = { ...truck, mileage: 100000, condition: 50 };
+  assert.strictEqual(vehicleResale.value(worn, now), Math.round(100000 * 0.92 * 0.75));
+  const usedBuy = { ...worn, purchasePrice: 40000, marketEntry: { price: 40000, condition: 50, mileage: 100000 } };
+  assert.strictEqual(vehicleResale.value(usedBuy, now), 40000, 'the state at purchase is already priced in');
+  assert.strictEqual(vehicleResale.tradeInValue(truck, now), 100000 * TRADE_IN_SHARE);
+
+  // Vehicles on a job and leased vehicles cannot be sold
+  const busy = { ...seller, activeJobs: [{ id: 'job-1', status: 'in-progress', assignedTruck: 'truck-1' }] };
+  assert.ok(vehicleResale.tradeIn(busy, vehicleResale.create(), 'truck-1', now).error);
+  const leased = { ...seller, trucks: [{ ...truck, lease: { status: 'active' } }] };
+  assert.ok(vehicleResale.list(leased, vehicleResale.create(), 'truck-1', undefined, now).error);
+
+  // Trade-in credits the seller at once; the dealer resells at the value
+  const traded = vehicleResale.tradeIn(seller, vehicleResale.create(), 'truck-1', now);
+  assert.strictEqual(traded.company.capital, 70000);
+  assert.strictEqual(traded.company.trucks.length, 0);
+  assert.strictEqual(traded.company.trailers[0].assignedTruck, null, 'the trailer is unhitched');
+  assert.deepStrictEqual([traded.listing?.sellerId, traded.listing?.price], [DEALER_ID, 100000]);
+
+  // A listing is offered to other companies as a used Vehicle Market entry
+  assert.ok(vehicleResale.list(seller, vehicleResale.create(), 'truck-1', 10000, now).error, 'asking price out of range');
+  const listed = vehicleResale.list(seller, vehicleResale.create(), 'truck-1', 95000, now);
+  assert.strictEqual(listed.company.trucks.length, 0);
+  assert.strictEqual(vehicleResale.available(listed.market, 'company-1').length, 0);
+  const [entry] = vehicleResale.available(listed.market, 'company-2');
+  assert.deepStrictEqual([entry.category, entry.price, entry.vehicleKind], ['used', 95000, 'truck']);
+  assert.strictEqual(vehiclePurchaseService.price(entry), 95000);
+
+  // Withdrawing returns the vehicle
+  const withdrawn = vehicleResale.withdraw(listed.company, listed.market, entry.id);
+  assert.strictEqual(withdrawn.company.trucks.length, 1);
+  assert.strictEqual(withdrawn.market.listings.length, 0);
+
+  // The buyer reserves the listing; the seller collects the price on its next tick
+  assert.ok(vehicleResale.markSold(listed.market, entry.id, 'company-1', now).error, 'not your own vehicle');
+  const bought = vehiclePurchaseService.purchase(buyer, entry, null, now);
+  assert.strictEqual(bought.company.capital, 105000);
+  const sold = vehicleResale.markSold(listed.market, entry.id, 'company-2', now);
+  assert.ok(vehicleResale.markSold(sold.market, entry.id, 'company-3', now).error, 'sold only once');
+  assert.ok(vehicleResale.withdraw(listed.company, sold.market, entry.id).error);
+  const collected = vehicleResale.collect(listed.company, sold.market, now);
+  assert.strictEqual(collected.company.capital, 95000);
+  assert.strictEqual(collected.market.listings.length, 0);
+  assert.strictEqual(vehicleResale.collect(collected.company, collected.market, now).company, collected.company);
+
+  // The buyer pays what the seller collects, even when the catalog specs carry a used price range
+  const catalogTrailer = { ...trailer, assignedTruck: null, specifications: { usedPriceRange: '$18,000 - $23,000' } };
+  const trailerSeller = { ...seller, trucks: [], trailers: [catalogTrailer] };
+  const trailerListed = vehicleResale.list(trailerSeller, vehicleResale.create(), 'trailer-1', 28000, now);
+  const [trailerEntry] = vehicleResale.available(trailerListed.market, 'company-2');
+  const trailerBought = vehiclePurchaseService.purchase(buyer, trailerEntry, null, now);
+  const trailerSold = vehicleResale.markSold(trailerListed.market, trailerEntry.id, 'company-2', now);
+  const trailerCollected = vehicleResale.collect(trailerListed.company, trailerSold.market, now);
+  assert.strictEqual(buyer.capital - trailerBought.company.capital, trailerCollected.credited);
+  assert.strictEqual(trailerCollected.credited, 28000);
+
+  // eslint-disable-next-line no-console
+  console.log('vehicleResale tests passed', { listing: entry.id });
+}
+
+if (require.main === module) {
+  runVehicleResaleTests();
+}
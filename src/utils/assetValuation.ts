@@ -0,0 +1,245 @@
+/**
+ * src/utils/assetValuation.ts
+ *
+ * Purpose:
+ * - Depreciation of owned trucks and trailers: every vehicle class (small / medium / big trucks,
+ *   trailer classes) loses a share of its book value per simulated year (declining balance),
+ *   faster with mileage and when its condition is poor, down to a residual share of its cost.
+ * - Company balance sheet: cash, fleet book value and paid vehicles still in transit against
+ *   the liabilities from leases (unbilled months and arrears) and loans.
+ *
+ * Notes:
+ * - Book values are derived from the vehicle state at a point in time (purchasedAt, mileage,
+ *   condition), so nothing is stored and the value never needs a catch-up tick.
+ * - Book value is the accounting value of an asset; the price a buyer pays on the used market
+ *   is vehicleResale.value.
+ * - Leased vehicles belong to the lessor and are not part of the fleet value.
+ * - Vehicles stored without purchasedAt (starter vehicles, older saves) get the company founding
+ *   date on load (see migratePurchaseDates).
+ */
+
+import { vehicleLeasing } from './vehicleLeasing';
+import { simDaysBetween, toMs } from './simulationClock';
+
+/**
+ * DepreciationClass
+ * @description Depreciation rule of a vehicle class.
+ */
+export interface DepreciationClass {
+  id: string;
+  label: string;
+  /** Book value share lost per simulated year (declining balance) */
+  annualRate: number;
+  /** Extra book value share lost per 100,000 km */
+  mileageRate: number;
+  /** Book value never falls below this share of the cost */
+  residualShare: number;
+}
+
+/**
+ * AssetValue
+ * @description Book value of one fleet vehicle.
+ */
+export interface AssetValue {
+  id: string;
+  kind: 'truck' | 'trailer';
+  label: string;
+  depreciationClass: string;
+  /** Purchase price */
+  cost: number;
+  bookValue: number;
+  /** Cost minus book value */
+  accumulated: number;
+  /** Simulated years since purchase */
+  ageYears: number;
+}
+
+/**
+ * BalanceSheet
+ * @description Company assets, liabilities and equity at a point in time.
+ */
+export interface BalanceSheet {
+  at: string;
+  cash: number;
+  fleetValue: number;
+  /** Paid vehicles not delivered yet (at their price) */
+  inTransit: number;
+  totalAssets: number;
+  leaseLiabilities: number;
+  loanLiabilities: number;
+  totalLiabilities: number;
+  equity: number;
+  assets: AssetValue[];
+}
+
+/** Simulated days per depreciation year */
+export const DEPRECIATION_YEAR_DAYS = 365;
+
+/** Depreciation per truck class */
+export const TRUCK_CLASSES: Record<'small' | 'medium' | 'big', DepreciationClass> = {
+  small: { id: 'truck-small', label: 'Small truck', annualRate: 0.2, mileageRate: 0.08, residualShare: 0.1 },
+  medium: { id: 'truck-medium', label: 'Medium truck', annualRate: 0.17, mileageRate: 0.06, residualShare: 0.12 },
+  big: { id: 'truck-big', label: 'Big truck', annualRate: 0.15, mileageRate: 0.04, residualShare: 0.15 }
+};
+
+/** Depreciation per trailer class, matched on the trailer class name (first match wins) */
+export const TRAILER_CLASSES: Array<{ match: RegExp; rule: DepreciationClass }> = [
+  { match: /reefer|refrigerat/i, rule: { id: 'trailer-reefer', label: 'Reefer trailer', annualRate: 0.14, mileageRate: 0, residualShare: 0.1 } },
+  { match: /tank/i, rule: { id: 'trailer-tanker', label: 'Tanker', annualRate: 0.1, mileageRate: 0, residualShare: 0.15 } },
+  { match: /livestock|car carrier|walking floor|dump|hopper/i, rule: { id: 'trailer-special', label: 'Special trailer', annualRate: 0.12, mileageRate: 0, residualShare: 0.1 } },
+  { match: /lowboy|step deck|flatbed|container|chassis/i, rule: { id: 'trailer-flat', label: 'Flat / heavy-haul trailer', annualRate: 0.08, mileageRate: 0, residualShare: 0.2 } }
+];
+
+/** Depreciation of trailers without a matching class (box, curtainside, ...) */
+export const DEFAULT_TRAILER_CLASS: DepreciationClass = { id: 'trailer-general', label: 'General trailer', annualRate: 0.1, mileageRate: 0, residualShare: 0.15 };
+
+/** Book value share kept at 0% condition (100% condition keeps the full value) */
+export const MIN_CONDITION_FACTOR = 0.7;
+
+/**
+ * AssetValuationService
+ * @description Book values of fleet vehicles and the company balance sheet.
+ */
+class AssetValuationService {
+  /**
+   * truckClass
+   * @description Size class of a truck from truckCategory, else its tonnage.
+   */
+  truckClass(truck: any): 'small' | 'medium' | 'big' {
+    const category = String(truck?.truckCategory ?? '').toLowerCase();
+    if (category === 'small' || category === 'medium' || category === 'big') return category;
+    const tonnage = Number(truck?.tonnage ?? truck?.specifications?.tonnage) || 0;
+    if (tonnage > 0 && tonnage < 7.5) return 'small';
+    if (tonnage >= 7.5 && tonnage <= 12) return 'medium';
+    return 'big';
+  }
+
+  /**
+   * depreciationClass
+   * @description Depreciation rule of a truck or trailer.
+   */
+  depreciationClass(vehicle: any, kind: 'truck' | 'trailer'): DepreciationClass {
+    if (kind === 'truck') return TRUCK_CLASSES[this.truckClass(vehicle)];
+    const name = String(vehicle?.trailerClass ?? vehicle?.type ?? vehicle?.model ?? '');
+    return TRAILER_CLASSES.find((c) => c.match.test(name))?.rule ?? DEFAULT_TRAILER_CLASS;
+  }
+
+  /**
+   * bookValue
+   * @description Book value of a vehicle at `now`: the cost depreciated per simulated year since
+   *              purchase, per 100,000 km driven since purchase and by its condition, never below
+   *              the residual share.
+   */
+  bookValue(vehicle: any, kind: 'truck' | 'trailer', now: number = Date.now()): AssetValue {
+    const rule = this.depreciationClass(vehicle, kind);
+    const cost = Math.round(Number(vehicle?.purchasePrice ?? vehicle?.marketEntry?.price) || 0);
+    const purchased = vehicle?.purchasedAt ? toMs(vehicle.purchasedAt) : NaN;
+    const ageYears = Number.isFinite(purchased) ? Math.max(0, simDaysBetween(purchased, now)) / DEPRECIATION_YEAR_DAYS : 0;
+    const driven = Math.max(0, (Number(vehicle?.mileage) || 0) - (Number(vehicle?.marketEntry?.mileage) || 0));
+    const condition = typeof vehicle?.condition === 'number' ? Math.min(100, Math.max(0, vehicle.condition)) : 100;
+
+    const share = (1 - rule.annualRate) ** ageYears
+      * Math.max(0, 1 - rule.mileageRate * (driven / 100000))
+      * (MIN_CONDITION_FACTOR + (1 - MIN_CONDITION_FACTOR) * (condition / 100));
+    const bookValue = Math.round(cost * Math.max(rule.residualShare, Math.min(1, share)));
+    return {
+      id: String(vehicle?.id),
+      kind,
+      label: [vehicle?.brand, vehicle?.model].filter(Boolean).join(' ') || String(vehicle?.id ?? kind),
+      depreciationClass: rule.label,
+      cost,
+      bookValue,
+      accumulated: cost - bookValue,
+      ageYears: Number(ageYears.toFixed(2))
+    };
+  }
+
+  /**
+   * fleet
+   * @description Book values of the owned trucks and trailers (leased vehicles excluded).
+   */
+  fleet(company: any, now: number = Date.now()): AssetValue[] {
+    const owned = (list: any[]) => (Array.isArray(list) ? list : []).filter((v) => v && !vehicleLeasing.isLeased(v));
+    return [
+      ...owned(company?.trucks).map((t) => this.bookValue(t, 'truck', now)),
+      ...owned(company?.trailers).map((t) => this.bookValue(t, 'trailer', now))
+    ];
+  }
+
+  /**
+   * leaseLiability
+   * @description Lease months not billed yet plus arrears of the company's active leases.
+   */
+  leaseLiability(company: any): number {
+    return [...(company?.trucks || []), ...(company?.trailers || [])].reduce((sum: number, v: any) => {
+      const lease = v?.lease;
+      if (!lease || lease.status !== 'active') return sum;
+      const unbilled = Math.max(0, (Number(lease.termMonths) || 0) - (Number(lease.billedMonths) || 0));
+      return sum + unbilled * (Number(lease.monthlyRate) || 0) + (Number(lease.arrears) || 0);
+    }, 0);
+  }
+
+  /**
+   * loanLiability
+   * @description Outstanding balance and arrears of the company's loans and credit line.
+   */
+  loanLiability(company: any): number {
+    const loans = (Array.isArray(company?.loans) ? company.loans : [])
+      .reduce((sum: number, loan: any) => sum + Math.max(0, Number(loan?.outstanding) || 0) + Math.max(0, Number(loan?.arrears) || 0), 0);
+    const line = company?.creditLine;
+    return loans + Math.max(0, Number(line?.drawn) || 0) + Math.max(0, Number(line?.arrears) || 0);
+  }
+
+  /**
+   * balanceSheet
+   * @description Assets (cash, fleet book value, vehicles in transit), liabilities (leases, loans)
+   *              and equity of the company at `now`.
+   */
+  balanceSheet(company: any, now: number = Date.now()): BalanceSheet {
+    const cash = Math.round(Number(company?.capital) || 0);
+    const assets = this.fleet(company, now);
+    const fleetValue = assets.reduce((sum, a) => sum + a.bookValue, 0);
+    const inTransit = (Array.isArray(company?.incomingDeliveries) ? company.incomingDeliveries : [])
+      .reduce((sum: number, d: any) => sum + (Number(d?.price ?? d?.spec?.purchasePrice) || 0), 0);
+    const leaseLiabilities = this.leaseLiability(company);
+    const loanLiabilities = this.loanLiability(company);
+    const totalAssets = cash + fleetValue + inTransit;
+    const totalLiabilities = leaseLiabilities + loanLiabilities;
+    return {
+      at: new Date(now).toISOString(),
+      cash,
+      fleetValue,
+      inTransit,
+      totalAssets,
+      leaseLiabilities,
+      loanLiabilities,
+      totalLiabilities,
+      equity: totalAssets - totalLiabilities,
+      assets
+    };
+  }
+}
+
+/**
+ * migratePurchaseDates
+ * @description Give fleet vehicles stored without purchasedAt the company founding date (else
+ *              `now`) so they depreciate like bought ones. Returns the company unchanged when
+ *              every vehicle has a purchase date.
+ */
+export function migratePurchaseDates(company: any, now: number = Date.now()): any {
+  if (!company) return company;
+  const founded = toMs(company.founded);
+  const since = new Date(Number.isFinite(founded) ? founded : now).toISOString();
+  const stamp = (list: any) => (Array.isArray(list) && list.some((v) => v && !v.purchasedAt)
+    ? list.map((v: any) => (v && !v.purchasedAt ? { ...v, purchasedAt: since } : v))
+    : list);
+  const trucks = stamp(company.trucks);
+  const trailers = stamp(company.trailers);
+  if (trucks === company.trucks && trailers === company.trailers) return company;
+  return { ...company, trucks, trailers };
+}
+
+/** Export singleton service instance */
+export const assetValuation = new AssetValuationService();
+
+export default assetValuation;
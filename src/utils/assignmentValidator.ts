@@ -0,0 +1,252 @@
+/**
+ * src/utils/assignmentValidator.ts
+ *
+ * Purpose:
+ * - Validate the truck / trailer / driver assignment of a job before it is accepted.
+ * - Rules: the trailer type fits the cargo (isCompatibleCargoTrailer), the truck GCW class can
+ *   pull the trailer tonnage, the load fits the equipment, drivers hold the required licenses
+ *   (hasRequiredLicense), nothing is already booked on another open job and the company
+ *   reputation tier allows the job value (companyReputation).
+ *
+ * Notes:
+ * - Jobs and fleet objects use display names ("Dry Goods", trailerClass "Box Trailer") while the
+ *   compatibility tables are keyed by ids ("dry-goods", "box-trailer"); both are resolved here.
+ * - Small / medium rigid trucks (no GCW class) carry cargo themselves: they are checked against
+ *   their own cargoTypes and capacity and cannot take a trailer.
+ * - Every failed rule is reported so the accept dialog can list them all.
+ */
+
+import {
+  cargoTypes as cargoTypeDefinitions,
+  trailerTypes,
+  isCompatibleCargoTrailer,
+  hasRequiredLicense
+} from './cargoTrailerCompatibility';
+import { getReputation, getReputationTier, requiredReputationForOffer } from './companyReputation';
+
+/**
+ * AssignmentRule
+ * @description Identifier of a validation rule.
+ */
+export type AssignmentRule = 'truck' | 'trailer' | 'cargo' | 'gcw' | 'capacity' | 'driver' | 'license' | 'double-booking' | 'reputation';
+
+/**
+ * AssignmentIssue
+ * @description One failed rule with a user-facing message.
+ */
+export interface AssignmentIssue {
+  rule: AssignmentRule;
+  message: string;
+}
+
+/**
+ * AssignmentInput
+ * @description Fleet and staff ids proposed for a job.
+ */
+export interface AssignmentInput {
+  assignedTruck?: string | null;
+  assignedTrailer?: string | null;
+  assignedDriver?: string | null;
+  assignedCoDriver?: string | null;
+}
+
+/**
+ * AssignmentValidation
+ * @description Validation result; valid when no issue was found.
+ */
+export interface AssignmentValidation {
+  valid: boolean;
+  issues: AssignmentIssue[];
+}
+
+/** Maximum trailer tonnage per truck GCW class ('A' below 16t, 'B' below 26t, 'C' any) */
+export const GCW_TRAILER_LIMITS: Record<'A' | 'B' | 'C', number> = {
+  A: 16,
+  B: 26,
+  C: Infinity
+};
+
+/** Driver skills that grant license endorsements used by hasRequiredLicense */
+const SKILL_LICENSES: Record<string, string[]> = {
+  'ADR Certified': ['ADR'],
+  'Tanker Transport': ['Tanker'],
+  'Oversized Loads': ['CE'],
+  'Heavy Load Handling': ['CE'],
+  'Multi-Axle Experience': ['CE']
+};
+
+const slug = (value: unknown) => String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const isClosed = (job: any) => ['completed', 'cancelled'].includes(String(job?.status));
+
+/**
+ * resolveCargoTypeId
+ * @description Map a cargo display name or id to a cargoTypes id (null when unknown).
+ */
+export function resolveCargoTypeId(cargoType: string): string | null {
+  if (!cargoType) return null;
+  if (cargoTypeDefinitions[cargoType]) return cargoType;
+  const match = Object.values(cargoTypeDefinitions).find((c) => c.name === cargoType || c.id === slug(cargoType));
+  return match ? match.id : null;
+}
+
+/**
+ * resolveTrailerTypeId
+ * @description Map a fleet trailer (trailerClass / type / model) or a trailer name to a trailerTypes id.
+ */
+export function resolveTrailerTypeId(trailer: any): string | null {
+  const candidates: string[] = typeof trailer === 'string'
+    ? [trailer]
+    : [trailer?.trailerType, trailer?.trailerClass, trailer?.type, trailer?.specifications?.capacity, trailer?.model].filter((v) => typeof v === 'string');
+  for (const candidate of candidates) {
+    if (trailerTypes[candidate]) return candidate;
+    const id = slug(candidate);
+    const match = Object.values(trailerTypes).find((t) => t.id === id || t.id === `${id}-trailer` || slug(t.name) === id);
+    if (match) return match.id;
+  }
+  return null;
+}
+
+/**
+ * getTruckGcw
+ * @description GCW class of a truck. Big trucks without an explicit class are treated as 'C';
+ *              small / medium rigid trucks return null (they cannot pull a trailer).
+ */
+export function getTruckGcw(truck: any): 'A' | 'B' | 'C' | null {
+  const gcw = truck?.gcw ?? truck?.specifications?.gcw;
+  if (gcw === 'A' || gcw === 'B' || gcw === 'C') return gcw;
+  return String(truck?.truckCategory ?? '').toLowerCase() === 'big' ? 'C' : null;
+}
+
+/**
+ * parseTonnage
+ * @description Read a tonnage from numbers or strings such as "2 t" / "24t".
+ */
+function parseTonnage(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const match = String(value ?? '').match(/(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : NaN;
+}
+
+/**
+ * getDriverLicenses
+ * @description Licenses held by a driver: explicit staff.licenses plus the basic 'C' license
+ *              and endorsements granted by driver skills.
+ */
+export function getDriverLicenses(staff: any): string[] {
+  const licenses = new Set<string>(Array.isArray(staff?.licenses) ? staff.licenses : []);
+  licenses.add('C');
+  const skills: string[] = [
+    ...(Array.isArray(staff?.skills) ? staff.skills : []),
+    ...(Array.isArray(staff?.skillCards) ? staff.skillCards : [])
+  ];
+  skills.forEach((skill) => (SKILL_LICENSES[skill] || []).forEach((l) => licenses.add(l)));
+  return Array.from(licenses);
+}
+
+/**
+ * findBookingConflict
+ * @description Return the open job (other than the excluded ids) already using a resource.
+ */
+function findBookingConflict(company: any, field: 'truck' | 'trailer' | 'driver', id: string, excludeIds: string[]): any | null {
+  return (company?.activeJobs || []).find((j: any) => {
+    if (!j || isClosed(j) || excludeIds.includes(String(j.id))) return false;
+    if (field === 'truck') return String(j.assignedTruck ?? '') === id;
+    if (field === 'trailer') return String(j.assignedTrailer ?? '') === id;
+    return String(j.assignedDriver ?? '') === id || String(j.assignedCoDriver ?? '') === id;
+  }) ?? null;
+}
+
+/**
+ * validateAssignment
+ * @description Check a proposed assignment for a job against the company fleet and staff.
+ * @param company any company object
+ * @param job job or freight offer (cargoType, weight)
+ * @param assignment proposed ids
+ * @param excludeJobIds jobs ignored by the double-booking rule (e.g. the job being edited)
+ * @returns AssignmentValidation
+ */
+export function validateAssignment(company: any, job: any, assignment: AssignmentInput, excludeJobIds: string[] = []): AssignmentValidation {
+  const issues: AssignmentIssue[] = [];
+  const weight = Math.max(0, Number(job?.weight) || 0);
+  const cargoId = resolveCargoTypeId(job?.cargoType);
+  const cargoName = job?.cargoType || 'cargo';
+
+  const truckId = String(assignment.assignedTruck ?? '');
+  const trailerId = String(assignment.assignedTrailer ?? '');
+  const truck = truckId ? (company?.trucks || []).find((t: any) => String(t?.id) === truckId) : null;
+  const trailer = trailerId ? (company?.trailers || []).find((t: any) => String(t?.id) === trailerId) : null;
+  let trailerTypeId: string | null = null;
+
+  // Truck and trailer
+  if (!truck) {
+    issues.push({ rule: 'truck', message: truckId ? 'The selected truck is not in your fleet.' : 'Assign a truck.' });
+  } else {
+    if (truck.maintenance || truck.status === 'maintenance') {
+      issues.push({ rule: 'truck', message: `${truck.brand ?? ''} ${truck.model ?? ''} is in the workshop for maintenance.`.trim() });
+    }
+    const gcw = getTruckGcw(truck);
+    if (gcw === null) {
+      // Rigid truck: carries the cargo itself
+      if (trailerId) issues.push({ rule: 'trailer', message: `${truck.brand ?? ''} ${truck.model ?? ''} is a rigid truck and cannot pull a trailer.`.trim() });
+      const truckCargo: string[] = truck.specifications?.cargoTypes ?? truck.cargoTypes ?? [];
+      if (Array.isArray(truckCargo) && truckCargo.length > 0 && !truckCargo.includes(job?.cargoType)) {
+        issues.push({ rule: 'cargo', message: `The truck body cannot carry ${cargoName}.` });
+      }
+      const capacity = parseTonnage(truck.specifications?.capacity ?? truck.capacity);
+      if (Number.isFinite(capacity) && weight > capacity) {
+        issues.push({ rule: 'capacity', message: `Load of ${weight}t exceeds the truck capacity of ${capacity}t.` });
+      }
+    } else if (!trailer) {
+      issues.push({ rule: 'trailer', message: trailerId ? 'The selected trailer is not in your fleet.' : 'Assign a trailer.' });
+    } else {
+      trailerTypeId = resolveTrailerTypeId(trailer);
+      if (!cargoId || !trailerTypeId || !isCompatibleCargoTrailer(cargoId, trailerTypeId)) {
+        const trailerName = trailerTypeId ? trailerTypes[trailerTypeId].name : (trailer.trailerClass ?? 'This trailer');
+        issues.push({ rule: 'cargo', message: `${trailerName} is not suitable for ${cargoName}.` });
+      }
+      const trailerTonnage = parseTonnage(trailer.tonnage);
+      if (Number.isFinite(trailerTonnage) && trailerTonnage >= GCW_TRAILER_LIMITS[gcw]) {
+        issues.push({ rule: 'gcw', message: `GCW class ${gcw} truck can only pull trailers below ${GCW_TRAILER_LIMITS[gcw]}t (trailer is ${trailerTonnage}t).` });
+      }
+      if (Number.isFinite(trailerTonnage) && weight > trailerTonnage) {
+        issues.push({ rule: 'capacity', message: `Load of ${weight}t exceeds the trailer capacity of ${trailerTonnage}t.` });
+      }
+    }
+  }
+
+  // Drivers
+  const driverIds = [assignment.assignedDriver, assignment.assignedCoDriver].map((d) => String(d ?? '')).filter(Boolean);
+  if (!assignment.assignedDriver) issues.push({ rule: 'driver', message: 'Assign a driver.' });
+  if (driverIds.length === 2 && driverIds[0] === driverIds[1]) issues.push({ rule: 'driver', message: 'Driver and co-driver must be different people.' });
+  driverIds.forEach((id) => {
+    const staff = (company?.staff || []).find((s: any) => String(s?.id) === id);
+    if (!staff || staff.role !== 'driver') {
+      issues.push({ rule: 'driver', message: 'The selected driver is not one of your drivers.' });
+      return;
+    }
+    if (cargoId && !hasRequiredLicense(getDriverLicenses(staff), cargoId, trailerTypeId ?? '')) {
+      issues.push({ rule: 'license', message: `${staff.name} does not hold the licenses required for ${cargoName}.` });
+    }
+  });
+
+  // Double booking
+  const checks: Array<['truck' | 'trailer' | 'driver', string, string]> = [
+    ['truck', truckId, 'Truck'],
+    ['trailer', trailerId, 'Trailer'],
+    ...driverIds.map((id) => ['driver', id, (company?.staff || []).find((s: any) => String(s?.id) === id)?.name ?? 'Driver'] as ['driver', string, string])
+  ];
+  checks.forEach(([field, id, label]) => {
+    if (!id) return;
+    const conflict = findBookingConflict(company, field, id, excludeJobIds);
+    if (conflict) issues.push({ rule: 'double-booking', message: `${label} is already booked on "${conflict.title ?? conflict.id}".` });
+  });
+
+  // Reputation tier
+  const requiredReputation = requiredReputationForOffer(Number(job?.value) || 0);
+  if (getReputation(company) < requiredReputation) {
+    issues.push({ rule: 'reputation', message: `Jobs of this value require reputation ${requiredReputation} (${getReputationTier(requiredReputation).name}).` });
+  }
+
+  return { valid: issues.length === 0, issues };
+}
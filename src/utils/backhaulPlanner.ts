@@ -0,0 +1,346 @@
+/**
+ * src/utils/backhaulPlanner.ts
+ *
+ * Purpose:
+ * - Return loads for a truck that has delivered: ranks the freight offers near its current
+ *   location by profit per hour, counting the empty kilometres to the pickup.
+ * - Chains offers into a multi-leg itinerary and prices the empty run back to the company hub
+ *   at the end, so itineraries ending near the hub score better.
+ *
+ * Notes:
+ * - A leg is the empty run to the offer origin plus the loaded run. Its hours are driving at the
+ *   truck cruising speed, loading / unloading (jobLifecycleEngine.handlingHours) and the daily
+ *   rests needed once the crew has used its remaining driving hours (hoursOfService).
+ * - Costs are fuel only: loaded kilometres at the truck consumption, empty kilometres at
+ *   EMPTY_CONSUMPTION_SHARE of it, at the diesel price of the leg's start country.
+ * - Offers the crew cannot reach before their deadline, or that the truck / trailer / crew cannot
+ *   carry (validateAssignment; bookings are ignored), are not ranked.
+ * - The planner never accepts anything; legs are accepted through the normal accept flow.
+ */
+
+import { getDistance } from './distanceCalculator';
+import { getCountryCode } from './countryMapping';
+import { validateAssignment, AssignmentInput } from './assignmentValidator';
+import { resolveDeadline } from './jobSettlement';
+import { fuelSystem } from './fuelSystem';
+import { hoursOfService } from './hoursOfService';
+import { jobLifecycleEngine } from './jobLifecycleEngine';
+import { truckDrivingEngine } from './truckDrivingEngine';
+import { addSimHours } from './simulationClock';
+
+/**
+ * BackhaulOption
+ * @description An offer priced as the next leg of a truck.
+ */
+export interface BackhaulOption {
+  offer: any;
+  /** Tonnes carried (capped by the trailer for partial-load offers) */
+  weight: number;
+  revenue: number;
+  /** Empty kilometres to the offer origin */
+  deadheadKm: number;
+  loadedKm: number;
+  /** Fuel for the empty kilometres */
+  emptyCost: number;
+  /** Fuel for the loaded kilometres */
+  fuelCost: number;
+  profit: number;
+  drivingHours: number;
+  restHours: number;
+  hours: number;
+  profitPerHour: number;
+  /** Crew driving hours left after the leg (counting the daily rests taken on it) */
+  remainingHoursAfter: number;
+  /** Kilometres from the offer destination to the hub */
+  homeKm: number | null;
+}
+
+/**
+ * BackhaulItinerary
+ * @description Legs in order with the empty run home.
+ */
+export interface BackhaulItinerary {
+  legs: BackhaulOption[];
+  start: string;
+  end: string;
+  hub: string;
+  /** Kilometres from the last destination to the hub */
+  returnKm: number;
+  returnCost: number;
+  returnHours: number;
+  endsNearHub: boolean;
+  profit: number;
+  hours: number;
+  profitPerHour: number;
+  /** Legs that are no longer valid (offer gone, late or not carriable) */
+  invalid: string[];
+}
+
+/** Largest empty run to a pickup */
+export const MAX_DEADHEAD_KM = 300;
+/** An itinerary ending this close to the hub needs no run home */
+export const HOME_RADIUS_KM = 150;
+/** Most legs of an itinerary */
+export const MAX_ITINERARY_LEGS = 4;
+/** Options returned by rank */
+export const MAX_RANKED_OPTIONS = 20;
+/** Fuel burnt running empty, as a share of the loaded consumption */
+export const EMPTY_CONSUMPTION_SHARE = 0.75;
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+/**
+ * TruckContext
+ * @description Truck, crew and pricing inputs shared by the legs of a plan.
+ */
+interface TruckContext {
+  company: any;
+  truck: any;
+  trailer: any;
+  assignment: AssignmentInput;
+  speedKmh: number;
+  litresPerKm: number;
+  crewSize: number;
+  hub: string;
+}
+
+/**
+ * BackhaulPlanner
+ * @description Ranking of return loads and multi-leg itineraries for one truck.
+ */
+class BackhaulPlanner {
+  /**
+   * currentAssignment
+   * @description Trailer and crew a truck works with: the trailer coupled to it (or of its last
+   *              job) and its assigned drivers (or those of its last job).
+   */
+  currentAssignment(company: any, truckId: string): AssignmentInput {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(truckId));
+    const lastJob = [...(company?.activeJobs || [])].reverse().find((j: any) => String(j?.assignedTruck) === String(truckId));
+    const coupled = (company?.trailers || []).find((t: any) => String(t?.assignedTruck) === String(truckId));
+    const drivers: Array<string | null> = Array.isArray(truck?.assignedDrivers)
+      ? truck.assignedDrivers
+      : [truck?.assignedDriver ?? truck?.driver ?? null, truck?.assignedCoDriver ?? null];
+    return {
+      assignedTruck: truckId,
+      assignedTrailer: coupled?.id ?? lastJob?.assignedTrailer ?? null,
+      assignedDriver: drivers[0] ?? lastJob?.assignedDriver ?? null,
+      assignedCoDriver: drivers[1] ?? (drivers[0] ? null : lastJob?.assignedCoDriver ?? null)
+    };
+  }
+
+  /**
+   * location
+   * @description City a truck stands in (the hub when unknown).
+   */
+  location(company: any, truckId: string): string {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(truckId));
+    return truck?.location || company?.hub?.name || 'Unknown';
+  }
+
+  /**
+   * remainingHours
+   * @description Driving hours the crew has left today at `now` (summed for a two-driver crew,
+   *              who drive in turns).
+   */
+  remainingHours(company: any, assignment: AssignmentInput, now: number = Date.now()): number {
+    const rules = hoursOfService.rules(company);
+    const ids = [assignment.assignedDriver, assignment.assignedCoDriver].filter(Boolean).map(String);
+    if (ids.length === 0) return rules.maxDailyHours;
+    return round2(ids.reduce((sum, id) => {
+      const driver = (company?.staff || []).find((s: any) => String(s?.id) === id);
+      const state = hoursOfService.driverState(driver, now, rules);
+      return sum + Math.max(0, Math.min(rules.maxDailyHours - state.dailyHours, rules.maxWeeklyHours - state.weeklyHours));
+    }, 0));
+  }
+
+  /**
+   * context
+   * @description Truck inputs for an assignment.
+   */
+  private context(company: any, assignment: AssignmentInput): TruckContext {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(assignment.assignedTruck)) ?? null;
+    const trailer = (company?.trailers || []).find((t: any) => String(t?.id) === String(assignment.assignedTrailer)) ?? null;
+    return {
+      company,
+      truck,
+      trailer,
+      assignment,
+      speedKmh: Math.max(1, truckDrivingEngine.getCruisingSpeed(String(assignment.assignedTruck ?? ''), truck)),
+      litresPerKm: fuelSystem.consumption(truck) / 100,
+      crewSize: Math.max(1, [assignment.assignedDriver, assignment.assignedCoDriver].filter(Boolean).length),
+      hub: company?.hub?.name || ''
+    };
+  }
+
+  /**
+   * leg
+   * @description Price an offer as the next leg from `from`, starting at `startAt` with
+   *              `remainingHours` of driving left. Returns null when the leg is not possible.
+   */
+  private leg(ctx: TruckContext, offer: any, from: string, startAt: number, remainingHours: number): BackhaulOption | null {
+    if (!offer?.origin || !offer?.destination) return null;
+    const deadheadKm = from === offer.origin ? 0 : getDistance(from, offer.origin);
+    if (deadheadKm === null || deadheadKm > MAX_DEADHEAD_KM) return null;
+    const loadedKm = Number(offer.distance) || getDistance(offer.origin, offer.destination) || 0;
+
+    const available = Math.max(0, Number(offer.remainingWeight ?? offer.weight) || 0);
+    const capacity = Number(ctx.trailer?.tonnage ?? ctx.trailer?.capacity) || available;
+    const weight = offer.allowPartialLoad ? Math.min(available, capacity) : available;
+    if (weight <= 0) return null;
+    const revenue = Math.round((Number(offer.value) || 0) * (weight / Math.max(1, Number(offer.weight) || weight)));
+
+    const issues = validateAssignment(ctx.company, { cargoType: offer.cargoType, weight, value: revenue }, ctx.assignment)
+      .issues.filter((issue) => issue.rule !== 'double-booking');
+    if (issues.length > 0) return null;
+
+    const rules = hoursOfService.rules(ctx.company);
+    const drivingHours = (deadheadKm + loadedKm) / ctx.speedKmh;
+    const shortfall = Math.max(0, drivingHours - remainingHours);
+    const rests = Math.ceil(shortfall / (rules.maxDailyHours * ctx.crewSize));
+    const restHours = rests * rules.dailyRestHours;
+    const handling = 2 * jobLifecycleEngine.handlingHours(offer.cargoType, weight);
+    const hours = drivingHours + restHours + handling;
+
+    // The load must reach its destination before the offer deadline
+    const deadline = resolveDeadline(offer.deadline, offer.postedAt ?? startAt);
+    if (deadline !== null && addSimHours(startAt, hours) > deadline) return null;
+
+    const price = fuelSystem.priceFor(getCountryCode(from));
+    const emptyCost = Math.round(deadheadKm * ctx.litresPerKm * EMPTY_CONSUMPTION_SHARE * price);
+    const fuelCost = Math.round(loadedKm * ctx.litresPerKm * price);
+    const profit = revenue - emptyCost - fuelCost;
+    const remainingHoursAfter = rests > 0
+      ? Math.max(0, rests * rules.maxDailyHours * ctx.crewSize - shortfall)
+      : remainingHours - drivingHours;
+    return {
+      offer,
+      weight,
+      revenue,
+      deadheadKm: round2(deadheadKm),
+      loadedKm: round2(loadedKm),
+      emptyCost,
+      fuelCost,
+      profit,
+      drivingHours: round2(drivingHours),
+      restHours,
+      hours: round2(hours),
+      profitPerHour: round2(profit / Math.max(0.1, hours)),
+      remainingHoursAfter: round2(remainingHoursAfter),
+      homeKm: ctx.hub ? (offer.destination === ctx.hub ? 0 : getDistance(offer.destination, ctx.hub)) : null
+    };
+  }
+
+  /**
+   * rankFrom
+   * @description Offers priced as the next leg from a city, best profit per hour first.
+   */
+  private rankFrom(ctx: TruckContext, offers: any[], from: string, startAt: number, remainingHours: number, exclude: Set<string>): BackhaulOption[] {
+    // One distance lookup per pickup city
+    const nearby = new Map<string, boolean>();
+    const candidates = (offers || []).filter((offer) => {
+      if (!offer?.origin || exclude.has(String(offer.id))) return false;
+      if (!nearby.has(offer.origin)) {
+        const km = offer.origin === from ? 0 : getDistance(from, offer.origin);
+        nearby.set(offer.origin, km !== null && km <= MAX_DEADHEAD_KM);
+      }
+      return nearby.get(offer.origin);
+    });
+    return candidates
+      .map((offer) => this.leg(ctx, offer, from, startAt, remainingHours))
+      .filter((option): option is BackhaulOption => option !== null && option.profit > 0)
+      .sort((a, b) => b.profitPerHour - a.profitPerHour)
+      .slice(0, MAX_RANKED_OPTIONS);
+  }
+
+  /**
+   * rank
+   * @description Return loads for a truck after the given legs (its current location and crew
+   *              hours when there are none), best profit per hour first.
+   */
+  rank(company: any, offers: any[], assignment: AssignmentInput, legs: any[] = [], now: number = Date.now()): BackhaulOption[] {
+    const ctx = this.context(company, assignment);
+    const plan = this.itinerary(company, legs, assignment, now);
+    const hoursAfter = plan.legs.length > 0 ? plan.legs[plan.legs.length - 1].remainingHoursAfter : this.remainingHours(company, assignment, now);
+    const exclude = new Set(legs.map((offer) => String(offer?.id)));
+    return this.rankFrom(ctx, offers, plan.end, addSimHours(now, plan.hours - plan.returnHours), hoursAfter, exclude);
+  }
+
+  /**
+   * itinerary
+   * @description Price offers as consecutive legs from the truck location, ending with the empty
+   *              run home when the last destination is not near the hub.
+   */
+  itinerary(company: any, offers: any[], assignment: AssignmentInput, now: number = Date.now()): BackhaulItinerary {
+    const ctx = this.context(company, assignment);
+    const start = this.location(company, String(assignment.assignedTruck ?? ''));
+    const legs: BackhaulOption[] = [];
+    const invalid: string[] = [];
+    let at = start;
+    let hours = 0;
+    let remaining = this.remainingHours(company, assignment, now);
+    (offers || []).forEach((offer) => {
+      const leg = this.leg(ctx, offer, at, addSimHours(now, hours), remaining);
+      if (!leg) {
+        invalid.push(String(offer?.id));
+        return;
+      }
+      legs.push(leg);
+      at = offer.destination;
+      hours += leg.hours;
+      remaining = leg.remainingHoursAfter;
+    });
+
+    const homeKm = !ctx.hub || at === ctx.hub ? 0 : getDistance(at, ctx.hub) ?? 0;
+    const endsNearHub = homeKm <= HOME_RADIUS_KM;
+    const returnKm = endsNearHub ? 0 : homeKm;
+    const returnCost = Math.round(returnKm * ctx.litresPerKm * EMPTY_CONSUMPTION_SHARE * fuelSystem.priceFor(getCountryCode(at)));
+    const returnHours = round2(returnKm / ctx.speedKmh);
+    const profit = legs.reduce((sum, leg) => sum + leg.profit, 0) - returnCost;
+    const totalHours = round2(hours + returnHours);
+    return {
+      legs,
+      start,
+      end: at,
+      hub: ctx.hub,
+      returnKm: round2(returnKm),
+      returnCost,
+      returnHours,
+      endsNearHub,
+      profit,
+      hours: totalHours,
+      profitPerHour: round2(profit / Math.max(0.1, totalHours)),
+      invalid
+    };
+  }
+
+  /**
+   * suggest
+   * @description Greedy itinerary: add the ranked leg that most improves the profit per hour of
+   *              the whole trip home, until no leg improves it or MAX_ITINERARY_LEGS is reached.
+   */
+  suggest(company: any, offers: any[], assignment: AssignmentInput, now: number = Date.now()): BackhaulItinerary {
+    let chosen: any[] = [];
+    let best = this.itinerary(company, chosen, assignment, now);
+    while (chosen.length < MAX_ITINERARY_LEGS) {
+      let next: BackhaulItinerary | null = null;
+      let nextOffers = chosen;
+      for (const option of this.rank(company, offers, assignment, chosen, now)) {
+        const plan = this.itinerary(company, [...chosen, option.offer], assignment, now);
+        if (plan.invalid.length === 0 && plan.profitPerHour > (next ?? best).profitPerHour) {
+          next = plan;
+          nextOffers = [...chosen, option.offer];
+        }
+      }
+      if (!next) break;
+      chosen = nextOffers;
+      best = next;
+    }
+    return best;
+  }
+}
+
+/** Export singleton instance */
+export const backhaulPlanner = new BackhaulPlanner();
+
+export default backhaulPlanner;
@@ -0,0 +1,299 @@
+/**
+ * src/utils/borderService.ts
+ *
+ * Purpose:
+ * - Border crossings of road routes (a change of country between two cities, countryMapping):
+ *   customs waiting times per border pair and the customs documents of non-EU crossings.
+ * - Road tolls per country and truck weight class, charged on the kilometres driven in each
+ *   country.
+ * - Estimates for jobs not yet on the road (job value, deadlines, job cards) and the crossings
+ *   of started jobs (jobLifecycleEngine adds the customs waits to the transit time).
+ *
+ * Notes:
+ * - Crossings between two EU countries have no customs stop and need no documents.
+ * - A border on a road leg is placed halfway along the leg; a border on a ferry leg is cleared
+ *   at the arrival port, after the crossing.
+ * - Drivers with the 'International Routes' skill clear customs faster (customs_speed effect).
+ * - Tolls and customs fees are charged with the job settlement (LEDGER_CATEGORIES.TOLLS and
+ *   LEDGER_CATEGORIES.CUSTOMS).
+ */
+
+import { roadRouter, RoutePlan } from './roadRouting';
+import { getCountryCode } from './countryMapping';
+
+/**
+ * TollWeightClass
+ * @description Toll class of a truck.
+ */
+export type TollWeightClass = 'light' | 'medium' | 'heavy';
+
+/**
+ * BorderCrossing
+ * @description Border between two countries on a route.
+ */
+export interface BorderCrossing {
+  /** Last city before the border */
+  from: string;
+  /** First city after the border */
+  to: string;
+  fromCountry: string;
+  toCountry: string;
+  /** Road kilometres driven before the border */
+  roadKmBefore: number;
+  /** Customs waiting time (0 inside the EU) */
+  customsHours: number;
+  /** Customs documents required (empty inside the EU) */
+  documents: string[];
+}
+
+/**
+ * PlannedBorder
+ * @description Border crossing scheduled for a job (stored on job.lifecycle.borders).
+ */
+export interface PlannedBorder extends BorderCrossing {
+  /** Driving hours done when the truck reaches the border */
+  atDrivingHours: number;
+  /** Customs wait of the assigned crew */
+  waitHours: number;
+}
+
+/**
+ * BorderEstimate
+ * @description Borders, customs and tolls of a trip.
+ */
+export interface BorderEstimate {
+  crossings: BorderCrossing[];
+  customsHours: number;
+  documents: string[];
+  documentFee: number;
+  tollCost: number;
+  /** Toll cost per country code */
+  tolls: Record<string, number>;
+}
+
+/** EU member states (customs union: no customs stop between them) */
+export const EU_COUNTRIES = new Set([
+  'at', 'be', 'bg', 'hr', 'cy', 'cz', 'dk', 'ee', 'fi', 'fr', 'de', 'gr', 'hu', 'ie',
+  'it', 'lv', 'lt', 'lu', 'mt', 'nl', 'pl', 'pt', 'ro', 'sk', 'si', 'es', 'se'
+]);
+
+/** Customs wait at a border touching the EU when no border pair is listed (hours) */
+export const DEFAULT_EU_CUSTOMS_HOURS = 2;
+/** Customs wait between two non-EU countries when no border pair is listed (hours) */
+export const DEFAULT_CUSTOMS_HOURS = 3;
+
+/** Customs waits of known border pairs (hours, either direction) */
+export const CUSTOMS_HOURS: Record<string, number> = {
+  'ch|de': 1, 'ch|fr': 1, 'ch|it': 1.5, 'at|ch': 1,
+  'no|se': 0.75, 'fi|no': 0.75,
+  'fr|gb': 2.5, 'gb|nl': 2.5, 'be|gb': 2.5, 'es|gb': 2.5, 'gb|ie': 1.5,
+  'by|pl': 10, 'by|lt': 8, 'by|lv': 7, 'pl|ua': 8, 'hu|ua': 5, 'sk|ua': 6, 'ro|ua': 4,
+  'md|ro': 3, 'md|ua': 2, 'ee|ru': 8, 'fi|ru': 6, 'lv|ru': 8, 'by|ru': 1,
+  'bg|tr': 6, 'gr|tr': 4, 'ge|tr': 5, 'ge|ru': 8, 'ge|az': 3, 'am|ge': 2,
+  'hu|rs': 4, 'hr|rs': 3, 'ba|hr': 2.5, 'hr|me': 2, 'al|gr': 2.5, 'gr|mk': 2, 'bg|mk': 2, 'bg|rs': 3,
+  'al|me': 1.5, 'al|xk': 1, 'rs|xk': 3, 'mk|rs': 2, 'ba|rs': 2, 'me|rs': 1.5,
+  'kz|ru': 6, 'cn|kz': 12, 'kg|kz': 4, 'kz|uz': 5, 'tj|uz': 5, 'tm|uz': 6, 'ir|tr': 8, 'iq|tr': 10,
+  'ae|om': 2, 'ae|sa': 4, 'qa|sa': 4, 'kw|sa': 4, 'jo|sa': 5, 'bh|sa': 3,
+  'in|pk': 12, 'bd|in': 8, 'kh|th': 3, 'la|th': 3, 'my|th': 2, 'my|sg': 1.5, 'cn|vn': 6
+};
+
+/** Customs documents of a crossing into or out of the EU, or between two non-EU countries */
+export const CUSTOMS_DOCUMENTS = ['CMR consignment note', 'Export declaration', 'Transit declaration (T1)'];
+/** Documentation fee per job with customs documents (USD) */
+export const DOCUMENT_FEE_PER_JOB = 120;
+/** Additional documentation fee per non-EU border (USD) */
+export const DOCUMENT_FEE_PER_BORDER = 60;
+/** Customs wait factor of crews with the 'International Routes' skill (15% faster) */
+export const SKILLED_CUSTOMS_FACTOR = 0.85;
+
+/** Heavy-truck road tolls per country (USD per km) */
+export const TOLL_RATES: Record<string, number> = {
+  de: 0.38, at: 0.48, ch: 0.9, fr: 0.24, it: 0.22, es: 0.14, pt: 0.2, be: 0.18, nl: 0.03,
+  lu: 0.03, dk: 0.16, se: 0.03, no: 0.18, pl: 0.12, cz: 0.22, sk: 0.2, hu: 0.26, si: 0.3,
+  hr: 0.16, rs: 0.1, bg: 0.1, ro: 0.06, gr: 0.12, ie: 0.06, gb: 0.02, tr: 0.08,
+  lt: 0.03, lv: 0.03, ee: 0.03, by: 0.14, ru: 0.04, ua: 0.02,
+  jp: 0.6, kr: 0.12, cn: 0.24, in: 0.08, my: 0.06, id: 0.1, ph: 0.08
+};
+/** Heavy-truck road tolls of countries not listed (USD per km) */
+export const DEFAULT_TOLL_RATE = 0.04;
+/** Share of the heavy-truck toll paid per weight class */
+export const TOLL_CLASS_FACTORS: Record<TollWeightClass, number> = {
+  light: 0.4,
+  medium: 0.7,
+  heavy: 1
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * BorderService
+ * @description Border crossings, customs and road tolls.
+ */
+class BorderService {
+  /**
+   * isEu
+   * @description True for EU member states.
+   */
+  isEu(country: string): boolean {
+    return EU_COUNTRIES.has(country);
+  }
+
+  /**
+   * customsHours
+   * @description Customs wait between two countries (0 inside a country or inside the EU).
+   */
+  customsHours(a: string, b: string): number {
+    if (a === b || (this.isEu(a) && this.isEu(b))) return 0;
+    return CUSTOMS_HOURS[pairKey(a, b)] ?? (this.isEu(a) || this.isEu(b) ? DEFAULT_EU_CUSTOMS_HOURS : DEFAULT_CUSTOMS_HOURS);
+  }
+
+  /**
+   * documentsFor
+   * @description Customs documents of a crossing (none inside the EU).
+   */
+  documentsFor(a: string, b: string): string[] {
+    return a === b || (this.isEu(a) && this.isEu(b)) ? [] : [...CUSTOMS_DOCUMENTS];
+  }
+
+  /**
+   * crossingsOn
+   * @description Border crossings of a route, in order.
+   */
+  crossingsOn(route: RoutePlan | null): BorderCrossing[] {
+    const crossings: BorderCrossing[] = [];
+    let roadKm = 0;
+    (route?.legs || []).forEach((leg) => {
+      const legRoadKm = leg.distanceKm - (leg.seaKm ?? 0);
+      const fromCountry = getCountryCode(leg.from);
+      const toCountry = getCountryCode(leg.to);
+      if (fromCountry !== toCountry) {
+        crossings.push({
+          from: leg.from,
+          to: leg.to,
+          fromCountry,
+          toCountry,
+          roadKmBefore: round(roadKm + (leg.seaKm ? 0 : legRoadKm / 2)),
+          customsHours: this.customsHours(fromCountry, toCountry),
+          documents: this.documentsFor(fromCountry, toCountry)
+        });
+      }
+      roadKm += legRoadKm;
+    });
+    return crossings;
+  }
+
+  /**
+   * roadKmByCountry
+   * @description Road kilometres of a route per country code (a leg across a border is split
+   *              halfway).
+   */
+  roadKmByCountry(route: RoutePlan | null): Record<string, number> {
+    const km: Record<string, number> = {};
+    const add = (country: string, value: number) => { km[country] = round((km[country] ?? 0) + value); };
+    (route?.legs || []).forEach((leg) => {
+      const legRoadKm = leg.distanceKm - (leg.seaKm ?? 0);
+      const fromCountry = getCountryCode(leg.from);
+      const toCountry = getCountryCode(leg.to);
+      if (fromCountry === toCountry) {
+        add(fromCountry, legRoadKm);
+      } else {
+        add(fromCountry, legRoadKm / 2);
+        add(toCountry, legRoadKm / 2);
+      }
+    });
+    return km;
+  }
+
+  /**
+   * weightClass
+   * @description Toll class of a truck by payload (up to 7.5 t light, up to 16 t medium),
+   *              heavy with a trailer.
+   */
+  weightClass(truck: any, job?: any): TollWeightClass {
+    if (job?.assignedTrailer) return 'heavy';
+    const capacity = Number(truck?.tonnage ?? truck?.specifications?.capacity);
+    if (!Number.isFinite(capacity) || capacity <= 0) return 'heavy';
+    if (capacity <= 7.5) return 'light';
+    if (capacity <= 16) return 'medium';
+    return 'heavy';
+  }
+
+  /**
+   * tollRate
+   * @description Road toll of a country for a weight class (USD per km).
+   */
+  tollRate(country: string, weightClass: TollWeightClass): number {
+    return (TOLL_RATES[country] ?? DEFAULT_TOLL_RATE) * TOLL_CLASS_FACTORS[weightClass];
+  }
+
+  /**
+   * tolls
+   * @description Toll cost of a route per country code (whole USD).
+   */
+  tolls(route: RoutePlan | null, weightClass: TollWeightClass): Record<string, number> {
+    const tolls: Record<string, number> = {};
+    Object.entries(this.roadKmByCountry(route)).forEach(([country, km]) => {
+      tolls[country] = Math.round(km * this.tollRate(country, weightClass));
+    });
+    return tolls;
+  }
+
+  /**
+   * documentFee
+   * @description Documentation fee of the crossings (0 when no documents are required).
+   */
+  documentFee(crossings: BorderCrossing[]): number {
+    const borders = crossings.filter((c) => c.documents.length > 0).length;
+    return borders > 0 ? DOCUMENT_FEE_PER_JOB + DOCUMENT_FEE_PER_BORDER * borders : 0;
+  }
+
+  /**
+   * customsFactor
+   * @description Customs wait factor of the crew of a job (skilled crews clear customs faster).
+   */
+  customsFactor(company: any, job: any): number {
+    const crew = [job?.assignedDriver, job?.assignedCoDriver].filter(Boolean).map(String);
+    const skilled = (company?.staff || []).some((s: any) =>
+      crew.includes(String(s?.id)) && Array.isArray(s?.skills) && s.skills.includes('International Routes'));
+    return skilled ? SKILLED_CUSTOMS_FACTOR : 1;
+  }
+
+  /**
+   * schedule
+   * @description Customs stops of the crossings for a truck driving at `speedKmh`.
+   */
+  schedule(crossings: BorderCrossing[], speedKmh: number, customsFactor: number = 1): PlannedBorder[] {
+    return crossings.map((crossing) => ({
+      ...crossing,
+      atDrivingHours: round(crossing.roadKmBefore / Math.max(1, speedKmh)),
+      waitHours: round(crossing.customsHours * customsFactor)
+    }));
+  }
+
+  /**
+   * estimateTrip
+   * @description Borders, customs waits, documents and tolls of a job with its assigned truck
+   *              (a heavy truck and an unskilled crew when nothing is assigned yet).
+   */
+  estimateTrip(company: any, job: any): BorderEstimate {
+    const route = roadRouter.route(job?.origin, job?.destination);
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(job?.assignedTruck)) ?? null;
+    const crossings = this.crossingsOn(route);
+    const factor = this.customsFactor(company, job);
+    const tolls = this.tolls(route, truck ? this.weightClass(truck, job) : 'heavy');
+    return {
+      crossings,
+      customsHours: round(crossings.reduce((sum, c) => sum + c.customsHours * factor, 0)),
+      documents: Array.from(new Set(crossings.flatMap((c) => c.documents))),
+      documentFee: this.documentFee(crossings),
+      tollCost: Object.values(tolls).reduce((sum, value) => sum + value, 0),
+      tolls
+    };
+  }
+}
+
+/** Export singleton instance */
+export const borderService = new BorderService();
+
+export default borderService;
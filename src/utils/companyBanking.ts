@@ -0,0 +1,482 @@
+/**
+ * src/utils/companyBanking.ts
+ *
+ * Purpose:
+ * - Company financing: term loans repaid in equal monthly instalments (interest and principal)
+ *   and a revolving credit line that can be drawn and repaid at any time (monthly interest on
+ *   the drawn amount).
+ * - Credit limits depend on the company level, the book value of the owned fleet (collateral,
+ *   see assetValuation) and the payment history; rates depend on the level, the term and the
+ *   payment history.
+ * - Instalments and interest are charged on the simulated calendar (a bank month is 30 simulated
+ *   days). A payment that cannot be made becomes arrears with a late fee, raises the interest
+ *   rate while it stays unpaid and counts against the payment history; repeated misses freeze
+ *   the credit line.
+ *
+ * Notes:
+ * - Loans live on company.loans, the credit line on company.creditLine and the payment history
+ *   on company.creditRecord (see types/game).
+ * - Arrears are collected first on every due date, before the new instalment.
+ * - The service never persists; callers persist the returned company.
+ */
+
+import type { Loan, CreditLine, CreditRecord } from '../types/game';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { assetValuation } from './assetValuation';
+import { addSimDays, toMs } from './simulationClock';
+
+/**
+ * LoanQuote
+ * @description Terms of a loan offer.
+ */
+export interface LoanQuote {
+  amount: number;
+  termMonths: number;
+  annualRate: number;
+  instalment: number;
+  /** Sum of the interest over the term (without late payments) */
+  totalInterest: number;
+}
+
+/**
+ * BankOffer
+ * @description What the bank offers the company now.
+ */
+export interface BankOffer {
+  /** Largest new term loan */
+  loanLimit: number;
+  /** Limit of the credit line (when opened or reviewed now) */
+  creditLineLimit: number;
+  /** Annual rate of a loan per offered term */
+  loanRates: Record<number, number>;
+  creditLineRate: number;
+  /** Multiplier from the payment history (1 for a new customer) */
+  historyFactor: number;
+}
+
+/**
+ * CompanyDebt
+ * @description Outstanding debt of the company.
+ */
+export interface CompanyDebt {
+  loans: number;
+  creditLine: number;
+  arrears: number;
+  total: number;
+}
+
+/**
+ * BankResult
+ * @description Result of a banking action; `error` is set when nothing was changed.
+ */
+export interface BankResult {
+  company: any;
+  loan?: Loan;
+  error?: string;
+}
+
+/** Simulated days per bank month */
+export const BANK_MONTH_DAYS = 30;
+/** Loan terms offered (months) */
+export const LOAN_TERMS = [12, 24, 36, 60];
+/** Smallest loan or credit draw */
+export const MIN_LOAN = 5000;
+/** Base borrowing capacity per company level */
+export const LEVEL_LIMITS: Record<string, number> = { startup: 50000, small: 150000, medium: 400000, large: 1000000, enterprise: 2500000 };
+/** Base annual rate per company level */
+export const LEVEL_RATES: Record<string, number> = { startup: 0.12, small: 0.1, medium: 0.085, large: 0.07, enterprise: 0.06 };
+/** Share of the fleet book value accepted as collateral */
+export const COLLATERAL_SHARE = 0.5;
+/** Share of the borrowing capacity granted as credit line (never more than the capacity left by loans) */
+export const CREDIT_LINE_SHARE = 0.25;
+/** Rate added to the credit line and per 12 months of loan term beyond the first year */
+export const CREDIT_LINE_PREMIUM = 0.03;
+export const TERM_PREMIUM_PER_YEAR = 0.005;
+/** Rate added per missed payment in the history, and the largest surcharge */
+export const HISTORY_RATE_STEP = 0.01;
+export const MAX_HISTORY_SURCHARGE = 0.08;
+/** Late fee as a share of the missed payment */
+export const LATE_FEE_SHARE = 0.05;
+/** Penalty rate added per consecutive missed payment while arrears are open */
+export const PENALTY_RATE = 0.02;
+/** Consecutive missed payments after which the credit line is frozen */
+export const FREEZE_AFTER = 3;
+/** Safety cap on catch-up months charged in one call */
+const MAX_CATCH_UP_MONTHS = 12;
+
+/**
+ * CompanyBankingService
+ * @description Offers, grants, charges and settles company loans and the credit line.
+ */
+class CompanyBankingService {
+  /**
+   * record
+   * @description Payment history of the company (empty for a new customer).
+   */
+  record(company: any): CreditRecord {
+    return { onTimePayments: 0, missedPayments: 0, ...(company?.creditRecord ?? {}) };
+  }
+
+  /**
+   * historyFactor
+   * @description Borrowing capacity multiplier: +2% per payment on time, -20% per missed payment (0.2 - 1.5).
+   */
+  historyFactor(company: any): number {
+    const { onTimePayments, missedPayments } = this.record(company);
+    return Math.min(1.5, Math.max(0.2, 1 + 0.02 * onTimePayments - 0.2 * missedPayments));
+  }
+
+  /**
+   * capacity
+   * @description Total borrowing capacity: level limit plus fleet collateral, scaled by the history.
+   */
+  capacity(company: any, now: number = Date.now()): number {
+    const level = LEVEL_LIMITS[String(company?.level)] ?? LEVEL_LIMITS.startup;
+    const collateral = assetValuation.balanceSheet(company, now).fleetValue * COLLATERAL_SHARE;
+    return Math.round((level + collateral) * this.historyFactor(company));
+  }
+
+  /**
+   * rate
+   * @description Annual rate of a loan term (or of the credit line when termMonths is omitted).
+   */
+  rate(company: any, termMonths?: number): number {
+    const base = LEVEL_RATES[String(company?.level)] ?? LEVEL_RATES.startup;
+    const surcharge = Math.min(MAX_HISTORY_SURCHARGE, HISTORY_RATE_STEP * this.record(company).missedPayments);
+    const premium = termMonths === undefined ? CREDIT_LINE_PREMIUM : TERM_PREMIUM_PER_YEAR * Math.max(0, termMonths / 12 - 1);
+    return Number((base + surcharge + premium).toFixed(4));
+  }
+
+  /**
+   * debt
+   * @description Outstanding loan principal, drawn credit and open arrears.
+   */
+  debt(company: any): CompanyDebt {
+    const loans = (company?.loans || []).filter((l: Loan) => l.status === 'active');
+    const principal = loans.reduce((sum: number, l: Loan) => sum + l.outstanding, 0);
+    const credit = Number(company?.creditLine?.drawn) || 0;
+    const arrears = loans.reduce((sum: number, l: Loan) => sum + l.arrears, 0) + (Number(company?.creditLine?.arrears) || 0);
+    return { loans: principal, creditLine: credit, arrears, total: principal + credit + arrears };
+  }
+
+  /**
+   * creditLineLimit
+   * @description Credit line limit: a share of the borrowing capacity, capped by the capacity
+   *              left after the outstanding loans and arrears.
+   */
+  private creditLineLimit(company: any, capacity: number): number {
+    const debt = this.debt(company);
+    return Math.max(0, Math.round(Math.min(capacity * CREDIT_LINE_SHARE, capacity - debt.loans - debt.arrears)));
+  }
+
+  /**
+   * offer
+   * @description Loan and credit line limits and rates offered to the company now.
+   */
+  offer(company: any, now: number = Date.now()): BankOffer {
+    const capacity = this.capacity(company, now);
+    const creditLineLimit = this.creditLineLimit(company, capacity);
+    const debt = this.debt(company);
+    const reserved = company?.creditLine ? company.creditLine.limit : 0;
+    const loanLimit = Math.max(0, capacity - debt.loans - debt.arrears - reserved);
+    const loanRates: Record<number, number> = {};
+    LOAN_TERMS.forEach((term) => { loanRates[term] = this.rate(company, term); });
+    return { loanLimit, creditLineLimit, loanRates, creditLineRate: this.rate(company), historyFactor: this.historyFactor(company) };
+  }
+
+  /**
+   * quote
+   * @description Annuity terms of a loan (null for an invalid amount or term).
+   */
+  quote(company: any, amount: number, termMonths: number): LoanQuote | null {
+    const principal = Math.round(Number(amount) || 0);
+    if (principal <= 0 || !LOAN_TERMS.includes(termMonths)) return null;
+    const annualRate = this.rate(company, termMonths);
+    const r = annualRate / 12;
+    const instalment = Math.round(r > 0 ? (principal * r) / (1 - (1 + r) ** -termMonths) : principal / termMonths);
+    return { amount: principal, termMonths, annualRate, instalment, totalInterest: Math.max(0, instalment * termMonths - principal) };
+  }
+
+  /**
+   * takeLoan
+   * @description Borrow `amount` over `termMonths`: capital is credited now and the first
+   *              instalment falls due in one bank month.
+   */
+  takeLoan(company: any, amount: number, termMonths: number, now: number = Date.now()): BankResult {
+    if (!company) return { company, error: 'No active company' };
+    const quote = this.quote(company, amount, termMonths);
+    if (!quote) return { company, error: `Choose an amount and a term of ${LOAN_TERMS.join(', ')} months` };
+    if (quote.amount < MIN_LOAN) return { company, error: `The smallest loan is ${MIN_LOAN.toLocaleString()}` };
+    const { loanLimit } = this.offer(company, now);
+    if (quote.amount > loanLimit) return { company, error: `The bank lends at most ${loanLimit.toLocaleString()} now` };
+
+    const loan: Loan = {
+      id: `loan-${now.toString(36)}-${(company.loans || []).length + 1}`,
+      principal: quote.amount,
+      annualRate: quote.annualRate,
+      termMonths,
+      instalment: quote.instalment,
+      outstanding: quote.amount,
+      takenAt: new Date(now).toISOString(),
+      nextDueAt: new Date(addSimDays(now, BANK_MONTH_DAYS)).toISOString(),
+      billedInstalments: 0,
+      missedPayments: 0,
+      arrears: 0,
+      status: 'active'
+    };
+    const credited = postTransaction(company, {
+      type: 'income',
+      category: LEDGER_CATEGORIES.BANK_LOAN,
+      amount: quote.amount,
+      description: `Loan over ${termMonths} months at ${(quote.annualRate * 100).toFixed(1)}%`,
+      reference: loan.id,
+      date: loan.takenAt
+    });
+    return { company: { ...credited, loans: [...(credited.loans || []), loan] }, loan };
+  }
+
+  /**
+   * repayLoan
+   * @description Repay a loan early: the outstanding principal and the arrears, without a fee.
+   */
+  repayLoan(company: any, loanId: string, now: number = Date.now()): BankResult {
+    const loan: Loan | undefined = (company?.loans || []).find((l: Loan) => l.id === loanId && l.status === 'active');
+    if (!loan) return { company, error: 'Loan not found' };
+    const due = loan.outstanding + loan.arrears;
+    if ((Number(company.capital) || 0) < due) return { company, error: `Insufficient funds: ${due.toLocaleString()} required` };
+    const paid = postTransaction(company, {
+      type: 'expense',
+      category: LEDGER_CATEGORIES.BANK_LOAN,
+      amount: due,
+      description: 'Early loan repayment',
+      reference: loan.id,
+      date: new Date(now).toISOString()
+    });
+    const repaid: Loan = { ...loan, outstanding: 0, arrears: 0, missedPayments: 0, nextDueAt: null, status: 'repaid' };
+    return { company: this.replaceLoan(paid, repaid), loan: repaid };
+  }
+
+  /**
+   * openCreditLine
+   * @description Open the credit line at the limit offered now.
+   */
+  openCreditLine(company: any, now: number = Date.now()): BankResult {
+    if (!company) return { company, error: 'No active company' };
+    if (company.creditLine) return { company, error: 'The credit line is already open' };
+    const { creditLineLimit, creditLineRate } = this.offer(company, now);
+    if (creditLineLimit < MIN_LOAN) return { company, error: 'The bank does not offer a credit line now' };
+    const creditLine: CreditLine = {
+      limit: creditLineLimit,
+      drawn: 0,
+      annualRate: creditLineRate,
+      openedAt: new Date(now).toISOString(),
+      nextInterestAt: new Date(addSimDays(now, BANK_MONTH_DAYS)).toISOString(),
+      missedPayments: 0,
+      arrears: 0,
+      frozen: false
+    };
+    return { company: { ...company, creditLine } };
+  }
+
+  /**
+   * drawCredit
+   * @description Draw `amount` from the credit line into capital.
+   */
+  drawCredit(company: any, amount: number, now: number = Date.now()): BankResult {
+    const line: CreditLine | undefined = company?.creditLine;
+    if (!line) return { company, error: 'No credit line' };
+    if (line.frozen) return { company, error: 'The credit line is frozen until the arrears are paid' };
+    const value = Math.round(Number(amount) || 0);
+    if (value <= 0) return { company, error: 'Enter an amount' };
+    if (line.drawn + value > line.limit) return { company, error: `At most ${Math.max(0, line.limit - line.drawn).toLocaleString()} available` };
+    const credited = postTransaction(company, {
+      type: 'income',
+      category: LEDGER_CATEGORIES.BANK_LOAN,
+      amount: value,
+      description: 'Credit line draw',
+      reference: 'credit-line',
+      date: new Date(now).toISOString()
+    });
+    return { company: { ...credited, creditLine: { ...line, drawn: line.drawn + value } } };
+  }
+
+  /**
+   * repayCredit
+   * @description Repay up to `amount` of the credit line (arrears first); paying the arrears unfreezes it.
+   */
+  repayCredit(company: any, amount: number, now: number = Date.now()): BankResult {
+    const line: CreditLine | undefined = company?.creditLine;
+    if (!line) return { company, error: 'No credit line' };
+    const value = Math.min(Math.round(Number(amount) || 0), line.drawn + line.arrears);
+    if (value <= 0) return { company, error: 'Nothing to repay' };
+    if ((Number(company.capital) || 0) < value) return { company, error: 'Insufficient funds' };
+    const toArrears = Math.min(value, line.arrears);
+    const paid = postTransaction(company, {
+      type: 'expense',
+      category: LEDGER_CATEGORIES.BANK_LOAN,
+      amount: value,
+      description: 'Credit line repayment',
+      reference: 'credit-line',
+      date: new Date(now).toISOString()
+    });
+    const arrears = line.arrears - toArrears;
+    return {
+      company: {
+        ...paid,
+        creditLine: {
+          ...line,
+          drawn: line.drawn - (value - toArrears),
+          arrears,
+          missedPayments: arrears > 0 ? line.missedPayments : 0,
+          frozen: arrears > 0 && line.frozen
+        }
+      }
+    };
+  }
+
+  /**
+   * chargeLoan
+   * @description Bill one instalment of a loan at `at`: the arrears and the instalment (interest
+   *              at the loan rate plus the penalty rate while arrears are open) are paid when
+   *              capital allows, otherwise they become arrears with a late fee.
+   */
+  private chargeLoan(company: any, loan: Loan, at: number): { company: any; loan: Loan; onTime: boolean } {
+    const last = loan.billedInstalments + 1 >= loan.termMonths;
+    const rate = loan.annualRate + PENALTY_RATE * loan.missedPayments;
+    const interest = Math.round((loan.outstanding * rate) / 12);
+    const principal = last ? loan.outstanding : Math.min(loan.outstanding, Math.max(0, loan.instalment - interest));
+    const due = interest + principal + loan.arrears;
+    const next: Loan = { ...loan, billedInstalments: loan.billedInstalments + 1, outstanding: loan.outstanding - principal };
+    let updated = company;
+    let onTime = false;
+
+    if (due > 0 && (Number(company.capital) || 0) >= due) {
+      updated = postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.INTEREST,
+        amount: interest,
+        description: `Loan interest ${next.billedInstalments}/${loan.termMonths}`,
+        reference: loan.id,
+        date: new Date(at).toISOString()
+      });
+      updated = postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.BANK_LOAN,
+        amount: principal + loan.arrears,
+        description: `Loan instalment ${next.billedInstalments}/${loan.termMonths}${loan.arrears > 0 ? ' with arrears' : ''}`,
+        reference: loan.id,
+        date: new Date(at).toISOString()
+      });
+      next.arrears = 0;
+      next.missedPayments = 0;
+      onTime = true;
+    } else if (due > 0) {
+      const missed = interest + principal;
+      next.arrears = loan.arrears + missed + Math.round((missed || loan.arrears) * LATE_FEE_SHARE);
+      next.missedPayments = loan.missedPayments + 1;
+    }
+
+    const settled = next.outstanding <= 0 && next.arrears <= 0;
+    next.status = settled ? 'repaid' : 'active';
+    next.nextDueAt = settled ? null : new Date(addSimDays(at, BANK_MONTH_DAYS)).toISOString();
+    return { company: updated, loan: next, onTime };
+  }
+
+  /**
+   * chargeCreditLine
+   * @description Bill one month of credit line interest (with the arrears) at `at`; unpaid
+   *              amounts become arrears with a late fee and repeated misses freeze the line.
+   *              The limit is reviewed every month.
+   */
+  private chargeCreditLine(company: any, line: CreditLine, at: number): { company: any; line: CreditLine; onTime: boolean | null } {
+    const rate = line.annualRate + PENALTY_RATE * line.missedPayments;
+    const interest = Math.round((line.drawn * rate) / 12);
+    const due = interest + line.arrears;
+    const next: CreditLine = { ...line, nextInterestAt: new Date(addSimDays(at, BANK_MONTH_DAYS)).toISOString() };
+    let updated = company;
+    let onTime: boolean | null = null;
+
+    if (due > 0 && (Number(company.capital) || 0) >= due) {
+      updated = postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.INTEREST,
+        amount: due,
+        description: `Credit line interest${line.arrears > 0 ? ' with arrears' : ''}`,
+        reference: 'credit-line',
+        date: new Date(at).toISOString()
+      });
+      next.arrears = 0;
+      next.missedPayments = 0;
+      next.frozen = false;
+      onTime = true;
+    } else if (due > 0) {
+      next.arrears = line.arrears + interest + Math.round((interest || line.arrears) * LATE_FEE_SHARE);
+      next.missedPayments = line.missedPayments + 1;
+      next.frozen = next.missedPayments >= FREEZE_AFTER;
+      onTime = false;
+    }
+    next.limit = this.creditLineLimit(updated, this.capacity(updated, at));
+    return { company: updated, line: next, onTime };
+  }
+
+  /**
+   * processDue
+   * @description Bill the loan instalments and credit line interest that fell due and update
+   *              the payment history.
+   */
+  processDue(company: any, now: number = Date.now()): { company: any; changed: boolean } {
+    if (!company) return { company, changed: false };
+    let updated = company;
+    let changed = false;
+    const history = this.record(company);
+    const count = (onTime: boolean | null) => {
+      if (onTime === true) history.onTimePayments += 1;
+      if (onTime === false) history.missedPayments += 1;
+    };
+
+    (company.loans || []).forEach((original: Loan) => {
+      let loan = original;
+      let runs = 0;
+      while (loan.status === 'active' && loan.nextDueAt && toMs(loan.nextDueAt) <= now && runs < MAX_CATCH_UP_MONTHS) {
+        const charged = this.chargeLoan(updated, loan, toMs(loan.nextDueAt));
+        updated = charged.company;
+        loan = charged.loan;
+        count(charged.onTime);
+        runs++;
+      }
+      if (loan !== original) {
+        updated = this.replaceLoan(updated, loan);
+        changed = true;
+      }
+    });
+
+    let line: CreditLine | undefined = updated.creditLine;
+    let runs = 0;
+    while (line && toMs(line.nextInterestAt) <= now && runs < MAX_CATCH_UP_MONTHS) {
+      const charged = this.chargeCreditLine(updated, line, toMs(line.nextInterestAt));
+      updated = charged.company;
+      line = charged.line;
+      count(charged.onTime);
+      runs++;
+    }
+    if (line && line !== updated.creditLine) {
+      updated = { ...updated, creditLine: line };
+      changed = true;
+    }
+
+    return { company: changed ? { ...updated, creditRecord: history } : updated, changed };
+  }
+
+  /**
+   * replaceLoan
+   * @description Company with the loan replaced by id.
+   */
+  private replaceLoan(company: any, loan: Loan): any {
+    return { ...company, loans: (company.loans || []).map((l: Loan) => (l.id === loan.id ? loan : l)) };
+  }
+}
+
+/** Export singleton service instance */
+export const companyBanking = new CompanyBankingService();
+
+export default companyBanking;
@@ -0,0 +1,221 @@
+/**
+ * src/utils/companyLedger.ts
+ *
+ * Purpose:
+ * - Per-company financial ledger. Every action that moves money in or out of
+ *   company.capital should go through postTransaction so the Finances page can
+ *   derive income, expenses and category breakdowns from real records.
+ *
+ * Notes:
+ * - Ledger entries are stored on the company object (company.ledger) so they are
+ *   persisted together with the rest of the company state by GameContext.
+ * - All functions are pure: they never persist anything and return new objects.
+ *   Callers persist via GameContext.createCompany(updatedCompany) or the inline
+ *   persist blocks inside GameContext.
+ */
+
+import type { FinancialRecord } from '../types/game';
+import { SIM_DAY_MS } from './simulationClock';
+
+/**
+ * LEDGER_CATEGORIES
+ * @description Canonical category labels used for ledger entries.
+ */
+export const LEDGER_CATEGORIES = {
+  JOB_PAYMENT: 'Job Payment',
+  HIRING: 'Hiring Fees',
+  TRAINING: 'Training',
+  STAFF_BENEFITS: 'Staff Benefits',
+  SALARIES: 'Salaries',
+  VEHICLE_PURCHASE: 'Vehicle Purchase',
+  VEHICLE_REFUND: 'Vehicle Refund',
+  VEHICLE_SALE: 'Vehicle Sale',
+  VEHICLE_LEASE: 'Vehicle Lease',
+  BANK_LOAN: 'Bank Loan',
+  INTEREST: 'Interest',
+  MAINTENANCE: 'Maintenance',
+  REPAIRS: 'Repairs',
+  CLAIMS: 'Cargo Claims',
+  FUEL: 'Fuel',
+  TOLLS: 'Tolls',
+  FERRY: 'Ferry Tickets',
+  CUSTOMS: 'Customs Fees',
+  PENALTIES: 'Penalties',
+  CANCELLATION: 'Cancellation Fees',
+  OTHER: 'Other'
+} as const;
+
+export type LedgerCategory = typeof LEDGER_CATEGORIES[keyof typeof LEDGER_CATEGORIES];
+
+/** Maximum number of entries kept per company (oldest entries are dropped first) */
+export const MAX_LEDGER_ENTRIES = 1000;
+
+/**
+ * TransactionInput
+ * @description Input accepted by postTransaction. Amount is always a positive number;
+ *              the direction is given by `type`.
+ */
+export interface TransactionInput {
+  type: 'income' | 'expense';
+  category: LedgerCategory | string;
+  amount: number;
+  description: string;
+  /** Optional id of the related entity (job id, staff id, vehicle id...) */
+  reference?: string;
+  /** Optional ISO timestamp; defaults to now */
+  date?: string;
+}
+
+/**
+ * LedgerSummary
+ * @description Aggregated totals for a set of ledger records.
+ */
+export interface LedgerSummary {
+  income: number;
+  expenses: number;
+  net: number;
+  count: number;
+  byCategory: Array<{ category: string; income: number; expense: number }>;
+}
+
+/**
+ * PeriodComparison
+ * @description Current vs previous period totals with relative change in percent.
+ *              Change values are null when the previous period has no data to compare with.
+ */
+export interface PeriodComparison {
+  periodDays: number;
+  current: LedgerSummary;
+  previous: LedgerSummary;
+  incomeChangePct: number | null;
+  expenseChangePct: number | null;
+  netChangePct: number | null;
+}
+
+/**
+ * getLedger
+ * @description Return the company ledger sorted newest first. Safe for missing/legacy companies.
+ * @param company any company-like object
+ * @returns FinancialRecord[]
+ */
+export function getLedger(company: any): FinancialRecord[] {
+  const records: FinancialRecord[] = Array.isArray(company?.ledger) ? company.ledger : [];
+  return records
+    .filter((r) => r && typeof r.amount === 'number' && (r.type === 'income' || r.type === 'expense'))
+    .slice()
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * postTransaction
+ * @description Apply a money movement to the company: adjust capital and append a ledger record.
+ *              Returns a shallow-copied company; the input is not mutated.
+ *              Zero or invalid amounts return the company unchanged.
+ *
+ * @param company any company object
+ * @param input TransactionInput
+ * @returns any updated company
+ */
+export function postTransaction(company: any, input: TransactionInput): any {
+  if (!company) return company;
+  const amount = Math.round(Math.abs(Number(input.amount) || 0));
+  if (amount === 0) return company;
+
+  const capitalBefore = typeof company.capital === 'number' ? company.capital : Number(company.capital ?? 0);
+  const capitalAfter = input.type === 'income' ? capitalBefore + amount : capitalBefore - amount;
+
+  const record: FinancialRecord = {
+    id: `fin-${Date.now()}-${Math.floor(Math.random() * 100000)}`,
+    date: input.date ?? new Date().toISOString(),
+    type: input.type,
+    category: input.category,
+    amount,
+    description: input.description,
+    reference: input.reference,
+    balanceAfter: capitalAfter
+  };
+
+  const existing: FinancialRecord[] = Array.isArray(company.ledger) ? company.ledger : [];
+  const ledger = [...existing, record].slice(-MAX_LEDGER_ENTRIES);
+
+  return { ...company, capital: capitalAfter, ledger };
+}
+
+/**
+ * postTransactions
+ * @description Convenience wrapper applying several transactions in order.
+ * @param company any company object
+ * @param inputs TransactionInput[]
+ * @returns any updated company
+ */
+export function postTransactions(company: any, inputs: TransactionInput[]): any {
+  return (inputs || []).reduce((acc, input) => postTransaction(acc, input), company);
+}
+
+/**
+ * summarizeLedger
+ * @description Aggregate records (optionally restricted to [from, to)) into totals and per-category sums.
+ * @param records FinancialRecord[]
+ * @param range optional time range in epoch ms
+ * @returns LedgerSummary
+ */
+export function summarizeLedger(records: FinancialRecord[], range?: { from?: number; to?: number }): LedgerSummary {
+  const from = range?.from ?? -Infinity;
+  const to = range?.to ?? Infinity;
+  const categories = new Map<string, { category: string; income: number; expense: number }>();
+
+  let income = 0;
+  let expenses = 0;
+  let count = 0;
+
+  (records || []).forEach((r) => {
+    const ts = new Date(r.date).getTime();
+    if (!Number.isFinite(ts) || ts < from || ts >= to) return;
+    const entry = categories.get(r.category) ?? { category: r.category, income: 0, expense: 0 };
+    if (r.type === 'income') {
+      income += r.amount;
+      entry.income += r.amount;
+    } else {
+      expenses += r.amount;
+      entry.expense += r.amount;
+    }
+    categories.set(r.category, entry);
+    count++;
+  });
+
+  const byCategory = Array.from(categories.values()).sort((a, b) => (b.expense + b.income) - (a.expense + a.income));
+
+  return { income, expenses, net: income - expenses, count, byCategory };
+}
+
+/**
+ * percentChange
+ * @description Relative change from previous to current in percent, null when previous is 0.
+ */
+const percentChange = (current: number, previous: number): number | null => {
+  if (!previous) return null;
+  return Number((((current - previous) / Math.abs(previous)) * 100).toFixed(1));
+};
+
+/**
+ * comparePeriods
+ * @description Compare the last `periodDays` simulated days with the period of equal length before it.
+ * @param records FinancialRecord[]
+ * @param periodDays length of each period in simulated days (e.g. 30 for monthly, see simulationClock)
+ * @param now optional reference time in epoch ms (defaults to Date.now())
+ * @returns PeriodComparison
+ */
+export function comparePeriods(records: FinancialRecord[], periodDays: number, now: number = Date.now()): PeriodComparison {
+  const periodMs = Math.max(1, periodDays) * SIM_DAY_MS;
+  const current = summarizeLedger(records, { from: now - periodMs });
+  const previous = summarizeLedger(records, { from: now - 2 * periodMs, to: now - periodMs });
+
+  return {
+    periodDays,
+    current,
+    previous,
+    incomeChangePct: percentChange(current.income, previous.income),
+    expenseChangePct: percentChange(current.expenses, previous.expenses),
+    netChangePct: percentChange(current.net, previous.net)
+  };
+}
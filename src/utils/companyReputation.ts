@@ -0,0 +1,264 @@
+/**
+ * src/utils/companyReputation.ts
+ *
+ * Purpose:
+ * - Company reputation model (0..100) driven by delivery outcomes.
+ * - On-time deliveries raise the score; late deliveries, cargo damage, cancellations and
+ *   incidents and terminated contracts lower it. Every change is recorded in company.reputationHistory.
+ * - Reputation tiers gate access to higher-value freight offers and contract tiers.
+ *
+ * Notes:
+ * - Functions are pure and return a new company object; callers persist it.
+ * - History is stored oldest first and capped at MAX_REPUTATION_HISTORY entries.
+ * - Saves from before the reputation model stored a forced reputation of 0 without history;
+ *   they are read (and migrated on load, see migrateReputation) as INITIAL_REPUTATION.
+ */
+
+import type { ReputationRecord } from '../types/game';
+
+/** Lowest / highest possible score */
+export const REPUTATION_MIN = 0;
+export const REPUTATION_MAX = 100;
+/** Score of a newly founded company */
+export const INITIAL_REPUTATION = 20;
+/** Maximum number of history entries kept on the company */
+export const MAX_REPUTATION_HISTORY = 200;
+
+/**
+ * Reputation event types (also used as history labels).
+ */
+export const REPUTATION_EVENTS = {
+  ON_TIME_DELIVERY: 'On-time delivery',
+  LATE_DELIVERY: 'Late delivery',
+  CARGO_DAMAGE: 'Cargo damage',
+  CANCELLATION: 'Job cancelled',
+  INCIDENT: 'Incident',
+  CONTRACT_TERMINATED: 'Contract terminated'
+} as const;
+
+export type ReputationEvent = typeof REPUTATION_EVENTS[keyof typeof REPUTATION_EVENTS];
+
+/**
+ * ReputationChangeInput
+ * @description Input for applyReputationChange.
+ */
+export interface ReputationChangeInput {
+  type: ReputationEvent;
+  delta: number;
+  reason: string;
+  reference?: string;
+  date?: string;
+}
+
+/**
+ * ReputationTier
+ * @description Access level unlocked at a minimum score.
+ */
+export interface ReputationTier {
+  id: 'newcomer' | 'established' | 'trusted' | 'premier';
+  name: string;
+  minReputation: number;
+  /** Highest freight offer value that can be accepted */
+  maxOfferValue: number;
+  /** Highest contract tier that can be bid on */
+  maxContractTier: number;
+}
+
+/** Tiers ordered by minimum reputation */
+export const REPUTATION_TIERS: ReputationTier[] = [
+  { id: 'newcomer', name: 'Newcomer', minReputation: 0, maxOfferValue: 6000, maxContractTier: 1 },
+  { id: 'established', name: 'Established', minReputation: 30, maxOfferValue: 12000, maxContractTier: 2 },
+  { id: 'trusted', name: 'Trusted', minReputation: 55, maxOfferValue: 25000, maxContractTier: 3 },
+  { id: 'premier', name: 'Premier', minReputation: 80, maxOfferValue: Infinity, maxContractTier: 4 }
+];
+
+/** Contract value thresholds: contracts below CONTRACT_TIER_LIMITS[i] are tier i + 1 */
+export const CONTRACT_TIER_LIMITS = [100000, 250000, 500000];
+
+/** Score changes per event */
+const ON_TIME_GAIN = 1;
+const LATE_BASE_LOSS = 0.5;
+const LATE_LOSS_PER_HOUR = 0.25;
+const MAX_LATE_LOSS = 5;
+const DAMAGE_LOSS_PER_10_PCT = 1;
+const MAX_DAMAGE_LOSS = 5;
+const CANCELLATION_BASE_LOSS = 2;
+const CANCELLATION_PROGRESS_LOSS = 3;
+const INCIDENT_LOSS: Record<string, number> = { minor: 0.5, major: 1.5, critical: 3 };
+const CONTRACT_TERMINATION_LOSS = 8;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const clamp = (n: number) => Math.max(REPUTATION_MIN, Math.min(REPUTATION_MAX, n));
+
+/**
+ * isLegacyReputation
+ * @description True for a score saved before the reputation model (missing, or the forced 0
+ *              without any recorded change).
+ */
+function isLegacyReputation(company: any): boolean {
+  const value = company?.reputation;
+  if (value === undefined || value === null || !Number.isFinite(Number(value))) return true;
+  return Number(value) === 0 && getReputationHistory(company).length === 0;
+}
+
+/**
+ * getReputation
+ * @description Current company score (INITIAL_REPUTATION when missing or legacy).
+ */
+export function getReputation(company: any): number {
+  return isLegacyReputation(company) ? INITIAL_REPUTATION : clamp(Number(company.reputation));
+}
+
+/**
+ * migrateReputation
+ * @description Company with a legacy score replaced by INITIAL_REPUTATION (same object when
+ *              nothing changes).
+ */
+export function migrateReputation(company: any): any {
+  if (!company || !isLegacyReputation(company)) return company;
+  return { ...company, reputation: INITIAL_REPUTATION };
+}
+
+/**
+ * getReputationHistory
+ * @description Recorded reputation changes, oldest first.
+ */
+export function getReputationHistory(company: any): ReputationRecord[] {
+  return Array.isArray(company?.reputationHistory) ? company.reputationHistory : [];
+}
+
+/**
+ * applyReputationChange
+ * @description Return a new company with the score adjusted (clamped 0..100) and the change
+ *              appended to reputationHistory. A zero delta returns the same object.
+ */
+export function applyReputationChange(company: any, input: ReputationChangeInput): any {
+  const delta = round2(Number(input.delta) || 0);
+  if (!company || delta === 0) return company;
+
+  const scoreAfter = round2(clamp(getReputation(company) + delta));
+  const change: ReputationRecord = {
+    id: `rep-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    date: input.date ?? new Date().toISOString(),
+    type: input.type,
+    delta,
+    reason: input.reason,
+    ...(input.reference ? { reference: input.reference } : {}),
+    scoreAfter
+  };
+
+  return {
+    ...company,
+    reputation: scoreAfter,
+    reputationHistory: [...getReputationHistory(company), change].slice(-MAX_REPUTATION_HISTORY)
+  };
+}
+
+/**
+ * applyReputationChanges
+ * @description Apply several changes in order.
+ */
+export function applyReputationChanges(company: any, inputs: ReputationChangeInput[]): any {
+  return inputs.reduce((acc, input) => applyReputationChange(acc, input), company);
+}
+
+/**
+ * deliveryReputationChanges
+ * @description Changes for a completed delivery: on-time gain or late loss, plus a loss for
+ *              cargo damage (percent of the load damaged).
+ */
+export function deliveryReputationChanges(job: any, hoursLate: number, cargoDamagePct: number = 0): ReputationChangeInput[] {
+  const label = job?.title ?? String(job?.id ?? 'job');
+  const reference = job?.id ? String(job.id) : undefined;
+  const changes: ReputationChangeInput[] = [];
+
+  if (hoursLate > 0) {
+    const loss = Math.min(MAX_LATE_LOSS, LATE_BASE_LOSS + LATE_LOSS_PER_HOUR * hoursLate);
+    changes.push({ type: REPUTATION_EVENTS.LATE_DELIVERY, delta: -loss, reason: `${label} delivered ${hoursLate}h late`, reference });
+  } else {
+    changes.push({ type: REPUTATION_EVENTS.ON_TIME_DELIVERY, delta: ON_TIME_GAIN, reason: `${label} delivered on time`, reference });
+  }
+
+  const damage = Math.max(0, Math.min(100, Number(cargoDamagePct) || 0));
+  if (damage > 0) {
+    const loss = Math.min(MAX_DAMAGE_LOSS, (damage / 10) * DAMAGE_LOSS_PER_10_PCT);
+    changes.push({ type: REPUTATION_EVENTS.CARGO_DAMAGE, delta: -loss, reason: `${Math.round(damage)}% of cargo damaged: ${label}`, reference });
+  }
+
+  return changes;
+}
+
+/**
+ * cancellationReputationChange
+ * @description Loss for cancelling a job; grows with how far the job had progressed.
+ */
+export function cancellationReputationChange(job: any): ReputationChangeInput {
+  const progress = Math.max(0, Math.min(100, Number(job?.progress) || 0));
+  return {
+    type: REPUTATION_EVENTS.CANCELLATION,
+    delta: -(CANCELLATION_BASE_LOSS + (CANCELLATION_PROGRESS_LOSS * progress) / 100),
+    reason: `Cancelled at ${Math.round(progress)}%: ${job?.title ?? job?.id ?? 'job'}`,
+    reference: job?.id ? String(job.id) : undefined
+  };
+}
+
+/**
+ * incidentReputationChange
+ * @description Loss for a road incident by severity ('minor' | 'major' | 'critical').
+ */
+export function incidentReputationChange(severity: string, reason: string, reference?: string): ReputationChangeInput {
+  return {
+    type: REPUTATION_EVENTS.INCIDENT,
+    delta: -(INCIDENT_LOSS[severity] ?? INCIDENT_LOSS.minor),
+    reason,
+    reference
+  };
+}
+
+/**
+ * contractTerminationReputationChange
+ * @description Loss for a long-term contract terminated by its client.
+ */
+export function contractTerminationReputationChange(title: string, reason: string, reference?: string): ReputationChangeInput {
+  return {
+    type: REPUTATION_EVENTS.CONTRACT_TERMINATED,
+    delta: -CONTRACT_TERMINATION_LOSS,
+    reason: `${title} terminated: ${reason}`,
+    reference
+  };
+}
+
+/**
+ * getReputationTier
+ * @description Highest tier unlocked by a score.
+ */
+export function getReputationTier(reputation: number): ReputationTier {
+  return [...REPUTATION_TIERS].reverse().find((t) => reputation >= t.minReputation) ?? REPUTATION_TIERS[0];
+}
+
+/**
+ * requiredReputationForOffer
+ * @description Minimum score needed to accept a freight offer of the given value.
+ */
+export function requiredReputationForOffer(value: number): number {
+  const tier = REPUTATION_TIERS.find((t) => (Number(value) || 0) <= t.maxOfferValue) ?? REPUTATION_TIERS[REPUTATION_TIERS.length - 1];
+  return tier.minReputation;
+}
+
+/**
+ * getContractTier
+ * @description Contract tier (1..4) from the contract value.
+ */
+export function getContractTier(contractValue: number): number {
+  const index = CONTRACT_TIER_LIMITS.findIndex((limit) => (Number(contractValue) || 0) < limit);
+  return index === -1 ? CONTRACT_TIER_LIMITS.length + 1 : index + 1;
+}
+
+/**
+ * requiredReputationForContractTier
+ * @description Minimum score needed to bid on a contract tier.
+ */
+export function requiredReputationForContractTier(tier: number): number {
+  return (REPUTATION_TIERS.find((t) => t.maxContractTier >= tier) ?? REPUTATION_TIERS[REPUTATION_TIERS.length - 1]).minReputation;
+}
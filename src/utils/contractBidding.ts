@@ -0,0 +1,367 @@
+/**
+ * src/utils/contractBidding.ts
+ *
+ * Purpose:
+ * - Rival transport companies competing for contract jobs (ContractJobs page): each rival has a
+ *   fleet size, a cost structure (lowest price it accepts) and a bidding strategy.
+ * - Contracts are reverse auctions: the lowest bid wins. Rivals open with their own price,
+ *   undercut the best bid at timed intervals, react to the player's bids after a delay and
+ *   drop out below their floor price.
+ * - At competition.endTime the contract is awarded to the lowest bidder, or expires without bids.
+ *
+ * Notes:
+ * - Everything is derived from the contract id and the bid history: advance() replays the
+ *   rival bids due between competition.simulatedUntil and `now`, so the result is the same
+ *   however often it runs (page open or closed).
+ * - Contract times are wall-clock ms (contracts run for real days, unlike simulated jobs).
+ * - Rivals only enter contracts their fleet can serve (fleetSize >= requirements.trucks).
+ * - Contracts are stored per hub country and week (contractBoardKey); advanceContractBoards
+ *   replays every stored board so awards happen whether or not the ContractJobs page is open.
+ */
+
+/**
+ * RivalStrategy
+ * @description How a rival bids: aggressive rivals open low, undercut hard and react fast.
+ */
+export type RivalStrategy = 'aggressive' | 'balanced' | 'conservative';
+
+/**
+ * RivalCompany
+ * @description Simulated competitor.
+ */
+export interface RivalCompany {
+  id: string;
+  name: string;
+  fleetSize: number;
+  /** Operating cost as a share of the contract value */
+  costRatio: number;
+  /** Lowest margin over cost the rival accepts */
+  minMargin: number;
+  strategy: RivalStrategy;
+}
+
+/**
+ * ContractBid
+ * @description Entry of contract.bidHistory.
+ */
+export interface ContractBid {
+  companyId: string;
+  companyName: string;
+  bidAmount: number;
+  bidTime: string;
+}
+
+/**
+ * ContractCompetition
+ * @description Competition state stored on contract.competition.
+ */
+export interface ContractCompetition {
+  participants: number;
+  currentBestBid: number | null;
+  endTime: string;
+  status: 'active' | 'awarded' | 'expired';
+  /** Rival ids taking part */
+  rivals?: string[];
+  /** Time (ms) up to which rival bids were replayed */
+  simulatedUntil?: number;
+}
+
+/**
+ * BiddableContract
+ * @description Fields of a contract job used by the bidding engine.
+ */
+export interface BiddableContract {
+  id: string;
+  value: number;
+  budget: number;
+  createdAt: string;
+  requirements?: { trucks?: number };
+  competition: ContractCompetition;
+  awardedTo?: string;
+  bidHistory?: ContractBid[];
+}
+
+/**
+ * StrategyProfile
+ * @description Bidding behaviour of a strategy.
+ */
+interface StrategyProfile {
+  /** Opening bid as a share of the contract value */
+  openingFactor: number;
+  /** Share of the competition time elapsed before the first bid */
+  openingDelay: number;
+  /** Undercut step as a share of the best bid */
+  undercut: number;
+  /** Time between re-bids (ms) */
+  rebidEveryMs: number;
+  /** Delay before answering a player bid (ms) */
+  reactionMs: number;
+  /** Last bid shortly before endTime (ms before the end, 0 for none) */
+  snipeMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const STRATEGY_PROFILES: Record<RivalStrategy, StrategyProfile> = {
+  aggressive: { openingFactor: 0.92, openingDelay: 0.05, undercut: 0.03, rebidEveryMs: 6 * HOUR_MS, reactionMs: 10 * MINUTE_MS, snipeMs: 15 * MINUTE_MS },
+  balanced: { openingFactor: 0.96, openingDelay: 0.2, undercut: 0.02, rebidEveryMs: 12 * HOUR_MS, reactionMs: 45 * MINUTE_MS, snipeMs: 0 },
+  conservative: { openingFactor: 1, openingDelay: 0.5, undercut: 0.01, rebidEveryMs: 24 * HOUR_MS, reactionMs: 3 * HOUR_MS, snipeMs: 0 }
+};
+
+/** Rival companies of the contract market */
+export const RIVAL_COMPANIES: RivalCompany[] = [
+  { id: 'rival-nordfracht', name: 'Nordfracht Logistik', fleetSize: 12, costRatio: 0.68, minMargin: 0.08, strategy: 'balanced' },
+  { id: 'rival-baltic', name: 'Baltic Haulage', fleetSize: 4, costRatio: 0.74, minMargin: 0.05, strategy: 'aggressive' },
+  { id: 'rival-alpina', name: 'Alpina Transporte', fleetSize: 8, costRatio: 0.7, minMargin: 0.12, strategy: 'conservative' },
+  { id: 'rival-trans-iberia', name: 'Trans-Iberia Carga', fleetSize: 6, costRatio: 0.72, minMargin: 0.07, strategy: 'balanced' },
+  { id: 'rival-danube', name: 'Danube Road Freight', fleetSize: 3, costRatio: 0.78, minMargin: 0.04, strategy: 'aggressive' },
+  { id: 'rival-silkway', name: 'Silkway Carriers', fleetSize: 15, costRatio: 0.64, minMargin: 0.1, strategy: 'conservative' },
+  { id: 'rival-eurohaul', name: 'EuroHaul Group', fleetSize: 20, costRatio: 0.62, minMargin: 0.09, strategy: 'balanced' },
+  { id: 'rival-anatolia', name: 'Anatolia Express', fleetSize: 5, costRatio: 0.75, minMargin: 0.06, strategy: 'aggressive' }
+];
+
+/** Most rivals entering one contract */
+export const MAX_RIVALS_PER_CONTRACT = 4;
+
+/**
+ * hashString
+ * @description Stable 32-bit hash of a string (FNV-1a).
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * RivalEvent
+ * @description A moment when a rival reconsiders its bid.
+ */
+interface RivalEvent {
+  at: number;
+  rival: RivalCompany;
+}
+
+/**
+ * ContractBiddingEngine
+ * @description Rival bids and contract awards.
+ */
+class ContractBiddingEngine {
+  /**
+   * rival
+   * @description Rival by id (null when unknown).
+   */
+  rival(id: string): RivalCompany | null {
+    return RIVAL_COMPANIES.find((r) => r.id === id) ?? null;
+  }
+
+  /**
+   * isRival
+   * @description True for bids of rival companies.
+   */
+  isRival(companyId: string): boolean {
+    return this.rival(companyId) !== null;
+  }
+
+  /**
+   * pickRivals
+   * @description Rivals entering a contract (1 to MAX_RIVALS_PER_CONTRACT, chosen by the contract
+   *              id among the rivals whose fleet can serve it).
+   */
+  pickRivals(contract: BiddableContract): RivalCompany[] {
+    const trucks = Math.max(1, Number(contract.requirements?.trucks) || 1);
+    const eligible = RIVAL_COMPANIES.filter((r) => r.fleetSize >= trucks);
+    const hash = hashString(contract.id);
+    const count = Math.min(eligible.length, 1 + (hash % MAX_RIVALS_PER_CONTRACT));
+    return [...eligible]
+      .sort((a, b) => hashString(`${contract.id}|${a.id}`) - hashString(`${contract.id}|${b.id}`))
+      .slice(0, count);
+  }
+
+  /**
+   * floorPrice
+   * @description Lowest bid a rival accepts for a contract: its cost plus its minimum margin.
+   */
+  floorPrice(rival: RivalCompany, contract: BiddableContract): number {
+    return Math.round(contract.value * rival.costRatio * (1 + rival.minMargin));
+  }
+
+  /**
+   * openingBid
+   * @description First bid of a rival (never above the budget nor below its floor).
+   */
+  openingBid(rival: RivalCompany, contract: BiddableContract): number {
+    const opening = Math.round(contract.value * STRATEGY_PROFILES[rival.strategy].openingFactor);
+    return Math.max(this.floorPrice(rival, contract), Math.min(contract.budget || opening, opening));
+  }
+
+  /**
+   * bestBid
+   * @description Lowest bid placed up to `at` (null when none).
+   */
+  bestBid(history: ContractBid[], at: number = Infinity): ContractBid | null {
+    return history
+      .filter((bid) => new Date(bid.bidTime).getTime() <= at)
+      .reduce<ContractBid | null>((best, bid) => (best === null || bid.bidAmount < best.bidAmount ? bid : best), null);
+  }
+
+  /**
+   * events
+   * @description Rival bidding moments in (from, to]: the opening bid, periodic re-bids, the
+   *              reactions to player bids and the last-minute bid of aggressive rivals.
+   */
+  private events(contract: BiddableContract, rivals: RivalCompany[], from: number, to: number): RivalEvent[] {
+    const start = new Date(contract.createdAt).getTime();
+    const end = new Date(contract.competition.endTime).getTime();
+    const playerBids = (contract.bidHistory || [])
+      .filter((bid) => !this.isRival(bid.companyId))
+      .map((bid) => new Date(bid.bidTime).getTime());
+    const events: RivalEvent[] = [];
+    const add = (at: number, rival: RivalCompany) => {
+      if (at > from && at <= to && at < end) events.push({ at, rival });
+    };
+
+    rivals.forEach((rival) => {
+      const profile = STRATEGY_PROFILES[rival.strategy];
+      const jitter = (hashString(`${contract.id}|${rival.id}|t`) % 60) * MINUTE_MS;
+      const opening = start + (end - start) * profile.openingDelay + jitter;
+      for (let at = opening; at < end; at += profile.rebidEveryMs) add(at, rival);
+      playerBids.forEach((at) => add(at + profile.reactionMs + jitter / 10, rival));
+      if (profile.snipeMs > 0) add(end - profile.snipeMs, rival);
+    });
+    return events.sort((a, b) => a.at - b.at || a.rival.id.localeCompare(b.rival.id));
+  }
+
+  /**
+   * advance
+   * @description Replay the rival bids due up to `now` and award or expire the contract once
+   *              its end time has passed. Returns the contract unchanged when nothing happened.
+   */
+  advance<T extends BiddableContract>(contract: T, now: number = Date.now()): T {
+    if (!contract?.competition || contract.competition.status !== 'active') return contract;
+
+    const rivals = contract.competition.rivals
+      ? contract.competition.rivals.map((id) => this.rival(id)).filter((r): r is RivalCompany => r !== null)
+      : this.pickRivals(contract);
+    const end = new Date(contract.competition.endTime).getTime();
+    const from = contract.competition.simulatedUntil ?? new Date(contract.createdAt).getTime();
+    const to = Math.min(now, end);
+    if (to <= from && now < end && contract.competition.rivals) return contract;
+
+    const history: ContractBid[] = [...(contract.bidHistory || [])];
+    this.events(contract, rivals, from, to).forEach(({ at, rival }) => {
+      const best = this.bestBid(history, at);
+      if (best?.companyId === rival.id) return;
+      const amount = best
+        ? Math.round(best.bidAmount * (1 - STRATEGY_PROFILES[rival.strategy].undercut))
+        : this.openingBid(rival, contract);
+      // A rival never bids below its floor price: it drops out of the race instead
+      if (amount < this.floorPrice(rival, contract)) return;
+      history.push({ companyId: rival.id, companyName: rival.name, bidAmount: amount, bidTime: new Date(at).toISOString() });
+    });
+    history.sort((a, b) => new Date(a.bidTime).getTime() - new Date(b.bidTime).getTime());
+
+    const best = this.bestBid(history);
+    const bidders = new Set(history.map((bid) => bid.companyId));
+    rivals.forEach((rival) => bidders.add(rival.id));
+    const competition: ContractCompetition = {
+      ...contract.competition,
+      rivals: rivals.map((r) => r.id),
+      simulatedUntil: to,
+      participants: bidders.size,
+      currentBestBid: best?.bidAmount ?? null
+    };
+
+    if (now >= end) {
+      competition.status = best ? 'awarded' : 'expired';
+      return { ...contract, competition, bidHistory: history, ...(best ? { awardedTo: best.companyId } : {}) };
+    }
+    return { ...contract, competition, bidHistory: history };
+  }
+
+  /**
+   * placeBid
+   * @description Add a company bid at `now` (after replaying the rival bids due before it).
+   *              Bids must undercut the current best bid and stay within the budget.
+   */
+  placeBid<T extends BiddableContract>(
+    contract: T,
+    bid: { companyId: string; companyName: string; amount: number },
+    now: number = Date.now()
+  ): { contract: T; error?: string } {
+    const current = this.advance(contract, now);
+    if (current.competition.status !== 'active') return { contract: current, error: 'Bidding on this contract has closed.' };
+    const amount = Math.round(bid.amount);
+    if (!(amount > 0)) return { contract: current, error: 'Enter a bid amount.' };
+    if (current.budget && amount > current.budget) return { contract: current, error: 'Your bid exceeds the contract budget!' };
+    const best = current.competition.currentBestBid;
+    if (best !== null && amount >= best) {
+      return { contract: current, error: `Your bid must be lower than the current best bid of $${best.toLocaleString()}.` };
+    }
+
+    const history = [...(current.bidHistory || []), { companyId: bid.companyId, companyName: bid.companyName, bidAmount: amount, bidTime: new Date(now).toISOString() }];
+    return {
+      contract: {
+        ...current,
+        bidHistory: history,
+        competition: {
+          ...current.competition,
+          currentBestBid: amount,
+          participants: new Set([...history.map((b) => b.companyId), ...(current.competition.rivals || [])]).size
+        }
+      }
+    };
+  }
+}
+
+/** Export singleton instance */
+export const contractBiddingEngine = new ContractBiddingEngine();
+
+/** localStorage key prefix of the weekly contract boards */
+export const CONTRACT_BOARD_PREFIX = 'tm_contracts_';
+
+/**
+ * contractBoardKey
+ * @description Storage key of the contracts of a hub country generated in the week of `at`.
+ */
+export function contractBoardKey(country: string, at: Date = new Date()): string {
+  const weekStart = new Date(at.getFullYear(), at.getMonth(), at.getDate() - at.getDay());
+  return `${CONTRACT_BOARD_PREFIX}${country}_${weekStart.toISOString().split('T')[0]}`;
+}
+
+/**
+ * advanceContractBoards
+ * @description Advance the contracts of every stored board of a hub country (not only the
+ *              current week's) up to `now`, store the boards that changed and return the
+ *              contracts awarded so far.
+ */
+export function advanceContractBoards(country: string, now: number = Date.now()): BiddableContract[] {
+  const awarded: BiddableContract[] = [];
+  if (!country) return awarded;
+  try {
+    const prefix = `${CONTRACT_BOARD_PREFIX}${country}_`;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) keys.push(key);
+    }
+    keys.forEach((key) => {
+      const data = JSON.parse(localStorage.getItem(key) || 'null');
+      if (!data || !Array.isArray(data.contracts)) return;
+      const contracts: BiddableContract[] = data.contracts.map((contract: BiddableContract) => contractBiddingEngine.advance(contract, now));
+      if (contracts.some((contract, i) => contract !== data.contracts[i])) {
+        localStorage.setItem(key, JSON.stringify({ ...data, contracts }));
+      }
+      awarded.push(...contracts.filter((contract) => contract?.competition?.status === 'awarded'));
+    });
+  } catch (error) {
+    console.error('Error advancing contract boards:', error);
+  }
+  return awarded;
+}
+
+export default contractBiddingEngine;
@@ -0,0 +1,352 @@
+/**
+ * src/utils/contractExecution.ts
+ *
+ * Purpose:
+ * - Runs awarded long-term contracts (ContractJobs won through contractBidding) as recurring
+ *   job schedules: one ActiveJob per operation on the declared frequency for the whole duration.
+ * - Each operation pays its share of the awarded price (job value, settled on delivery like any
+ *   other job) and is counted for the SLA: on time, late or missed.
+ * - The company must keep the committed equipment (trucks, trailers of the contract type and
+ *   drivers). An operation due without it is missed and fined; repeated shortfalls or a poor
+ *   SLA terminate the contract with a penalty and a reputation loss.
+ *
+ * Notes:
+ * - Contracts live on company.serviceContracts. Durations are simulated time: a contract month
+ *   is 30 simulated days; daily / weekly / monthly operations run every 1 / 7 / 30 days.
+ * - Operations go from the hub city to a city of the hub country reachable by road (chosen by
+ *   contract id and operation number) and are dispatched at once when a free truck, trailer and
+ *   driver pass validateAssignment; otherwise they wait in 'preparing' for the player.
+ * - Operations never started before their deadline are cancelled as missed.
+ * - The engine never persists; callers persist the returned company.
+ */
+
+import type { ServiceContract, ServiceContractSla } from '../types/game';
+import { cityMapping, getCountryCode } from './countryMapping';
+import { getDistance } from './distanceCalculator';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { applyReputationChange, contractTerminationReputationChange } from './companyReputation';
+import { validateAssignment, resolveTrailerTypeId } from './assignmentValidator';
+import { resolveDeadline } from './jobSettlement';
+import { addSimDays, toMs } from './simulationClock';
+
+/**
+ * ContractExecutionResult
+ * @description Result of processDue.
+ */
+export interface ContractExecutionResult {
+  company: any;
+  /** Ids of the operation jobs created */
+  spawned: string[];
+  changed: boolean;
+}
+
+/** Simulated days per contract month */
+export const CONTRACT_MONTH_DAYS = 30;
+/** Simulated days between operations per frequency */
+export const OPERATION_INTERVAL_DAYS: Record<ServiceContract['frequency'], number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+/** Fine for an operation due without the committed equipment (share of the operation pay) */
+export const SHORTFALL_PENALTY_PCT = 25;
+/** Fine for an operation never delivered (share of the operation pay) */
+export const MISSED_PENALTY_PCT = 50;
+/** Consecutive shortfalls that terminate a contract */
+export const MAX_CONSECUTIVE_SHORTFALLS = 3;
+/** Lowest on-time share accepted once MIN_SLA_SAMPLE operations were evaluated */
+export const MIN_SLA_COMPLIANCE = 0.6;
+export const MIN_SLA_SAMPLE = 5;
+/** Termination penalty (share of the value of the remaining operations) */
+export const TERMINATION_PENALTY_PCT = 15;
+/** Load of an operation (tonnes) */
+export const OPERATION_WEIGHT_T = 12;
+
+const isClosed = (job: any) => ['completed', 'cancelled'].includes(String(job?.status));
+
+/**
+ * hashString
+ * @description Stable 32-bit hash of a string (FNV-1a).
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * ContractExecutionEngine
+ * @description Recurring operations, SLA tracking and termination of awarded contracts.
+ */
+class ContractExecutionEngine {
+  /** Operations created per contract in one pass (catch-up after a long pause) */
+  readonly MAX_CATCH_UP_OPERATIONS = 10;
+
+  /**
+   * sign
+   * @description Add a contract awarded to the company (no-op when already signed). The first
+   *              operation is due at `now`.
+   */
+  sign(company: any, contract: any, now: number = Date.now()): any {
+    if (!company || !contract?.id) return company;
+    const existing: ServiceContract[] = company.serviceContracts || [];
+    if (existing.some((c) => c.id === contract.id)) return company;
+
+    const requirements = contract.requirements || {};
+    const frequency: ServiceContract['frequency'] = ['daily', 'weekly', 'monthly'].includes(requirements.frequency) ? requirements.frequency : 'weekly';
+    const durationMonths = Math.max(1, Number(requirements.duration) || 1);
+    const operations = Math.max(1, Math.floor((durationMonths * CONTRACT_MONTH_DAYS) / OPERATION_INTERVAL_DAYS[frequency]));
+    const price = Math.max(0, Math.round(Number(contract.competition?.currentBestBid ?? contract.value) || 0));
+    const equipment = requirements.equipmentRequired || {};
+
+    const signed: ServiceContract = {
+      id: String(contract.id),
+      title: contract.title || 'Service contract',
+      provider: contract.provider || 'Client',
+      frequency,
+      durationMonths,
+      cargoType: requirements.cargoDescription || 'Dry Goods',
+      trailerType: requirements.trailerType || 'box-trailer',
+      committed: {
+        trucks: Math.max(1, Number(equipment.trucks ?? requirements.trucks) || 1),
+        trailers: Math.max(0, Number(equipment.trailers ?? requirements.trucks) || 0),
+        drivers: Math.max(1, Number(equipment.drivers ?? requirements.drivers) || 1)
+      },
+      price,
+      operations,
+      perOperation: Math.round(price / operations),
+      signedAt: new Date(now).toISOString(),
+      endsAt: new Date(addSimDays(now, durationMonths * CONTRACT_MONTH_DAYS)).toISOString(),
+      nextOperationAt: new Date(now).toISOString(),
+      spawned: 0,
+      status: 'active',
+      sla: { due: 0, onTime: 0, late: 0, missed: 0, consecutiveShortfalls: 0, penalties: 0 }
+    };
+    return { ...company, serviceContracts: [...existing, signed] };
+  }
+
+  /**
+   * signAwarded
+   * @description Sign the contracts awarded to the company that are not signed yet.
+   */
+  signAwarded(company: any, contracts: Array<{ id: string; awardedTo?: string }>, now: number = Date.now()): any {
+    if (!company?.id) return company;
+    return contracts
+      .filter((contract) => contract.awardedTo === company.id)
+      .reduce((current, contract) => this.sign(current, contract, now), company);
+  }
+
+  /**
+   * compliance
+   * @description On-time share of the evaluated operations (1 before any was evaluated).
+   */
+  compliance(sla: ServiceContractSla): number {
+    const evaluated = sla.onTime + sla.late + sla.missed;
+    return evaluated > 0 ? sla.onTime / evaluated : 1;
+  }
+
+  /**
+   * shortfall
+   * @description Committed equipment the company is missing for a contract (null when complete).
+   */
+  shortfall(company: any, contract: ServiceContract): string | null {
+    const trucks = (company?.trucks || []).length;
+    const trailers = (company?.trailers || []).filter((t: any) => resolveTrailerTypeId(t) === contract.trailerType).length;
+    const drivers = (company?.staff || []).filter((s: any) => s?.role === 'driver').length;
+    const missing: string[] = [];
+    if (trucks < contract.committed.trucks) missing.push(`${contract.committed.trucks - trucks} truck(s)`);
+    if (trailers < contract.committed.trailers) missing.push(`${contract.committed.trailers - trailers} ${contract.trailerType}(s)`);
+    if (drivers < contract.committed.drivers) missing.push(`${contract.committed.drivers - drivers} driver(s)`);
+    return missing.length > 0 ? missing.join(', ') : null;
+  }
+
+  /**
+   * destinationFor
+   * @description Delivery city of an operation: a city of the hub country reachable by road.
+   */
+  destinationFor(company: any, contract: ServiceContract, operation: number): { city: string; distance: number } | null {
+    const hub = company?.hub?.name;
+    if (!hub) return null;
+    const country = getCountryCode(hub);
+    const candidates = Object.keys(cityMapping)
+      .filter((city) => city !== hub && cityMapping[city].countryCode === country)
+      .sort()
+      .map((city) => ({ city, distance: getDistance(hub, city) }))
+      .filter((c): c is { city: string; distance: number } => typeof c.distance === 'number' && c.distance > 0);
+    if (candidates.length === 0) return null;
+    return candidates[hashString(`${contract.id}|${operation}`) % candidates.length];
+  }
+
+  /**
+   * dispatch
+   * @description First free truck / trailer / driver that can run an operation (null when none).
+   */
+  dispatch(company: any, job: any, contract: ServiceContract): { assignedTruck: string; assignedTrailer: string; assignedDriver: string } | null {
+    // The contract tier was checked when bidding, so the operation value is not
+    const candidate = { ...job, value: 0 };
+    const trailers = (company?.trailers || []).filter((t: any) => resolveTrailerTypeId(t) === contract.trailerType);
+    const drivers = (company?.staff || []).filter((s: any) => s?.role === 'driver');
+    for (const truck of company?.trucks || []) {
+      for (const trailer of [...trailers, null]) {
+        for (const driver of drivers) {
+          const assignment = { assignedTruck: String(truck.id), assignedTrailer: trailer ? String(trailer.id) : '', assignedDriver: String(driver.id) };
+          if (validateAssignment(company, candidate, assignment).valid) return assignment;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * penalize
+   * @description Charge a contract penalty and add it to the SLA totals.
+   */
+  private penalize(company: any, contract: ServiceContract, amount: number, reason: string, now: number): any {
+    if (amount <= 0) return company;
+    contract.sla.penalties += amount;
+    return postTransaction(company, {
+      type: 'expense',
+      category: LEDGER_CATEGORIES.PENALTIES,
+      amount,
+      description: `${contract.title}: ${reason}`,
+      reference: contract.id,
+      date: new Date(now).toISOString()
+    });
+  }
+
+  /**
+   * processDue
+   * @description Evaluate delivered and missed operations, create the operations that fell due
+   *              and complete or terminate contracts.
+   */
+  processDue(company: any, now: number = Date.now()): ContractExecutionResult {
+    const contracts: ServiceContract[] = company?.serviceContracts || [];
+    if (!contracts.some((c) => c.status === 'active')) return { company, spawned: [], changed: false };
+
+    let updated = { ...company, activeJobs: [...(company.activeJobs || [])] };
+    const spawned: string[] = [];
+    let changed = false;
+
+    const serviceContracts = contracts.map((original) => {
+      if (original.status !== 'active') return original;
+      const contract: ServiceContract = { ...original, sla: { ...original.sla } };
+
+      // SLA of the operations delivered, cancelled or never started since the last pass
+      const missed: any[] = [];
+      updated.activeJobs = updated.activeJobs.map((job: any) => {
+        if (job?.contractId !== contract.id || job.slaCounted) return job;
+        if (job.status === 'completed') {
+          if ((Number(job.settlement?.hoursLate) || 0) > 0) contract.sla.late += 1;
+          else contract.sla.onTime += 1;
+          changed = true;
+          return { ...job, slaCounted: true };
+        }
+        const deadline = resolveDeadline(job.deadline, job.startTime);
+        const expired = job.status === 'preparing' && deadline !== null && now > deadline;
+        if (job.status === 'cancelled' || expired) {
+          contract.sla.missed += 1;
+          missed.push(job);
+          changed = true;
+          return { ...job, status: 'cancelled', slaCounted: true };
+        }
+        return job;
+      });
+      missed.forEach((job) => {
+        updated = this.penalize(updated, contract, Math.round((contract.perOperation * MISSED_PENALTY_PCT) / 100), `operation ${job.contractOperation} missed`, now);
+      });
+
+      // Operations due: a job when the committed equipment is there, a fine otherwise
+      let next = toMs(contract.nextOperationAt);
+      let created = 0;
+      while (next <= now && contract.spawned < contract.operations && created < this.MAX_CATCH_UP_OPERATIONS) {
+        const operation = contract.spawned + 1;
+        contract.spawned = operation;
+        contract.sla.due += 1;
+        created += 1;
+        changed = true;
+        next = addSimDays(next, OPERATION_INTERVAL_DAYS[contract.frequency]);
+
+        const missing = this.shortfall(updated, contract);
+        const destination = missing ? null : this.destinationFor(updated, contract, operation);
+        if (missing || !destination) {
+          contract.sla.missed += 1;
+          contract.sla.consecutiveShortfalls += 1;
+          updated = this.penalize(
+            updated, contract, Math.round((contract.perOperation * SHORTFALL_PENALTY_PCT) / 100),
+            `operation ${operation} missed (${missing ? `missing ${missing}` : 'no delivery route'})`, now
+          );
+          if (contract.sla.consecutiveShortfalls >= MAX_CONSECUTIVE_SHORTFALLS) break;
+          continue;
+        }
+        contract.sla.consecutiveShortfalls = 0;
+
+        const startedAt = new Date(now);
+        const job: any = {
+          id: `job-${contract.id}-${operation}`,
+          title: `${contract.title} #${operation}`,
+          contractId: contract.id,
+          contractOperation: operation,
+          assignedTruck: '',
+          assignedTrailer: '',
+          assignedDriver: '',
+          startTime: startedAt,
+          estimatedCompletion: new Date(addSimDays(now, OPERATION_INTERVAL_DAYS[contract.frequency])),
+          progress: 0,
+          currentLocation: updated.hub?.name || 'Unknown',
+          status: 'preparing',
+          value: contract.perOperation,
+          distance: destination.distance,
+          origin: updated.hub?.name || 'Unknown',
+          destination: destination.city,
+          deadline: `${Math.max(12, Math.ceil(destination.distance / 60) + 8)}h`,
+          cargoType: contract.cargoType,
+          trailerType: contract.trailerType,
+          weight: OPERATION_WEIGHT_T
+        };
+        const crew = this.dispatch(updated, job, contract);
+        updated.activeJobs = [...updated.activeJobs, crew ? { ...job, ...crew, status: 'picking-up' } : job];
+        spawned.push(job.id);
+      }
+      contract.nextOperationAt = new Date(next).toISOString();
+
+      // Termination for repeated shortfalls or a poor SLA
+      const evaluated = contract.sla.onTime + contract.sla.late + contract.sla.missed;
+      const reason = contract.sla.consecutiveShortfalls >= MAX_CONSECUTIVE_SHORTFALLS
+        ? `${MAX_CONSECUTIVE_SHORTFALLS} operations in a row without the committed equipment`
+        : evaluated >= MIN_SLA_SAMPLE && this.compliance(contract.sla) < MIN_SLA_COMPLIANCE
+        ? `SLA compliance ${Math.round(this.compliance(contract.sla) * 100)}% below ${MIN_SLA_COMPLIANCE * 100}%`
+        : null;
+      if (reason) {
+        const remaining = Math.max(0, contract.operations - contract.spawned) * contract.perOperation;
+        updated = this.penalize(updated, contract, Math.round((remaining * TERMINATION_PENALTY_PCT) / 100), `terminated (${reason})`, now);
+        updated = applyReputationChange(updated, {
+          ...contractTerminationReputationChange(contract.title, reason, contract.id),
+          date: new Date(now).toISOString()
+        });
+        updated.activeJobs = (updated.activeJobs || []).map((job: any) =>
+          job?.contractId === contract.id && job.status === 'preparing' ? { ...job, status: 'cancelled', slaCounted: true } : job);
+        changed = true;
+        return { ...contract, status: 'terminated' as const, terminationReason: reason };
+      }
+
+      // Completed once every operation was created and none is still open
+      const open = updated.activeJobs.some((job: any) => job?.contractId === contract.id && !isClosed(job));
+      if (contract.spawned >= contract.operations && !open) {
+        changed = true;
+        return { ...contract, status: 'completed' as const };
+      }
+      return contract;
+    });
+
+    if (!changed) return { company, spawned: [], changed: false };
+    return { company: { ...updated, serviceContracts }, spawned, changed };
+  }
+}
+
+/** Export singleton instance */
+export const contractExecutionEngine = new ContractExecutionEngine();
+
+export default contractExecutionEngine;
@@ -939,6 +939,90 @@ export const cityMapping: Record<string, CityInfo> = {
   'Vadodara': { name: 'Vadodara', countryCode: 'in', countryName: 'India' },
   'Ludhiana': { name: 'Ludhiana', countryCode: 'in', countryName: 'India' },
 
+// Ireland
+  'Dublin': { name: 'Dublin', countryCode: 'ie', countryName: 'Ireland' },
+  'Cork': { name: 'Cork', countryCode: 'ie', countryName: 'Ireland' },
+  'Limerick': { name: 'Limerick', countryCode: 'ie', countryName: 'Ireland' },
+  'Galway': { name: 'Galway', countryCode: 'ie', countryName: 'Ireland' },
+  'Waterford': { name: 'Waterford', countryCode: 'ie', countryName: 'Ireland' },
+  'Drogheda': { name: 'Drogheda', countryCode: 'ie', countryName: 'Ireland' },
+  'Dundalk': { name: 'Dundalk', countryCode: 'ie', countryName: 'Ireland' },
+  'Bray': { name: 'Bray', countryCode: 'ie', countryName: 'Ireland' },
+  'Navan': { name: 'Navan', countryCode: 'ie', countryName: 'Ireland' },
+  'Ennis': { name: 'Ennis', countryCode: 'ie', countryName: 'Ireland' },
+
+// Cyprus
+  'Nicosia': { name: 'Nicosia', countryCode: 'cy', countryName: 'Cyprus' },
+  'Limassol': { name: 'Limassol', countryCode: 'cy', countryName: 'Cyprus' },
+  'Larnaca': { name: 'Larnaca', countryCode: 'cy', countryName: 'Cyprus' },
+  'Famagusta': { name: 'Famagusta', countryCode: 'cy', countryName: 'Cyprus' },
+  'Paphos': { name: 'Paphos', countryCode: 'cy', countryName: 'Cyprus' },
+  'Kyrenia': { name: 'Kyrenia', countryCode: 'cy', countryName: 'Cyprus' },
+  'Protaras': { name: 'Protaras', countryCode: 'cy', countryName: 'Cyprus' },
+  'Morphou': { name: 'Morphou', countryCode: 'cy', countryName: 'Cyprus' },
+  'Aradhippou': { name: 'Aradhippou', countryCode: 'cy', countryName: 'Cyprus' },
+  'Paralimni': { name: 'Paralimni', countryCode: 'cy', countryName: 'Cyprus' },
+
+// Greece (islands)
+  'Heraklion': { name: 'Heraklion', countryCode: 'gr', countryName: 'Greece' },
+  'Rhodes': { name: 'Rhodes', countryCode: 'gr', countryName: 'Greece' },
+  'Chania': { name: 'Chania', countryCode: 'gr', countryName: 'Greece' },
+
+// Malaysia (Klang Valley)
+  'Shah Alam': { name: 'Shah Alam', countryCode: 'my', countryName: 'Malaysia' },
+  'Petaling Jaya': { name: 'Petaling Jaya', countryCode: 'my', countryName: 'Malaysia' },
+
+// Qatar (Doha area)
+  'Al Rayyan': { name: 'Al Rayyan', countryCode: 'qa', countryName: 'Qatar' },
+  'Umm Salal': { name: 'Umm Salal', countryCode: 'qa', countryName: 'Qatar' },
+  'Al Wakrah': { name: 'Al Wakrah', countryCode: 'qa', countryName: 'Qatar' },
+
+// Indonesia
+  'Jakarta': { name: 'Jakarta', countryCode: 'id', countryName: 'Indonesia' },
+  'Surabaya': { name: 'Surabaya', countryCode: 'id', countryName: 'Indonesia' },
+  'Bandung': { name: 'Bandung', countryCode: 'id', countryName: 'Indonesia' },
+  'Medan': { name: 'Medan', countryCode: 'id', countryName: 'Indonesia' },
+  'Semarang': { name: 'Semarang', countryCode: 'id', countryName: 'Indonesia' },
+  'Makassar': { name: 'Makassar', countryCode: 'id', countryName: 'Indonesia' },
+  'Palembang': { name: 'Palembang', countryCode: 'id', countryName: 'Indonesia' },
+  'Depok': { name: 'Depok', countryCode: 'id', countryName: 'Indonesia' },
+  'Tangerang': { name: 'Tangerang', countryCode: 'id', countryName: 'Indonesia' },
+  'Bekasi': { name: 'Bekasi', countryCode: 'id', countryName: 'Indonesia' },
+
+// Philippines
+  'Manila': { name: 'Manila', countryCode: 'ph', countryName: 'Philippines' },
+  'Quezon City': { name: 'Quezon City', countryCode: 'ph', countryName: 'Philippines' },
+  'Davao City': { name: 'Davao City', countryCode: 'ph', countryName: 'Philippines' },
+  'Caloocan': { name: 'Caloocan', countryCode: 'ph', countryName: 'Philippines' },
+  'Cebu City': { name: 'Cebu City', countryCode: 'ph', countryName: 'Philippines' },
+  'Zamboanga City': { name: 'Zamboanga City', countryCode: 'ph', countryName: 'Philippines' },
+  'Taguig': { name: 'Taguig', countryCode: 'ph', countryName: 'Philippines' },
+  'Antipolo': { name: 'Antipolo', countryCode: 'ph', countryName: 'Philippines' },
+  'Pasig': { name: 'Pasig', countryCode: 'ph', countryName: 'Philippines' },
+  'Cagayan de Oro': { name: 'Cagayan de Oro', countryCode: 'ph', countryName: 'Philippines' },
+
+// Japan
+  'Tokyo': { name: 'Tokyo', countryCode: 'jp', countryName: 'Japan' },
+  'Yokohama': { name: 'Yokohama', countryCode: 'jp', countryName: 'Japan' },
+  'Osaka': { name: 'Osaka', countryCode: 'jp', countryName: 'Japan' },
+  'Nagoya': { name: 'Nagoya', countryCode: 'jp', countryName: 'Japan' },
+  'Sapporo': { name: 'Sapporo', countryCode: 'jp', countryName: 'Japan' },
+  'Fukuoka': { name: 'Fukuoka', countryCode: 'jp', countryName: 'Japan' },
+  'Kobe': { name: 'Kobe', countryCode: 'jp', countryName: 'Japan' },
+  'Kyoto': { name: 'Kyoto', countryCode: 'jp', countryName: 'Japan' },
+  'Kawasaki': { name: 'Kawasaki', countryCode: 'jp', countryName: 'Japan' },
+  'Saitama': { name: 'Saitama', countryCode: 'jp', countryName: 'Japan' },
+  'Hiroshima': { name: 'Hiroshima', countryCode: 'jp', countryName: 'Japan' },
+  'Sendai': { name: 'Sendai', countryCode: 'jp', countryName: 'Japan' },
+  'Kitakyushu': { name: 'Kitakyushu', countryCode: 'jp', countryName: 'Japan' },
+  'Chiba': { name: 'Chiba', countryCode: 'jp', countryName: 'Japan' },
+  'Sakai': { name: 'Sakai', countryCode: 'jp', countryName: 'Japan' },
+  'Niigata': { name: 'Niigata', countryCode: 'jp', countryName: 'Japan' },
+  'Hamamatsu': { name: 'Hamamatsu', countryCode: 'jp', countryName: 'Japan' },
+  'Shizuoka': { name: 'Shizuoka', countryCode: 'jp', countryName: 'Japan' },
+  'Okayama': { name: 'Okayama', countryCode: 'jp', countryName: 'Japan' },
+  'Kumamoto': { name: 'Kumamoto', countryCode: 'jp', countryName: 'Japan' },
+
 };
 
 /**
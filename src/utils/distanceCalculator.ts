@@ -2,11 +2,15 @@
  * Distance calculator utility with Haversine formula, pre-computed JSON, and optional Google Maps integration.
  *
  * Strategy (production-friendly, fast, and accurate):
- * 1) Pre-computed JSON matrix (distances.json) for instant lookup when available.
- * 2) Haversine straight-line distance if both cities have coordinates.
- * 3) Estimation fallback if unknown.
- * 4) Optional: Google Maps (Distance Matrix) to fetch precise driving distance on demand.
- *    - Results are cached in localStorage with TTL and reused synchronously by getDistance.
+ * 1) Pre-computed driving-distance matrix (distances.json), built offline from the road graph by
+ *    scripts/build-distances.ts for every city pair; no network needed.
+ * 2) Road graph routing (roadRouting.ts) for cities missing from the matrix or when the matrix
+ *    is outdated, so distances match the routes trucks drive and the map draws.
+ * 3) Haversine straight-line distance if both cities have coordinates (no road between them).
+ * 4) Estimation fallback if unknown.
+ * 5) Optional: Google Maps (Distance Matrix) to fetch precise driving distance on demand.
+ *    - Results are cached in localStorage with TTL and reused synchronously by getDistance
+ *      for pairs outside the matrix.
  *
  * Notes:
  * - We DO NOT hardcode API keys. If you want online driving distances:
@@ -17,20 +21,18 @@
  */
 
 import { cityCoords, hasCoordinates } from './distance-scaffold';
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore - esbuild supports JSON import; this is a plain object of city->city->km
+import { roadRouter } from './roadRouting';
+import { createMatrixLookup, DistanceMatrixFile } from './distanceMatrix';
 import distancesData from './distances.json';
 
-/**
- * Shape for the distance matrix loaded from JSON.
- */
-type DistanceMatrix = Record<string, Record<string, number>>;
+/** Built-in distance matrix (see distanceMatrix.ts for the file format) */
+const distanceMatrixFile: DistanceMatrixFile = distancesData;
 
 /**
- * Merge built-in JSON distances into a working matrix.
- * You can extend distances.json offline using your generator script to cover more cities.
+ * Lookup over the built-in distance matrix (null when distances.json is outdated).
+ * Rebuild distances.json offline with scripts/build-distances.ts to cover more cities.
  */
-const distanceMatrix: DistanceMatrix = distancesData as DistanceMatrix;
+const matrixDistance = createMatrixLookup(distanceMatrixFile);
 
 /**
  * Config options for optional online distance fetching.
@@ -313,8 +315,10 @@ async function getDrivingDistanceViaRest(
  * Get distance between two cities in kilometers (synchronous).
  *
  * Resolution order:
+ * - If present in the precomputed matrix (distances.json) -> return it (null when no road
+ *   connects the cities or the route is too long).
  * - If a cached online (driving) distance exists and is fresh -> use it for best realism.
- * - If present in precomputed distances.json -> return it.
+ * - If both cities are connected in the road graph -> shortest road route distance.
  * - If both cities have coordinates -> Haversine straight-line distance.
  * - Otherwise -> estimate across categories.
  * 
@@ -328,23 +332,22 @@ export function getDistance(fromCity: string, toCity: string): number | null {
     return Math.floor(Math.random() * 28) + 5; // 5-32km
   }
 
-  // 0) Cached online driving distance (if previously warmed).
+  // 1) Pre-computed driving-distance matrix (distances.json).
+  const matrixKm = matrixDistance ? matrixDistance(fromCity, toCity) : undefined;
+  if (matrixKm !== undefined) return matrixKm;
+
+  // 2) Cached online driving distance (if previously warmed).
   const cached = getCachedDrivingDistance(fromCity, toCity);
   if (cached != null) return cached <= 3500 ? cached : null;
 
-  // 1) Check direct distance in pre-computed matrix (distances.json).
-  if (distanceMatrix[fromCity] && distanceMatrix[fromCity][toCity] != null) {
-    const distance = distanceMatrix[fromCity][toCity];
-    return distance <= 3500 ? distance : null;
-  }
-
-  // 2) Check reverse distance
-  if (distanceMatrix[toCity] && distanceMatrix[toCity][fromCity] != null) {
-    const distance = distanceMatrix[toCity][fromCity];
-    return distance <= 3500 ? distance : null;
+  // 3) Shortest route over the road graph.
+  const roadKm = roadRouter.distancesFrom(fromCity).get(toCity);
+  if (roadKm != null) {
+    const rounded = round1(roadKm);
+    return rounded <= 3500 ? rounded : null;
   }
 
-  // 3) Try Haversine calculation if both cities have coordinates
+  // 4) Try Haversine calculation if both cities have coordinates
   if (hasCoordinates(fromCity) && hasCoordinates(toCity)) {
     const coords1 = cityCoords[fromCity];
     const coords2 = cityCoords[toCity];
@@ -353,16 +356,31 @@ export function getDistance(fromCity: string, toCity: string): number | null {
     return rounded <= 3500 ? rounded : null;
   }
 
-  // 4) Estimate distance based on region heuristics
+  // 5) Estimate distance based on region heuristics
   const estimated = estimateDistance(fromCity, toCity);
   return estimated <= 3500 ? estimated : null;
 }
 
+/**
+ * Stable fraction in [0, 1) for an unordered city pair (FNV-1a hash).
+ */
+function pairFraction(fromCity: string, toCity: string): number {
+  const key = [fromCity, toCity].sort().join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
 /**
  * Estimate distance between cities when exact data is not available.
- * Simple heuristic with three buckets to retain gameplay pacing.
+ * Simple heuristic with three buckets to retain gameplay pacing. The position within a bucket
+ * comes from the city pair, so a pair always gets the same estimate (reproducible markets).
  */
 function estimateDistance(fromCity: string, toCity: string): number {
+  const spread = pairFraction(fromCity, toCity);
   const germanCities = [
     'Frankfurt', 'Berlin', 'Munich', 'Hamburg', 'Cologne', 'Stuttgart', 'Düsseldorf', 'Dortmund', 'Leipzig', 'Bremen',
     'Dresden', 'Hanover', 'Nuremberg', 'Mannheim', 'Karlsruhe', 'Wiesbaden', 'Münster', 'Augsburg', 'Aachen', 'Braunschweig',
@@ -374,32 +392,24 @@ function estimateDistance(fromCity: string, toCity: string): number {
 
   // Both cities in Germany - estimate 200-600km
   if (fromIsGerman && toIsGerman) {
-    return Math.floor(Math.random() * 400) + 200;
+    return Math.floor(spread * 400) + 200;
   }
 
   // One city in Germany, other international - estimate 400-1200km
   if (fromIsGerman || toIsGerman) {
-    return Math.floor(Math.random() * 800) + 400;
+    return Math.floor(spread * 800) + 400;
   }
 
   // Both cities international - estimate 800-2000km
-  return Math.floor(Math.random() * 1200) + 800;
+  return Math.floor(spread * 1200) + 800;
 }
 
 /**
  * Get all available cities with distance data (union of known coords + JSON matrix).
  */
 export function getAvailableCities(): string[] {
-  const fromCoords = Object.keys(cityCoords);
-  const fromMatrix = Object.keys(distanceMatrix);
-  const all = new Set<string>([...fromCoords, ...fromMatrix]);
-
-  // Also include any destinations inside the JSON matrix values
-  for (const k of fromMatrix) {
-    for (const dest of Object.keys(distanceMatrix[k] || {})) {
-      all.add(dest);
-    }
-  }
+  const fromMatrix: string[] = matrixDistance ? distanceMatrixFile.cities : [];
+  const all = new Set<string>([...Object.keys(cityCoords), ...fromMatrix]);
   return Array.from(all).sort();
 }
 
@@ -409,12 +419,7 @@ export function getAvailableCities(): string[] {
 export function cityExists(city: string): boolean {
   if (!city) return false;
   if (city in cityCoords) return true;
-  if (distanceMatrix[city]) return true;
-  // Scan destinations once
-  for (const src in distanceMatrix) {
-    if (distanceMatrix[src] && city in distanceMatrix[src]) return true;
-  }
-  return false;
+  return matrixDistance ? matrixDistance(city, city) !== undefined : false;
 }
 
 /**
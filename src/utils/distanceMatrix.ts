@@ -0,0 +1,147 @@
+/**
+ * src/utils/distanceMatrix.ts
+ *
+ * Purpose:
+ * - Offline driving-distance matrix for every city pair in cityCoords (src/utils/distances.json).
+ * - buildDistanceMatrix() computes the matrix from the road graph (roadRouting: regional winding
+ *   factors, landmasses, sea crossings and closed borders) and reports the coverage gaps.
+ * - createMatrixLookup() reads a matrix file for getDistance, so distances never need the network.
+ *
+ * Notes:
+ * - distances.json is generated by scripts/build-distances.ts; do not edit it by hand.
+ * - The file is versioned: `version` is the file format and `graphVersion` the road graph rules
+ *   (ROAD_GRAPH_VERSION) it was built from. A file with another version is ignored and
+ *   getDistance falls back to the live road graph until the matrix is rebuilt.
+ * - Distances are symmetric, so only the upper triangle is stored: rows[i][j - i - 1] is the
+ *   distance between cities[i] and cities[j] (j > i), null when no road connects them or the
+ *   distance exceeds MAX_MATRIX_KM.
+ */
+
+import { cityCoords } from './distance-scaffold';
+import { roadRouter, ROAD_GRAPH_VERSION } from './roadRouting';
+
+/** Format version of distances.json */
+export const DISTANCE_MATRIX_VERSION = 2;
+
+/** Longest distance stored (getDistance treats longer routes as unrealistic) */
+export const MAX_MATRIX_KM = 3500;
+
+/**
+ * DistanceMatrixFile
+ * @description Contents of distances.json.
+ */
+export interface DistanceMatrixFile {
+  version: number;
+  graphVersion: number;
+  generatedAt: string;
+  cities: string[];
+  rows: Array<Array<number | null>>;
+}
+
+/**
+ * CoverageReport
+ * @description Coverage of a built matrix.
+ */
+export interface CoverageReport {
+  cities: number;
+  pairs: number;
+  /** Pairs with a stored distance */
+  covered: number;
+  /** Pairs without any road between them */
+  unreachable: number;
+  /** Pairs connected by road but longer than MAX_MATRIX_KM */
+  overMaxKm: number;
+  /** Groups of cities cut off from the main road network (largest first) */
+  isolatedGroups: string[][];
+}
+
+/**
+ * MatrixLookup
+ * @description Distance between two cities from a matrix: km, null when the pair is stored
+ *              without a distance, undefined when a city is not in the matrix.
+ */
+export type MatrixLookup = (from: string, to: string) => number | null | undefined;
+
+/**
+ * buildDistanceMatrix
+ * @description Compute the matrix for the given cities (default: every city with coordinates).
+ */
+export function buildDistanceMatrix(
+  cities: string[] = Object.keys(cityCoords).sort(),
+  generatedAt: string = new Date().toISOString().split('T')[0]
+): { file: DistanceMatrixFile; report: CoverageReport } {
+  let covered = 0;
+  let unreachable = 0;
+  let overMaxKm = 0;
+
+  const rows = cities.map((from, i) => {
+    const distances = roadRouter.distancesFrom(from);
+    return cities.slice(i + 1).map((to) => {
+      const km = distances.get(to);
+      if (km == null) {
+        unreachable += 1;
+        return null;
+      }
+      const rounded = Math.round(km * 10) / 10;
+      if (rounded > MAX_MATRIX_KM) {
+        overMaxKm += 1;
+        return null;
+      }
+      covered += 1;
+      return rounded;
+    });
+  });
+
+  // Connected groups: every city outside the largest one is a coverage gap
+  const groups: string[][] = [];
+  const seen = new Set<string>();
+  cities.forEach((city) => {
+    if (seen.has(city)) return;
+    const reachable = cities.filter((other) => other === city || roadRouter.distancesFrom(city).has(other));
+    reachable.forEach((other) => seen.add(other));
+    groups.push(reachable);
+  });
+  groups.sort((a, b) => b.length - a.length);
+
+  return {
+    file: { version: DISTANCE_MATRIX_VERSION, graphVersion: ROAD_GRAPH_VERSION, generatedAt, cities, rows },
+    report: {
+      cities: cities.length,
+      pairs: (cities.length * (cities.length - 1)) / 2,
+      covered,
+      unreachable,
+      overMaxKm,
+      isolatedGroups: groups.slice(1)
+    }
+  };
+}
+
+/**
+ * isCurrentMatrix
+ * @description True when a matrix file has the current format and road graph version.
+ */
+export function isCurrentMatrix(file: any): file is DistanceMatrixFile {
+  return (
+    file?.version === DISTANCE_MATRIX_VERSION &&
+    file?.graphVersion === ROAD_GRAPH_VERSION &&
+    Array.isArray(file?.cities) &&
+    Array.isArray(file?.rows)
+  );
+}
+
+/**
+ * createMatrixLookup
+ * @description Lookup over a matrix file, or null when the file is missing or outdated.
+ */
+export function createMatrixLookup(file: any): MatrixLookup | null {
+  if (!isCurrentMatrix(file)) return null;
+  const index = new Map(file.cities.map((city, i) => [city, i]));
+  return (from: string, to: string) => {
+    const a = index.get(from);
+    const b = index.get(to);
+    if (a == null || b == null) return undefined;
+    if (a === b) return 0;
+    const [i, j] = a < b ? [a, b] : [b, a];
+    return file.rows[i]?.[j - i - 1] ?? null;
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * src/utils/ferryService.ts
+ *
+ * Purpose:
+ * - Ferry legs of road routes (roadRouting SEA_CROSSINGS): timetables, crossing times and
+ *   ticket prices per truck size.
+ * - Schedules the crossings of a job: the truck reaches the port, waits for the next departure
+ *   and crosses. jobLifecycleEngine adds the waits and crossings to the job transit time.
+ * - Estimates for jobs not yet on the road (tickets, crossing time, deadline allowance).
+ *
+ * Notes:
+ * - Departures are simulated hours of day on the simulation clock (SIM_DAY_MS aligned to the
+ *   epoch), so timetables are the same for every company and across reloads.
+ * - Ferry time is not counted as a crew rest by hoursOfService (breaks are planned on the road).
+ * - Tickets are charged with the job settlement (LEDGER_CATEGORIES.FERRY).
+ */
+
+import { roadRouter, SEA_CROSSINGS, SeaCrossing, RoutePlan } from './roadRouting';
+import { SIM_DAY_MS, SIM_HOUR_MS } from './simulationClock';
+
+/**
+ * FerryTruckSize
+ * @description Ticket class of a truck.
+ */
+export type FerryTruckSize = keyof SeaCrossing['fares'];
+
+/**
+ * FerryLeg
+ * @description Ferry crossing on a route.
+ */
+export interface FerryLeg {
+  /** Ferry line name */
+  name: string;
+  from: string;
+  to: string;
+  seaKm: number;
+  crossingHours: number;
+  /** Road kilometres driven before boarding */
+  roadKmBefore: number;
+}
+
+/**
+ * PlannedFerry
+ * @description Ferry crossing scheduled for a job (stored on job.lifecycle.ferries).
+ */
+export interface PlannedFerry extends FerryLeg {
+  /** Driving hours done when the truck reaches the port */
+  atDrivingHours: number;
+  /** Epoch ms of the departure taken */
+  departsAt: number;
+  waitHours: number;
+  fare: number;
+}
+
+/**
+ * FerryEstimate
+ * @description Ferries on a trip not yet planned.
+ */
+export interface FerryEstimate {
+  ferries: FerryLeg[];
+  fare: number;
+  /** Crossing hours plus the longest possible wait for each departure */
+  maxHours: number;
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * FerryService
+ * @description Ferry timetables, tickets and crossing schedules.
+ */
+class FerryService {
+  /**
+   * crossing
+   * @description Ferry line between two port cities (either direction).
+   */
+  crossing(from: string, to: string): SeaCrossing | null {
+    return SEA_CROSSINGS.find((c) => (c.from === from && c.to === to) || (c.from === to && c.to === from)) ?? null;
+  }
+
+  /**
+   * truckSize
+   * @description Ticket class of a truck: by payload (truckDrivingEngine classes), heavy with a
+   *              trailer.
+   */
+  truckSize(truck: any, job?: any): FerryTruckSize {
+    if (job?.assignedTrailer) return 'heavy';
+    const capacity = Number(truck?.tonnage ?? truck?.specifications?.capacity);
+    if (!Number.isFinite(capacity) || capacity <= 0) return 'heavy';
+    if (capacity <= 10) return 'small';
+    if (capacity <= 20) return 'medium';
+    return 'heavy';
+  }
+
+  /**
+   * fare
+   * @description Ticket price of a line for a truck size.
+   */
+  fare(crossing: SeaCrossing, size: FerryTruckSize): number {
+    return crossing.fares[size] ?? crossing.fares.heavy;
+  }
+
+  /**
+   * nextDeparture
+   * @description First departure of a line at or after `at` (epoch ms).
+   */
+  nextDeparture(crossing: SeaCrossing, at: number): number {
+    const every = Math.max(1, Math.round(crossing.everyDays ?? 1));
+    const hours = [...crossing.departureHours].sort((a, b) => a - b);
+    const firstDay = Math.floor(at / SIM_DAY_MS);
+    for (let day = firstDay; day <= firstDay + every; day++) {
+      if (day % every !== 0) continue;
+      for (const hour of hours) {
+        const departure = day * SIM_DAY_MS + hour * SIM_HOUR_MS;
+        if (departure >= at) return departure;
+      }
+    }
+    return at;
+  }
+
+  /**
+   * ferriesOn
+   * @description Ferry legs of a route, in order.
+   */
+  ferriesOn(route: RoutePlan | null): FerryLeg[] {
+    const ferries: FerryLeg[] = [];
+    let roadKm = 0;
+    (route?.legs || []).forEach((leg) => {
+      const seaKm = leg.seaKm ?? 0;
+      roadKm += leg.distanceKm - seaKm;
+      const crossing = leg.ferry ? this.crossing(leg.from, leg.to) : null;
+      if (!crossing) return;
+      ferries.push({
+        name: crossing.name,
+        from: leg.from,
+        to: leg.to,
+        seaKm,
+        crossingHours: crossing.crossingHours,
+        roadKmBefore: round(roadKm)
+      });
+    });
+    return ferries;
+  }
+
+  /**
+   * seaKm
+   * @description Kilometres at sea on a route.
+   */
+  seaKm(route: RoutePlan | null): number {
+    return round((route?.legs || []).reduce((sum, leg) => sum + (leg.seaKm ?? 0), 0));
+  }
+
+  /**
+   * schedule
+   * @description Departures, waits and tickets for the ferries of a route. `portTime` gives the
+   *              time the truck reaches the port of a ferry, given the driving hours done and
+   *              the ferry hours (waits and crossings) already spent.
+   */
+  schedule(
+    ferries: FerryLeg[],
+    size: FerryTruckSize,
+    speedKmh: number,
+    portTime: (drivingHours: number, ferryHours: number) => number
+  ): PlannedFerry[] {
+    let ferryHours = 0;
+    return ferries.map((leg) => {
+      const crossing = this.crossing(leg.from, leg.to)!;
+      const atDrivingHours = round(leg.roadKmBefore / Math.max(1, speedKmh));
+      const arrival = portTime(atDrivingHours, ferryHours);
+      const departsAt = this.nextDeparture(crossing, arrival);
+      const waitHours = round((departsAt - arrival) / SIM_HOUR_MS);
+      ferryHours += waitHours + leg.crossingHours;
+      return { ...leg, atDrivingHours, departsAt, waitHours, fare: this.fare(crossing, size) };
+    });
+  }
+
+  /**
+   * maxWaitHours
+   * @description Longest wait between two departures of a line.
+   */
+  maxWaitHours(crossing: SeaCrossing): number {
+    const hours = [...crossing.departureHours].sort((a, b) => a - b);
+    if (hours.length === 0) return 0;
+    const every = Math.max(1, Math.round(crossing.everyDays ?? 1));
+    const gaps = hours.map((h, i) => (i === 0 ? hours[0] + 24 * every - hours[hours.length - 1] : h - hours[i - 1]));
+    return Math.max(...gaps);
+  }
+
+  /**
+   * estimateTrip
+   * @description Ferries, tickets and the worst-case ferry time of a job with its assigned truck.
+   */
+  estimateTrip(company: any, job: any): FerryEstimate {
+    const ferries = this.ferriesOn(roadRouter.route(job?.origin, job?.destination));
+    if (ferries.length === 0) return { ferries, fare: 0, maxHours: 0 };
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(job?.assignedTruck)) ?? null;
+    const size = truck ? this.truckSize(truck, job) : 'heavy';
+    return ferries.reduce<FerryEstimate>((sum, leg) => {
+      const crossing = this.crossing(leg.from, leg.to)!;
+      return {
+        ferries,
+        fare: sum.fare + this.fare(crossing, size),
+        maxHours: round(sum.maxHours + leg.crossingHours + this.maxWaitHours(crossing))
+      };
+    }, { ferries, fare: 0, maxHours: 0 });
+  }
+}
+
+/** Export singleton instance */
+export const ferryService = new FerryService();
+
+export default ferryService;
@@ -0,0 +1,387 @@
+/**
+ * src/utils/freightMarket.ts
+ *
+ * Purpose:
+ * - Persistent freight market (GR-005 Market Price Fluctuation): freight demand per city and
+ *   cargo type, truck supply per city and the loads the player takes on each lane.
+ * - Prices new offers from demand / supply: offers are dearer where trucks are scarce and
+ *   cheaper on lanes the player floods with trucks.
+ * - Expires offers on their deadline and posts new ones over simulated time instead of
+ *   regenerating the whole market.
+ *
+ * Notes:
+ * - Demand and supply follow slow cycles (simulated days) with a phase per city / cargo type,
+ *   so the market is the same for every player and needs no stored state. Only the player
+ *   pressure (trucks sent to a city, loads taken on a lane) is stored and decays over time.
+ * - The price of a posted offer does not change; the market factor applies to new offers.
+ * - The engine never persists; JobMarketContext stores the returned state.
+ * - Offers are drawn from a seeded random source (seededRandom): the market stores its seed and
+ *   the state of the stream, so generate(now, seed) rebuilds the same market and advances
+ *   replay the same arrivals. summarize / compare help balance two generator versions on one seed.
+ * - Offer ids come from the seed and offerCount (offerId), so they stay unique across sessions.
+ */
+
+import { generateJob, generateJobsForCity, getAvailableCities, getCitySize, offerId, CitySize, PriceFactor } from './jobGenerator';
+import { resolveDeadline } from './jobSettlement';
+import { SIM_DAY_MS, SIM_HOUR_MS } from './simulationClock';
+import { createRandom, randomSeed } from './seededRandom';
+
+/**
+ * MarketPressure
+ * @description Player pressure on a city or lane, decaying from `at`.
+ */
+export interface MarketPressure {
+  value: number;
+  /** Epoch ms the value was recorded */
+  at: number;
+}
+
+/**
+ * FreightMarketState
+ * @description Stored market state (JobMarketContext).
+ */
+export interface FreightMarketState {
+  /** Epoch ms of the last advance */
+  lastTick: number;
+  /** Trucks the player brought into a city with delivered or accepted loads */
+  supply: Record<string, MarketPressure>;
+  /** Loads the player took per lane (`origin|destination`) */
+  lanes: Record<string, MarketPressure>;
+  /** Fractional offer arrivals carried between advances per city */
+  arrivals: Record<string, number>;
+  /** Seed the market was generated from */
+  seed?: number;
+  /** State of the seeded offer stream after the last draw (resumes the sequence) */
+  rngState?: number;
+  /** Offer ids handed out so far (numbers the next offer, see offerId) */
+  offerCount?: number;
+}
+
+/**
+ * MarketAdvance
+ * @description Result of advance.
+ */
+export interface MarketAdvance {
+  jobs: any[];
+  market: FreightMarketState;
+  expired: number;
+  posted: number;
+}
+
+/**
+ * MarketSummary
+ * @description Aggregate figures of a set of offers, for comparing generator versions.
+ */
+export interface MarketSummary {
+  offers: number;
+  totalValue: number;
+  averageValue: number;
+  averageDistance: number;
+  averageWeight: number;
+  byJobType: Record<string, number>;
+  byCargoType: Record<string, number>;
+  /** Hash of every offer in order (equal for identical markets) */
+  fingerprint: string;
+}
+
+/**
+ * MarketComparison
+ * @description Differences between two market summaries (b - a).
+ */
+export interface MarketComparison {
+  identical: boolean;
+  offers: number;
+  totalValue: number;
+  averageValue: number;
+  averageDistance: number;
+  averageWeight: number;
+  byJobType: Record<string, number>;
+  byCargoType: Record<string, number>;
+}
+
+/** Truck supply per city size (1 = balanced) */
+export const SUPPLY_BASELINE: Record<CitySize, number> = { large: 1.15, medium: 1, small: 0.85 };
+/** Amplitude of the demand and supply cycles */
+export const MARKET_CYCLE_AMPLITUDE = 0.15;
+/** Length of the demand cycle of a city and cargo type (simulated days) */
+export const DEMAND_CYCLE_DAYS = 14;
+/** Length of the truck supply cycle of a city (simulated days) */
+export const SUPPLY_CYCLE_DAYS = 10;
+/** Supply added per truck the player brings into a city */
+export const TRUCK_SUPPLY_STEP = 0.1;
+/** Price drop per load the player takes on a lane, and the largest drop */
+export const LANE_FLOOD_STEP = 0.08;
+export const MAX_LANE_DISCOUNT = 0.4;
+/** Half-life of the player pressure (simulated days) */
+export const PRESSURE_HALF_LIFE_DAYS = 3;
+/** Price response to the demand / supply ratio and its bounds */
+export const PRICE_ELASTICITY = 0.5;
+export const MIN_PRICE_FACTOR = 0.6;
+export const MAX_PRICE_FACTOR = 1.6;
+/** New offers per simulated hour and open offers kept per city size */
+export const ARRIVALS_PER_HOUR: Record<CitySize, number> = { large: 0.8, medium: 0.3, small: 0.2 };
+export const MAX_OPEN_OFFERS: Record<CitySize, number> = { large: 40, medium: 16, small: 12 };
+/** Simulated hours replayed at most by one advance (after a long pause) */
+export const MAX_CATCH_UP_HOURS = 48;
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+/**
+ * hashString
+ * @description Stable 32-bit hash of a string (FNV-1a).
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * FreightMarketEngine
+ * @description Supply / demand pricing, offer expiry and arrivals of the freight market.
+ */
+class FreightMarketEngine {
+  /**
+   * create
+   * @description Empty market state starting at `now` with its offer stream seeded by `seed`.
+   */
+  create(now: number = Date.now(), seed: number = randomSeed()): FreightMarketState {
+    return { lastTick: now, supply: {}, lanes: {}, arrivals: {}, seed, rngState: createRandom(seed).state() };
+  }
+
+  /**
+   * pressure
+   * @description Decayed value of a player pressure at `now`.
+   */
+  pressure(entry: MarketPressure | undefined, now: number): number {
+    if (!entry) return 0;
+    const days = Math.max(0, now - entry.at) / SIM_DAY_MS;
+    return entry.value * Math.pow(0.5, days / PRESSURE_HALF_LIFE_DAYS);
+  }
+
+  /**
+   * cycle
+   * @description Market cycle around 1 for a key (phase) and cycle length.
+   */
+  private cycle(key: string, cycleDays: number, now: number): number {
+    const phase = ((hashString(key) % 3600) / 3600) * 2 * Math.PI;
+    return 1 + MARKET_CYCLE_AMPLITUDE * Math.sin((2 * Math.PI * (now / SIM_DAY_MS)) / cycleDays + phase);
+  }
+
+  /**
+   * demandIndex
+   * @description Freight demand of a cargo type in a city (1 = balanced).
+   */
+  demandIndex(city: string, cargoType: string, now: number = Date.now()): number {
+    return round2(this.cycle(`demand|${city}|${cargoType}`, DEMAND_CYCLE_DAYS, now));
+  }
+
+  /**
+   * supplyIndex
+   * @description Trucks available in a city (1 = balanced), including the player trucks sent there.
+   */
+  supplyIndex(market: FreightMarketState, city: string, now: number = Date.now()): number {
+    const base = SUPPLY_BASELINE[getCitySize(city)] * this.cycle(`supply|${city}`, SUPPLY_CYCLE_DAYS, now);
+    return round2(base + TRUCK_SUPPLY_STEP * this.pressure(market.supply[city], now));
+  }
+
+  /**
+   * laneLoads
+   * @description Loads the player took recently on a lane (decayed).
+   */
+  laneLoads(market: FreightMarketState, origin: string, destination: string, now: number = Date.now()): number {
+    return this.pressure(market.lanes[`${origin}|${destination}`], now);
+  }
+
+  /**
+   * priceFactor
+   * @description Price factor of an offer: demand / supply at the origin, less the lane flooding.
+   */
+  priceFactor(market: FreightMarketState, origin: string, destination: string, cargoType: string, now: number = Date.now()): number {
+    const ratio = this.demandIndex(origin, cargoType, now) / Math.max(0.1, this.supplyIndex(market, origin, now));
+    const flooding = Math.min(MAX_LANE_DISCOUNT, LANE_FLOOD_STEP * this.laneLoads(market, origin, destination, now));
+    const factor = Math.pow(ratio, PRICE_ELASTICITY) * (1 - flooding);
+    return round2(Math.min(MAX_PRICE_FACTOR, Math.max(MIN_PRICE_FACTOR, factor)));
+  }
+
+  /**
+   * pricing
+   * @description PriceFactor for the job generator at `now`.
+   */
+  pricing(market: FreightMarketState, now: number = Date.now()): PriceFactor {
+    return (origin, destination, cargoType) => this.priceFactor(market, origin, destination, cargoType, now);
+  }
+
+  /**
+   * expiresAt
+   * @description Epoch ms an offer leaves the market (its deadline counted from posting; null
+   *              for offers without a posting time or deadline).
+   */
+  expiresAt(offer: any): number | null {
+    if (!offer?.postedAt) return null;
+    return resolveDeadline(offer.deadline, offer.postedAt);
+  }
+
+  /**
+   * recordAcceptance
+   * @description Player took (part of) an offer: the lane gets busier and the truck ends up at the
+   *              destination, adding supply there.
+   */
+  recordAcceptance(market: FreightMarketState, offer: any, acceptedWeight: number, now: number = Date.now()): FreightMarketState {
+    if (!offer?.origin || !offer?.destination) return market;
+    const share = Math.min(1, Math.max(0, Number(acceptedWeight) || 0) / Math.max(1, Number(offer.weight) || 1));
+    if (share === 0) return market;
+    const lane = `${offer.origin}|${offer.destination}`;
+    return {
+      ...market,
+      lanes: { ...market.lanes, [lane]: { value: round2(this.pressure(market.lanes[lane], now) + share), at: now } },
+      supply: { ...market.supply, [offer.destination]: { value: round2(this.pressure(market.supply[offer.destination], now) + share), at: now } }
+    };
+  }
+
+  /**
+   * numberOffers
+   * @description Give new offers the next ids of the market (skipping ids still open, e.g. the
+   *              random ids of markets stored before numbering) and post them at `now`.
+   */
+  private numberOffers(jobs: any[], market: FreightMarketState, open: any[], now: number): { jobs: any[]; market: FreightMarketState } {
+    const taken = new Set(open.map((job) => String(job?.id)));
+    let count = market.offerCount ?? 0;
+    const numbered = jobs.map((job) => {
+      let id = offerId(market.seed ?? 0, count++);
+      while (taken.has(id)) id = offerId(market.seed ?? 0, count++);
+      taken.add(id);
+      return { ...job, id, postedAt: now };
+    });
+    return { jobs: numbered, market: { ...market, offerCount: count } };
+  }
+
+  /**
+   * generate
+   * @description Fresh market: offers for every city priced at `now`. The same seed and `now`
+   *              give the same market.
+   */
+  generate(now: number = Date.now(), seed: number = randomSeed()): MarketAdvance {
+    const created = this.create(now, seed);
+    const rng = createRandom(seed);
+    const pricing = this.pricing(created, now);
+    const jobs: any[] = [];
+    getAvailableCities().forEach((city) => {
+      try {
+        jobs.push(...generateJobsForCity(city, pricing, rng));
+      } catch (err) {
+        console.warn('generateJobsForCity failed for', city, err);
+      }
+    });
+    const numbered = this.numberOffers(jobs, { ...created, rngState: rng.state() }, [], now);
+    return { jobs: numbered.jobs, market: numbered.market, expired: 0, posted: jobs.length };
+  }
+
+  /**
+   * advance
+   * @description Remove expired offers and post the offers that arrived since the last advance
+   *              (up to MAX_OPEN_OFFERS per city).
+   */
+  advance(jobs: any[], market: FreightMarketState, now: number = Date.now()): MarketAdvance {
+    const hours = Math.min(MAX_CATCH_UP_HOURS, Math.max(0, now - market.lastTick) / SIM_HOUR_MS);
+    const open = (jobs || []).filter((job) => {
+      const expiry = this.expiresAt(job);
+      return expiry === null || expiry > now;
+    });
+    const expired = (jobs || []).length - open.length;
+
+    const counts = new Map<string, number>();
+    open.forEach((job) => counts.set(job.origin, (counts.get(job.origin) ?? 0) + 1));
+
+    const pricing = this.pricing(market, now);
+    // Markets stored before seeding get a stream of their own
+    const rng = createRandom(market.rngState ?? randomSeed());
+    const arrivals: Record<string, number> = { ...market.arrivals };
+    const posted: any[] = [];
+    getAvailableCities().forEach((city) => {
+      const size = getCitySize(city);
+      // Cities start at different points of their arrival cycle so offers do not arrive in waves
+      let carry = (arrivals[city] ?? (hashString(city) % 100) / 100) + hours * ARRIVALS_PER_HOUR[size];
+      let count = counts.get(city) ?? 0;
+      while (carry >= 1 && count < MAX_OPEN_OFFERS[size]) {
+        carry -= 1;
+        // A few tries: a draw without a realistic destination yields no offer
+        for (let attempt = 0; attempt < 3; attempt++) {
+          const job = generateJob(city, undefined, pricing, rng);
+          if (!job) continue;
+          posted.push(job);
+          count += 1;
+          break;
+        }
+      }
+      arrivals[city] = round2(Math.min(carry, 1));
+    });
+
+    const numbered = this.numberOffers(posted, { ...market, lastTick: now, arrivals, rngState: rng.state() }, open, now);
+    return {
+      jobs: [...open, ...numbered.jobs],
+      market: numbered.market,
+      expired,
+      posted: posted.length
+    };
+  }
+
+  /**
+   * summarize
+   * @description Aggregate figures and fingerprint of a set of offers.
+   */
+  summarize(jobs: any[]): MarketSummary {
+    const list = Array.isArray(jobs) ? jobs : [];
+    const count = (key: string) => list.reduce<Record<string, number>>((acc, job) => {
+      const value = String(job?.[key] ?? 'unknown');
+      acc[value] = (acc[value] ?? 0) + 1;
+      return acc;
+    }, {});
+    const sum = (key: string) => list.reduce((total, job) => total + (Number(job?.[key]) || 0), 0);
+    const average = (key: string) => (list.length > 0 ? round2(sum(key) / list.length) : 0);
+    const fingerprint = hashString(list.map((job) => [job.id, job.origin, job.destination, job.cargoType, job.weight, job.value, job.deadline].join('|')).join('\n'));
+    return {
+      offers: list.length,
+      totalValue: sum('value'),
+      averageValue: average('value'),
+      averageDistance: average('distance'),
+      averageWeight: average('weight'),
+      byJobType: count('jobType'),
+      byCargoType: count('cargoType'),
+      fingerprint: fingerprint.toString(16).padStart(8, '0')
+    };
+  }
+
+  /**
+   * compare
+   * @description Differences between two markets (e.g. two generator versions on one seed).
+   */
+  compare(a: any[], b: any[]): MarketComparison {
+    const left = this.summarize(a);
+    const right = this.summarize(b);
+    const delta = (x: Record<string, number>, y: Record<string, number>) => Array.from(new Set([...Object.keys(x), ...Object.keys(y)]))
+      .reduce<Record<string, number>>((acc, key) => {
+        const diff = (y[key] ?? 0) - (x[key] ?? 0);
+        if (diff !== 0) acc[key] = diff;
+        return acc;
+      }, {});
+    return {
+      identical: left.fingerprint === right.fingerprint && left.offers === right.offers,
+      offers: right.offers - left.offers,
+      totalValue: right.totalValue - left.totalValue,
+      averageValue: round2(right.averageValue - left.averageValue),
+      averageDistance: round2(right.averageDistance - left.averageDistance),
+      averageWeight: round2(right.averageWeight - left.averageWeight),
+      byJobType: delta(left.byJobType, right.byJobType),
+      byCargoType: delta(left.byCargoType, right.byCargoType)
+    };
+  }
+}
+
+/** Export singleton instance */
+export const freightMarket = new FreightMarketEngine();
+
+export default freightMarket;
@@ -0,0 +1,240 @@
+/**
+ * src/utils/fuelSystem.ts
+ *
+ * Purpose:
+ * - Fuel tanks, refuelling stops and diesel prices per country.
+ * - Burns the fuel for the distance driven by planned jobs (jobLifecycleEngine) and refuels
+ *   automatically when the tank runs low: the tank is filled at the local diesel price, the
+ *   purchase is charged to the company ledger and the job stands still for a short stop.
+ * - Trip estimates (litres, cost, expected refuelling stops) for jobs not yet on the road.
+ *
+ * Notes:
+ * - truck.fuel stays a 0-100 tank percentage; litres are derived from the tank capacity.
+ * - Fuel used and bought on a job is recorded on job.fuel. Fuel is charged when it is bought,
+ *   so fuel-tracked jobs carry no fuel line in their settlement.
+ * - The country of a refuel is the origin country for the first half of a route and the
+ *   destination country for the second half (countryMapping codes).
+ * - The system never persists; callers persist the returned company.
+ */
+
+import { getCountryCode } from './countryMapping';
+import { jobLifecycleEngine } from './jobLifecycleEngine';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { FUEL_PRICE_PER_LITRE, DEFAULT_FUEL_CONSUMPTION_L_PER_100KM } from './jobSettlement';
+
+/**
+ * DIESEL_PRICES
+ * @description Diesel price per litre (USD) by country code. Unlisted countries use
+ *              FUEL_PRICE_PER_LITRE.
+ */
+export const DIESEL_PRICES: Record<string, number> = {
+  // Western and Northern Europe
+  gb: 1.85, ie: 1.8, fr: 1.82, be: 1.9, nl: 1.88, lu: 1.55, de: 1.78, at: 1.7, ch: 2.05,
+  dk: 1.95, se: 2.0, no: 2.1, fi: 1.9, it: 1.87, es: 1.6, pt: 1.7,
+  // Central and Eastern Europe
+  pl: 1.55, cz: 1.6, sk: 1.62, hu: 1.65, si: 1.58, hr: 1.55, ro: 1.5, bg: 1.42, gr: 1.75, cy: 1.6,
+  ee: 1.65, lv: 1.6, lt: 1.55, rs: 1.7, ba: 1.45, me: 1.5, mk: 1.35, al: 1.8, xk: 1.45,
+  ua: 1.3, md: 1.25, by: 0.95, ru: 0.85,
+  // Caucasus and Central Asia
+  tr: 1.25, ge: 1.1, am: 1.15, az: 0.6, kz: 0.6, uz: 0.8, tm: 0.4, tj: 1.0, kg: 0.85, af: 0.9,
+  // Middle East
+  il: 1.9, lb: 1.0, sy: 0.9, jo: 0.95, iq: 0.5, ir: 0.05, sa: 0.45, ae: 0.85, qa: 0.55,
+  kw: 0.35, bh: 0.45, om: 0.6, ye: 1.0,
+  // South and East Asia
+  pk: 1.0, in: 1.05, bd: 1.0, mm: 1.1, cn: 1.05, kr: 1.2, vn: 0.9, la: 1.15, kh: 1.05,
+  my: 0.55, sg: 1.6, id: 0.9, ph: 1.0, jp: 1.2
+};
+
+/**
+ * FuelStop
+ * @description Refuelling stop made during a job.
+ */
+export interface FuelStop {
+  date: string;
+  country: string;
+  litres: number;
+  pricePerLitre: number;
+  cost: number;
+  atKm: number;
+}
+
+/**
+ * JobFuelRecord
+ * @description Fuel used and bought on a job (job.fuel).
+ */
+export interface JobFuelRecord {
+  /** Litres burnt on the job */
+  litres: number;
+  /** Money spent at refuelling stops */
+  cost: number;
+  stops: FuelStop[];
+}
+
+/**
+ * FuelEstimate
+ * @description Planned fuel for a trip with a given truck.
+ */
+export interface FuelEstimate {
+  litres: number;
+  cost: number;
+  refuelStops: number;
+}
+
+/**
+ * FuelSystem
+ * @description Tank bookkeeping, automatic refuelling and fuel estimates.
+ */
+class FuelSystem {
+  /** Tank level (share of capacity) at which the truck refuels */
+  readonly REFUEL_THRESHOLD = 0.15;
+  /** Simulated hours spent at a refuelling stop */
+  readonly REFUEL_STOP_HOURS = 0.5;
+  /** Tank capacity when the truck specifications do not have one */
+  readonly DEFAULT_TANK_LITRES = 400;
+  /** Upper bound for refuels in one update (guards against broken specs) */
+  readonly MAX_REFUELS_PER_UPDATE = 20;
+
+  /**
+   * priceFor
+   * @description Diesel price per litre in a country.
+   */
+  priceFor(countryCode: string): number {
+    return DIESEL_PRICES[String(countryCode || '').toLowerCase()] ?? FUEL_PRICE_PER_LITRE;
+  }
+
+  /**
+   * tankCapacity
+   * @description Tank size of a truck in litres.
+   */
+  tankCapacity(truck: any): number {
+    const capacity = Number(truck?.fuelTankCapacity ?? truck?.specifications?.fuelTankCapacity);
+    return capacity > 0 ? capacity : this.DEFAULT_TANK_LITRES;
+  }
+
+  /**
+   * consumption
+   * @description Fuel consumption of a truck (litres per 100 km).
+   */
+  consumption(truck: any): number {
+    const value = Number(
+      truck?.fuelConsumption ??
+      truck?.specifications?.fuelConsumptionL100km ??
+      truck?.specifications?.fuelConsumption
+    );
+    return value > 0 ? value : DEFAULT_FUEL_CONSUMPTION_L_PER_100KM;
+  }
+
+  /**
+   * tankLitres
+   * @description Litres currently in the tank (trucks without a level are full).
+   */
+  tankLitres(truck: any): number {
+    const pct = typeof truck?.fuel === 'number' ? Math.max(0, Math.min(100, truck.fuel)) : 100;
+    return (this.tankCapacity(truck) * pct) / 100;
+  }
+
+  /**
+   * countryAt
+   * @description Country code of a job position: origin for the first half, destination after.
+   */
+  countryAt(job: any, drivenKm: number): string {
+    const distance = Number(job?.lifecycle?.distanceKm ?? job?.distance) || 0;
+    return getCountryCode(drivenKm < distance / 2 ? job?.origin : job?.destination);
+  }
+
+  /**
+   * estimateTrip
+   * @description Litres, cost and refuelling stops for a job with its assigned truck (or a
+   *              default truck), starting from the truck's current tank level.
+   */
+  estimateTrip(company: any, job: any): FuelEstimate {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(job?.assignedTruck)) ?? null;
+    const distance = Math.max(0, Number(job?.distance) || 0);
+    const capacity = this.tankCapacity(truck);
+    const litres = (distance / 100) * this.consumption(truck);
+    const usable = capacity * (1 - this.REFUEL_THRESHOLD);
+    const startUsable = Math.max(0, this.tankLitres(truck) - capacity * this.REFUEL_THRESHOLD);
+    const refuelStops = litres <= startUsable ? 0 : Math.ceil((litres - startUsable) / usable);
+    const price = (this.priceFor(getCountryCode(job?.origin)) + this.priceFor(getCountryCode(job?.destination))) / 2;
+    return { litres: Math.round(litres), cost: Math.round(litres * price), refuelStops };
+  }
+
+  /**
+   * consume
+   * @description Burn the fuel for the distance driven by every planned job since the last
+   *              update (job.fuelCheckedKm) and refuel where the tank runs low. Each refuel is
+   *              charged to the ledger and, while the job is still on the road, stops it for
+   *              REFUEL_STOP_HOURS.
+   */
+  consume(company: any, now: number = Date.now()): { company: any; changed: boolean } {
+    let updated = company;
+    let changed = false;
+
+    (company?.activeJobs || []).forEach((source: any) => {
+      if (!source?.lifecycle || ['completed', 'cancelled'].includes(String(source.status))) return;
+      const driven = jobLifecycleEngine.distanceDrivenAt(source, now);
+      const checked = Number(source.fuelCheckedKm) || 0;
+      if (driven <= checked) return;
+      const truck = (updated.trucks || []).find((t: any) => String(t?.id) === String(source.assignedTruck));
+      if (!truck) return;
+
+      const capacity = this.tankCapacity(truck);
+      const perKm = this.consumption(truck) / 100;
+      const record: JobFuelRecord = source.fuel
+        ? { ...source.fuel, stops: [...(source.fuel.stops || [])] }
+        : { litres: 0, cost: 0, stops: [] };
+      let job = source;
+      let tank = this.tankLitres(truck);
+      let position = checked;
+      let refuels = 0;
+
+      // Drive to each point where the tank hits the threshold, refuel there, continue
+      while (position < driven) {
+        const reserve = capacity * this.REFUEL_THRESHOLD;
+        const range = Math.max(0, tank - reserve) / perKm;
+        const leg = Math.min(driven - position, range);
+        tank -= leg * perKm;
+        record.litres += leg * perKm;
+        position += leg;
+        if (position >= driven || refuels >= this.MAX_REFUELS_PER_UPDATE) break;
+
+        const country = this.countryAt(source, position);
+        const pricePerLitre = this.priceFor(country);
+        const litres = Math.round(capacity - tank);
+        const cost = Math.round(litres * pricePerLitre);
+        const date = new Date(now).toISOString();
+        record.stops.push({ date, country, litres, pricePerLitre, cost, atKm: Math.round(position) });
+        record.cost += cost;
+        tank = capacity;
+        refuels += 1;
+        updated = postTransaction(updated, {
+          type: 'expense',
+          category: LEDGER_CATEGORIES.FUEL,
+          amount: cost,
+          description: `Refuelling ${litres} L (${country.toUpperCase()}): ${source.title ?? source.id}`,
+          reference: String(source.id),
+          date
+        });
+        if (position < jobLifecycleEngine.roadKm(source.lifecycle)) {
+          job = jobLifecycleEngine.addStop(job, now, this.REFUEL_STOP_HOURS, 'Refuelling');
+        }
+      }
+
+      const fuelPct = Number(Math.max(0, (tank / capacity) * 100).toFixed(1));
+      job = { ...job, fuelCheckedKm: driven, fuel: { ...record, litres: Number(record.litres.toFixed(1)) } };
+      updated = {
+        ...updated,
+        activeJobs: (updated.activeJobs || []).map((j: any) => (j?.id === source.id ? job : j)),
+        trucks: (updated.trucks || []).map((t: any) => (String(t?.id) === String(truck.id) ? { ...t, fuel: fuelPct } : t))
+      };
+      changed = true;
+    });
+
+    return { company: updated, changed };
+  }
+}
+
+/** Export singleton instance */
+export const fuelSystem = new FuelSystem();
+
+export default fuelSystem;
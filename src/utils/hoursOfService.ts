@@ -0,0 +1,372 @@
+/**
+ * src/utils/hoursOfService.ts
+ *
+ * Purpose:
+ * - Hours-of-service model for drivers: continuous driving before a break, daily and weekly
+ *   driving limits, daily and weekly rest periods and split breaks.
+ * - Plans the rests of a route for the job crew when the job starts (jobLifecycleEngine). A
+ *   two-driver crew swaps at the wheel, the co-driver resting in the cab; the truck only stops
+ *   when no crew member may drive.
+ * - Drivers push on past a limit to finish a run when the destination is at most
+ *   maxOverrunHours away. Such overruns are violations: they are logged on
+ *   company.hosViolations and fined when the job is delivered, and a driver in violation
+ *   raises the incident risk (incidentEngine fatigue multiplier).
+ *
+ * Notes:
+ * - Rules are DEFAULT_HOS_RULES merged with company.hosRules.
+ * - Driver counters are stored on staff.hos and are reset by the rest taken between jobs.
+ * - All durations are simulated hours (see simulationClock).
+ * - The service never persists; callers persist the returned company.
+ */
+
+import type { HoursOfServiceRules, HosViolationRecord } from '../types/game';
+import { postTransactions, LEDGER_CATEGORIES } from './companyLedger';
+import { SIM_HOUR_MS } from './simulationClock';
+
+/** Default rules (EU style) */
+export const DEFAULT_HOS_RULES: HoursOfServiceRules = {
+  maxContinuousHours: 4.5,
+  breakHours: 0.75,
+  splitBreaks: true,
+  splitFirstHours: 0.25,
+  maxDailyHours: 9,
+  dailyRestHours: 11,
+  maxWeeklyHours: 56,
+  weeklyRestHours: 45,
+  maxOverrunHours: 1,
+  finePerViolation: 300,
+  finePerExcessHour: 250
+};
+
+/** Violations kept in company.hosViolations */
+export const MAX_VIOLATION_HISTORY = 100;
+
+/** Float tolerance for hour arithmetic */
+const EPS = 1e-6;
+
+/**
+ * DriverHosState
+ * @description Driving counters of a driver (staff.hos).
+ */
+export interface DriverHosState {
+  dailyHours: number;
+  weeklyHours: number;
+  continuousHours: number;
+  /** First part of a split break taken in the current driving period */
+  splitBreakTaken: boolean;
+  /** Hours rested in the cab while the co-driver drives */
+  restedHours: number;
+  /** End of the last driving period (epoch ms) */
+  lastDrivingEnd?: number;
+}
+
+/**
+ * HosRest
+ * @description Rest of the whole crew, placed by driving hours into the route.
+ */
+export interface HosRest {
+  atDrivingHours: number;
+  hours: number;
+  reason: string;
+}
+
+/**
+ * HosLeg
+ * @description Stretch of the route driven by one driver.
+ */
+export interface HosLeg {
+  driverId: string;
+  fromHours: number;
+  toHours: number;
+  dailyAtStart: number;
+  continuousAtStart: number;
+  /** Driven past a limit */
+  overrun: boolean;
+}
+
+/**
+ * HosPlannedViolation
+ * @description Overrun planned for a route (logged and fined on delivery).
+ */
+export interface HosPlannedViolation {
+  driverId: string;
+  limit: HosViolationRecord['limit'];
+  excessHours: number;
+  atDrivingHours: number;
+}
+
+/**
+ * HosPlan
+ * @description Driving and rest schedule of a route, stored on job.lifecycle.hos.
+ */
+export interface HosPlan {
+  crew: string[];
+  drivingHours: number;
+  restHours: number;
+  rests: HosRest[];
+  legs: HosLeg[];
+  violations: HosPlannedViolation[];
+  /** Driver counters at the end of the route */
+  crewAfter: Record<string, DriverHosState>;
+}
+
+type LimitPoint = { limit: HosViolationRecord['limit'] | 'split'; hours: number };
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * HoursOfService
+ * @description Plans rests, swaps and overruns for job crews and settles violations.
+ */
+class HoursOfService {
+  /**
+   * rules
+   * @description Effective rules for a company.
+   */
+  rules(company: any): HoursOfServiceRules {
+    return { ...DEFAULT_HOS_RULES, ...(company?.hosRules || {}) };
+  }
+
+  /**
+   * rest
+   * @description Apply a rest of `hours` to a driver's counters.
+   */
+  rest(state: DriverHosState, hours: number, rules: HoursOfServiceRules): DriverHosState {
+    if (hours + EPS >= rules.weeklyRestHours) {
+      return { ...state, dailyHours: 0, weeklyHours: 0, continuousHours: 0, splitBreakTaken: false };
+    }
+    if (hours + EPS >= rules.dailyRestHours) return { ...state, dailyHours: 0, continuousHours: 0, splitBreakTaken: false };
+    const breakNeeded = state.splitBreakTaken ? rules.breakHours - rules.splitFirstHours : rules.breakHours;
+    if (hours + EPS >= breakNeeded) return { ...state, continuousHours: 0, splitBreakTaken: false };
+    if (rules.splitBreaks && hours + EPS >= rules.splitFirstHours && state.continuousHours > 0) return { ...state, splitBreakTaken: true };
+    return state;
+  }
+
+  /**
+   * driverState
+   * @description Counters of a driver at `at`, after the rest taken since the last drive.
+   */
+  driverState(driver: any, at: number, rules: HoursOfServiceRules): DriverHosState {
+    const saved = driver?.hos || {};
+    const state: DriverHosState = {
+      dailyHours: Number(saved.dailyHours) || 0,
+      weeklyHours: Number(saved.weeklyHours) || 0,
+      continuousHours: Number(saved.continuousHours) || 0,
+      splitBreakTaken: Boolean(saved.splitBreakTaken),
+      restedHours: 0,
+      lastDrivingEnd: typeof saved.lastDrivingEnd === 'number' ? saved.lastDrivingEnd : undefined
+    };
+    if (state.lastDrivingEnd === undefined) return state;
+    return this.rest(state, Math.max(0, (at - state.lastDrivingEnd) / SIM_HOUR_MS), rules);
+  }
+
+  /**
+   * nextLimit
+   * @description Driving hours until the next limit of a driver (weekly, daily, continuous or
+   *              the halfway point of a split break).
+   */
+  private nextLimit(state: DriverHosState, rules: HoursOfServiceRules): LimitPoint {
+    const points: LimitPoint[] = [
+      { limit: 'weekly', hours: rules.maxWeeklyHours - state.weeklyHours },
+      { limit: 'daily', hours: rules.maxDailyHours - state.dailyHours },
+      { limit: 'continuous', hours: rules.maxContinuousHours - state.continuousHours }
+    ];
+    const half = rules.maxContinuousHours / 2;
+    if (rules.splitBreaks && !state.splitBreakTaken && state.continuousHours < half + EPS) {
+      points.push({ limit: 'split', hours: half - state.continuousHours });
+    }
+    return points.reduce((a, b) => (b.hours < a.hours ? b : a));
+  }
+
+  /**
+   * plan
+   * @description Plan the driving of a route of `drivingHours` for the job crew (assigned
+   *              driver and co-driver) starting at `startAt`.
+   */
+  plan(company: any, job: any, drivingHours: number, startAt: number): HosPlan {
+    const rules = this.rules(company);
+    const staff: any[] = Array.isArray(company?.staff) ? company.staff : [];
+    const ids = Array.from(new Set([job?.assignedDriver, job?.assignedCoDriver].filter(Boolean).map(String)));
+    const crew = ids.length > 0 ? ids : ['crew'];
+    let states = crew.map((id) => this.driverState(staff.find((s) => String(s?.id) === id), startAt, rules));
+
+    const total = Math.max(0, Number(drivingHours) || 0);
+    const rests: HosRest[] = [];
+    const legs: HosLeg[] = [];
+    const violations: HosPlannedViolation[] = [];
+    let driven = 0;
+    let active = 0;
+
+    const drive = (index: number, hours: number, overrun: boolean) => {
+      const s = states[index];
+      legs.push({
+        driverId: crew[index],
+        fromHours: round(driven),
+        toHours: round(driven + hours),
+        dailyAtStart: round(s.dailyHours),
+        continuousAtStart: round(s.continuousHours),
+        overrun
+      });
+      states = states.map((st, i) => {
+        if (i === index) {
+          return { ...st, dailyHours: st.dailyHours + hours, weeklyHours: st.weeklyHours + hours, continuousHours: st.continuousHours + hours, restedHours: 0 };
+        }
+        // The co-driver rests in the cab; only breaks count, daily rests need the truck to stop
+        const restedHours = st.restedHours + hours;
+        const breakNeeded = st.splitBreakTaken ? rules.breakHours - rules.splitFirstHours : rules.breakHours;
+        return restedHours + EPS >= breakNeeded ? { ...st, restedHours, continuousHours: 0, splitBreakTaken: false } : { ...st, restedHours };
+      });
+      driven += hours;
+    };
+
+    for (let guard = 0; total - driven > EPS && guard < 1000; guard++) {
+      const remaining = total - driven;
+      const next = this.nextLimit(states[active], rules);
+      if (next.hours > EPS) {
+        drive(active, Math.min(remaining, next.hours), false);
+        continue;
+      }
+
+      // The first part of a split break is skipped when the rest of the route is legal
+      const legal = Math.min(
+        rules.maxContinuousHours - states[active].continuousHours,
+        rules.maxDailyHours - states[active].dailyHours,
+        rules.maxWeeklyHours - states[active].weeklyHours
+      );
+      if (next.limit === 'split' && remaining <= legal + EPS) {
+        drive(active, remaining, false);
+        continue;
+      }
+
+      // Another crew member takes the wheel
+      const swap = states.findIndex((st, i) => i !== active && this.nextLimit(st, rules).hours > EPS);
+      if (swap >= 0) {
+        active = swap;
+        continue;
+      }
+
+      // Push on to finish the run instead of stopping just short of the destination
+      if (next.limit !== 'split' && remaining <= rules.maxOverrunHours + EPS) {
+        violations.push({ driverId: crew[active], limit: next.limit, excessHours: round(remaining), atDrivingHours: round(driven) });
+        drive(active, remaining, true);
+        break;
+      }
+
+      // The crew stops
+      const rest: Omit<HosRest, 'atDrivingHours'> =
+        next.limit === 'weekly'
+          ? { hours: rules.weeklyRestHours, reason: 'Weekly rest' }
+          : next.limit === 'daily'
+          ? { hours: rules.dailyRestHours, reason: 'Daily rest' }
+          : next.limit === 'split'
+          ? { hours: rules.splitFirstHours, reason: 'Break (split, part 1)' }
+          : states[active].splitBreakTaken
+          ? { hours: rules.breakHours - rules.splitFirstHours, reason: 'Break (split, part 2)' }
+          : { hours: rules.breakHours, reason: 'Break' };
+      rests.push({ atDrivingHours: round(driven), ...rest });
+      states = states.map((st) => ({ ...this.rest(st, rest.hours, rules), restedHours: 0 }));
+    }
+
+    const crewAfter: Record<string, DriverHosState> = {};
+    crew.forEach((id, i) => {
+      const st = states[i];
+      crewAfter[id] = {
+        ...st,
+        dailyHours: round(st.dailyHours),
+        weeklyHours: round(st.weeklyHours),
+        continuousHours: round(st.continuousHours),
+        restedHours: 0
+      };
+    });
+
+    return {
+      crew,
+      drivingHours: round(total),
+      restHours: round(rests.reduce((sum, r) => sum + r.hours, 0)),
+      rests,
+      legs,
+      violations,
+      crewAfter
+    };
+  }
+
+  /**
+   * drivingAt
+   * @description Driving hours done after `elapsedHours` of transit, and the rest in progress.
+   *              Any timeline of pauses placed by driving hours works (see jobLifecycleEngine.halts).
+   */
+  drivingAt(hos: Pick<HosPlan, 'drivingHours' | 'rests'>, elapsedHours: number): { drivingHours: number; rest: HosRest | null } {
+    let rested = 0;
+    for (const rest of hos.rests) {
+      const start = rest.atDrivingHours + rested;
+      if (elapsedHours < start) break;
+      if (elapsedHours < start + rest.hours) return { drivingHours: rest.atDrivingHours, rest };
+      rested += rest.hours;
+    }
+    return { drivingHours: Math.min(hos.drivingHours, Math.max(0, elapsedHours - rested)), rest: null };
+  }
+
+  /**
+   * driverAt
+   * @description Driver at the wheel after `drivingHours`, with the hours driven today.
+   */
+  driverAt(hos: HosPlan, drivingHours: number): { driverId: string; hoursDrivenToday: number; continuousHours: number; overrun: boolean } | null {
+    const leg = hos.legs.find((l) => drivingHours >= l.fromHours && drivingHours < l.toHours) ?? hos.legs[hos.legs.length - 1];
+    if (!leg) return null;
+    const offset = Math.max(0, Math.min(drivingHours, leg.toHours) - leg.fromHours);
+    return {
+      driverId: leg.driverId,
+      hoursDrivenToday: round(leg.dailyAtStart + offset),
+      continuousHours: round(leg.continuousAtStart + offset),
+      overrun: leg.overrun
+    };
+  }
+
+  /**
+   * applyDelivery
+   * @description Store the crew counters after a delivered job, log its violations and
+   *              charge their fines. A job is settled once (job.hosSettled).
+   */
+  applyDelivery(company: any, jobId: string, now: number = Date.now()): any {
+    const job = (company?.activeJobs || []).find((j: any) => String(j?.id) === String(jobId));
+    const hos: HosPlan | undefined = job?.lifecycle?.hos;
+    if (!hos || job.hosSettled) return company;
+
+    const rules = this.rules(company);
+    const date = new Date(now).toISOString();
+    const staff = (company.staff || []).map((s: any) => {
+      const after = hos.crewAfter[String(s?.id)];
+      return after ? { ...s, hos: { ...after, lastDrivingEnd: now } } : s;
+    });
+    const records: HosViolationRecord[] = hos.violations.map((v) => ({
+      id: `hos-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      date,
+      driverId: v.driverId,
+      driverName: staff.find((s: any) => String(s?.id) === v.driverId)?.name,
+      limit: v.limit,
+      excessHours: v.excessHours,
+      fine: Math.round(rules.finePerViolation + rules.finePerExcessHour * v.excessHours),
+      reference: String(job.id)
+    }));
+
+    const updated = {
+      ...company,
+      staff,
+      activeJobs: company.activeJobs.map((j: any) => (j === job ? { ...j, hosSettled: true } : j)),
+      hosViolations: [...(Array.isArray(company.hosViolations) ? company.hosViolations : []), ...records].slice(-MAX_VIOLATION_HISTORY)
+    };
+    return postTransactions(updated, records.map((r) => ({
+      type: 'expense' as const,
+      category: LEDGER_CATEGORIES.PENALTIES,
+      amount: r.fine,
+      description: `Hours-of-service violation (${r.limit} limit, +${r.excessHours}h): ${r.driverName ?? r.driverId}`,
+      reference: r.reference,
+      date
+    })));
+  }
+}
+
+/** Export singleton instance */
+export const hoursOfService = new HoursOfService();
+
+export default hoursOfService;
@@ -7,7 +7,7 @@
  *
  * Behavior:
  * - Use truck reliability (A/B/C), durability (1-10), current condition (0-100),
- *   driver working state (hoursDrivenToday, isOnBrake) and distance covered to
+ *   driver working state (hoursDrivenToday, isOnBrake, hours-of-service violations) and distance covered to
  *   compute a per-update incident probability.
  * - When an incident occurs, the engine dispatches a 'truckIncident' CustomEvent
  *   on window with details for the listening systems (game context, UI, logs).
@@ -51,6 +51,7 @@ export interface DriverMinimal {
   hoursDrivenToday?: number;
   isOnBrake?: boolean;
   isFit?: boolean; // if available; true = fit, false = tired
+  hosViolation?: boolean; // driving past an hours-of-service limit (see hoursOfService)
 }
 
 /**
@@ -107,6 +108,7 @@ class IncidentEngine {
       const hours = typeof driver.hoursDrivenToday === 'number' ? driver.hoursDrivenToday : 0;
       if (hours >= 6) driverMultiplier += 0.6; // exceeded safe hours
       else if (hours >= 4) driverMultiplier += 0.25;
+      if (driver.hosViolation) driverMultiplier += 0.5; // pushing on past a driving limit
       if (driver.isOnBrake) {
         // If driver is currently on a brake state (unexpected), small increase
         driverMultiplier += 0.15;
@@ -148,6 +150,7 @@ class IncidentEngine {
       reasonParts.push(`Durability=${durability}`);
       reasonParts.push(`Condition=${cond}`);
       if (driver) reasonParts.push(`DriverHours=${driver.hoursDrivenToday ?? 'N/A'}`);
+      if (driver?.hosViolation) reasonParts.push('HoursOfServiceViolation');
 
       const detail: IncidentDetail = {
         truckId: truck.id,
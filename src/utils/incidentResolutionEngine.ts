@@ -0,0 +1,243 @@
+/**
+ * src/utils/incidentResolutionEngine.ts
+ *
+ * Purpose:
+ * - Consequences of the 'truckIncident' events raised by incidentEngine.
+ * - Picks a resolution (roadside repair, mechanic dispatch or towing), stops the job on its
+ *   route for the repair delay, damages truck condition and cargo in proportion to severity,
+ *   charges repair costs and cargo claims and records the incident on the truck.
+ * - Feeds incidentEngine with the distance driven by jobs in transit (see collectRoadSegments),
+ *   together with the hours of the driver at the wheel (see hoursOfService).
+ *
+ * Notes:
+ * - Delays are simulated hours applied as a stop on job.lifecycle (jobLifecycleEngine).
+ * - Cargo damage accumulates on job.cargoDamage (percent) and is also used by the delivery
+ *   reputation change (companyReputation).
+ * - The engine never persists; callers persist the returned company.
+ */
+
+import type { IncidentDetail, TruckMinimal, DriverMinimal } from './incidentEngine';
+import { jobLifecycleEngine } from './jobLifecycleEngine';
+import { postTransactions, LEDGER_CATEGORIES, TransactionInput } from './companyLedger';
+import { applyReputationChange, incidentReputationChange } from './companyReputation';
+import { hoursOfService } from './hoursOfService';
+
+/**
+ * IncidentResolution
+ * @description How an incident is dealt with on the road.
+ */
+export type IncidentResolution = 'roadside-repair' | 'mechanic-dispatch' | 'towing';
+
+/**
+ * IncidentRecord
+ * @description Incident stored in truck.incidents.
+ */
+export interface IncidentRecord {
+  id: string;
+  date: string;
+  type: IncidentDetail['type'];
+  severity: number;
+  resolution: IncidentResolution;
+  delayHours: number;
+  repairCost: number;
+  conditionLoss: number;
+  cargoDamage: number;
+  claimAmount: number;
+  jobId?: string;
+  location?: string;
+}
+
+/**
+ * RoadSegment
+ * @description Distance driven by a truck since the last risk check.
+ */
+export interface RoadSegment {
+  truck: TruckMinimal;
+  driver: DriverMinimal | null;
+  distanceKm: number;
+}
+
+/**
+ * Resolution options: delay in simulated hours and repair cost (base + per severity point).
+ */
+export const RESOLUTIONS: Record<IncidentResolution, { label: string; delayHours: number; baseCost: number; costPerSeverity: number }> = {
+  'roadside-repair': { label: 'Roadside repair', delayHours: 2, baseCost: 250, costPerSeverity: 8 },
+  'mechanic-dispatch': { label: 'Mechanic dispatched', delayHours: 6, baseCost: 600, costPerSeverity: 20 },
+  'towing': { label: 'Towed to workshop', delayHours: 16, baseCost: 1500, costPerSeverity: 45 }
+};
+
+/** Truck condition points lost per severity point */
+const CONDITION_LOSS_PER_SEVERITY = 0.2;
+/** Cargo damage (percent of the load) per severity point above the threshold */
+const CARGO_DAMAGE_PER_SEVERITY = 0.5;
+/** Severity below which the cargo is not damaged */
+const CARGO_DAMAGE_THRESHOLD = 20;
+/** Incidents kept per truck */
+const HISTORY_LIMIT = 20;
+
+/**
+ * IncidentResolutionEngine
+ * @description Applies incident consequences to a company object.
+ */
+class IncidentResolutionEngine {
+  /**
+   * chooseResolution
+   * @description Severe incidents and engine failures need towing; breakdowns and brake
+   *              failures a mechanic; the rest is fixed at the roadside.
+   */
+  chooseResolution(detail: Pick<IncidentDetail, 'type' | 'severity'>): IncidentResolution {
+    const severity = Number(detail.severity) || 0;
+    if (severity >= 70 || (detail.type === 'engine' && severity >= 40)) return 'towing';
+    if (severity >= 35 || detail.type === 'breakdown' || detail.type === 'brake' || detail.type === 'engine') return 'mechanic-dispatch';
+    return 'roadside-repair';
+  }
+
+  /**
+   * severityLevel
+   * @description Reputation severity bucket for a 1..100 severity.
+   */
+  severityLevel(severity: number): 'minor' | 'major' | 'critical' {
+    if (severity >= 70) return 'critical';
+    if (severity >= 35) return 'major';
+    return 'minor';
+  }
+
+  /**
+   * cargoDamage
+   * @description Percent of the load damaged by an incident.
+   */
+  cargoDamage(severity: number): number {
+    return Math.min(100, Math.round(Math.max(0, severity - CARGO_DAMAGE_THRESHOLD) * CARGO_DAMAGE_PER_SEVERITY));
+  }
+
+  /**
+   * findJob
+   * @description Open started job the truck is driving (delivery clones take precedence).
+   */
+  findJob(company: any, truckId: string): any | null {
+    const jobs: any[] = (company?.activeJobs || []).filter((j: any) =>
+      j && String(j.assignedTruck) === truckId && jobLifecycleEngine.isInFlight(j));
+    return jobs.find((j) => j.parentJobId) ?? jobs[0] ?? null;
+  }
+
+  /**
+   * resolve
+   * @description Apply the consequences of an incident and return the updated company with the
+   *              stored record (null when the truck is not in the fleet).
+   */
+  resolve(company: any, detail: IncidentDetail, now: number = Date.now()): { company: any; incident: IncidentRecord | null } {
+    const truckId = String(detail?.truckId ?? '');
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === truckId);
+    if (!truck) return { company, incident: null };
+
+    const severity = Math.max(1, Math.min(100, Number(detail.severity) || 1));
+    const resolution = this.chooseResolution({ type: detail.type, severity });
+    const option = RESOLUTIONS[resolution];
+    const job = this.findJob(company, truckId);
+
+    const repairCost = Math.round(option.baseCost + option.costPerSeverity * severity);
+    const conditionLoss = Math.round(severity * CONDITION_LOSS_PER_SEVERITY);
+    const cargoDamage = job ? this.cargoDamage(severity) : 0;
+    const claimAmount = job ? Math.round((Number(job.value) || 0) * cargoDamage / 100) : 0;
+    const date = new Date(now).toISOString();
+
+    const incident: IncidentRecord = {
+      id: `incident-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      date,
+      type: detail.type,
+      severity,
+      resolution,
+      delayHours: option.delayHours,
+      repairCost,
+      conditionLoss,
+      cargoDamage,
+      claimAmount,
+      ...(job ? { jobId: String(job.id), location: job.currentLocation } : {})
+    };
+
+    let updated: any = {
+      ...company,
+      trucks: (company.trucks || []).map((t: any) => String(t?.id) !== truckId ? t : {
+        ...t,
+        condition: Math.max(0, (typeof t.condition === 'number' ? t.condition : 100) - conditionLoss),
+        incidents: [...(Array.isArray(t.incidents) ? t.incidents : []), incident].slice(-HISTORY_LIMIT)
+      })
+    };
+
+    if (job) {
+      updated.activeJobs = (updated.activeJobs || []).map((j: any) => {
+        if (j?.id !== job.id) return j;
+        const stopped = jobLifecycleEngine.addStop(j, now, option.delayHours, option.label);
+        return { ...stopped, cargoDamage: Math.min(100, (Number(j.cargoDamage) || 0) + cargoDamage) };
+      });
+    }
+
+    const label = `${truck.brand ?? ''} ${truck.model ?? ''}`.trim() || truckId;
+    const lines: TransactionInput[] = [
+      { type: 'expense', category: LEDGER_CATEGORIES.REPAIRS, amount: repairCost, description: `${option.label}: ${label}`, reference: truckId, date },
+      { type: 'expense', category: LEDGER_CATEGORIES.CLAIMS, amount: claimAmount, description: `Cargo claim (${cargoDamage}% damaged): ${job?.title ?? ''}`.trim(), reference: job ? String(job.id) : undefined, date }
+    ];
+    updated = postTransactions(updated, lines.filter((l) => l.amount > 0));
+    updated = applyReputationChange(updated, {
+      ...incidentReputationChange(this.severityLevel(severity), `${option.label} after ${detail.type} (severity ${severity}): ${label}`, job ? String(job.id) : truckId),
+      date
+    });
+
+    return { company: updated, incident };
+  }
+
+  /**
+   * collectRoadSegments
+   * @description Distance driven by every moving job since its last risk check. The checked
+   *              distance is stored on job.incidentCheckedKm; stopped jobs are skipped.
+   */
+  collectRoadSegments(company: any, now: number = Date.now()): { company: any; segments: RoadSegment[] } {
+    const segments: RoadSegment[] = [];
+    let changed = false;
+
+    const activeJobs = (company?.activeJobs || []).map((job: any) => {
+      if (job?.status !== 'in-transit' || !job.lifecycle || jobLifecycleEngine.activeStop(job.lifecycle, now)) return job;
+      const driven = Number(jobLifecycleEngine.distanceDrivenAt(job, now).toFixed(2));
+      const checked = Number(job.incidentCheckedKm) || 0;
+      if (driven <= checked) return job;
+
+      const truck = (company.trucks || []).find((t: any) => String(t?.id) === String(job.assignedTruck));
+      // The crew member at the wheel and their hours (see hoursOfService)
+      const plan = job.lifecycle;
+      const wheel = plan.hos
+        ? hoursOfService.driverAt(plan.hos, jobLifecycleEngine.transitAt(plan, now - jobLifecycleEngine.stoppedMs(plan, now)).drivingHours)
+        : null;
+      const driverId = wheel?.driverId ?? job.assignedDriver;
+      const driver = (company.staff || []).find((s: any) => String(s?.id) === String(driverId));
+      if (truck) {
+        segments.push({
+          truck: {
+            id: String(truck.id),
+            reliability: truck.reliability ?? truck.specifications?.reliability,
+            durability: Number(truck.durability ?? truck.specifications?.durability) || undefined,
+            condition: typeof truck.condition === 'number' ? truck.condition : undefined
+          },
+          driver: driver
+            ? {
+                id: String(driver.id),
+                name: driver.name,
+                isFit: (typeof driver.fit === 'number' ? driver.fit : 100) >= 50,
+                hoursDrivenToday: wheel?.hoursDrivenToday,
+                hosViolation: wheel?.overrun
+              }
+            : null,
+          distanceKm: driven - checked
+        });
+      }
+      changed = true;
+      return { ...job, incidentCheckedKm: driven };
+    });
+
+    return { company: changed ? { ...company, activeJobs } : company, segments };
+  }
+}
+
+/** Export singleton engine instance */
+export const incidentResolutionEngine = new IncidentResolutionEngine();
+
+export default incidentResolutionEngine;
@@ -45,9 +45,10 @@ function detectTypeFromSpec(spec?: Record<string, any>): 'truck' | 'trailer' | '
  *   incoming record is removed without duplicating.
  *
  * @param company Generic company object expected to have trucks?: any[], trailers?: any[], incomingDeliveries?: IncomingDelivery[]
+ * @param now optional reference time in epoch ms (defaults to Date.now())
  * @returns ProcessResult containing updatedCompany and moved items list
  */
-export function processIncomingDeliveries(company: any): ProcessResult {
+export function processIncomingDeliveries(company: any, now: number = Date.now()): ProcessResult {
   if (!company) {
     return { updatedCompany: company, moved: [] };
   }
@@ -58,7 +59,6 @@ export function processIncomingDeliveries(company: any): ProcessResult {
   updatedCompany.trailers = Array.isArray(updatedCompany.trailers) ? [...updatedCompany.trailers] : [];
   updatedCompany.incomingDeliveries = Array.isArray(updatedCompany.incomingDeliveries) ? [...updatedCompany.incomingDeliveries] : [];
 
-  const now = Date.now();
   const moved: Array<{ incomingId: string; target: 'trucks' | 'trailers' | 'unknown'; item?: any }> = [];
 
   // Process list - keep items that are not yet delivered
@@ -4,6 +4,9 @@
  */
 
 import { getDistance } from './distanceCalculator';
+import { ferryService } from './ferryService';
+import { borderService } from './borderService';
+import { Random } from './seededRandom';
 
 // City size definitions
 export type CitySize = 'small' | 'medium' | 'large';
@@ -1056,17 +1059,17 @@ export function getCitySize(city: string): CitySize {
 }
 
 // Get number of jobs for a city based on size
-export function getCityJobCount(city: string): number {
+export function getCityJobCount(city: string, rng: Random = Math.random): number {
   const size = getCitySize(city);
   switch (size) {
-    case 'large': return Math.floor(Math.random() * 8) + 8; // 8-15 jobs
-    case 'medium': return Math.floor(Math.random() * 6) + 5; // 5-10 jobs
-    case 'small': return Math.floor(Math.random() * 6) + 3; // 3-8 jobs
+    case 'large': return Math.floor(rng() * 8) + 8; // 8-15 jobs
+    case 'medium': return Math.floor(rng() * 6) + 5; // 5-10 jobs
+    case 'small': return Math.floor(rng() * 6) + 3; // 3-8 jobs
   }
 }
 
 // Generate random job type based on city size
-function getRandomJobType(citySize: CitySize): 'local' | 'state' | 'international' {
+function getRandomJobType(citySize: CitySize, rng: Random = Math.random): 'local' | 'state' | 'international' {
   /**
    * @description Returns a jobType ('local' | 'state' | 'international') using
    *              the base distribution for the city size. For 'large' (hub) cities
@@ -1098,7 +1101,7 @@ function getRandomJobType(citySize: CitySize): 'local' | 'state' | 'internationa
     }
   }
 
-  const rand = Math.random();
+  const rand = rng();
   if (rand < local) return 'local';
   if (rand < local + state) return 'state';
   return 'international';
@@ -1112,45 +1115,43 @@ function getRandomJobType(citySize: CitySize): 'local' | 'state' | 'internationa
  *
  * @param origin - origin city name
  * @param jobType - 'local' | 'state' | 'international'
+ * @param rng - random source (seeded for reproducible markets)
  * @returns destination city name or null when no match
  */
-function getDestination(origin: string, jobType: 'local' | 'state' | 'international'): string | null {
-  const availableCities = getAvailableCities().filter(city => city !== origin);
-
-  switch (jobType) {
-    case 'local': {
-      // Local jobs stay within ~200km
-      const localCities = availableCities.filter(city => {
-        const distance = getDistance(origin, city);
-        return typeof distance === 'number' && distance <= 200;
-      });
-      if (localCities.length === 0) return null;
-      return localCities[Math.floor(Math.random() * localCities.length)];
-    }
+function getDestination(origin: string, jobType: 'local' | 'state' | 'international', rng: Random = Math.random): string | null {
+  const candidates = getDestinationPool(origin, jobType);
+  if (candidates.length === 0) return null;
+  return candidates[Math.floor(rng() * candidates.length)];
+}
 
-    case 'state': {
-      // State jobs within the same region (~200-500km)
-      const stateCities = availableCities.filter(city => {
-        const distance = getDistance(origin, city);
-        return typeof distance === 'number' && distance > 200 && distance <= 500;
-      });
-      if (stateCities.length === 0) return null;
-      return stateCities[Math.floor(Math.random() * stateCities.length)];
-    }
+// Distance band per job type: local ~200km, state ~200-500km, international 500km+ up to 3500km
+const destinationBands: Record<'local' | 'state' | 'international', [number, number]> = {
+  local: [0, 200],
+  state: [200, 500],
+  international: [500, 3500]
+};
 
-    case 'international': {
-      // International jobs to major cities (500km+ up to 3500km max)
-      const internationalCities = availableCities.filter(city => {
-        const distance = getDistance(origin, city);
-        return typeof distance === 'number' && distance > 500 && distance <= 3500;
-      });
-      if (internationalCities.length === 0) return null;
-      return internationalCities[Math.floor(Math.random() * internationalCities.length)];
-    }
+// Destinations per origin and job type, computed once (offers keep arriving from the same cities)
+const destinationPools = new Map<string, string[]>();
 
-    default:
-      return null;
-  }
+/**
+ * @description Cities in the distance band of a job type from an origin. getDistance is null
+ *              for cities without a road from the origin, so they are never picked.
+ */
+function getDestinationPool(origin: string, jobType: 'local' | 'state' | 'international'): string[] {
+  const key = `${origin}|${jobType}`;
+  const cached = destinationPools.get(key);
+  if (cached) return cached;
+  const band = destinationBands[jobType];
+  if (!band) return [];
+  const [min, max] = band;
+  const pool = getAvailableCities().filter(city => {
+    if (city === origin) return false;
+    const distance = getDistance(origin, city);
+    return typeof distance === 'number' && (jobType === 'local' ? distance <= max : distance > min && distance <= max);
+  });
+  destinationPools.set(key, pool);
+  return pool;
 }
 
 // Auto-generated getCountryCode function from attachment
@@ -1322,9 +1323,10 @@ function generateTags(cargoType: string, jobType: string, weight: number): strin
   return tags.slice(0, 3); // Max 3 tags
 }
 
-// Generate deadline based on distance and job type
-function generateDeadline(distance: number, jobType: string): string {
-  const baseHours = Math.ceil(distance / 60); // Base hours at 60km/h average
+// Generate deadline based on distance and job type (plus ferry time: worst-case wait and crossing,
+// and the customs waits at the borders)
+function generateDeadline(distance: number, jobType: string, delayHours: number = 0): string {
+  const baseHours = Math.ceil(distance / 60 + delayHours); // Base hours at 60km/h average
   
   switch (jobType) {
     case 'local':
@@ -1338,8 +1340,9 @@ function generateDeadline(distance: number, jobType: string): string {
   }
 }
 
-// Calculate job value based on realistic pricing
-function calculateJobValue(distance: number, weight: number, cargoType: string, jobType: string): number {
+// Calculate job value based on realistic pricing (border costs: road tolls and customs documents
+// of the route, passed on to the client; market factor: freight supply and demand, see freightMarket)
+export function calculateJobValue(distance: number, weight: number, cargoType: string, jobType: string, borderCosts: number = 0, marketFactor: number = 1): number {
   const baseRatePerKm = 2.5; // Base rate per km
   
   // Weight multipliers
@@ -1362,12 +1365,12 @@ function calculateJobValue(distance: number, weight: number, cargoType: string,
   if (cargoType.includes('Heavy')) cargoBonus = 1.3;
   
   // Calculate base price
-  const basePrice = (distance * baseRatePerKm) * weightMultiplier * jobMultiplier * cargoBonus;
+  const basePrice = (distance * baseRatePerKm) * weightMultiplier * jobMultiplier * cargoBonus * marketFactor;
   
   // Add weight component (per ton)
   const weightComponent = weight * 15;
   
-  return Math.round(basePrice + weightComponent);
+  return Math.round(basePrice + weightComponent + borderCosts);
 }
 
 // Generate experience requirement based on job complexity
@@ -1397,6 +1400,100 @@ function allowsPartialLoad(cargoType: string): boolean {
   return partialLoadTypes.includes(cargoType);
 }
 
+/**
+ * PriceFactor
+ * @description Market price factor of a lane and cargo type (see freightMarket).
+ */
+export type PriceFactor = (origin: string, destination: string, cargoType: string) => number;
+
+/** First 6-digit offer id and number of 6-digit ids */
+const OFFER_ID_BASE = 100000;
+const OFFER_ID_SPACE = 900000;
+/** Step between consecutive offer ids (coprime with OFFER_ID_SPACE, so ids only repeat after a full cycle) */
+const OFFER_ID_STRIDE = 7919;
+
+/**
+ * @description 6-digit id of the `index`-th offer of a market seed. Ids of one seed are unique for
+ *              OFFER_ID_SPACE consecutive offers.
+ */
+export function offerId(seed: number, index: number): string {
+  const offset = ((Math.floor(seed) % OFFER_ID_SPACE) + OFFER_ID_SPACE) % OFFER_ID_SPACE;
+  return String(OFFER_ID_BASE + (offset + Math.max(0, Math.floor(index)) * OFFER_ID_STRIDE) % OFFER_ID_SPACE);
+}
+
+/**
+ * @description Generate one job offer from a city (random job type for the city size when not
+ *              given). Returns null when no realistic destination was found. Every draw comes
+ *              from `rng`, so a seeded source (seededRandom) reproduces the same offer.
+ */
+export function generateJob(city: string, jobType?: 'local' | 'state' | 'international', priceFactor?: PriceFactor, rng: Random = Math.random) {
+  const forcedJobType = jobType ?? getRandomJobType(getCitySize(city), rng);
+
+  // Select cargo type (preserve 50% Dry Goods rule)
+  const cargoTypesArray = Object.keys(cargoTypes);
+  let cargoType: string;
+  if (cargoTypesArray.includes('Dry Goods') && rng() < 0.5) {
+    cargoType = 'Dry Goods';
+  } else {
+    const otherTypes = cargoTypesArray.filter(ct => ct !== 'Dry Goods');
+    if (otherTypes.length === 0) {
+      cargoType = cargoTypesArray[Math.floor(rng() * cargoTypesArray.length)];
+    } else {
+      cargoType = otherTypes[Math.floor(rng() * otherTypes.length)];
+    }
+  }
+  
+  const trailerOptions = cargoTypes[cargoType as keyof typeof cargoTypes];
+  const trailerType = trailerOptions[Math.floor(rng() * trailerOptions.length)];
+  
+  const cargoItemsArray = cargoItems[cargoType as keyof typeof cargoItems];
+  const cargoItem = cargoItemsArray[Math.floor(rng() * cargoItemsArray.length)];
+  
+  // Destination based on the job type
+  const destination = getDestination(city, forcedJobType, rng);
+  const distance = getDistance(city, destination);
+  if (!distance || distance > 3500) {
+    return null; // invalid, caller will count this as a failed attempt
+  }
+  
+  // Weight + job meta
+  const weight = Math.floor(rng() * 11) * 2 + 2;
+  const experience = generateExperience(cargoType, forcedJobType, weight);
+  const borders = borderService.estimateTrip(null, { origin: city, destination });
+  const marketFactor = priceFactor && destination ? priceFactor(city, destination, cargoType) : 1;
+  const value = calculateJobValue(distance, weight, cargoType, forcedJobType, borders.tollCost + borders.documentFee, marketFactor);
+  const deadline = generateDeadline(distance, forcedJobType, ferryService.estimateTrip(null, { origin: city, destination }).maxHours + borders.customsHours);
+  const allowPartialLoad = allowsPartialLoad(cargoType);
+  const tags = generateTags(cargoType, forcedJobType, weight);
+  
+  const job = {
+    // Random 6-digit id; freightMarket renumbers market offers uniquely (offerId)
+    id: Math.floor(100000 + rng() * 900000).toString(),
+    title: `${cargoItem} Transport`,
+    client: clients[Math.floor(rng() * clients.length)],
+    value,
+    distance,
+    origin: city,
+    destination,
+    originCountry: getCountryCode(city),
+    destinationCountry: getCountryCode(destination),
+    cargoType,
+    trailerType,
+    weight,
+    experience,
+    jobType: forcedJobType,
+    tags,
+    deadline,
+    allowPartialLoad,
+    remainingWeight: weight,
+    ...(borders.documents.length > 0 ? { customsDocuments: borders.documents } : {}),
+    ...(priceFactor ? { marketFactor } : {}),
+    assignedTo: 'Job Market'
+  };
+  
+  return job;
+}
+
 /**
  * @description Generate jobs for a specific city.
  *
@@ -1406,85 +1503,17 @@ function allowsPartialLoad(cargoType: string): boolean {
  * offers per city (MIN_OFFERS_PER_CITY). The deterministic increase is done by
  * attempting additional job generations that force the needed jobType until
  * the doubled targets are reached or safety attempt limits are hit.
+ * All randomness comes from `rng` (Math.random by default; seeded for reproducible markets).
  */
-export function generateJobsForCity(city: string) {
+export function generateJobsForCity(city: string, priceFactor?: PriceFactor, rng: Random = Math.random) {
   const citySize = getCitySize(city);
-  const jobCount = getCityJobCount(city);
+  const jobCount = getCityJobCount(city, rng);
   const jobs: any[] = [];
   
-  // Generate initial batch
+  // Generate initial batch (a draw without a realistic destination is skipped)
   for (let i = 0; i < jobCount; i++) {
-    // Select random cargo type with enforced 50% Dry Goods probability
-    const cargoTypesArray = Object.keys(cargoTypes);
-
-    // Enforce 50% of offers to be 'Dry Goods' while preserving original randomness for others.
-    // If 'Dry Goods' isn't available in the mapping, fall back to uniform selection.
-    let cargoType: string;
-    if (cargoTypesArray.includes('Dry Goods') && Math.random() < 0.5) {
-      cargoType = 'Dry Goods';
-    } else {
-      const otherTypes = cargoTypesArray.filter(ct => ct !== 'Dry Goods');
-      // If for some reason no other types exist, fallback to any available type
-      if (otherTypes.length === 0) {
-        cargoType = cargoTypesArray[Math.floor(Math.random() * cargoTypesArray.length)];
-      } else {
-        cargoType = otherTypes[Math.floor(Math.random() * otherTypes.length)];
-      }
-    }
-    
-    // Select compatible trailer
-    const trailerOptions = cargoTypes[cargoType as keyof typeof cargoTypes];
-    const trailerType = trailerOptions[Math.floor(Math.random() * trailerOptions.length)];
-    
-    // Select specific cargo item
-    const cargoItemsArray = cargoItems[cargoType as keyof typeof cargoItems];
-    const cargoItem = cargoItemsArray[Math.floor(Math.random() * cargoItemsArray.length)];
-    
-    // Generate job type
-    const jobType = getRandomJobType(citySize);
-    
-    // Get destination
-    const destination = getDestination(city, jobType);
-    
-    // Calculate distance - skip if over 3500km (unrealistic)
-    const distance = getDistance(city, destination);
-    if (!distance || distance > 3500) {
-      continue; // Skip this job - no realistic route available
-    }
-    
-    // Generate weight (2-24 tons, in even numbers)
-    const weight = Math.floor(Math.random() * 11) * 2 + 2; // 2,4,6,...,22,24
-    
-    // Generate job data
-    const experience = generateExperience(cargoType, jobType, weight);
-    const value = calculateJobValue(distance, weight, cargoType, jobType);
-    const deadline = generateDeadline(distance, jobType);
-    const allowPartialLoad = allowsPartialLoad(cargoType);
-    const tags = generateTags(cargoType, jobType, weight);
-    
-    const job = {
-      id: Math.floor(100000 + Math.random() * 900000).toString(), // Always 6-digit unique ID (no "job-" prefix)
-      title: `${cargoItem} Transport`,
-      client: clients[Math.floor(Math.random() * clients.length)],
-      value: value,
-      distance: distance,
-      origin: city,
-      destination: destination,
-      originCountry: getCountryCode(city),
-      destinationCountry: getCountryCode(destination),
-      cargoType: cargoType,
-      trailerType: trailerType,
-      weight: weight,
-      experience: experience,
-      jobType: jobType,
-      tags: tags,
-      deadline: deadline,
-      allowPartialLoad: allowPartialLoad,
-      remainingWeight: weight,
-      assignedTo: 'Job Market' // Track origin of job
-    };
-    
-    jobs.push(job);
+    const job = generateJob(city, undefined, priceFactor, rng);
+    if (job) jobs.push(job);
   }
   
   // Ensure minimum offers per city. This helps when many generated jobs were
@@ -1495,58 +1524,9 @@ export function generateJobsForCity(city: string) {
   let ensureAttempts = 0;
   while (jobs.length < MIN_OFFERS_PER_CITY && ensureAttempts < MAX_ENSURE_ATTEMPTS) {
     ensureAttempts++;
-    // Generate one additional candidate job (use same rules: 50% Dry Goods, random jobType)
-    const cargoTypesArray = Object.keys(cargoTypes);
-    let cargoType: string;
-    if (cargoTypesArray.includes('Dry Goods') && Math.random() < 0.5) {
-      cargoType = 'Dry Goods';
-    } else {
-      const otherTypes = cargoTypesArray.filter(ct => ct !== 'Dry Goods');
-      cargoType = otherTypes.length === 0 ? cargoTypesArray[Math.floor(Math.random() * cargoTypesArray.length)] : otherTypes[Math.floor(Math.random() * otherTypes.length)];
-    }
-
-    const trailerOptions = cargoTypes[cargoType as keyof typeof cargoTypes];
-    const trailerType = trailerOptions[Math.floor(Math.random() * trailerOptions.length)];
-    const cargoItemsArray = cargoItems[cargoType as keyof typeof cargoItems];
-    const cargoItem = cargoItemsArray[Math.floor(Math.random() * cargoItemsArray.length)];
-
-    const jobType = getRandomJobType(citySize);
-    const destination = getDestination(city, jobType);
-    const distance = getDistance(city, destination);
-    if (!distance || distance > 3500) {
-      continue; // invalid candidate, try again
-    }
-
-    const weight = Math.floor(Math.random() * 11) * 2 + 2;
-    const experience = generateExperience(cargoType, jobType, weight);
-    const value = calculateJobValue(distance, weight, cargoType, jobType);
-    const deadline = generateDeadline(distance, jobType);
-    const allowPartialLoad = allowsPartialLoad(cargoType);
-    const tags = generateTags(cargoType, jobType, weight);
-
-    const job = {
-      id: Math.floor(100000 + Math.random() * 900000).toString(),
-      title: `${cargoItem} Transport`,
-      client: clients[Math.floor(Math.random() * clients.length)],
-      value,
-      distance,
-      origin: city,
-      destination,
-      originCountry: getCountryCode(city),
-      destinationCountry: getCountryCode(destination),
-      cargoType,
-      trailerType,
-      weight,
-      experience,
-      jobType,
-      tags,
-      deadline,
-      allowPartialLoad,
-      remainingWeight: weight,
-      assignedTo: 'Job Market'
-    };
-
-    jobs.push(job);
+    // One additional candidate with the same rules (50% Dry Goods, random jobType)
+    const job = generateJob(city, undefined, priceFactor, rng);
+    if (job) jobs.push(job);
   }
   // If we exhausted ensure attempts and still have fewer than MIN_OFFERS_PER_CITY,
   // we exit and return what we have (safety).
@@ -1568,68 +1548,6 @@ export function generateJobsForCity(city: string) {
     const MAX_ATTEMPTS = 500;
     let attempts = 0;
     
-    // Helper to generate one job forcing the specific jobType ('local'|'state')
-    const generateForcedJob = (forcedJobType: 'local' | 'state') => {
-      // Select cargo type (preserve 50% Dry Goods rule)
-      const cargoTypesArray = Object.keys(cargoTypes);
-      let cargoType: string;
-      if (cargoTypesArray.includes('Dry Goods') && Math.random() < 0.5) {
-        cargoType = 'Dry Goods';
-      } else {
-        const otherTypes = cargoTypesArray.filter(ct => ct !== 'Dry Goods');
-        if (otherTypes.length === 0) {
-          cargoType = cargoTypesArray[Math.floor(Math.random() * cargoTypesArray.length)];
-        } else {
-          cargoType = otherTypes[Math.floor(Math.random() * otherTypes.length)];
-        }
-      }
-      
-      const trailerOptions = cargoTypes[cargoType as keyof typeof cargoTypes];
-      const trailerType = trailerOptions[Math.floor(Math.random() * trailerOptions.length)];
-      
-      const cargoItemsArray = cargoItems[cargoType as keyof typeof cargoItems];
-      const cargoItem = cargoItemsArray[Math.floor(Math.random() * cargoItemsArray.length)];
-      
-      // Force destination based on required type
-      const destination = getDestination(city, forcedJobType);
-      const distance = getDistance(city, destination);
-      if (!distance || distance > 3500) {
-        return null; // invalid, caller will count this as a failed attempt
-      }
-      
-      // Weight + job meta
-      const weight = Math.floor(Math.random() * 11) * 2 + 2;
-      const experience = generateExperience(cargoType, forcedJobType, weight);
-      const value = calculateJobValue(distance, weight, cargoType, forcedJobType);
-      const deadline = generateDeadline(distance, forcedJobType);
-      const allowPartialLoad = allowsPartialLoad(cargoType);
-      const tags = generateTags(cargoType, forcedJobType, weight);
-      
-      const job = {
-        id: Math.floor(100000 + Math.random() * 900000).toString(),
-        title: `${cargoItem} Transport`,
-        client: clients[Math.floor(Math.random() * clients.length)],
-        value,
-        distance,
-        origin: city,
-        destination,
-        originCountry: getCountryCode(city),
-        destinationCountry: getCountryCode(destination),
-        cargoType,
-        trailerType,
-        weight,
-        experience,
-        jobType: forcedJobType,
-        tags,
-        deadline,
-        allowPartialLoad,
-        remainingWeight: weight,
-        assignedTo: 'Job Market'
-      };
-      
-      return job;
-    };
-    
     // Attempt to create extra jobs to reach targets
     while ((counts.local < targetLocal || counts.state < targetState) && attempts < MAX_ATTEMPTS) {
       attempts++;
@@ -1638,13 +1556,13 @@ export function generateJobsForCity(city: string) {
       const needState = targetState - counts.state;
       const forceType: 'local' | 'state' = needLocal >= needState ? 'local' : 'state';
       
-      const newJob = generateForcedJob(forceType);
+      const newJob = generateJob(city, forceType, priceFactor, rng);
       if (newJob) {
         jobs.push(newJob);
         if (forceType === 'local') counts.local++;
         else counts.state++;
       }
-      // If generateForcedJob returned null, loop continues and attempts increments.
+      // If generateJob returned null, loop continues and attempts increments.
     }
     // If we exhausted attempts, we stop; the deterministic increase tried but couldn't fully reach targets
   }
@@ -0,0 +1,432 @@
+/**
+ * src/utils/jobLifecycleEngine.ts
+ *
+ * Purpose:
+ * - Time-based progression of started jobs: loading -> in-transit -> unloading -> delivered.
+ * - Builds a plan per job from the route distance (getDistance), the truck cruising speed
+ *   (truckDrivingEngine) and load/unload times by cargo type, then derives status, progress,
+ *   currentLocation and estimatedCompletion from the elapsed simulated time.
+ *
+ * Notes:
+ * - Jobs in 'preparing' are never touched: a job only starts moving after the user starts the
+ *   delivery (status 'picking-up'). Canonical jobs with delivery clones are driven by their clones.
+ * - Durations are simulated hours (see simulationClock). The plan is stored on job.lifecycle so
+ *   progress is deterministic across reloads.
+ * - The location of a job in transit names the nearest city on its road route (roadRouting).
+ * - The engine never persists and never settles money. Callers complete the returned delivered
+ *   jobs (GameContext uses the same path as the manual Complete action).
+ * - Stops (e.g. roadside repairs, see incidentResolutionEngine) freeze the job: time spent
+ *   stopped does not count towards the plan, so every later milestone is delayed by it.
+ * - Driver breaks and rests are part of the transit time: hoursOfService plans them for the
+ *   crew when the job starts (plan.hos) and the truck does not move while the crew rests.
+ * - Ferry legs of the road route are scheduled when the job starts (plan.ferries, see
+ *   ferryService): waiting for the departure and the crossing are part of the transit time,
+ *   and the kilometres at sea are not driven.
+ * - Border crossings are planned the same way (plan.borders, see borderService): customs waits
+ *   are part of the transit time. The road tolls and customs fees of the route are fixed when
+ *   the job starts (plan.tollCost, plan.customsFee) and charged with the settlement.
+ * - Multi-drop loads (see loadConsolidation) are chained jobs: the first drop loads the whole
+ *   load, and the next drop starts from the previous stop as soon as the truck has unloaded there.
+ */
+
+import { getDistance } from './distanceCalculator';
+import { roadRouter } from './roadRouting';
+import { truckDrivingEngine } from './truckDrivingEngine';
+import { addSimHours, SIM_HOUR_MS } from './simulationClock';
+import { hoursOfService, HosPlan, HosRest } from './hoursOfService';
+import { ferryService, PlannedFerry } from './ferryService';
+import { borderService, PlannedBorder } from './borderService';
+
+/**
+ * JobPhase
+ * @description Lifecycle statuses written by the engine.
+ */
+export type JobPhase = 'loading' | 'in-transit' | 'unloading' | 'delivered';
+
+/**
+ * LifecycleStop
+ * @description Period during which a job does not progress. Timestamps are epoch ms.
+ */
+export interface LifecycleStop {
+  from: number;
+  until: number;
+  reason: string;
+}
+
+/**
+ * JobLifecyclePlan
+ * @description Timing plan stored on job.lifecycle. Timestamps are epoch ms.
+ */
+export interface JobLifecyclePlan {
+  startedAt: number;
+  distanceKm: number;
+  speedKmh: number;
+  loadHours: number;
+  /** Transit time including the crew rests, ferries and customs */
+  transitHours: number;
+  /** Time at the wheel (legacy plans: equal to transitHours) */
+  drivingHours?: number;
+  unloadHours: number;
+  loadedAt: number;
+  arrivedAt: number;
+  deliveredAt: number;
+  /** Unplanned stops, in order */
+  stops?: LifecycleStop[];
+  /** Driving and rest schedule of the crew (see hoursOfService) */
+  hos?: HosPlan;
+  /** Kilometres of the route at sea */
+  seaKm?: number;
+  /** Ferry crossings, in order (see ferryService) */
+  ferries?: PlannedFerry[];
+  /** Border crossings, in order (see borderService) */
+  borders?: PlannedBorder[];
+  /** Road tolls of the route for the assigned truck */
+  tollCost?: number;
+  /** Customs documentation fee */
+  customsFee?: number;
+}
+
+/**
+ * LifecycleResult
+ * @description Result of one engine pass.
+ */
+export interface LifecycleResult {
+  company: any;
+  delivered: string[];
+  changed: boolean;
+}
+
+/**
+ * Load/unload handling time per cargo type (simulated hours): fixed time plus time per tonne.
+ */
+const HANDLING_TIMES: Record<string, { base: number; perTon: number }> = {
+  'Dry Goods': { base: 1, perTon: 0.05 },
+  'Frozen / Refrigerated': { base: 1.5, perTon: 0.06 },
+  'Liquid - Clean / Food Grade': { base: 1.5, perTon: 0.04 },
+  'Liquid - Industrial / Chemical': { base: 2, perTon: 0.04 },
+  'Heavy Machinery / Oversized': { base: 3, perTon: 0.1 },
+  'Construction Material': { base: 1.5, perTon: 0.05 },
+  'Construction Debris': { base: 0.5, perTon: 0.03 },
+  'Agricultural Bulk': { base: 1, perTon: 0.03 },
+  'Vehicles': { base: 2, perTon: 0.08 },
+  'Hazardous Materials': { base: 2.5, perTon: 0.06 },
+  'Livestock': { base: 2, perTon: 0.05 },
+  'Containerized / Intermodal': { base: 0.5, perTon: 0.01 },
+  'Bulk Powder / Cement': { base: 1, perTon: 0.04 },
+  'Waste & Recycling': { base: 1, perTon: 0.03 },
+  'Extra Long Loads': { base: 3, perTon: 0.08 },
+  'Compressed Gases': { base: 2, perTon: 0.05 },
+  'Corrosive Chemicals': { base: 2.5, perTon: 0.05 }
+};
+
+const DEFAULT_HANDLING = { base: 1, perTon: 0.05 };
+
+/** Statuses of a started (moving) job */
+const IN_FLIGHT_STATUSES = ['picking-up', 'loading', 'in-transit', 'unloading'];
+
+/** Share of the progress bar used by loading and unloading (transit gets the rest) */
+const LOADING_PROGRESS = 10;
+const UNLOADING_PROGRESS = 10;
+
+/**
+ * JobLifecycleEngine
+ * @description Plans and advances started jobs over simulated time.
+ */
+class JobLifecycleEngine {
+  /**
+   * handlingHours
+   * @description Load (or unload) duration in simulated hours for a cargo type and weight.
+   */
+  handlingHours(cargoType: string, weight: number): number {
+    const t = HANDLING_TIMES[cargoType] ?? DEFAULT_HANDLING;
+    return Number((t.base + t.perTon * Math.max(0, Number(weight) || 0)).toFixed(2));
+  }
+
+  /**
+   * isInFlight
+   * @description True for jobs the engine should advance.
+   */
+  isInFlight(job: any): boolean {
+    return Boolean(job) && IN_FLIGHT_STATUSES.includes(String(job.status));
+  }
+
+  /**
+   * planJob
+   * @description Build the timing plan for a job starting at `startedAt`.
+   */
+  planJob(job: any, company: any, startedAt: number): JobLifecyclePlan {
+    const routeKm = getDistance(job?.origin, job?.destination);
+    const distanceKm = Math.max(0, Number(routeKm ?? job?.distance) || 0);
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(job?.assignedTruck));
+    const speedKmh = Math.max(1, truckDrivingEngine.getCruisingSpeed(String(job?.assignedTruck ?? ''), truck));
+
+    // Later drops of a multi-drop load were loaded with the first drop
+    const loadHours = job?.consolidationId
+      ? (Number(job.dropIndex) > 0 ? 0 : this.handlingHours(job?.cargoType, job?.loadedWeight ?? job?.weight))
+      : this.handlingHours(job?.cargoType, job?.weight);
+    const unloadHours = this.handlingHours(job?.cargoType, job?.weight);
+    const route = roadRouter.route(job?.origin, job?.destination);
+    const seaKm = Math.min(distanceKm, ferryService.seaKm(route));
+    const drivingHours = Number(((distanceKm - seaKm) / speedKmh).toFixed(2));
+
+    const loadedAt = addSimHours(startedAt, loadHours);
+    const hos = hoursOfService.plan(company, job, drivingHours, loadedAt);
+    const crossings = borderService.crossingsOn(route);
+    const borders = borderService.schedule(crossings, speedKmh, borderService.customsFactor(company, job));
+    const restsBefore = (hours: number) => hos.rests.filter((r) => r.atDrivingHours < hours).reduce((sum, r) => sum + r.hours, 0);
+    const customsBefore = (hours: number) => borders.filter((b) => b.atDrivingHours < hours).reduce((sum, b) => sum + b.waitHours, 0);
+    const ferries = ferryService.schedule(
+      ferryService.ferriesOn(route),
+      ferryService.truckSize(truck, job),
+      speedKmh,
+      (hours, ferryHours) => addSimHours(loadedAt, hours + restsBefore(hours) + customsBefore(hours) + ferryHours)
+    );
+    const ferryHours = ferries.reduce((sum, f) => sum + f.waitHours + f.crossingHours, 0);
+    const customsHours = borders.reduce((sum, b) => sum + b.waitHours, 0);
+    const transitHours = Number((drivingHours + hos.restHours + ferryHours + customsHours).toFixed(2));
+    const arrivedAt = addSimHours(loadedAt, transitHours);
+    const deliveredAt = addSimHours(arrivedAt, unloadHours);
+
+    return {
+      startedAt, distanceKm, speedKmh, loadHours, transitHours, drivingHours, unloadHours, loadedAt, arrivedAt, deliveredAt, hos,
+      ...(ferries.length > 0 ? { seaKm, ferries } : {}),
+      ...(borders.length > 0 ? { borders, customsFee: borderService.documentFee(crossings) } : {}),
+      ...(route ? { tollCost: Object.values(borderService.tolls(route, borderService.weightClass(truck, job))).reduce((sum, t) => sum + t, 0) } : {})
+    };
+  }
+
+  /**
+   * roadKm
+   * @description Kilometres of a plan driven on the road (the route without the sea legs).
+   */
+  roadKm(plan: JobLifecyclePlan): number {
+    return Math.max(0, plan.distanceKm - (plan.seaKm ?? 0));
+  }
+
+  /**
+   * halts
+   * @description Planned pauses of the transit, by driving hours: ferry waits and crossings,
+   *              then customs stops, then crew rests at the same point.
+   */
+  halts(plan: JobLifecyclePlan): HosRest[] {
+    const ferries = (plan.ferries || []).flatMap((f) => [
+      ...(f.waitHours > 0 ? [{ atDrivingHours: f.atDrivingHours, hours: f.waitHours, reason: `Waiting for ferry ${f.name}` }] : []),
+      { atDrivingHours: f.atDrivingHours, hours: f.crossingHours, reason: `Ferry ${f.name}` }
+    ]);
+    const customs = (plan.borders || []).filter((b) => b.waitHours > 0).map((b) => ({
+      atDrivingHours: b.atDrivingHours,
+      hours: b.waitHours,
+      reason: `Customs ${b.fromCountry.toUpperCase()}–${b.toCountry.toUpperCase()}`
+    }));
+    return [...ferries, ...customs, ...(plan.hos?.rests || [])].sort((a, b) => a.atDrivingHours - b.atDrivingHours);
+  }
+
+  /**
+   * stoppedMs
+   * @description Time spent in stops before `at`.
+   */
+  stoppedMs(plan: JobLifecyclePlan, at: number): number {
+    return (plan.stops || []).reduce((sum, stop) => sum + Math.max(0, Math.min(at, stop.until) - stop.from), 0);
+  }
+
+  /**
+   * activeStop
+   * @description Stop in progress at `at` (null when moving).
+   */
+  activeStop(plan: JobLifecyclePlan, at: number): LifecycleStop | null {
+    return (plan.stops || []).find((stop) => at >= stop.from && at < stop.until) ?? null;
+  }
+
+  /**
+   * deliveryTime
+   * @description Expected delivery time including every stop.
+   */
+  deliveryTime(plan: JobLifecyclePlan): number {
+    return plan.deliveredAt + (plan.stops || []).reduce((sum, stop) => sum + (stop.until - stop.from), 0);
+  }
+
+  /**
+   * addStop
+   * @description Stop a job for `hours` simulated hours from `at` (or from the end of a stop
+   *              already in progress). Returns the updated job; unplanned jobs are returned as is.
+   */
+  addStop(job: any, at: number, hours: number, reason: string): any {
+    const plan: JobLifecyclePlan | undefined = job?.lifecycle;
+    if (!plan || hours <= 0) return job;
+    const from = Math.max(at, ...(plan.stops || []).map((stop) => stop.until));
+    const stop: LifecycleStop = { from, until: addSimHours(from, hours), reason };
+    return {
+      ...job,
+      lifecycle: { ...plan, stops: [...(plan.stops || []), stop] },
+      estimatedCompletion: new Date(this.deliveryTime({ ...plan, stops: [...(plan.stops || []), stop] })).toISOString()
+    };
+  }
+
+  /**
+   * transitAt
+   * @description Share of the road driven at plan time `t` (stops already excluded) and the
+   *              crew rest or ferry in progress.
+   */
+  transitAt(plan: JobLifecyclePlan, t: number): { share: number; drivingHours: number; rest: HosRest | null } {
+    const drivingTotal = plan.drivingHours ?? plan.transitHours;
+    if (t <= plan.loadedAt) return { share: 0, drivingHours: 0, rest: null };
+    if (t >= plan.arrivedAt) return { share: 1, drivingHours: drivingTotal, rest: null };
+    if (!plan.hos) {
+      const share = (t - plan.loadedAt) / Math.max(1, plan.arrivedAt - plan.loadedAt);
+      return { share, drivingHours: drivingTotal * share, rest: null };
+    }
+    const timeline = { drivingHours: plan.hos.drivingHours, rests: this.halts(plan) };
+    const { drivingHours, rest } = hoursOfService.drivingAt(timeline, (t - plan.loadedAt) / SIM_HOUR_MS);
+    return { share: drivingTotal > 0 ? Math.min(1, drivingHours / drivingTotal) : 1, drivingHours, rest };
+  }
+
+  /**
+   * distanceDrivenAt
+   * @description Kilometres driven on the road by a planned job at `now` (stops, rests and
+   *              ferries excluded).
+   */
+  distanceDrivenAt(job: any, now: number): number {
+    const plan: JobLifecyclePlan | undefined = job?.lifecycle;
+    if (!plan) return 0;
+    return this.roadKm(plan) * this.transitAt(plan, now - this.stoppedMs(plan, now)).share;
+  }
+
+  /**
+   * stateAt
+   * @description Derive status, progress and location of a planned job at `now`. Time spent in
+   *              stops is excluded, so a stopped job keeps its progress.
+   */
+  stateAt(job: any, plan: JobLifecyclePlan, at: number): { status: JobPhase; progress: number; currentLocation: string } {
+    const now = at - this.stoppedMs(plan, at);
+    const stop = this.activeStop(plan, at);
+    if (now < plan.loadedAt) {
+      const share = (now - plan.startedAt) / Math.max(1, plan.loadedAt - plan.startedAt);
+      return { status: 'loading', progress: Math.floor(LOADING_PROGRESS * share), currentLocation: job.origin };
+    }
+    if (now < plan.arrivedAt) {
+      const { share, rest } = this.transitAt(plan, now);
+      const remainingKm = Math.round(plan.distanceKm * (1 - share));
+      const halt = stop ?? rest;
+      const route = roadRouter.route(job.origin, job.destination);
+      const near = route ? roadRouter.positionAt(route, route.distanceKm * share)?.nearest : null;
+      const place = near ? ` near ${near}` : '';
+      return {
+        status: 'in-transit',
+        progress: LOADING_PROGRESS + Math.floor((100 - LOADING_PROGRESS - UNLOADING_PROGRESS) * share),
+        currentLocation: halt
+          ? `Stopped (${halt.reason})${place}, ${remainingKm} km to ${job.destination}`
+          : `${near ? `Near ${near}, ` : ''}${remainingKm} km to ${job.destination}`
+      };
+    }
+    if (now < plan.deliveredAt) {
+      const share = (now - plan.arrivedAt) / Math.max(1, plan.deliveredAt - plan.arrivedAt);
+      return { status: 'unloading', progress: 100 - UNLOADING_PROGRESS + Math.floor(UNLOADING_PROGRESS * share), currentLocation: job.destination };
+    }
+    return { status: 'delivered', progress: 100, currentLocation: job.destination };
+  }
+
+  /**
+   * nextDrop
+   * @description Waiting job of the next drop of a delivered multi-drop job (null when none).
+   */
+  nextDrop(jobs: any[], job: any): any | null {
+    if (!job?.consolidationId) return null;
+    return jobs.find((j) =>
+      j?.consolidationId === job.consolidationId &&
+      !j.parentJobId &&
+      Number(j.dropIndex) === Number(job.dropIndex) + 1 &&
+      j.status === 'preparing'
+    ) ?? null;
+  }
+
+  /**
+   * advance
+   * @description Plan newly started jobs and move every in-flight job to its current phase.
+   *              Delivered jobs are returned for completion; their truck and trailer are moved
+   *              to the destination and the truck mileage is increased. The next drop of a
+   *              delivered multi-drop job starts when the previous drop was unloaded.
+   */
+  advance(company: any, now: number = Date.now()): LifecycleResult {
+    const jobs: any[] = Array.isArray(company?.activeJobs) ? company.activeJobs : [];
+    if (!jobs.some((j) => this.isInFlight(j))) return { company, delivered: [], changed: false };
+
+    // Canonical jobs with open clones are represented by their clones
+    const drivenByClones = new Set(
+      jobs.filter((j) => j?.parentJobId && j.status !== 'cancelled').map((j) => String(j.parentJobId))
+    );
+
+    const delivered: any[] = [];
+    let changed = false;
+
+    let activeJobs = jobs.map((job) => {
+      if (!this.isInFlight(job) || drivenByClones.has(String(job.id))) return job;
+
+      const plan: JobLifecyclePlan = job.lifecycle ?? this.planJob(job, company, now);
+      const next = this.stateAt(job, plan, now);
+      const updated = {
+        ...job,
+        lifecycle: plan,
+        status: next.status,
+        progress: next.progress,
+        currentLocation: next.currentLocation,
+        estimatedCompletion: new Date(this.deliveryTime(plan)).toISOString()
+      };
+      if (
+        job.lifecycle &&
+        job.status === updated.status &&
+        job.progress === updated.progress &&
+        job.currentLocation === updated.currentLocation
+      ) return job;
+
+      changed = true;
+      if (next.status === 'delivered') delivered.push(updated);
+      return updated;
+    });
+
+    if (!changed) return { company, delivered: [], changed: false };
+
+    // Chained drops: start each from the previous stop at its delivery time (in cascade)
+    for (let i = 0; i < delivered.length; i++) {
+      const next = this.nextDrop(activeJobs, delivered[i]);
+      if (!next) continue;
+      const startedAt = this.deliveryTime(delivered[i].lifecycle);
+      const origin = delivered[i].destination;
+      const leg = { ...next, origin, currentLocation: origin, startTime: new Date(startedAt), distance: getDistance(origin, next.destination) ?? next.distance };
+      const plan = this.planJob(leg, company, startedAt);
+      const state = this.stateAt(leg, plan, now);
+      const started = { ...leg, lifecycle: plan, ...state, estimatedCompletion: new Date(this.deliveryTime(plan)).toISOString() };
+      activeJobs = activeJobs.map((j) => (j.id === next.id ? started : j));
+      if (state.status === 'delivered') delivered.push(started);
+    }
+
+    let trucks = company.trucks;
+    let trailers = company.trailers;
+    delivered.forEach((job) => {
+      trucks = (trucks || []).map((t: any) => String(t?.id) === String(job.assignedTruck)
+        ? { ...t, location: job.destination, mileage: (Number(t.mileage) || 0) + Math.round(this.roadKm(job.lifecycle)) }
+        : t);
+      trailers = (trailers || []).map((t: any) => String(t?.id) === String(job.assignedTrailer) ? { ...t, location: job.destination } : t);
+    });
+
+    return {
+      company: { ...company, activeJobs, trucks, trailers },
+      delivered: delivered.map((j) => String(j.id)),
+      changed
+    };
+  }
+
+  /**
+   * remainingHours
+   * @description Simulated hours until delivery for a planned job (0 when done or unplanned).
+   */
+  remainingHours(job: any, now: number = Date.now()): number {
+    const plan: JobLifecyclePlan | undefined = job?.lifecycle;
+    if (!plan) return 0;
+    return Math.max(0, (this.deliveryTime(plan) - now) / SIM_HOUR_MS);
+  }
+}
+
+/** Export singleton engine instance */
+export const jobLifecycleEngine = new JobLifecycleEngine();
+
+export default jobLifecycleEngine;
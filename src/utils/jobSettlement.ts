@@ -0,0 +1,221 @@
+/**
+ * src/utils/jobSettlement.ts
+ *
+ * Purpose:
+ * - Compute the money side of finishing or cancelling a job.
+ * - On completion: pay the job value, apply a late-delivery penalty against the job
+ *   deadline and charge fuel and tolls for the driven distance, the ferry tickets and the
+ *   customs documentation fees.
+ * - On cancellation: charge a fee that grows with how far the job had progressed.
+ *
+ * Notes:
+ * - Functions are pure and return plain objects. applySettlement turns a settlement
+ *   into company ledger transactions (see companyLedger.postTransactions).
+ * - Deadlines are stored either as ISO timestamps or as relative durations produced by
+ *   the job generator ("36h", "2d"), which are simulated hours/days (see simulationClock)
+ *   measured from the job start time. Lateness is counted in simulated hours.
+ */
+
+import { postTransactions, LEDGER_CATEGORIES, TransactionInput } from './companyLedger';
+import { SIM_DAY_MS, SIM_HOUR_MS, toMs } from './simulationClock';
+
+/** Diesel price used for settlement (USD per litre) */
+export const FUEL_PRICE_PER_LITRE = 1.6;
+/** Average truck consumption used when the job/truck gives none (litres per 100 km) */
+export const DEFAULT_FUEL_CONSUMPTION_L_PER_100KM = 32;
+/** Flat road toll rate (USD per km) for jobs without per-country tolls (see borderService) */
+export const TOLL_RATE_PER_KM = 0.12;
+/** Late penalty: percent of the job value per started hour late */
+export const LATE_PENALTY_PCT_PER_HOUR = 2;
+/** Late penalty cap (percent of the job value) */
+export const MAX_LATE_PENALTY_PCT = 50;
+/** Cancellation fee for a job that has not progressed at all (percent of value) */
+export const CANCELLATION_BASE_PCT = 10;
+/** Additional cancellation fee at 100% progress (percent of value), scaled linearly */
+export const CANCELLATION_PROGRESS_PCT = 40;
+
+/**
+ * JobSettlement
+ * @description Result of settling a completed job. Amounts are whole USD.
+ */
+export interface JobSettlement {
+  jobId: string;
+  revenue: number;
+  latePenalty: number;
+  hoursLate: number;
+  fuelCost: number;
+  tollCost: number;
+  ferryCost: number;
+  customsCost: number;
+  net: number;
+  settledAt: string;
+  lines: TransactionInput[];
+}
+
+/**
+ * CancellationCharge
+ * @description Fee charged when a job is cancelled.
+ */
+export interface CancellationCharge {
+  jobId: string;
+  progress: number;
+  fee: number;
+  line: TransactionInput | null;
+}
+
+/**
+ * SettlementOptions
+ * @description Optional overrides for computeSettlement.
+ */
+export interface SettlementOptions {
+  /** Amount paid for this job (defaults to job.value) */
+  payout?: number;
+  /** Completion time in epoch ms (defaults to now) */
+  completedAt?: number;
+  /** Reference time the deadline is measured from (defaults to job.startTime) */
+  deadlineBase?: string | number | Date;
+  /** Fuel consumption of the assigned truck (litres per 100 km) */
+  fuelConsumption?: number;
+  /** Pre-computed fuel cost; when given the fuel estimate is skipped */
+  fuelCost?: number;
+  /** Pre-computed toll cost; when given the toll estimate is skipped */
+  tollCost?: number;
+  /** Ferry tickets of the route (see ferryService) */
+  ferryCost?: number;
+  /** Customs documentation fees of the route (see borderService) */
+  customsCost?: number;
+}
+
+/**
+ * resolveDeadline
+ * @description Resolve a job deadline to epoch ms. Supports ISO timestamps and relative
+ *              simulated durations ("36h", "2d") measured from `base`. Returns null for no deadline.
+ * @param deadline raw deadline value from the job
+ * @param base reference time for relative deadlines
+ * @returns number | null
+ */
+export function resolveDeadline(deadline: unknown, base?: string | number | Date): number | null {
+  if (deadline === null || deadline === undefined || deadline === '') return null;
+  if (deadline instanceof Date) return Number.isNaN(deadline.getTime()) ? null : deadline.getTime();
+
+  const raw = String(deadline).trim();
+  const relative = raw.match(/^(\d+(?:\.\d+)?)\s*([hd])$/i);
+  if (relative) {
+    const baseMs = toMs(base);
+    if (!Number.isFinite(baseMs)) return null;
+    const value = Number(relative[1]);
+    const unitMs = relative[2].toLowerCase() === 'd' ? SIM_DAY_MS : SIM_HOUR_MS;
+    return baseMs + value * unitMs;
+  }
+
+  const absolute = new Date(raw).getTime();
+  return Number.isFinite(absolute) ? absolute : null;
+}
+
+/**
+ * estimateFuelCost
+ * @description Fuel cost for a distance at the flat settlement fuel price.
+ */
+export function estimateFuelCost(distanceKm: number, consumptionLPer100Km: number = DEFAULT_FUEL_CONSUMPTION_L_PER_100KM): number {
+  const km = Math.max(0, Number(distanceKm) || 0);
+  const consumption = consumptionLPer100Km > 0 ? consumptionLPer100Km : DEFAULT_FUEL_CONSUMPTION_L_PER_100KM;
+  return Math.round((km / 100) * consumption * FUEL_PRICE_PER_LITRE);
+}
+
+/**
+ * estimateTollCost
+ * @description Road toll cost for a distance at the flat toll rate.
+ */
+export function estimateTollCost(distanceKm: number): number {
+  return Math.round(Math.max(0, Number(distanceKm) || 0) * TOLL_RATE_PER_KM);
+}
+
+/**
+ * computeSettlement
+ * @description Compute revenue, late penalty, fuel, tolls, ferries and customs for a completed job.
+ * @param job ActiveJob-like object
+ * @param options SettlementOptions
+ * @returns JobSettlement
+ */
+export function computeSettlement(job: any, options: SettlementOptions = {}): JobSettlement {
+  const completedAt = options.completedAt ?? Date.now();
+  const revenue = Math.max(0, Math.round(options.payout ?? Number(job?.value ?? 0)));
+  const distance = Math.max(0, Number(job?.distance ?? 0));
+  const label = job?.title ? `${job.title} (${job.origin ?? '?'} → ${job.destination ?? '?'})` : String(job?.id ?? 'job');
+
+  // Late penalty: per started simulated hour past the deadline, capped
+  const deadlineMs = resolveDeadline(job?.deadline, options.deadlineBase ?? job?.startTime);
+  const hoursLate = deadlineMs !== null && completedAt > deadlineMs ? Math.ceil((completedAt - deadlineMs) / SIM_HOUR_MS) : 0;
+  const penaltyPct = Math.min(MAX_LATE_PENALTY_PCT, hoursLate * LATE_PENALTY_PCT_PER_HOUR);
+  const latePenalty = Math.round((revenue * penaltyPct) / 100);
+
+  const fuelCost = typeof options.fuelCost === 'number' ? Math.max(0, Math.round(options.fuelCost)) : estimateFuelCost(distance, options.fuelConsumption);
+  const tollCost = typeof options.tollCost === 'number' ? Math.max(0, Math.round(options.tollCost)) : estimateTollCost(distance);
+  const ferryCost = Math.max(0, Math.round(Number(options.ferryCost) || 0));
+  const customsCost = Math.max(0, Math.round(Number(options.customsCost) || 0));
+
+  const reference = String(job?.id ?? '');
+  const lines: TransactionInput[] = [
+    { type: 'income', category: LEDGER_CATEGORIES.JOB_PAYMENT, amount: revenue, description: `Delivery completed: ${label}`, reference },
+    { type: 'expense', category: LEDGER_CATEGORIES.PENALTIES, amount: latePenalty, description: `Late delivery (${hoursLate}h): ${label}`, reference },
+    { type: 'expense', category: LEDGER_CATEGORIES.FUEL, amount: fuelCost, description: `Fuel for ${Math.round(distance)} km: ${label}`, reference },
+    { type: 'expense', category: LEDGER_CATEGORIES.TOLLS, amount: tollCost, description: `Road tolls for ${Math.round(distance)} km: ${label}`, reference },
+    { type: 'expense', category: LEDGER_CATEGORIES.FERRY, amount: ferryCost, description: `Ferry tickets: ${label}`, reference },
+    { type: 'expense', category: LEDGER_CATEGORIES.CUSTOMS, amount: customsCost, description: `Customs documents: ${label}`, reference }
+  ].filter((l) => l.amount > 0) as TransactionInput[];
+
+  return {
+    jobId: reference,
+    revenue,
+    latePenalty,
+    hoursLate,
+    fuelCost,
+    tollCost,
+    ferryCost,
+    customsCost,
+    net: revenue - latePenalty - fuelCost - tollCost - ferryCost - customsCost,
+    settledAt: new Date(completedAt).toISOString(),
+    lines
+  };
+}
+
+/**
+ * computeCancellationFee
+ * @description Cancellation fee scaled by progress: base percent for an untouched job,
+ *              growing linearly to base + progress percent at 100% progress.
+ * @param job ActiveJob-like object
+ * @returns CancellationCharge
+ */
+export function computeCancellationFee(job: any): CancellationCharge {
+  const value = Math.max(0, Number(job?.value ?? 0));
+  const progress = Math.max(0, Math.min(100, Number(job?.progress ?? 0)));
+  const pct = CANCELLATION_BASE_PCT + (CANCELLATION_PROGRESS_PCT * progress) / 100;
+  const fee = Math.round((value * pct) / 100);
+  const reference = String(job?.id ?? '');
+
+  return {
+    jobId: reference,
+    progress,
+    fee,
+    line: fee > 0
+      ? {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.CANCELLATION,
+        amount: fee,
+        description: `Cancelled at ${Math.round(progress)}% progress: ${job?.title ?? reference}`,
+        reference
+      }
+      : null
+  };
+}
+
+/**
+ * applySettlement
+ * @description Post all settlement lines to the company ledger (adjusting capital).
+ * @param company any company object
+ * @param settlement JobSettlement
+ * @returns any updated company
+ */
+export function applySettlement(company: any, settlement: JobSettlement): any {
+  return postTransactions(company, settlement.lines);
+}
@@ -0,0 +1,206 @@
+/**
+ * src/utils/loadConsolidation.ts
+ *
+ * Purpose:
+ * - Multi-drop loads: one truck / trailer pair carries several partial freight offers loaded at
+ *   the same city and drops them one after the other.
+ * - Checks the combined load (capacity, cargo / trailer compatibility, cargo types that cannot
+ *   share a trailer) and plans the drop order.
+ * - Builds one job per consignment, chained by drop order, so every consignment keeps its own
+ *   value, deadline and settlement.
+ *
+ * Notes:
+ * - Drop k is the road leg from drop k-1 (the pickup city for the first drop). The first drop
+ *   loads the whole consignment set; jobLifecycleEngine starts each later drop as soon as the
+ *   truck has unloaded at the previous one.
+ * - Consignment deadlines are fixed when the load is accepted (not when its leg starts).
+ * - Fuel, tolls and ferries of a leg are charged to the consignment of that leg.
+ */
+
+import { getDistance } from './distanceCalculator';
+import { validateAssignment, AssignmentInput, AssignmentIssue, AssignmentValidation } from './assignmentValidator';
+import { resolveDeadline } from './jobSettlement';
+import { SIM_HOUR_MS } from './simulationClock';
+
+/**
+ * Consignment
+ * @description Part of a freight offer taken into a multi-drop load.
+ */
+export interface Consignment {
+  offer: any;
+  /** Tonnes taken */
+  weight: number;
+  /** Pay for the tonnes taken */
+  value: number;
+}
+
+/**
+ * ConsolidationCheck
+ * @description Validation of a multi-drop load with its planned drop order.
+ */
+export interface ConsolidationCheck extends AssignmentValidation {
+  /** Consignments in drop order */
+  drops: Consignment[];
+  totalWeight: number;
+  /** Road kilometres from the pickup through every drop */
+  distanceKm: number;
+}
+
+/** Most drops on one load */
+export const MAX_DROPS = 6;
+/** Cargo loaded loose in one compartment: only shared with the same cargo type */
+export const SINGLE_COMPARTMENT_CARGO = ['Agricultural Bulk', 'Bulk Powder / Cement'];
+/** Average speed used to estimate drop arrivals against deadlines (as the job generator) */
+const PLANNING_SPEED_KMH = 60;
+/** Kilometres a late hour is worth when comparing drop orders */
+const LATE_HOUR_KM = 1000;
+
+/**
+ * legKm
+ * @description Road kilometres between two stops (0 for drops in the same city).
+ */
+function legKm(from: string, to: string): number | null {
+  if (from === to) return 0;
+  return getDistance(from, to);
+}
+
+/**
+ * permutations
+ * @description Every order of the given items.
+ */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest]));
+}
+
+/**
+ * LoadConsolidationService
+ * @description Multi-drop load checks, drop planning and consignment jobs.
+ */
+class LoadConsolidationService {
+  /**
+   * planDrops
+   * @description Drop order with the fewest late hours, then the fewest kilometres (arrivals at
+   *              the planning speed from `now`). Returns null when a drop has no road.
+   */
+  planDrops(origin: string, consignments: Consignment[], now: number = Date.now()): { drops: Consignment[]; distanceKm: number } | null {
+    let best: { drops: Consignment[]; distanceKm: number; score: number } | null = null;
+    for (const order of permutations(consignments)) {
+      let at = origin;
+      let km = 0;
+      let lateHours = 0;
+      let reachable = true;
+      for (const drop of order) {
+        const leg = legKm(at, drop.offer.destination);
+        if (leg === null) {
+          reachable = false;
+          break;
+        }
+        km += leg;
+        const deadline = resolveDeadline(drop.offer.deadline, now);
+        if (deadline !== null) lateHours += Math.max(0, km / PLANNING_SPEED_KMH - (deadline - now) / SIM_HOUR_MS);
+        at = drop.offer.destination;
+      }
+      if (!reachable) continue;
+      const score = lateHours * LATE_HOUR_KM + km;
+      if (!best || score < best.score) best = { drops: order, distanceKm: Math.round(km * 10) / 10, score };
+    }
+    return best ? { drops: best.drops, distanceKm: best.distanceKm } : null;
+  }
+
+  /**
+   * check
+   * @description Validate a multi-drop load for an assignment: same pickup city, partial-load
+   *              offers, cargo types that can share the trailer, and the truck / trailer / crew
+   *              for every cargo type at the combined weight.
+   */
+  check(company: any, consignments: Consignment[], assignment: AssignmentInput, excludeJobIds: string[] = [], now: number = Date.now()): ConsolidationCheck {
+    const issues: AssignmentIssue[] = [];
+    const totalWeight = consignments.reduce((sum, c) => sum + Math.max(0, Number(c.weight) || 0), 0);
+    const fail = (extra: AssignmentIssue[] = []): ConsolidationCheck => ({ valid: false, issues: [...issues, ...extra], drops: consignments, totalWeight, distanceKm: 0 });
+
+    if (consignments.length < 2) return fail([{ rule: 'cargo', message: 'A multi-drop load needs at least two consignments.' }]);
+    if (consignments.length > MAX_DROPS) return fail([{ rule: 'cargo', message: `A load can have at most ${MAX_DROPS} drops.` }]);
+
+    const origin = consignments[0].offer?.origin;
+    if (consignments.some((c) => c.offer?.origin !== origin)) {
+      issues.push({ rule: 'cargo', message: 'All consignments must be loaded in the same city.' });
+    }
+    consignments.filter((c) => !c.offer?.allowPartialLoad).forEach((c) => {
+      issues.push({ rule: 'cargo', message: `${c.offer?.title ?? 'This offer'} (${c.offer?.cargoType}) cannot share a trailer.` });
+    });
+    const cargoTypes = Array.from(new Set(consignments.map((c) => String(c.offer?.cargoType ?? ''))));
+    const loose = cargoTypes.filter((t) => SINGLE_COMPARTMENT_CARGO.includes(t));
+    if (loose.length > 0 && cargoTypes.length > 1) {
+      issues.push({ rule: 'cargo', message: `${loose.join(', ')} is loaded loose and cannot be mixed with other cargo.` });
+    }
+
+    // Truck, trailer and crew for each cargo type at the combined weight (unique messages)
+    cargoTypes.forEach((cargoType) => {
+      const value = Math.max(...consignments.filter((c) => c.offer?.cargoType === cargoType).map((c) => Number(c.value) || 0));
+      validateAssignment(company, { cargoType, weight: totalWeight, value }, assignment, excludeJobIds).issues.forEach((issue) => {
+        if (!issues.some((i) => i.message === issue.message)) issues.push(issue);
+      });
+    });
+
+    const plan = origin ? this.planDrops(origin, consignments, now) : null;
+    if (!plan) issues.push({ rule: 'cargo', message: 'A drop of this load cannot be reached by road.' });
+
+    return {
+      valid: issues.length === 0,
+      issues,
+      drops: plan?.drops ?? consignments,
+      totalWeight,
+      distanceKm: plan?.distanceKm ?? 0
+    };
+  }
+
+  /**
+   * buildJobs
+   * @description One job per consignment in drop order, chained from the pickup city. Only the
+   *              first drop can be started; the others wait in 'preparing'.
+   */
+  buildJobs(drops: Consignment[], assignment: AssignmentInput, loadId: string, now: number = Date.now()): any[] {
+    const totalWeight = drops.reduce((sum, c) => sum + Math.max(0, Number(c.weight) || 0), 0);
+    const origin = drops[0]?.offer?.origin || 'Unknown';
+    let at = origin;
+    let aboard = totalWeight;
+    return drops.map((drop, i) => {
+      const deadline = resolveDeadline(drop.offer.deadline, now);
+      const job = {
+        id: `${loadId}-drop-${i + 1}`,
+        title: drop.offer.title || 'Transport Contract',
+        contractId: `contract-${loadId}-${i + 1}`,
+        assignedTruck: assignment.assignedTruck ?? '',
+        assignedTrailer: assignment.assignedTrailer ?? '',
+        assignedDriver: assignment.assignedDriver ?? '',
+        ...(assignment.assignedCoDriver ? { assignedCoDriver: assignment.assignedCoDriver } : {}),
+        startTime: new Date(now),
+        estimatedCompletion: new Date(now + 7 * 24 * 60 * 60 * 1000),
+        progress: 0,
+        currentLocation: origin,
+        status: 'preparing',
+        value: Math.round(Number(drop.value) || 0),
+        distance: legKm(at, drop.offer.destination) ?? 0,
+        origin: at,
+        destination: drop.offer.destination,
+        deadline: deadline !== null ? new Date(deadline).toISOString() : 'No deadline',
+        cargoType: drop.offer.cargoType || 'General Cargo',
+        weight: drop.weight,
+        consolidationId: loadId,
+        dropIndex: i,
+        dropCount: drops.length,
+        loadOrigin: origin,
+        loadedWeight: aboard
+      };
+      at = drop.offer.destination;
+      aboard -= Math.max(0, Number(drop.weight) || 0);
+      return job;
+    });
+  }
+}
+
+/** Export singleton instance */
+export const loadConsolidation = new LoadConsolidationService();
+
+export default loadConsolidation;
@@ -0,0 +1,268 @@
+/**
+ * src/utils/maintenanceScheduler.ts
+ *
+ * Purpose:
+ * - Scheduled maintenance workflow on top of maintenanceEngine.
+ * - Scheduling charges the estimate, puts the truck into status 'maintenance' and keeps it out
+ *   of service for the estimated duration (simulated days); processDue finishes the work and
+ *   restores condition with maintenanceEngine.applyMaintenance.
+ * - Assigned mechanics shorten the duration and lower the cost: each mechanic helps a little
+ *   and their MECHANIC skills (skillsDatabase) add their repair speed / cost savings effects.
+ * - Service reminders when a truck is due by mileage since its last service or by condition.
+ *
+ * Notes:
+ * - Maintenance state lives on truck.maintenance; finished services on truck.maintenanceHistory.
+ * - The scheduler never persists; callers persist the returned company.
+ */
+
+import { maintenanceEngine } from './maintenanceEngine';
+import { skillsDatabase } from './skillsDatabase';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { addSimDays, toMs } from './simulationClock';
+
+/**
+ * MaintenanceQuote
+ * @description Cost and duration of a service with the chosen mechanics.
+ */
+export interface MaintenanceQuote {
+  baseCost: number;
+  baseDurationDays: number;
+  cost: number;
+  durationDays: number;
+  group: 1 | 2 | 3;
+  /** Applied reductions (0..1) */
+  timeReduction: number;
+  costReduction: number;
+  mechanicIds: string[];
+}
+
+/**
+ * MaintenanceJob
+ * @description Service in progress stored on truck.maintenance.
+ */
+export interface MaintenanceJob {
+  startedAt: string;
+  until: string;
+  cost: number;
+  durationDays: number;
+  mechanicIds: string[];
+}
+
+/**
+ * ServiceReminder
+ * @description Truck that should be serviced.
+ */
+export interface ServiceReminder {
+  truckId: string;
+  label: string;
+  reason: string;
+  urgency: 'due' | 'overdue';
+}
+
+/**
+ * MaintenanceScheduler
+ * @description Schedules, completes and reminds about truck maintenance.
+ */
+class MaintenanceScheduler {
+  /** Kilometres between services */
+  readonly SERVICE_INTERVAL_KM = 60000;
+  /** Condition below which a service is due */
+  readonly SERVICE_CONDITION = 60;
+  /** Condition below which a service is overdue */
+  readonly CRITICAL_CONDITION = 35;
+  /** Time saved by each assigned mechanic before skills */
+  readonly TIME_REDUCTION_PER_MECHANIC = 0.1;
+  /** Upper bounds for the combined reductions */
+  readonly MAX_TIME_REDUCTION = 0.5;
+  readonly MAX_COST_REDUCTION = 0.4;
+  /** Services kept in truck.maintenanceHistory */
+  readonly HISTORY_LIMIT = 20;
+  /** Mechanic skill effects (skillsDatabase) that shorten repairs */
+  readonly REPAIR_TIME_EFFECTS: readonly string[] = [
+    'repair_time',
+    'transmission_efficiency',
+    'ac_efficiency',
+    'body_repair_speed',
+    'tire_efficiency',
+    'hydraulic_efficiency',
+    'welding_efficiency',
+    'diagnostic_speed',
+    'electrical_repair',
+    'brake_repair_time',
+    'suspension_repair'
+  ];
+  /** Mechanic skill effects (skillsDatabase) that lower repair costs */
+  readonly REPAIR_COST_EFFECTS: readonly string[] = ['cost_savings'];
+
+  /**
+   * mechanicReductions
+   * @description Time and cost reductions granted by a set of mechanics.
+   */
+  mechanicReductions(mechanics: any[]): { timeReduction: number; costReduction: number } {
+    let time = 0;
+    let cost = 0;
+    mechanics.forEach((mechanic) => {
+      time += this.TIME_REDUCTION_PER_MECHANIC;
+      const skills: string[] = Array.isArray(mechanic?.skills) ? mechanic.skills : [];
+      skills.forEach((name) => {
+        const skill = skillsDatabase[name];
+        if (!skill || skill.category !== 'mechanic') return;
+        skill.effects.forEach((effect) => {
+          if (this.REPAIR_COST_EFFECTS.includes(effect.type)) cost += effect.value;
+          else if (this.REPAIR_TIME_EFFECTS.includes(effect.type)) time += effect.value;
+        });
+      });
+    });
+    return {
+      timeReduction: Number(Math.min(this.MAX_TIME_REDUCTION, time).toFixed(2)),
+      costReduction: Number(Math.min(this.MAX_COST_REDUCTION, cost).toFixed(2))
+    };
+  }
+
+  /**
+   * quote
+   * @description Estimate a service for a truck with the given mechanics (maintenanceEngine
+   *              estimate reduced by the mechanic bonuses).
+   */
+  quote(company: any, truck: any, mechanicIds: string[] = []): MaintenanceQuote {
+    const estimate = maintenanceEngine.estimateMaintenance({
+      id: String(truck?.id ?? ''),
+      price: Number(truck?.purchasePrice ?? truck?.price) || undefined,
+      condition: truck?.condition,
+      maintenanceGroup: truck?.maintenanceGroup ?? truck?.specifications?.maintenanceGroup
+    });
+    const mechanics = (company?.staff || []).filter((s: any) => mechanicIds.includes(String(s?.id)) && s.role === 'mechanic');
+    const { timeReduction, costReduction } = this.mechanicReductions(mechanics);
+    return {
+      baseCost: estimate.cost,
+      baseDurationDays: estimate.durationDays,
+      cost: Math.round(estimate.cost * (1 - costReduction)),
+      durationDays: Number((estimate.durationDays * (1 - timeReduction)).toFixed(2)),
+      group: estimate.group,
+      timeReduction,
+      costReduction,
+      mechanicIds: mechanics.map((m: any) => String(m.id))
+    };
+  }
+
+  /**
+   * isInMaintenance
+   * @description True while a truck is in the workshop.
+   */
+  isInMaintenance(truck: any): boolean {
+    return Boolean(truck?.maintenance) || truck?.status === 'maintenance';
+  }
+
+  /**
+   * schedule
+   * @description Start a service now: charge the quote, take the truck out of service until
+   *              the work is done. Returns an error message when it cannot be scheduled.
+   */
+  schedule(company: any, truckId: string, quote: MaintenanceQuote, now: number = Date.now()): { company: any; error?: string } {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(truckId));
+    if (!truck) return { company, error: 'Truck not found' };
+    if (this.isInMaintenance(truck)) return { company, error: 'Truck is already in maintenance' };
+    const onJob = (company.activeJobs || []).some((j: any) =>
+      j && String(j.assignedTruck) === String(truckId) && !['completed', 'cancelled'].includes(String(j.status)));
+    if (onJob) return { company, error: 'Truck is assigned to an open job' };
+    const busyMechanic = quote.mechanicIds.find((id) => (company.trucks || []).some((t: any) => t?.maintenance?.mechanicIds?.includes(id)));
+    if (busyMechanic) return { company, error: 'A selected mechanic is already working on another truck' };
+    if ((Number(company.capital) || 0) < quote.cost) return { company, error: 'Not enough capital for this service' };
+
+    const maintenance: MaintenanceJob = {
+      startedAt: new Date(now).toISOString(),
+      until: new Date(addSimDays(now, quote.durationDays)).toISOString(),
+      cost: quote.cost,
+      durationDays: quote.durationDays,
+      mechanicIds: quote.mechanicIds
+    };
+    const label = `${truck.brand ?? ''} ${truck.model ?? ''}`.trim() || String(truck.id);
+    const updated = {
+      ...company,
+      trucks: company.trucks.map((t: any) => String(t?.id) === String(truckId) ? { ...t, status: 'maintenance', maintenance } : t)
+    };
+    return {
+      company: postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.MAINTENANCE,
+        amount: quote.cost,
+        description: `Service (${quote.durationDays} days): ${label}`,
+        reference: String(truckId),
+        date: maintenance.startedAt
+      })
+    };
+  }
+
+  /**
+   * processDue
+   * @description Finish every service whose end time has passed: restore condition, return the
+   *              truck to service and record the service.
+   */
+  processDue(company: any, now: number = Date.now()): { company: any; completed: string[]; changed: boolean } {
+    const completed: string[] = [];
+    const trucks = (company?.trucks || []).map((t: any) => {
+      if (!t?.maintenance || toMs(t.maintenance.until) > now) return t;
+      const serviced: any = maintenanceEngine.applyMaintenance({
+        ...t,
+        durability: Number(t.durability ?? t.specifications?.durability) || undefined,
+        maintenanceGroup: t.maintenanceGroup ?? t.specifications?.maintenanceGroup
+      });
+      completed.push(String(t.id));
+      const { maintenance, ...rest } = t;
+      return {
+        ...rest,
+        condition: serviced.condition,
+        status: 'available',
+        lastServiceAt: maintenance.until,
+        lastServiceMileage: Number(t.mileage) || 0,
+        maintenanceHistory: [
+          ...(Array.isArray(t.maintenanceHistory) ? t.maintenanceHistory : []),
+          { ...maintenance, conditionBefore: t.condition, conditionAfter: serviced.condition }
+        ].slice(-this.HISTORY_LIMIT)
+      };
+    });
+    if (completed.length === 0) return { company, completed, changed: false };
+    return { company: { ...company, trucks }, completed, changed: true };
+  }
+
+  /**
+   * reminder
+   * @description Service reminder for a truck (null when no service is needed).
+   */
+  reminder(truck: any): ServiceReminder | null {
+    if (!truck || this.isInMaintenance(truck)) return null;
+    const label = `${truck.brand ?? ''} ${truck.model ?? ''}`.trim() || String(truck.id);
+    const sinceService = Math.max(0, (Number(truck.mileage) || 0) - (Number(truck.lastServiceMileage) || 0));
+    const condition = typeof truck.condition === 'number' ? truck.condition : 100;
+
+    if (condition < this.CRITICAL_CONDITION) {
+      return { truckId: String(truck.id), label, reason: `Condition ${condition}%`, urgency: 'overdue' };
+    }
+    if (sinceService >= this.SERVICE_INTERVAL_KM * 1.25) {
+      return { truckId: String(truck.id), label, reason: `${Math.round(sinceService).toLocaleString()} km since last service`, urgency: 'overdue' };
+    }
+    if (sinceService >= this.SERVICE_INTERVAL_KM) {
+      return { truckId: String(truck.id), label, reason: `${Math.round(sinceService).toLocaleString()} km since last service`, urgency: 'due' };
+    }
+    if (condition < this.SERVICE_CONDITION) {
+      return { truckId: String(truck.id), label, reason: `Condition ${condition}%`, urgency: 'due' };
+    }
+    return null;
+  }
+
+  /**
+   * reminders
+   * @description Service reminders for the whole fleet, overdue first.
+   */
+  reminders(company: any): ServiceReminder[] {
+    return (company?.trucks || [])
+      .map((t: any) => this.reminder(t))
+      .filter((r: ServiceReminder | null): r is ServiceReminder => r !== null)
+      .sort((a: ServiceReminder, b: ServiceReminder) => (a.urgency === b.urgency ? 0 : a.urgency === 'overdue' ? -1 : 1));
+  }
+}
+
+/** Export singleton engine instance */
+export const maintenanceScheduler = new MaintenanceScheduler();
+
+export default maintenanceScheduler;
@@ -0,0 +1,260 @@
+/**
+ * src/utils/payrollEngine.ts
+ *
+ * Purpose:
+ * - Recurring payroll for company staff on the simulated-day clock (see simulationClock).
+ * - Pays every employee's salary share for each payroll cycle and records it in the ledger.
+ * - Employees that cannot be paid accumulate unpaid wages, lose happiness, ask to leave and
+ *   finally resign after repeated missed paydays.
+ *
+ * Notes:
+ * - staff.salary is a monthly salary (hiring charges one month up front). A cycle pays
+ *   salary * intervalDays / 30. The prepaid month is stored as staff.paidUntil and cycles
+ *   only charge the days after it.
+ * - Payroll state lives on company.payroll; per-employee arrears on staff.unpaidWages and
+ *   staff.missedPaydays. The engine never persists; callers persist the returned company.
+ */
+
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { addSimDays, simDaysBetween, toMs } from './simulationClock';
+
+/**
+ * PayrollState
+ * @description Payroll bookkeeping stored on company.payroll.
+ */
+export interface PayrollState {
+  /** Simulated days between payroll runs */
+  intervalDays: number;
+  /** ISO timestamp of the last executed run (null before the first run) */
+  lastRunAt: string | null;
+  /** ISO timestamp of the next scheduled run */
+  nextRunAt: string;
+  /** Most recent runs (newest last) */
+  history: PayrollRun[];
+}
+
+/**
+ * PayrollRun
+ * @description Summary of one executed payroll cycle.
+ */
+export interface PayrollRun {
+  date: string;
+  paid: number;
+  unpaid: number;
+  employeesPaid: number;
+  employeesUnpaid: number;
+  resigned: string[];
+}
+
+/**
+ * PayrollPreview
+ * @description What the next payroll run will cost.
+ */
+export interface PayrollPreview {
+  nextRunAt: string;
+  amount: number;
+  arrears: number;
+  employees: number;
+  intervalDays: number;
+}
+
+/**
+ * PayrollResult
+ * @description Result of processing due payroll cycles.
+ */
+export interface PayrollResult {
+  company: any;
+  runs: PayrollRun[];
+  changed: boolean;
+}
+
+/**
+ * PayrollEngine
+ * @description Computes and applies payroll cycles for a company object.
+ */
+class PayrollEngine {
+  /** Default simulated days between payroll runs */
+  readonly DEFAULT_INTERVAL_DAYS = 7;
+  /** Happiness lost by an employee for each missed payday */
+  readonly UNPAID_HAPPINESS_DROP = 15;
+  /** Missed paydays after which the employee asks to leave */
+  readonly ASK_TO_LEAVE_AFTER = 1;
+  /** Missed paydays after which the employee resigns */
+  readonly RESIGN_AFTER = 3;
+  /** Safety cap on catch-up cycles processed in one call (e.g. after a long absence) */
+  readonly MAX_CATCH_UP_RUNS = 12;
+  /** Number of runs kept in company.payroll.history */
+  readonly HISTORY_LIMIT = 24;
+  /** Simulated days covered by the salary charged at hiring */
+  readonly PREPAID_DAYS = 30;
+
+  /**
+   * ensureState
+   * @description Return the company payroll state, creating a default schedule when missing.
+   */
+  ensureState(company: any, now: number = Date.now()): PayrollState {
+    const existing = company?.payroll;
+    const intervalDays = Number(existing?.intervalDays) > 0 ? Number(existing.intervalDays) : this.DEFAULT_INTERVAL_DAYS;
+    const nextRunMs = toMs(existing?.nextRunAt);
+    return {
+      intervalDays,
+      lastRunAt: existing?.lastRunAt ?? null,
+      nextRunAt: Number.isFinite(nextRunMs) ? new Date(nextRunMs).toISOString() : new Date(addSimDays(now, intervalDays)).toISOString(),
+      history: Array.isArray(existing?.history) ? existing.history : []
+    };
+  }
+
+  /**
+   * isOnPayroll
+   * @description Staff that are paid: salaried and already started (notice period over).
+   */
+  isOnPayroll(staff: any, now: number = Date.now()): boolean {
+    if (!staff) return false;
+    const salary = Number(staff.salary);
+    if (!Number.isFinite(salary) || salary <= 0) return false;
+    const startsAt = toMs(staff.availabilityDate);
+    return !(Number.isFinite(startsAt) && startsAt > now);
+  }
+
+  /**
+   * prepaidUntil
+   * @description End of the month paid at hiring for an employee starting at `startsAt`
+   *              (stored as staff.paidUntil).
+   */
+  prepaidUntil(startsAt: string | number | Date = Date.now()): string {
+    return new Date(addSimDays(startsAt, this.PREPAID_DAYS)).toISOString();
+  }
+
+  /**
+   * cycleAmount
+   * @description Wage due to one employee for the cycle ending at `runAt`; days already paid
+   *              up front (staff.paidUntil) are not charged again.
+   */
+  cycleAmount(staff: any, intervalDays: number, runAt?: number): number {
+    const paidUntil = toMs(staff?.paidUntil);
+    const prepaid = runAt !== undefined && Number.isFinite(paidUntil)
+      ? Math.min(intervalDays, Math.max(0, simDaysBetween(addSimDays(runAt, -intervalDays), paidUntil)))
+      : 0;
+    return Math.round((Number(staff?.salary) || 0) * (intervalDays - prepaid) / 30);
+  }
+
+  /**
+   * preview
+   * @description Next payroll date and amount (including outstanding arrears).
+   */
+  preview(company: any, now: number = Date.now()): PayrollPreview {
+    const state = this.ensureState(company, now);
+    const staff: any[] = Array.isArray(company?.staff) ? company.staff : [];
+    const runAt = toMs(state.nextRunAt);
+    const payable = staff.filter((s) => this.isOnPayroll(s, runAt) && this.cycleAmount(s, state.intervalDays, runAt) > 0);
+    const amount = payable.reduce((sum, s) => sum + this.cycleAmount(s, state.intervalDays, runAt), 0);
+    const arrears = staff.reduce((sum, s) => sum + (Number(s?.unpaidWages) || 0), 0);
+    return { nextRunAt: state.nextRunAt, amount, arrears, employees: payable.length, intervalDays: state.intervalDays };
+  }
+
+  /**
+   * runCycle
+   * @description Execute one payroll cycle at `runAt`. Employees are paid in hire order while
+   *              capital allows; the rest accumulate arrears and lose happiness.
+   */
+  private runCycle(company: any, state: PayrollState, runAt: number): { company: any; run: PayrollRun } {
+    let updated: any = { ...company, staff: (company.staff || []).map((s: any) => ({ ...s })) };
+    let paid = 0;
+    let unpaid = 0;
+    let employeesPaid = 0;
+    let employeesUnpaid = 0;
+    const resigned: string[] = [];
+
+    updated.staff.forEach((s: any) => {
+      if (!this.isOnPayroll(s, runAt)) return;
+      const due = this.cycleAmount(s, state.intervalDays, runAt) + (Number(s.unpaidWages) || 0);
+      if (due <= 0) return;
+      const available = typeof updated.capital === 'number' ? updated.capital - paid : 0;
+
+      if (due <= available) {
+        paid += due;
+        employeesPaid++;
+        s.unpaidWages = 0;
+        s.missedPaydays = 0;
+        return;
+      }
+
+      unpaid += due;
+      employeesUnpaid++;
+      s.unpaidWages = due;
+      s.missedPaydays = (Number(s.missedPaydays) || 0) + 1;
+      s.happiness = Math.max(0, Number(((typeof s.happiness === 'number' ? s.happiness : 100) - this.UNPAID_HAPPINESS_DROP).toFixed(2)));
+      if (s.missedPaydays >= this.ASK_TO_LEAVE_AFTER && !s.askedToLeave) {
+        s.askedToLeave = true;
+        s.askDate = new Date(runAt).toISOString();
+      }
+      if (s.missedPaydays >= this.RESIGN_AFTER && !s.isOwner) {
+        resigned.push(String(s.id));
+      }
+    });
+
+    if (paid > 0) {
+      updated = postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.SALARIES,
+        amount: paid,
+        description: `Payroll: ${employeesPaid} employee(s)`,
+        date: new Date(runAt).toISOString()
+      });
+    }
+
+    if (resigned.length > 0) {
+      updated.staff = updated.staff.filter((s: any) => !resigned.includes(String(s.id)));
+      updated.activeJobs = (updated.activeJobs || []).map((j: any) => {
+        if (!j) return j;
+        const next = { ...j };
+        if (resigned.includes(String(next.assignedDriver))) next.assignedDriver = '';
+        if (resigned.includes(String(next.assignedCoDriver))) next.assignedCoDriver = '';
+        return next;
+      });
+    }
+
+    return {
+      company: updated,
+      run: { date: new Date(runAt).toISOString(), paid, unpaid, employeesPaid, employeesUnpaid, resigned }
+    };
+  }
+
+  /**
+   * processDue
+   * @description Run every payroll cycle that is due at `now` (bounded by MAX_CATCH_UP_RUNS)
+   *              and return the updated company with its refreshed payroll schedule.
+   */
+  processDue(company: any, now: number = Date.now()): PayrollResult {
+    if (!company) return { company, runs: [], changed: false };
+    const state = this.ensureState(company, now);
+    const hadState = Boolean(company.payroll && company.payroll.nextRunAt);
+    let updated = company;
+    const runs: PayrollRun[] = [];
+
+    let nextRunMs = toMs(state.nextRunAt);
+    while (nextRunMs <= now && runs.length < this.MAX_CATCH_UP_RUNS) {
+      const result = this.runCycle(updated, state, nextRunMs);
+      updated = result.company;
+      runs.push(result.run);
+      state.lastRunAt = result.run.date;
+      nextRunMs = addSimDays(nextRunMs, state.intervalDays);
+    }
+    // Skip cycles beyond the catch-up cap instead of replaying them later
+    if (nextRunMs <= now) nextRunMs = addSimDays(now, state.intervalDays);
+
+    if (runs.length === 0 && hadState) return { company, runs, changed: false };
+
+    const payroll: PayrollState = {
+      ...state,
+      nextRunAt: new Date(nextRunMs).toISOString(),
+      history: [...state.history, ...runs].slice(-this.HISTORY_LIMIT)
+    };
+    return { company: { ...updated, payroll }, runs, changed: true };
+  }
+}
+
+/** Export singleton engine instance */
+export const payrollEngine = new PayrollEngine();
+
+export default payrollEngine;
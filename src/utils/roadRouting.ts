@@ -0,0 +1,540 @@
+/**
+ * src/utils/roadRouting.ts
+ *
+ * Purpose:
+ * - Road routing over the city coordinates in distance-scaffold.ts.
+ * - Builds a weighted road graph once (each city is linked to its nearest neighbours and to the
+ *   nearest city in every compass direction, weighted by the straight-line distance times the
+ *   road winding factor of its region) and runs
+ *   shortest-path searches with optional waypoints.
+ * - Returns the ordered city path of a route and the distance of every leg, so distances,
+ *   generated jobs, truck positions and the map all follow the same intermediate cities.
+ *
+ * Notes:
+ * - The graph is built lazily on first use. Shortest-path trees are cached per origin city, so
+ *   every destination from an origin costs a single search.
+ * - Roads never link cities on different landmasses, across a sea between two countries or
+ *   across a closed border. Islands are reached through the SEA_CROSSINGS links only.
+ * - Cities without coordinates are not routable (route() returns null); distanceCalculator
+ *   falls back to its other sources for them.
+ * - Bump ROAD_GRAPH_VERSION whenever the rules below change: the precomputed distance matrix
+ *   (distanceMatrix.ts) records the version it was built from and is ignored when it differs.
+ */
+
+import { cityCoords, CityCoords } from './distance-scaffold';
+import { getCountryCode } from './countryMapping';
+
+/** Version of the road graph rules */
+export const ROAD_GRAPH_VERSION = 3;
+
+/** Road winding factor for countries not listed in ROAD_WINDING */
+export const DEFAULT_ROAD_WINDING = 1.2;
+
+/**
+ * ROAD_WINDING
+ * @description Road length over straight-line distance by country code. A road between two
+ *              countries uses the average of both factors.
+ */
+export const ROAD_WINDING: Record<string, number> = {
+  // Lowlands and plains
+  nl: 1.15, be: 1.15, de: 1.15, dk: 1.15, pl: 1.15, lt: 1.15, lv: 1.15, ee: 1.15, by: 1.15,
+  ua: 1.15, ru: 1.15, hu: 1.15, fi: 1.18,
+  // Mountain regions
+  ch: 1.35, at: 1.3, si: 1.3, no: 1.4, al: 1.35, me: 1.4, mk: 1.3, ba: 1.35, xk: 1.3,
+  ge: 1.4, am: 1.4, az: 1.3, tj: 1.45, kg: 1.45, af: 1.45,
+  // Mediterranean and Anatolia
+  it: 1.25, es: 1.22, pt: 1.22, gr: 1.3, cy: 1.25, tr: 1.25, ir: 1.25, lb: 1.3,
+  // Deserts and steppes
+  sa: 1.12, ae: 1.12, om: 1.15, qa: 1.1, kw: 1.1, bh: 1.1, iq: 1.12, jo: 1.12, kz: 1.12,
+  uz: 1.15, tm: 1.12,
+  // South and East Asia
+  cn: 1.3, in: 1.3, bd: 1.3, mm: 1.35, vn: 1.3, la: 1.4, kh: 1.3, my: 1.25, id: 1.35,
+  ph: 1.35, jp: 1.3, kr: 1.25, np: 1.5
+};
+
+/**
+ * LANDMASS_BY_COUNTRY
+ * @description Islands and peninsulas cut off by sea or closed borders, by country code.
+ *              Unlisted countries are on the mainland.
+ */
+export const LANDMASS_BY_COUNTRY: Record<string, string> = {
+  gb: 'great-britain', ie: 'ireland', cy: 'cyprus', jp: 'japan', id: 'indonesia',
+  ph: 'philippines', kr: 'korea'
+};
+
+/**
+ * LANDMASS_BY_CITY
+ * @description Island cities of mainland countries.
+ */
+export const LANDMASS_BY_CITY: Record<string, string> = {
+  Palermo: 'sicily', Catania: 'sicily', Messina: 'sicily',
+  Palma: 'mallorca', 'Santa Cruz de Tenerife': 'tenerife', Funchal: 'madeira',
+  Heraklion: 'crete', Chania: 'crete', Rhodes: 'rhodes', Kuressaare: 'saaremaa'
+};
+
+/**
+ * SEA_SEPARATED
+ * @description Neighbouring countries with only sea between their cities (no road link).
+ */
+export const SEA_SEPARATED: Array<[string, string]> = [
+  ['fi', 'ee'], ['fi', 'se'], ['fi', 'lv'], ['se', 'ee'], ['se', 'lv'], ['se', 'lt'],
+  ['se', 'pl'], ['se', 'de'], ['dk', 'no'], ['dk', 'pl'], ['it', 'al'], ['it', 'me'], ['it', 'hr'],
+  ['ir', 'ae'], ['ir', 'om'], ['ir', 'qa'], ['ir', 'bh'], ['ir', 'sa'], ['ir', 'kw']
+];
+
+/**
+ * CLOSED_BORDERS
+ * @description Land borders trucks cannot cross.
+ */
+export const CLOSED_BORDERS: Array<[string, string]> = [
+  ['am', 'az'], ['am', 'tr'], ['il', 'lb'], ['il', 'sy'], ['ru', 'ua'], ['by', 'ua']
+];
+
+/** Country pairs (both orders) without a direct road */
+const BLOCKED_PAIRS = new Set(
+  [...SEA_SEPARATED, ...CLOSED_BORDERS].flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`])
+);
+
+/**
+ * SeaCrossing
+ * @description Ferry line between two port cities: the road distance between both cities
+ *              including the sea part (seaKm), the crossing time, the departures and the ticket
+ *              price per truck size. Lines sail in both directions with the same timetable.
+ */
+export interface SeaCrossing {
+  from: string;
+  to: string;
+  km: number;
+  seaKm: number;
+  /** Ferry line name */
+  name: string;
+  /** Simulated hours at sea */
+  crossingHours: number;
+  /** Departure times (simulated hour of day) */
+  departureHours: number[];
+  /** Sailing every n simulated days (default 1) */
+  everyDays?: number;
+  /** Ticket price per truck (USD) */
+  fares: { small: number; medium: number; heavy: number };
+}
+
+/** Hourly departures from 06:00 to 22:00 (short shuttle crossings) */
+const HOURLY = Array.from({ length: 17 }, (_, i) => 6 + i);
+
+/**
+ * SEA_CROSSINGS
+ * @description Ferry links between landmasses (and across SEA_SEPARATED seas). The Bosphorus,
+ *              the Øresund and the Great Belt are bridged and need no ferry.
+ */
+export const SEA_CROSSINGS: SeaCrossing[] = [
+  { from: 'Portsmouth', to: 'Le Havre', km: 190, seaKm: 190, name: 'Portsmouth – Le Havre', crossingHours: 5.5, departureHours: [8, 14, 23], fares: { small: 220, medium: 380, heavy: 620 } },
+  { from: 'Kingston upon Hull', to: 'Rotterdam', km: 370, seaKm: 370, name: 'Hull – Rotterdam', crossingHours: 11, departureHours: [20], fares: { small: 300, medium: 520, heavy: 850 } },
+  { from: 'Liverpool', to: 'Dublin', km: 220, seaKm: 220, name: 'Liverpool – Dublin', crossingHours: 8, departureHours: [3, 10, 22], fares: { small: 200, medium: 350, heavy: 560 } },
+  { from: 'Naples', to: 'Palermo', km: 315, seaKm: 315, name: 'Naples – Palermo', crossingHours: 10, departureHours: [20], fares: { small: 180, medium: 320, heavy: 520 } },
+  { from: 'Barcelona', to: 'Palma', km: 200, seaKm: 200, name: 'Barcelona – Palma', crossingHours: 7.5, departureHours: [11, 23], fares: { small: 160, medium: 280, heavy: 460 } },
+  { from: 'Valencia', to: 'Palma', km: 260, seaKm: 260, name: 'Valencia – Palma', crossingHours: 8, departureHours: [23], fares: { small: 160, medium: 280, heavy: 460 } },
+  { from: 'Seville', to: 'Santa Cruz de Tenerife', km: 1400, seaKm: 1300, name: 'Huelva – Tenerife', crossingHours: 36, departureHours: [17], everyDays: 7, fares: { small: 600, medium: 1000, heavy: 1600 } },
+  { from: 'Lisbon', to: 'Funchal', km: 970, seaKm: 970, name: 'Lisbon – Funchal', crossingHours: 24, departureHours: [18], everyDays: 7, fares: { small: 500, medium: 850, heavy: 1350 } },
+  { from: 'Athens', to: 'Heraklion', km: 320, seaKm: 320, name: 'Piraeus – Heraklion', crossingHours: 9, departureHours: [21], fares: { small: 150, medium: 260, heavy: 430 } },
+  { from: 'Athens', to: 'Chania', km: 290, seaKm: 290, name: 'Piraeus – Chania', crossingHours: 9, departureHours: [21], fares: { small: 150, medium: 260, heavy: 430 } },
+  { from: 'Athens', to: 'Rhodes', km: 430, seaKm: 430, name: 'Piraeus – Rhodes', crossingHours: 15, departureHours: [17], fares: { small: 220, medium: 380, heavy: 600 } },
+  { from: 'Pärnu', to: 'Kuressaare', km: 150, seaKm: 8, name: 'Virtsu – Kuivastu', crossingHours: 0.5, departureHours: HOURLY, fares: { small: 30, medium: 50, heavy: 80 } },
+  { from: 'Mersin', to: 'Kyrenia', km: 160, seaKm: 160, name: 'Taşucu – Kyrenia', crossingHours: 6, departureHours: [22], fares: { small: 180, medium: 300, heavy: 480 } },
+  { from: 'Helsinki', to: 'Tallinn', km: 85, seaKm: 85, name: 'Helsinki – Tallinn', crossingHours: 2, departureHours: [7, 10, 13, 16, 19, 22], fares: { small: 120, medium: 200, heavy: 320 } },
+  { from: 'Stockholm', to: 'Turku', km: 240, seaKm: 240, name: 'Stockholm – Turku', crossingHours: 11, departureHours: [7, 20], fares: { small: 180, medium: 320, heavy: 520 } },
+  { from: 'Aalborg', to: 'Kristiansand', km: 200, seaKm: 140, name: 'Hirtshals – Kristiansand', crossingHours: 3.25, departureHours: [8, 16, 21], fares: { small: 150, medium: 260, heavy: 420 } },
+  { from: 'Bari', to: 'Durrës', km: 230, seaKm: 230, name: 'Bari – Durrës', crossingHours: 9, departureHours: [22], fares: { small: 170, medium: 300, heavy: 480 } },
+  { from: 'Busan', to: 'Fukuoka', km: 215, seaKm: 215, name: 'Busan – Hakata', crossingHours: 12, departureHours: [21], fares: { small: 250, medium: 420, heavy: 680 } },
+  { from: 'Incheon', to: 'Qingdao', km: 580, seaKm: 580, name: 'Incheon – Qingdao', crossingHours: 16, departureHours: [18], everyDays: 2, fares: { small: 350, medium: 600, heavy: 950 } },
+  { from: 'Melaka', to: 'Medan', km: 550, seaKm: 60, name: 'Melaka – Dumai', crossingHours: 2.5, departureHours: [10], fares: { small: 120, medium: 200, heavy: 320 } }
+];
+
+/**
+ * RouteLeg
+ * @description Road between two consecutive cities of a route.
+ */
+export interface RouteLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  /** Part of the leg at sea (ferry legs only) */
+  seaKm?: number;
+  /** Ferry line of the leg (see SEA_CROSSINGS) */
+  ferry?: string;
+}
+
+/**
+ * RoutePlan
+ * @description Ordered city path with per-leg and total distances.
+ */
+export interface RoutePlan {
+  path: string[];
+  legs: RouteLeg[];
+  distanceKm: number;
+}
+
+/**
+ * RoutePosition
+ * @description Point reached after a distance along a route.
+ */
+export interface RoutePosition {
+  lat: number;
+  lon: number;
+  /** Last city passed */
+  from: string;
+  /** Next city on the route */
+  to: string;
+  /** City closest to the position */
+  nearest: string;
+}
+
+type Edge = { to: string; km: number; seaKm?: number; ferry?: string };
+type SearchTree = { dist: Map<string, number>; prev: Map<string, string> };
+
+/** Earth radius in km */
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * haversineKm
+ * @description Straight-line distance between two coordinates.
+ */
+function haversineKm(a: CityCoords, b: CityCoords): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * RoadRouter
+ * @description Road graph and shortest-path searches.
+ */
+class RoadRouter {
+  /** Roads per city: links to the nearest cities */
+  readonly NEIGHBOURS = 6;
+  /** Compass sectors with a road to their nearest city (no detours where cities are sparse) */
+  readonly SECTORS = 8;
+  /** Longest road link between two cities (km, straight line) */
+  readonly MAX_LINK_KM = 450;
+  /** Longest road joining an otherwise cut-off group of cities (km, straight line) */
+  readonly MAX_BRIDGE_KM = 900;
+  /** Cached shortest-path trees */
+  readonly TREE_CACHE_SIZE = 64;
+
+  private graph: Map<string, Edge[]> | null = null;
+  private trees: Map<string, SearchTree> = new Map();
+
+  /**
+   * landmass
+   * @description Landmass of a city (islands per LANDMASS_BY_CITY / LANDMASS_BY_COUNTRY).
+   */
+  landmass(city: string): string {
+    return LANDMASS_BY_CITY[city] ?? LANDMASS_BY_COUNTRY[getCountryCode(city)] ?? 'mainland';
+  }
+
+  /**
+   * winding
+   * @description Road winding factor between two cities.
+   */
+  winding(a: string, b: string): number {
+    const factor = (city: string) => ROAD_WINDING[getCountryCode(city)] ?? DEFAULT_ROAD_WINDING;
+    return (factor(a) + factor(b)) / 2;
+  }
+
+  /**
+   * roadAllowed
+   * @description True when a direct road may link two cities (same landmass, no sea between
+   *              both countries and no closed border).
+   */
+  roadAllowed(a: string, b: string): boolean {
+    if (this.landmass(a) !== this.landmass(b)) return false;
+    const ca = getCountryCode(a);
+    const cb = getCountryCode(b);
+    return ca === cb || !BLOCKED_PAIRS.has(`${ca}|${cb}`);
+  }
+
+  /**
+   * edges
+   * @description Road graph (built on first use).
+   */
+  private edges(): Map<string, Edge[]> {
+    if (this.graph) return this.graph;
+    const graph = new Map<string, Edge[]>();
+    const cities = Object.keys(cityCoords);
+    const n = cities.length;
+    cities.forEach((city) => graph.set(city, []));
+
+    // Straight-line distance of every pair a road may link (Infinity otherwise)
+    const straight = new Float64Array(n * n).fill(Infinity);
+    const landmass = cities.map((city) => this.landmass(city));
+    const country = cities.map((city) => getCountryCode(city));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (landmass[i] !== landmass[j]) continue;
+        if (country[i] !== country[j] && BLOCKED_PAIRS.has(`${country[i]}|${country[j]}`)) continue;
+        const km = haversineKm(cityCoords[cities[i]], cityCoords[cities[j]]);
+        if (km <= 0) continue;
+        straight[i * n + j] = km;
+        straight[j * n + i] = km;
+      }
+    }
+
+    const link = (a: string, b: string, km: number, ferry?: SeaCrossing) => {
+      const roads = graph.get(a)!;
+      if (!roads.some((e) => e.to === b)) roads.push(ferry ? { to: b, km, seaKm: ferry.seaKm, ferry: ferry.name } : { to: b, km });
+    };
+    const road = (i: number, j: number) => {
+      const km = Math.round(straight[i * n + j] * this.winding(cities[i], cities[j]) * 10) / 10;
+      link(cities[i], cities[j], km);
+      link(cities[j], cities[i], km);
+    };
+
+    for (let i = 0; i < n; i++) {
+      const nearest: number[] = [];
+      for (let j = 0; j < n; j++) {
+        if (straight[i * n + j] <= this.MAX_LINK_KM) nearest.push(j);
+      }
+      nearest
+        .sort((a, b) => straight[i * n + a] - straight[i * n + b])
+        .slice(0, this.NEIGHBOURS)
+        .forEach((j) => road(i, j));
+
+      const sectorNearest = new Int32Array(this.SECTORS).fill(-1);
+      const from = cityCoords[cities[i]];
+      nearest.forEach((j) => {
+        const to = cityCoords[cities[j]];
+        const bearing = Math.atan2(to.lat - from.lat, (to.lon - from.lon) * Math.cos((from.lat * Math.PI) / 180));
+        const sector = Math.floor(((bearing + Math.PI) / (2 * Math.PI)) * this.SECTORS) % this.SECTORS;
+        const current = sectorNearest[sector];
+        if (current < 0 || straight[i * n + j] < straight[i * n + current]) sectorNearest[sector] = j;
+      });
+      sectorNearest.forEach((j) => {
+        if (j >= 0) road(i, j);
+      });
+    }
+
+    // Join isolated groups of cities to the nearest city outside the group (same landmass)
+    for (;;) {
+      const group = new Int32Array(n).fill(-1);
+      const index = new Map(cities.map((city, i) => [city, i]));
+      for (let i = 0; i < n; i++) {
+        if (group[i] >= 0) continue;
+        const queue = [i];
+        group[i] = i;
+        while (queue.length > 0) {
+          (graph.get(cities[queue.pop()!]) || []).forEach((e) => {
+            const j = index.get(e.to)!;
+            if (group[j] < 0) {
+              group[j] = i;
+              queue.push(j);
+            }
+          });
+        }
+      }
+
+      const sizes = new Map<number, number>();
+      group.forEach((id) => sizes.set(id, (sizes.get(id) || 0) + 1));
+      const largest = Math.max(...sizes.values());
+      let bridged = false;
+      sizes.forEach((size, id) => {
+        if (size === largest) return;
+        let best: [number, number] | null = null;
+        let bestKm = this.MAX_BRIDGE_KM;
+        for (let i = 0; i < n; i++) {
+          if (group[i] !== id) continue;
+          for (let j = 0; j < n; j++) {
+            if (group[j] !== id && straight[i * n + j] <= bestKm) {
+              bestKm = straight[i * n + j];
+              best = [i, j];
+            }
+          }
+        }
+        if (best) {
+          road(best[0], best[1]);
+          bridged = true;
+        }
+      });
+      if (!bridged) break;
+    }
+
+    SEA_CROSSINGS.forEach((crossing) => {
+      if (!graph.has(crossing.from) || !graph.has(crossing.to)) return;
+      link(crossing.from, crossing.to, crossing.km, crossing);
+      link(crossing.to, crossing.from, crossing.km, crossing);
+    });
+
+    this.graph = graph;
+    return graph;
+  }
+
+  /**
+   * hasCity
+   * @description True when the city is part of the road graph.
+   */
+  hasCity(city: string): boolean {
+    return this.edges().has(city);
+  }
+
+  /**
+   * neighbours
+   * @description Cities directly linked to a city by road.
+   */
+  neighbours(city: string): RouteLeg[] {
+    return (this.edges().get(city) || []).map((e) => this.leg(city, e));
+  }
+
+  /**
+   * leg
+   * @description Route leg for a graph edge.
+   */
+  private leg(from: string, edge: Edge): RouteLeg {
+    return edge.ferry
+      ? { from, to: edge.to, distanceKm: edge.km, seaKm: edge.seaKm, ferry: edge.ferry }
+      : { from, to: edge.to, distanceKm: edge.km };
+  }
+
+  /**
+   * tree
+   * @description Shortest-path tree from an origin (Dijkstra with a binary heap), cached.
+   */
+  private tree(origin: string): SearchTree {
+    const cached = this.trees.get(origin);
+    if (cached) return cached;
+
+    const graph = this.edges();
+    const dist = new Map<string, number>([[origin, 0]]);
+    const prev = new Map<string, string>();
+    const heap: Array<[number, string]> = [[0, origin]];
+
+    const push = (item: [number, string]) => {
+      heap.push(item);
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent][0] <= heap[i][0]) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = (): [number, string] => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let min = i;
+          if (l < heap.length && heap[l][0] < heap[min][0]) min = l;
+          if (r < heap.length && heap[r][0] < heap[min][0]) min = r;
+          if (min === i) break;
+          [heap[min], heap[i]] = [heap[i], heap[min]];
+          i = min;
+        }
+      }
+      return top;
+    };
+
+    while (heap.length > 0) {
+      const [d, city] = pop();
+      if (d > (dist.get(city) ?? Infinity)) continue;
+      (graph.get(city) || []).forEach((edge) => {
+        const next = d + edge.km;
+        if (next < (dist.get(edge.to) ?? Infinity)) {
+          dist.set(edge.to, next);
+          prev.set(edge.to, city);
+          push([next, edge.to]);
+        }
+      });
+    }
+
+    const result = { dist, prev };
+    this.trees.set(origin, result);
+    if (this.trees.size > this.TREE_CACHE_SIZE) {
+      this.trees.delete(this.trees.keys().next().value as string);
+    }
+    return result;
+  }
+
+  /**
+   * shortestPath
+   * @description Shortest city path between two cities (null when unreachable).
+   */
+  private shortestPath(from: string, to: string): string[] | null {
+    if (!this.hasCity(from) || !this.hasCity(to)) return null;
+    if (from === to) return [from];
+    const { dist, prev } = this.tree(from);
+    if (!dist.has(to)) return null;
+    const path = [to];
+    while (path[0] !== from) path.unshift(prev.get(path[0])!);
+    return path;
+  }
+
+  /**
+   * route
+   * @description Route from `from` to `to` through the given waypoints, in order. Returns null
+   *              when a city is unknown or unreachable by road.
+   */
+  route(from: string, to: string, waypoints: string[] = []): RoutePlan | null {
+    const stops = [from, ...waypoints, to];
+    const path: string[] = [from];
+    for (let i = 0; i < stops.length - 1; i++) {
+      const part = this.shortestPath(stops[i], stops[i + 1]);
+      if (!part) return null;
+      path.push(...part.slice(1));
+    }
+
+    const graph = this.edges();
+    const legs: RouteLeg[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+      const edge = (graph.get(path[i]) || []).find((e) => e.to === path[i + 1]);
+      legs.push(edge ? this.leg(path[i], edge) : { from: path[i], to: path[i + 1], distanceKm: 0 });
+    }
+    const distanceKm = Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0) * 10) / 10;
+    return { path, legs, distanceKm };
+  }
+
+  /**
+   * distancesFrom
+   * @description Road distance from an origin to every reachable city (rounded like route()).
+   */
+  distancesFrom(origin: string): Map<string, number> {
+    if (!this.hasCity(origin)) return new Map();
+    return new Map(Array.from(this.tree(origin).dist, ([city, km]) => [city, Math.round(km * 10) / 10]));
+  }
+
+  /**
+   * positionAt
+   * @description Point reached after `km` along a route (clamped to the route ends).
+   */
+  positionAt(plan: RoutePlan, km: number): RoutePosition | null {
+    const first = cityCoords[plan.path[0]];
+    if (!first) return null;
+    if (plan.legs.length === 0) return { ...first, from: plan.path[0], to: plan.path[0], nearest: plan.path[0] };
+
+    let remaining = Math.max(0, km);
+    for (const leg of plan.legs) {
+      if (remaining <= leg.distanceKm || leg === plan.legs[plan.legs.length - 1]) {
+        const share = leg.distanceKm > 0 ? Math.min(1, remaining / leg.distanceKm) : 1;
+        const a = cityCoords[leg.from];
+        const b = cityCoords[leg.to];
+        return {
+          lat: a.lat + (b.lat - a.lat) * share,
+          lon: a.lon + (b.lon - a.lon) * share,
+          from: leg.from,
+          to: leg.to,
+          nearest: share < 0.5 ? leg.from : leg.to
+        };
+      }
+      remaining -= leg.distanceKm;
+    }
+    return null;
+  }
+}
+
+/** Export singleton instance */
+export const roadRouter = new RoadRouter();
+
+export default roadRouter;
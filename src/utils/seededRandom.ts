@@ -0,0 +1,53 @@
+/**
+ * src/utils/seededRandom.ts
+ *
+ * Purpose:
+ * - Seedable random source for generators that must be reproducible (job market). A source
+ *   created from the same seed returns the same sequence, so a market can be regenerated for
+ *   debugging and two generator versions can be compared on the same seed.
+ *
+ * Notes:
+ * - Mulberry32: 32-bit state, fast and good enough for gameplay. Not for security.
+ * - The state after some draws can be stored and resumed with createRandom(source.state()).
+ * - Math.random is a valid `Random` for callers that do not need reproducibility.
+ */
+
+/**
+ * Random
+ * @description Uniform number in [0, 1), like Math.random.
+ */
+export type Random = () => number;
+
+/**
+ * RandomSource
+ * @description Seeded Random whose state can be stored and resumed.
+ */
+export interface RandomSource extends Random {
+  /** State to resume the sequence from (createRandom) */
+  state: () => number;
+}
+
+/**
+ * createRandom
+ * @description Seeded random source (the seed is reduced to an unsigned 32-bit integer).
+ */
+export function createRandom(seed: number): RandomSource {
+  let a = (Math.floor(Number(seed) || 0) >>> 0);
+  const next = (() => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as RandomSource;
+  next.state = () => a;
+  return next;
+}
+
+/**
+ * randomSeed
+ * @description New unsigned 32-bit seed.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
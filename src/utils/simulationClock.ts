@@ -0,0 +1,68 @@
+/**
+ * src/utils/simulationClock.ts
+ *
+ * Purpose:
+ * - Single definition of the simulated-day clock shared by the background engines.
+ *   One simulated day lasts SIM_DAY_MS of real time (the default tick of
+ *   startDriverEngine / startStaffConditionEngine).
+ * - Helpers to convert between real timestamps and simulated days, and to derive
+ *   the in-game calendar date of a company (founded date + elapsed simulated days).
+ */
+
+/** Real milliseconds per simulated day */
+export const SIM_DAY_MS = 60_000;
+
+/** Real milliseconds per simulated hour */
+export const SIM_HOUR_MS = SIM_DAY_MS / 24;
+
+/**
+ * toMs
+ * @description Normalize a Date | ISO string | epoch ms to epoch ms (NaN when invalid).
+ */
+export function toMs(value: string | number | Date | null | undefined): number {
+  if (value === null || value === undefined) return NaN;
+  if (typeof value === 'number') return value;
+  return new Date(value).getTime();
+}
+
+/**
+ * simDaysBetween
+ * @description Number of simulated days (fractional) between two real timestamps.
+ */
+export function simDaysBetween(from: string | number | Date, to: string | number | Date): number {
+  const a = toMs(from);
+  const b = toMs(to);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return 0;
+  return (b - a) / SIM_DAY_MS;
+}
+
+/**
+ * addSimDays
+ * @description Real timestamp reached after `days` simulated days from `from`.
+ */
+export function addSimDays(from: string | number | Date, days: number): number {
+  return toMs(from) + days * SIM_DAY_MS;
+}
+
+/**
+ * addSimHours
+ * @description Real timestamp reached after `hours` simulated hours from `from`.
+ */
+export function addSimHours(from: string | number | Date, hours: number): number {
+  return toMs(from) + hours * SIM_HOUR_MS;
+}
+
+/**
+ * gameDateFor
+ * @description In-game calendar date for a real timestamp: the company founding date
+ *              advanced by the simulated days elapsed since the company was founded.
+ * @param company any company-like object
+ * @param at real timestamp (defaults to now)
+ * @returns Date
+ */
+export function gameDateFor(company: any, at: number = Date.now()): Date {
+  const founded = toMs(company?.founded);
+  const base = Number.isFinite(founded) ? founded : at;
+  const days = Math.max(0, simDaysBetween(base, at));
+  return new Date(base + days * 24 * 60 * 60 * 1000);
+}
@@ -76,6 +76,7 @@ interface DriverState {
 /* Imports (incident engine)                                                   */
 /* -------------------------------------------------------------------------- */
 import { incidentEngine } from './incidentEngine';
+import { DEFAULT_HOS_RULES } from './hoursOfService';
 
 /* -------------------------------------------------------------------------- */
 /* TruckDrivingEngine Implementation                                           */
@@ -95,8 +96,8 @@ class TruckDrivingEngine {
     heavy: 65
   };
   private readonly CONDITION_DEGRADATION_PER_KM = 0.01; // 0.01% per km
-  private readonly MAX_DRIVING_HOURS = 6; // hours before mandatory brake
-  private readonly MIN_BRAKE_DURATION = 3600000; // 1 hour in milliseconds
+  private readonly MAX_DRIVING_HOURS = DEFAULT_HOS_RULES.maxContinuousHours; // hours before mandatory brake (hours-of-service rules)
+  private readonly MIN_BRAKE_DURATION = DEFAULT_HOS_RULES.breakHours * 3600000; // break length in milliseconds
   private readonly SAVE_INTERVAL = 60000; // Save every minute
   private readonly UPDATE_INTERVAL = 2000; // Update every 2 seconds
 
@@ -297,7 +298,7 @@ class TruckDrivingEngine {
 
     const brakeDuration = Date.now() - (driverState.lastBrakeTime || 0);
     if (brakeDuration < this.MIN_BRAKE_DURATION) {
-      console.log(`Driver ${driverId} must take minimum 1 hour break`);
+      console.log(`Driver ${driverId} must take a break of at least ${this.MIN_BRAKE_DURATION / 60000} minutes`);
       return;
     }
 
@@ -499,6 +500,24 @@ class TruckDrivingEngine {
     return this.truckStates.get(truckId) || null;
   }
 
+  /**
+   * Get cruising speed (km/h) for a truck
+   * @param truckId - truck identifier
+   * @param truck - optional fleet truck object used when the engine has no state for it
+   */
+  getCruisingSpeed(truckId: string, truck?: any): number {
+    const specs = this.truckSpecs.get(truckId);
+    if (specs?.speed) return specs.speed;
+    const state = this.truckStates.get(truckId);
+    if (state?.currentSpeed) return state.currentSpeed;
+
+    const fleetSpeed = Number(truck?.specifications?.speedKmH ?? truck?.speed);
+    if (Number.isFinite(fleetSpeed) && fleetSpeed > 0) return fleetSpeed;
+    const capacity = Number(truck?.tonnage ?? truck?.specifications?.capacity);
+    const truckType = Number.isFinite(capacity) && capacity > 0 ? this.determineTruckType(capacity, truck?.brand || '') : 'medium';
+    return this.AVERAGE_SPEEDS[truckType];
+  }
+
   /**
    * Get driver current state
    */
@@ -607,6 +626,7 @@ class TruckDrivingEngine {
    * Load states from localStorage
    */
   private loadStates(): void {
+    if (typeof localStorage === 'undefined') return;
     try {
       const truckStatesData = localStorage.getItem('truck_driving_states');
       const driverStatesData = localStorage.getItem('truck_driver_states');
@@ -633,6 +653,8 @@ class TruckDrivingEngine {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
+    // No timer outside the browser (node scripts / tests only use the calculators)
+    if (typeof window === 'undefined') return;
     this.updateInterval = window.setInterval(() => {
       this.updateAllTrucks();
       this.saveStates();
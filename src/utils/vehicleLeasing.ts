@@ -0,0 +1,385 @@
+/**
+ * src/utils/vehicleLeasing.ts
+ *
+ * Purpose:
+ * - Vehicle leasing as an alternative to buying: a truck or trailer listing with a leaseRate can
+ *   be leased for a fixed term. The first month is charged when signing, the following months
+ *   on the simulated-day clock (a lease month is 30 simulated days).
+ * - Early return before the end of the term costs a termination fee (a share of the months not
+ *   billed yet). At the end of the term the vehicle is returned or bought out at its residual
+ *   value; undecided vehicles go back to the lessor after a grace period.
+ * - Months that cannot be paid accumulate arrears; after repeated missed payments the lessor
+ *   repossesses the vehicle.
+ *
+ * Notes:
+ * - The contract lives on vehicle.lease (VehicleLease). Leased vehicles cannot be sold.
+ * - Vehicles on an open job or in the workshop are never taken back; repossession and the
+ *   automatic return wait until they are free.
+ * - The service never persists; callers persist the returned company.
+ */
+
+import type { VehicleLease } from '../types/game';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { assignPurchasedToCompany, VehicleKind } from './vehiclePurchaseUtils';
+import { addSimDays, toMs } from './simulationClock';
+
+/**
+ * LeaseQuote
+ * @description Cost of leasing a listing for a term.
+ */
+export interface LeaseQuote {
+  monthlyRate: number;
+  termMonths: number;
+  /** Sum of every monthly charge */
+  total: number;
+  /** Buy-out price at the end of the term */
+  residualValue: number;
+  listPrice: number;
+}
+
+/**
+ * LeaseStatus
+ * @description Lease figures shown for a leased vehicle.
+ */
+export interface LeaseStatus {
+  lease: VehicleLease;
+  monthsLeft: number;
+  ended: boolean;
+  /** Last moment to return or buy out an ended lease */
+  returnBy: string | null;
+  /** Cost of returning the vehicle now (termination fee and arrears) */
+  returnCost: number;
+  /** Cost of buying the vehicle out now (null before the end of the term) */
+  buyoutCost: number | null;
+}
+
+/**
+ * LeaseResult
+ * @description Result of a lease action; `error` is set when nothing was changed.
+ */
+export interface LeaseResult {
+  company: any;
+  error?: string;
+}
+
+/** Simulated days per lease month */
+export const LEASE_MONTH_DAYS = 30;
+/** Terms offered (months) with the residual value as a share of the list price */
+export const LEASE_TERMS: Record<number, number> = { 12: 0.85, 24: 0.7, 36: 0.55 };
+/** Share of the months not billed yet charged when returning early */
+export const EARLY_TERMINATION_SHARE = 0.5;
+/** Missed payments in a row after which the vehicle is repossessed */
+export const REPOSSESS_AFTER = 3;
+/** Simulated days after the end of the term to return or buy out */
+export const RETURN_GRACE_DAYS = 7;
+/** Safety cap on catch-up months charged in one call */
+const MAX_CATCH_UP_MONTHS = 12;
+
+/**
+ * vehicleLabel
+ * @description Brand and model, or the id.
+ */
+function vehicleLabel(vehicle: any): string {
+  return `${vehicle?.brand ?? ''} ${vehicle?.model ?? ''}`.trim() || String(vehicle?.id ?? 'vehicle');
+}
+
+/**
+ * VehicleLeasingService
+ * @description Signs, charges, ends and terminates vehicle leases.
+ */
+class VehicleLeasingService {
+  /**
+   * isLeased
+   * @description True for a vehicle with a lease contract.
+   */
+  isLeased(vehicle: any): boolean {
+    return Boolean(vehicle?.lease);
+  }
+
+  /**
+   * find
+   * @description Vehicle of the company fleet by id with its kind (null when not found).
+   */
+  find(company: any, vehicleId: string): { vehicle: any; kind: VehicleKind } | null {
+    const truck = (company?.trucks || []).find((t: any) => String(t?.id) === String(vehicleId));
+    if (truck) return { vehicle: truck, kind: 'truck' };
+    const trailer = (company?.trailers || []).find((t: any) => String(t?.id) === String(vehicleId));
+    return trailer ? { vehicle: trailer, kind: 'trailer' } : null;
+  }
+
+  /**
+   * inUse
+   * @description True while a vehicle is assigned to an open job or in the workshop.
+   */
+  inUse(company: any, vehicleId: string): boolean {
+    const id = String(vehicleId);
+    const onJob = (company?.activeJobs || []).some((j: any) =>
+      j && !['completed', 'cancelled'].includes(String(j.status)) && (String(j.assignedTruck) === id || String(j.assignedTrailer) === id));
+    const found = this.find(company, id);
+    return onJob || Boolean(found?.vehicle?.maintenance) || found?.vehicle?.status === 'maintenance';
+  }
+
+  /**
+   * quote
+   * @description Lease cost of a listing for a term (null when the listing cannot be leased).
+   */
+  quote(listing: any, termMonths: number): LeaseQuote | null {
+    const monthlyRate = Math.round(Number(listing?.leaseRate ?? listing?.marketEntry?.leaseRate) || 0);
+    const listPrice = Math.round(Number(listing?.price ?? listing?.marketEntry?.price) || 0);
+    const residualShare = LEASE_TERMS[termMonths];
+    if (monthlyRate <= 0 || residualShare === undefined) return null;
+    return {
+      monthlyRate,
+      termMonths,
+      total: monthlyRate * termMonths,
+      residualValue: Math.round(listPrice * residualShare),
+      listPrice
+    };
+  }
+
+  /**
+   * sign
+   * @description Lease a vehicle: charge the first month and add the fleet entry with its
+   *              contract to company.trucks or company.trailers.
+   */
+  sign(company: any, vehicle: any, termMonths: number, now: number = Date.now()): LeaseResult {
+    const quote = this.quote(vehicle, termMonths);
+    if (!quote) return { company, error: 'This vehicle cannot be leased for that term' };
+    if ((Number(company?.capital) || 0) < quote.monthlyRate) {
+      return { company, error: `Insufficient funds: ${quote.monthlyRate.toLocaleString()} USD required for the first month` };
+    }
+
+    const lease: VehicleLease = {
+      id: `lease-${vehicle.id}-${now}`,
+      monthlyRate: quote.monthlyRate,
+      termMonths,
+      listPrice: quote.listPrice,
+      residualValue: quote.residualValue,
+      signedAt: new Date(now).toISOString(),
+      endsAt: new Date(addSimDays(now, termMonths * LEASE_MONTH_DAYS)).toISOString(),
+      nextChargeAt: termMonths > 1 ? new Date(addSimDays(now, LEASE_MONTH_DAYS)).toISOString() : null,
+      billedMonths: 1,
+      missedPayments: 0,
+      arrears: 0,
+      status: 'active'
+    };
+    const { purchasePrice, ...entry } = vehicle;
+    const placed = assignPurchasedToCompany(company, { ...entry, lease });
+    return {
+      company: postTransaction(placed, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.VEHICLE_LEASE,
+        amount: quote.monthlyRate,
+        description: `Lease month 1/${termMonths}: ${vehicleLabel(vehicle)}`,
+        reference: String(vehicle.id),
+        date: lease.signedAt
+      })
+    };
+  }
+
+  /**
+   * terminationFee
+   * @description Fee for returning a vehicle before the end of its term (0 once ended).
+   */
+  terminationFee(lease: VehicleLease): number {
+    if (lease.status === 'ended') return 0;
+    const unbilled = Math.max(0, lease.termMonths - lease.billedMonths);
+    return Math.round(unbilled * lease.monthlyRate * EARLY_TERMINATION_SHARE);
+  }
+
+  /**
+   * status
+   * @description Lease figures for a vehicle (null when it is not leased).
+   */
+  status(vehicle: any): LeaseStatus | null {
+    const lease: VehicleLease | undefined = vehicle?.lease;
+    if (!lease) return null;
+    const ended = lease.status === 'ended';
+    return {
+      lease,
+      monthsLeft: Math.max(0, lease.termMonths - lease.billedMonths),
+      ended,
+      returnBy: ended ? new Date(addSimDays(lease.endsAt, RETURN_GRACE_DAYS)).toISOString() : null,
+      returnCost: this.terminationFee(lease) + lease.arrears,
+      buyoutCost: ended ? lease.residualValue + lease.arrears : null
+    };
+  }
+
+  /**
+   * remove
+   * @description Company without the vehicle; trucks pulling a removed trailer are unhitched.
+   */
+  private remove(company: any, vehicleId: string): any {
+    const id = String(vehicleId);
+    return {
+      ...company,
+      trucks: (company.trucks || [])
+        .filter((t: any) => String(t?.id) !== id)
+        .map((t: any) => (String(t?.assignedTrailer) === id ? { ...t, assignedTrailer: null } : t)),
+      trailers: (company.trailers || []).filter((t: any) => String(t?.id) !== id)
+    };
+  }
+
+  /**
+   * update
+   * @description Company with the vehicle replaced by `patch(vehicle)`.
+   */
+  private update(company: any, vehicleId: string, patch: (vehicle: any) => any): any {
+    const apply = (list: any[]) => (list || []).map((v: any) => (String(v?.id) === String(vehicleId) ? patch(v) : v));
+    return { ...company, trucks: apply(company.trucks), trailers: apply(company.trailers) };
+  }
+
+  /**
+   * returnVehicle
+   * @description Hand a leased vehicle back: before the end of the term with the termination
+   *              fee, afterwards for free. Arrears are settled either way.
+   */
+  returnVehicle(company: any, vehicleId: string, now: number = Date.now()): LeaseResult {
+    const found = this.find(company, vehicleId);
+    const status = this.status(found?.vehicle);
+    if (!found || !status) return { company, error: 'Leased vehicle not found' };
+    if (this.inUse(company, vehicleId)) return { company, error: 'The vehicle is on a job or in the workshop' };
+    if ((Number(company.capital) || 0) < status.returnCost) {
+      return { company, error: `Insufficient funds: ${status.returnCost.toLocaleString()} USD required to return the vehicle` };
+    }
+    return { company: this.settleReturn(company, found.vehicle, now) };
+  }
+
+  /**
+   * settleReturn
+   * @description Charge the termination fee and arrears and remove the vehicle.
+   */
+  private settleReturn(company: any, vehicle: any, now: number): any {
+    const lease: VehicleLease = vehicle.lease;
+    const date = new Date(now).toISOString();
+    const fee = this.terminationFee(lease);
+    let updated = this.remove(company, vehicle.id);
+    if (fee > 0) {
+      updated = postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.VEHICLE_LEASE,
+        amount: fee,
+        description: `Early lease termination: ${vehicleLabel(vehicle)}`,
+        reference: String(vehicle.id),
+        date
+      });
+    }
+    return postTransaction(updated, {
+      type: 'expense',
+      category: LEDGER_CATEGORIES.VEHICLE_LEASE,
+      amount: lease.arrears,
+      description: `Lease arrears: ${vehicleLabel(vehicle)}`,
+      reference: String(vehicle.id),
+      date
+    });
+  }
+
+  /**
+   * buyOut
+   * @description Buy a vehicle at its residual value (and arrears) once the term has ended; it
+   *              becomes an owned vehicle that depreciates from the buy-out on.
+   */
+  buyOut(company: any, vehicleId: string, now: number = Date.now()): LeaseResult {
+    const found = this.find(company, vehicleId);
+    const status = this.status(found?.vehicle);
+    if (!found || !status) return { company, error: 'Leased vehicle not found' };
+    if (status.buyoutCost === null) return { company, error: 'The vehicle can be bought out at the end of the term' };
+    if ((Number(company.capital) || 0) < status.buyoutCost) {
+      return { company, error: `Insufficient funds: ${status.buyoutCost.toLocaleString()} USD required for the buy-out` };
+    }
+    const { lease, ...owned } = found.vehicle;
+    const updated = this.update(company, vehicleId, () => ({ ...owned, purchasePrice: lease.residualValue, purchasedAt: new Date(now).toISOString() }));
+    return {
+      company: postTransaction(updated, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.VEHICLE_PURCHASE,
+        amount: status.buyoutCost,
+        description: `Lease buy-out: ${vehicleLabel(found.vehicle)}`,
+        reference: String(vehicleId),
+        date: new Date(now).toISOString()
+      })
+    };
+  }
+
+  /**
+   * chargeMonth
+   * @description Bill one lease month at `at`: pay it with the arrears when capital allows,
+   *              otherwise add it to the arrears as a missed payment.
+   */
+  private chargeMonth(company: any, vehicle: any, at: number): { company: any; lease: VehicleLease } {
+    const lease: VehicleLease = { ...vehicle.lease, billedMonths: vehicle.lease.billedMonths + 1 };
+    const due = lease.monthlyRate + lease.arrears;
+    let updated = company;
+    if ((Number(company.capital) || 0) >= due) {
+      updated = postTransaction(company, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.VEHICLE_LEASE,
+        amount: due,
+        description: `Lease month ${lease.billedMonths}/${lease.termMonths}${lease.arrears > 0 ? ' with arrears' : ''}: ${vehicleLabel(vehicle)}`,
+        reference: String(vehicle.id),
+        date: new Date(at).toISOString()
+      });
+      lease.arrears = 0;
+      lease.missedPayments = 0;
+    } else {
+      lease.arrears += lease.monthlyRate;
+      lease.missedPayments += 1;
+    }
+    lease.nextChargeAt = lease.billedMonths < lease.termMonths ? new Date(addSimDays(at, LEASE_MONTH_DAYS)).toISOString() : null;
+    return { company: updated, lease };
+  }
+
+  /**
+   * processDue
+   * @description Bill the lease months that fell due, end leases whose term is over, repossess
+   *              vehicles after REPOSSESS_AFTER missed payments and return ended leases left
+   *              undecided past the grace period.
+   */
+  processDue(company: any, now: number = Date.now()): { company: any; repossessed: string[]; returned: string[]; changed: boolean } {
+    const repossessed: string[] = [];
+    const returned: string[] = [];
+    let updated = company;
+    let changed = false;
+    const leased = [...(company?.trucks || []), ...(company?.trailers || [])].filter((v: any) => this.isLeased(v));
+
+    leased.forEach((original: any) => {
+      let vehicle = original;
+      let runs = 0;
+      while (vehicle.lease.nextChargeAt && toMs(vehicle.lease.nextChargeAt) <= now && runs < MAX_CATCH_UP_MONTHS) {
+        const charged = this.chargeMonth(updated, vehicle, toMs(vehicle.lease.nextChargeAt));
+        updated = charged.company;
+        vehicle = { ...vehicle, lease: charged.lease };
+        runs++;
+      }
+      if (vehicle.lease.status === 'active' && !vehicle.lease.nextChargeAt && toMs(vehicle.lease.endsAt) <= now) {
+        vehicle = { ...vehicle, lease: { ...vehicle.lease, status: 'ended' } };
+      }
+      if (vehicle !== original) {
+        updated = this.update(updated, vehicle.id, () => vehicle);
+        changed = true;
+      }
+      if (this.inUse(updated, vehicle.id)) return;
+
+      if (vehicle.lease.missedPayments >= REPOSSESS_AFTER) {
+        // The lessor takes the vehicle back; the arrears are written off with it
+        updated = this.remove(updated, vehicle.id);
+        repossessed.push(String(vehicle.id));
+        changed = true;
+        return;
+      }
+      const returnBy = this.status(vehicle)?.returnBy;
+      if (returnBy && toMs(returnBy) <= now) {
+        updated = this.settleReturn(updated, vehicle, now);
+        returned.push(String(vehicle.id));
+        changed = true;
+      }
+    });
+
+    return { company: updated, repossessed, returned, changed };
+  }
+}
+
+/** Export singleton service instance */
+export const vehicleLeasing = new VehicleLeasingService();
+
+export default vehicleLeasing;
@@ -0,0 +1,185 @@
+/**
+ * src/utils/vehiclePurchaseService.ts
+ *
+ * Purpose:
+ * - Purchase transaction for market listings (trucks and trailers): checks company capital,
+ *   charges the price to the ledger and queues an IncomingDelivery with an ETA parsed from the
+ *   listing availability. processIncomingDeliveries moves the vehicle into the fleet on arrival.
+ * - Used listings cost the middle of their usedPriceRange (e.g. "$18,000 - $23,000").
+ *
+ * Notes:
+ * - The transaction is atomic: it works on copies and returns the original company with an
+ *   error when any step fails, so nothing is charged without a queued delivery. Callers persist
+ *   the returned company only on success (and restore the previous one if persisting throws).
+ * - Delivery days are simulated days (see simulationClock). "In stock" arrives on the next tick;
+ *   ranges such as "2-4 weeks" use their upper bound.
+ * - The service never persists; callers persist the returned company.
+ */
+
+import type { IncomingDelivery } from '../types/incomingDelivery';
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { normalizePurchasedItem, determineVehicleKind } from './vehiclePurchaseUtils';
+import { addSimDays } from './simulationClock';
+
+/**
+ * DeliveryHub
+ * @description Hub a purchased vehicle is delivered to.
+ */
+export interface DeliveryHub {
+  id: string;
+  name: string;
+}
+
+/**
+ * PurchaseResult
+ * @description Result of a purchase; `error` is set when nothing was charged.
+ */
+export interface PurchaseResult {
+  company: any;
+  /** Queued delivery (absent on error) */
+  delivery?: IncomingDelivery;
+  error?: string;
+}
+
+/** Simulated days for made-to-order / preorder listings without a stated range */
+export const MADE_TO_ORDER_DAYS = 42;
+
+/**
+ * parseMoney
+ * @description Amounts in a text such as "$18,000 - $23,000" → [18000, 23000].
+ */
+function parseMoney(text: string): number[] {
+  return (String(text).match(/\d[\d,.]*/g) || []).map((m) => Number(m.replace(/,/g, ''))).filter((n) => Number.isFinite(n) && n > 0);
+}
+
+/**
+ * VehiclePurchaseService
+ * @description Prices, charges and queues the delivery of purchased vehicles.
+ */
+class VehiclePurchaseService {
+  /**
+   * usedPrice
+   * @description Middle of the listing usedPriceRange (null when it has none).
+   */
+  usedPrice(listing: any): number | null {
+    const range = listing?.usedPriceRange ?? listing?.specifications?.usedPriceRange;
+    const amounts = range ? parseMoney(range) : [];
+    if (amounts.length === 0) return null;
+    const low = Math.min(...amounts);
+    const high = Math.max(...amounts);
+    return Math.round((low + high) / 2);
+  }
+
+  /**
+   * price
+   * @description Price charged for a listing: the used price for used listings with a range,
+   *              otherwise the listed price (0 when invalid). Used-market listings (resale) cost
+   *              their asking price, which is what the seller collects.
+   */
+  price(listing: any): number {
+    if (!listing?.resale && String(listing?.category ?? '').toLowerCase() === 'used') {
+      const used = this.usedPrice(listing);
+      if (used !== null) return used;
+    }
+    const price = Number(listing?.price);
+    return Number.isFinite(price) && price > 0 ? Math.round(price) : 0;
+  }
+
+  /**
+   * deliveryDays
+   * @description Simulated days until delivery from the availability text ("3 days", "2-4 weeks",
+   *              "Made to order (3-6 weeks)", "Preorder"), else listing.deliveryDays ("In stock": 0).
+   */
+  deliveryDays(listing: any): number {
+    const text = String(listing?.availability ?? listing?.specifications?.availability ?? '').toLowerCase();
+    const match = text.match(/(\d+)(?:\s*-\s*(\d+))?\s*(day|week)/);
+    if (match) {
+      const amount = Number(match[2] ?? match[1]);
+      return match[3] === 'week' ? amount * 7 : amount;
+    }
+    if (/order/.test(text)) return MADE_TO_ORDER_DAYS;
+    const explicit = Number(listing?.deliveryDays);
+    return Number.isFinite(explicit) && explicit > 0 ? explicit : 0;
+  }
+
+  /**
+   * buildVehicle
+   * @description Fleet entry for a listing: identity, class fields used by assignment checks,
+   *              specifications and a copy of the listing (marketEntry). purchasePrice is set
+   *              when a price is given (omitted for leases).
+   */
+  buildVehicle(listing: any, company: any, hub: DeliveryHub | null, now: number = Date.now(), price?: number): any {
+    const marketEntry = JSON.parse(JSON.stringify(listing ?? {}));
+    const kind = determineVehicleKind(listing);
+    return normalizePurchasedItem({
+      id: `${listing?.id ?? kind}-${now.toString(36)}`,
+      vehicleKind: kind,
+      brand: listing?.brand ?? 'Unknown',
+      model: listing?.model ?? '',
+      year: listing?.year ?? new Date(now).getFullYear(),
+      condition: typeof listing?.condition === 'number' ? listing.condition : 100,
+      capacity: listing?.specifications?.capacity ?? listing?.capacity ?? 0,
+      tonnage: listing?.tonnage ?? null,
+      ...(kind === 'truck' ? { truckCategory: listing?.truckCategory, gcw: listing?.gcw ?? listing?.specifications?.gcw, mileage: Number(listing?.mileage) || 0 } : {}),
+      ...(kind === 'trailer' && listing?.trailerClass ? { trailerClass: listing.trailerClass } : {}),
+      ...(price !== undefined ? { purchasePrice: price } : {}),
+      purchasedAt: new Date(now).toISOString(),
+      status: 'available',
+      location: hub?.name ?? company?.hub?.city ?? company?.hub?.name ?? 'Hub',
+      deliveryHub: hub ? { id: hub.id, name: hub.name } : null,
+      specifications: marketEntry.specifications ?? {},
+      marketEntry
+    });
+  }
+
+  /**
+   * purchase
+   * @description Buy a listing: charge its price and queue the delivery to `hub`. Returns the
+   *              original company with an error when it cannot be bought.
+   */
+  purchase(company: any, listing: any, hub: DeliveryHub | null = null, now: number = Date.now()): PurchaseResult {
+    if (!company) return { company, error: 'No active company' };
+    if (!listing) return { company, error: 'No vehicle selected' };
+    const price = this.price(listing);
+    if (price <= 0) return { company, error: 'Invalid vehicle price' };
+    if ((Number(company.capital) || 0) < price) {
+      return { company, error: `Insufficient funds: ${price.toLocaleString()} USD required` };
+    }
+
+    try {
+      const vehicle = this.buildVehicle(listing, company, hub, now, price);
+      const days = this.deliveryDays(listing);
+      const delivery: IncomingDelivery = {
+        id: `incoming-${vehicle.id}`,
+        type: vehicle.vehicleKind,
+        spec: vehicle,
+        purchaseTime: new Date(now).toISOString(),
+        deliveryEta: new Date(addSimDays(now, days)).toISOString(),
+        source: listing.brand,
+        price,
+        quantity: 1,
+        metadata: { itemId: vehicle.id, listingId: listing.id, hub, deliveryDays: days }
+      };
+      const label = [listing.brand, listing.model].filter(Boolean).join(' ') || 'vehicle';
+      const charged = postTransaction(company, {
+        type: 'expense',
+        category: LEDGER_CATEGORIES.VEHICLE_PURCHASE,
+        amount: price,
+        description: `Purchased ${String(listing.category ?? '').toLowerCase() === 'used' ? 'used ' : ''}${label}`,
+        reference: String(vehicle.id),
+        date: delivery.purchaseTime
+      });
+      const incoming: IncomingDelivery[] = Array.isArray(charged.incomingDeliveries) ? charged.incomingDeliveries : [];
+      return { company: { ...charged, incomingDeliveries: [...incoming, delivery] }, delivery };
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('vehiclePurchaseService.purchase failed', err);
+      return { company, error: 'Purchase failed; nothing was charged' };
+    }
+  }
+}
+
+/** Export singleton service instance */
+export const vehiclePurchaseService = new VehiclePurchaseService();
+
+export default vehiclePurchaseService;
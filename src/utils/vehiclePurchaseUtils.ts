@@ -92,6 +92,7 @@ export function normalizePurchasedItem(item: any): any {
  *              - Avoids duplicates by id.
  *              - Removes item from opposite list if present.
  *              - Preserves existing array references by returning new arrays (shallow).
+ *              - Stamps purchasedAt (now) on items without one so they depreciate.
  *
  * @param company any - existing company object (may be null)
  * @param item any - purchased listing / vehicle object
@@ -99,6 +100,7 @@ export function normalizePurchasedItem(item: any): any {
  */
 export function assignPurchasedToCompany(company: any, item: any): any {
   const normalized = normalizePurchasedItem(item);
+  if (!normalized.purchasedAt) normalized.purchasedAt = new Date().toISOString();
   const id = String(normalized.id ?? normalized._id ?? normalized.uid ?? Math.random().toString(36).slice(2, 9));
   const updatedCompany: any = { ...(company || {}) };
 
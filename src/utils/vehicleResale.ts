@@ -0,0 +1,409 @@
+/**
+ * src/utils/vehicleResale.ts
+ *
+ * Purpose:
+ * - Resale of the player's own trucks and trailers. A vehicle is valued from its purchase price,
+ *   age (model year), mileage, condition and the reliability of its brand.
+ * - Two ways to sell: an instant trade-in to the dealer at a discount (capital is credited at
+ *   once), or a listing on the used market at an asking price (capital is credited when another
+ *   player buys it).
+ * - Sold and listed units appear as `category: 'used'` listings in the Vehicle Market of every
+ *   player in the same world (trade-ins are resold by the dealer at their value).
+ *
+ * Notes:
+ * - The used market is shared per world (worldStorage, no user suffix). The engine is pure:
+ *   every method takes the market and returns a new one; loadUsedMarket / saveUsedMarket store it.
+ * - Listed vehicles leave the fleet; withdrawing a listing brings the vehicle back.
+ * - Leased vehicles, vehicles on an open job and vehicles in the workshop cannot be sold.
+ * - The service never persists the company; callers persist the returned company.
+ */
+
+import { postTransaction, LEDGER_CATEGORIES } from './companyLedger';
+import { vehicleLeasing } from './vehicleLeasing';
+import { VehicleKind } from './vehiclePurchaseUtils';
+import { addSimDays, simDaysBetween, toMs } from './simulationClock';
+import { getWorldItem, setWorldItem } from './worldStorage';
+import { TRUCKS, Truck } from '../data/trucks';
+
+/**
+ * ResaleListing
+ * @description A vehicle offered on the used market.
+ */
+export interface ResaleListing {
+  id: string;
+  /** Selling company id, or DEALER_ID for trade-ins resold by the dealer */
+  sellerId: string;
+  sellerName: string;
+  /** Fleet entry as it left the seller's fleet */
+  vehicle: any;
+  kind: VehicleKind;
+  price: number;
+  /** ISO date the vehicle was listed */
+  listedAt: string;
+  status: 'listed' | 'sold';
+  buyerId?: string;
+  soldAt?: string;
+}
+
+/**
+ * UsedMarketState
+ * @description Stored used market of a world.
+ */
+export interface UsedMarketState {
+  listings: ResaleListing[];
+}
+
+/**
+ * ResaleResult
+ * @description Result of a sale or listing; `error` is set when nothing changed.
+ */
+export interface ResaleResult {
+  company: any;
+  market: UsedMarketState;
+  listing?: ResaleListing;
+  /** Amount credited to the company */
+  credited?: number;
+  error?: string;
+}
+
+/** Seller id of trade-ins resold by the dealer */
+export const DEALER_ID = 'dealer';
+/** Share of the value paid for an instant trade-in */
+export const TRADE_IN_SHARE = 0.7;
+/** Allowed asking price as a share of the value */
+export const ASKING_PRICE_RANGE: [number, number] = [0.5, 1.5];
+/** Simulated days to hand a used vehicle over to its buyer */
+export const RESALE_DELIVERY_DAYS = 3;
+/** Simulated days the dealer keeps a trade-in on the market */
+export const DEALER_LISTING_DAYS = 60;
+/** Value share kept per year of age by brand reliability grade */
+export const YEARLY_RETENTION: Record<'A' | 'B' | 'C', number> = { A: 0.9, B: 0.87, C: 0.83 };
+/** Value lost per 100,000 km, and the lowest mileage factor */
+export const MILEAGE_LOSS_PER_100K = 0.08;
+export const MIN_MILEAGE_FACTOR = 0.4;
+/** A vehicle is never valued below this share of its purchase price */
+export const MIN_VALUE_SHARE = 0.1;
+/** Simulated days per year of vehicle age */
+export const SIM_YEAR_DAYS = 365;
+
+const STORAGE_KEY = 'used_vehicle_market';
+
+/**
+ * BRAND_GRADES
+ * @description Most common reliability grade of each brand in the truck catalog (lower-case brand).
+ */
+const BRAND_GRADES: Record<string, 'A' | 'B' | 'C'> = (() => {
+  const counts: Record<string, Record<string, number>> = {};
+  const catalog: Array<Pick<Truck, 'brand' | 'reliability'>> = [...TRUCKS.small, ...TRUCKS.medium, ...TRUCKS.big];
+  for (const truck of catalog) {
+    const brand = String(truck.brand ?? '').toLowerCase();
+    const grade = truck.reliability;
+    if (!brand || !grade) continue;
+    counts[brand] = counts[brand] ?? {};
+    counts[brand][grade] = (counts[brand][grade] ?? 0) + 1;
+  }
+  const grades: Record<string, 'A' | 'B' | 'C'> = {};
+  for (const [brand, byGrade] of Object.entries(counts)) {
+    grades[brand] = Object.entries(byGrade).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0] as 'A' | 'B' | 'C';
+  }
+  return grades;
+})();
+
+/**
+ * VehicleResaleService
+ * @description Values, trades in and lists fleet vehicles on the shared used market.
+ */
+class VehicleResaleService {
+  /**
+   * create
+   * @description Empty used market.
+   */
+  create(): UsedMarketState {
+    return { listings: [] };
+  }
+
+  /**
+   * brandGrade
+   * @description Reliability grade of the vehicle brand (catalog), else of the vehicle itself, else 'B'.
+   */
+  brandGrade(vehicle: any): 'A' | 'B' | 'C' {
+    const byBrand = BRAND_GRADES[String(vehicle?.brand ?? '').toLowerCase()];
+    if (byBrand) return byBrand;
+    const own = vehicle?.reliability ?? vehicle?.specifications?.reliability;
+    return ['A', 'B', 'C'].includes(own) ? own : 'B';
+  }
+
+  /**
+   * stateFactor
+   * @description Value share of a vehicle state: yearly retention by brand grade, mileage and condition.
+   */
+  private stateFactor(grade: 'A' | 'B' | 'C', ageYears: number, mileage: number, condition: number): number {
+    const age = YEARLY_RETENTION[grade] ** Math.max(0, ageYears);
+    const km = Math.max(MIN_MILEAGE_FACTOR, 1 - MILEAGE_LOSS_PER_100K * (Math.max(0, mileage) / 100000));
+    const cond = 0.5 + 0.5 * (Math.min(100, Math.max(0, condition)) / 100);
+    return age * km * cond;
+  }
+
+  /**
+   * value
+   * @description Market value: the purchase price scaled by how much the vehicle aged, was driven
+   *              and wore since it was bought (the listing it was bought from records the state
+   *              at purchase), never above the purchase price. Age counts the model year at
+   *              purchase plus the simulated years owned.
+   */
+  value(vehicle: any, now: number = Date.now()): number {
+    const paid = Number(vehicle?.purchasePrice ?? vehicle?.marketEntry?.price ?? vehicle?.price) || 0;
+    if (paid <= 0) return 0;
+    const grade = this.brandGrade(vehicle);
+    const boughtAt = vehicle?.purchasedAt ? toMs(vehicle.purchasedAt) : now;
+    const year = Number(vehicle?.year) || new Date(boughtAt).getUTCFullYear();
+    const ageAtPurchase = new Date(boughtAt).getUTCFullYear() - year;
+    const owned = Math.max(0, simDaysBetween(boughtAt, now)) / SIM_YEAR_DAYS;
+    const atPurchase = vehicle?.marketEntry ?? {};
+    const then = this.stateFactor(
+      grade,
+      ageAtPurchase,
+      Number(atPurchase.mileage) || 0,
+      typeof atPurchase.condition === 'number' ? atPurchase.condition : 100
+    );
+    const current = this.stateFactor(
+      grade,
+      ageAtPurchase + owned,
+      Number(vehicle?.mileage) || 0,
+      typeof vehicle?.condition === 'number' ? vehicle.condition : 100
+    );
+    const share = Math.max(MIN_VALUE_SHARE, Math.min(1, then > 0 ? current / then : 1));
+    return Math.round(paid * share);
+  }
+
+  /**
+   * tradeInValue
+   * @description Instant sale price offered by the dealer.
+   */
+  tradeInValue(vehicle: any, now: number = Date.now()): number {
+    return Math.round(this.value(vehicle, now) * TRADE_IN_SHARE);
+  }
+
+  /**
+   * canSell
+   * @description Error message when a fleet vehicle cannot be sold, null otherwise.
+   */
+  canSell(company: any, vehicleId: string): string | null {
+    const found = vehicleLeasing.find(company, vehicleId);
+    if (!found) return 'Vehicle not found';
+    if (vehicleLeasing.isLeased(found.vehicle)) return 'Leased vehicles cannot be sold';
+    if (vehicleLeasing.inUse(company, vehicleId)) return 'The vehicle is on a job or in the workshop';
+    return null;
+  }
+
+  /**
+   * tradeIn
+   * @description Sell a vehicle to the dealer at the trade-in price; the dealer resells it on the
+   *              used market at its value.
+   */
+  tradeIn(company: any, market: UsedMarketState, vehicleId: string, now: number = Date.now()): ResaleResult {
+    const error = this.canSell(company, vehicleId);
+    if (error) return { company, market, error };
+    const { vehicle, kind } = vehicleLeasing.find(company, vehicleId)!;
+    const price = this.tradeInValue(vehicle, now);
+    const listing = this.createListing(vehicle, kind, DEALER_ID, 'Dealer', this.value(vehicle, now), now);
+    const sold = postTransaction(this.remove(company, vehicleId), {
+      type: 'income',
+      category: LEDGER_CATEGORIES.VEHICLE_SALE,
+      amount: price,
+      description: `Trade-in: ${this.label(vehicle)}`,
+      reference: String(vehicleId),
+      date: new Date(now).toISOString()
+    });
+    return { company: sold, market: { listings: [...market.listings, listing] }, listing, credited: price };
+  }
+
+  /**
+   * list
+   * @description Put a vehicle on the used market at an asking price (default: its value) within
+   *              ASKING_PRICE_RANGE of its value. The vehicle leaves the fleet until sold or withdrawn.
+   */
+  list(company: any, market: UsedMarketState, vehicleId: string, askingPrice?: number, now: number = Date.now()): ResaleResult {
+    const error = this.canSell(company, vehicleId);
+    if (error) return { company, market, error };
+    const { vehicle, kind } = vehicleLeasing.find(company, vehicleId)!;
+    const value = this.value(vehicle, now);
+    const price = Math.round(askingPrice ?? value);
+    const [low, high] = ASKING_PRICE_RANGE.map((share) => Math.round(value * share));
+    if (!Number.isFinite(price) || price < low || price > high) {
+      return { company, market, error: `Asking price must be between ${low.toLocaleString()} and ${high.toLocaleString()}` };
+    }
+    const listing = this.createListing(vehicle, kind, String(company.id), company.name ?? 'Company', price, now);
+    return { company: this.remove(company, vehicleId), market: { listings: [...market.listings, listing] }, listing };
+  }
+
+  /**
+   * withdraw
+   * @description Take an unsold listing of the company off the market and return the vehicle to the fleet.
+   */
+  withdraw(company: any, market: UsedMarketState, listingId: string): ResaleResult {
+    const listing = market.listings.find((l) => l.id === listingId);
+    if (!listing || listing.sellerId !== String(company?.id)) return { company, market, error: 'Listing not found' };
+    if (listing.status !== 'listed') return { company, market, error: 'The vehicle has already been sold' };
+    const key = listing.kind === 'trailer' ? 'trailers' : 'trucks';
+    return {
+      company: { ...company, [key]: [...(company[key] || []), listing.vehicle] },
+      market: { listings: market.listings.filter((l) => l.id !== listingId) },
+      listing
+    };
+  }
+
+  /**
+   * available
+   * @description Listings another company can buy, as Vehicle Market entries (`category: 'used'`).
+   */
+  available(market: UsedMarketState, companyId: string): any[] {
+    return market.listings
+      .filter((l) => l.status === 'listed' && l.sellerId !== String(companyId))
+      .map((l) => this.toMarketEntry(l));
+  }
+
+  /**
+   * own
+   * @description Listings of a company that are still for sale.
+   */
+  own(market: UsedMarketState, companyId: string): ResaleListing[] {
+    return market.listings.filter((l) => l.status === 'listed' && l.sellerId === String(companyId));
+  }
+
+  /**
+   * toMarketEntry
+   * @description Vehicle Market entry for a listing; `resale` links the entry to its listing.
+   */
+  toMarketEntry(listing: ResaleListing): any {
+    const v = listing.vehicle ?? {};
+    return {
+      id: listing.id,
+      vehicleKind: listing.kind,
+      category: 'used',
+      brand: v.brand,
+      model: v.model,
+      year: v.year,
+      condition: v.condition,
+      mileage: v.mileage,
+      price: listing.price,
+      availability: `${RESALE_DELIVERY_DAYS} days`,
+      tonnage: v.tonnage ?? null,
+      capacity: v.capacity,
+      ...(listing.kind === 'truck' ? { truckCategory: v.truckCategory, gcw: v.gcw } : { trailerClass: v.trailerClass }),
+      specifications: v.specifications ?? {},
+      resale: { listingId: listing.id, sellerName: listing.sellerName }
+    };
+  }
+
+  /**
+   * markSold
+   * @description Mark a listing sold to a company (the seller collects the price on its next tick).
+   */
+  markSold(market: UsedMarketState, listingId: string, buyerId: string, now: number = Date.now()): { market: UsedMarketState; error?: string } {
+    const listing = market.listings.find((l) => l.id === listingId);
+    if (!listing || listing.status !== 'listed') return { market, error: 'This vehicle is no longer for sale' };
+    if (listing.sellerId === String(buyerId)) return { market, error: 'You cannot buy your own vehicle' };
+    const soldAt = new Date(now).toISOString();
+    return {
+      market: {
+        listings: listing.sellerId === DEALER_ID
+          ? market.listings.filter((l) => l.id !== listingId)
+          : market.listings.map((l) => (l.id === listingId ? { ...l, status: 'sold' as const, buyerId: String(buyerId), soldAt } : l))
+      }
+    };
+  }
+
+  /**
+   * collect
+   * @description Credit the company for its sold listings and drop them from the market; dealer
+   *              listings older than DEALER_LISTING_DAYS leave the market.
+   */
+  collect(company: any, market: UsedMarketState, now: number = Date.now()): ResaleResult & { sold: ResaleListing[] } {
+    const companyId = String(company?.id);
+    const sold = market.listings.filter((l) => l.status === 'sold' && l.sellerId === companyId);
+    const expired = market.listings.filter((l) => l.sellerId === DEALER_ID && addSimDays(toMs(l.listedAt), DEALER_LISTING_DAYS) <= now);
+    if (sold.length === 0 && expired.length === 0) return { company, market, sold };
+
+    let updated = company;
+    for (const listing of sold) {
+      updated = postTransaction(updated, {
+        type: 'income',
+        category: LEDGER_CATEGORIES.VEHICLE_SALE,
+        amount: listing.price,
+        description: `Sold on the used market: ${this.label(listing.vehicle)}`,
+        reference: String(listing.vehicle?.id ?? listing.id),
+        date: listing.soldAt ?? new Date(now).toISOString()
+      });
+    }
+    const drop = new Set([...sold, ...expired].map((l) => l.id));
+    const credited = sold.reduce((sum, l) => sum + l.price, 0);
+    return { company: updated, market: { listings: market.listings.filter((l) => !drop.has(l.id)) }, sold, credited };
+  }
+
+  /**
+   * createListing
+   * @description New listing for a fleet vehicle (driver and hitch references are cleared).
+   */
+  private createListing(vehicle: any, kind: VehicleKind, sellerId: string, sellerName: string, price: number, now: number): ResaleListing {
+    return {
+      id: `used-${vehicle.id}-${now.toString(36)}`,
+      sellerId,
+      sellerName,
+      vehicle: kind === 'truck'
+        ? { ...vehicle, status: 'available', driver: null, assignedTrailer: null }
+        : { ...vehicle, assignedTruck: null },
+      kind,
+      price,
+      listedAt: new Date(now).toISOString(),
+      status: 'listed'
+    };
+  }
+
+  /**
+   * remove
+   * @description Company without the vehicle; trucks and trailers hitched to it are unhitched.
+   */
+  private remove(company: any, vehicleId: string): any {
+    const id = String(vehicleId);
+    return {
+      ...company,
+      trucks: (company.trucks || [])
+        .filter((t: any) => String(t?.id) !== id)
+        .map((t: any) => (String(t?.assignedTrailer) === id ? { ...t, assignedTrailer: null } : t)),
+      trailers: (company.trailers || [])
+        .filter((t: any) => String(t?.id) !== id)
+        .map((t: any) => (String(t?.assignedTruck) === id ? { ...t, assignedTruck: null } : t))
+    };
+  }
+
+  /**
+   * label
+   * @description Brand and model of a vehicle for ledger descriptions.
+   */
+  private label(vehicle: any): string {
+    return [vehicle?.brand, vehicle?.model].filter(Boolean).join(' ') || String(vehicle?.id ?? 'vehicle');
+  }
+}
+
+/**
+ * loadUsedMarket
+ * @description Stored used market of the current world (empty when none).
+ */
+export function loadUsedMarket(): UsedMarketState {
+  const stored = getWorldItem(STORAGE_KEY);
+  return stored && Array.isArray(stored.listings) ? stored : vehicleResale.create();
+}
+
+/**
+ * saveUsedMarket
+ * @description Store the used market of the current world.
+ */
+export function saveUsedMarket(market: UsedMarketState): boolean {
+  return setWorldItem(STORAGE_KEY, market);
+}
+
+/** Export singleton service instance */
+export const vehicleResale = new VehicleResaleService();
+
+export default vehicleResale;